@@ -4,11 +4,15 @@ import { QueryClientProvider } from "@tanstack/react-query";
 import { Toaster } from "@/components/ui/toaster";
 import NotFound from "@/pages/not-found";
 import Home from "@/pages/home";
+import TamperCheck from "@/pages/tamper-check";
+import Verify from "@/pages/verify";
 
 function Router() {
   return (
     <Switch>
       <Route path="/" component={Home} />
+      <Route path="/tamper" component={TamperCheck} />
+      <Route path="/verify" component={Verify} />
       <Route component={NotFound} />
     </Switch>
   );
@@ -1,18 +1,28 @@
-import React, { useState } from 'react';
-import { AlertCircle, Info } from 'lucide-react';
+import React from 'react';
+import { AlertCircle, AlertTriangle, Info, ShieldCheck } from 'lucide-react';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { getExifProtectionData } from '@/lib/image-processor';
+import { useImageMetadata } from '@/hooks/use-image-metadata';
+import { keepsExifTag, removedEntries, SENSITIVE_LABELS, sensitiveKind, type MetadataEntry, type MetadataPreset } from '@shared/metadata-privacy';
+import { xmpProperties, type XmpRightsSettings } from '@shared/xmp-rights';
+import { iptcFields, type IptcNoticeSettings } from '@shared/iptc-notice';
+import type { ExifNoticeSettings } from '@shared/exif-notice';
+import type { AiNotice } from '@shared/decoded-metadata';
+import type { TemplateVariables } from '@shared/watermark-template';
 
 interface ExifDisplayProps {
-  imageFile: File | null;
+  imageFile: File;
   exifProtectionEnabled: boolean;
+  metadataPreset: MetadataPreset;
+  xmpRights: XmpRightsSettings;
+  iptcNotice: IptcNoticeSettings;
+  exifNotice: ExifNoticeSettings;
+  templateVariables: TemplateVariables | null;
 }
 
-export default function ExifDisplay({ imageFile, exifProtectionEnabled }: ExifDisplayProps) {
-  if (!imageFile) {
-    return null;
-  }
+export default function ExifDisplay({ imageFile, exifProtectionEnabled, metadataPreset, xmpRights, iptcNotice, exifNotice, templateVariables }: ExifDisplayProps) {
+  const { entries, aiNotices, loading } = useImageMetadata(imageFile);
 
   // Basic file metadata that we can extract without server
   const originalMetadata = {
@@ -23,7 +33,7 @@ export default function ExifDisplay({ imageFile, exifProtectionEnabled }: ExifDi
   };
 
   // Get the EXIF protection data that would be added
-  const exifProtectionData = getExifProtectionData();
+  const exifProtectionData = getExifProtectionData(exifNotice, templateVariables);
   
   // Create the protected metadata view (either identical to original or with additions)
   const protectedMetadata = exifProtectionEnabled 
@@ -34,6 +44,27 @@ export default function ExifDisplay({ imageFile, exifProtectionEnabled }: ExifDi
       }
     : { ...originalMetadata };
 
+  // IPTC datasets written to the download, they replace the upload's values
+  const iptcData: Record<string, string> = {};
+  iptcFields(iptcNotice).forEach((field) => {
+    iptcData[field.name] = field.value;
+  });
+
+  // Entries the preset keeps, without the ones the notices overwrite
+  const removed = removedEntries(entries, metadataPreset);
+  const kept = entries.filter((entry) =>
+    keepsExifTag(metadataPreset, entry.group, entry.name) &&
+    !(exifProtectionEnabled && entry.name in exifProtectionData) &&
+    !(entry.group === 'IPTC' && entry.name in iptcData)
+  );
+  const keptSensitive = kept.filter((entry) => sensitiveKind(entry) !== null);
+
+  // XMP properties written to the download, merged into any packet that is kept
+  const xmpData: Record<string, string> = {};
+  xmpProperties(xmpRights).forEach((property) => {
+    xmpData[property.name] = property.value;
+  });
+
   return (
     <div className="mt-8 space-y-4">
       <CardHeader className="p-0">
@@ -53,6 +84,12 @@ export default function ExifDisplay({ imageFile, exifProtectionEnabled }: ExifDi
           </CardHeader>
           <CardContent>
             <MetadataDisplay data={originalMetadata} />
+            {loading
+              ? <p className="text-sm text-gray-500 mt-4">Reading metadata...</p>
+              : <>
+                  <NoticeList notices={aiNotices} />
+                  <EntryList entries={entries} />
+                </>}
           </CardContent>
         </Card>
 
@@ -68,17 +105,47 @@ export default function ExifDisplay({ imageFile, exifProtectionEnabled }: ExifDi
               data={protectedMetadata} 
               highlightKeys={Object.keys(exifProtectionData)}
             />
+            {Object.keys(xmpData).length > 0 && (
+              <div className="mt-4 pt-4 border-t border-gray-200">
+                <p className="text-sm font-medium text-gray-700 mb-2">XMP rights notices</p>
+                <MetadataDisplay data={xmpData} highlightKeys={Object.keys(xmpData)} />
+              </div>
+            )}
+            {Object.keys(iptcData).length > 0 && (
+              <div className="mt-4 pt-4 border-t border-gray-200">
+                <p className="text-sm font-medium text-gray-700 mb-2">IPTC notice</p>
+                <MetadataDisplay data={iptcData} highlightKeys={Object.keys(iptcData)} />
+              </div>
+            )}
+            <EntryList entries={kept} />
+            {removed.length > 0 && (
+              <div className="mt-4 pt-4 border-t border-gray-200">
+                <p className="text-sm font-medium text-gray-700 mb-2">Removed on download ({removed.length})</p>
+                <EntryList entries={removed} removed />
+              </div>
+            )}
           </CardContent>
         </Card>
       </div>
 
+      {keptSensitive.length > 0 && (
+        <Alert variant="destructive">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>Identifying metadata will be published</AlertTitle>
+          <AlertDescription>
+            {keptSensitive.map((entry) => `${entry.name} (${SENSITIVE_LABELS[sensitiveKind(entry)!]})`).join(', ')}.
+            Choose a metadata preset in the export settings to remove them.
+          </AlertDescription>
+        </Alert>
+      )}
+
       {exifProtectionEnabled && (
         <Alert>
           <AlertCircle className="h-4 w-4" />
           <AlertTitle>About EXIF Protection</AlertTitle>
           <AlertDescription>
-            Browser limitations prevent us from directly modifying EXIF data in downloads. 
-            In a production environment, the server would add EXIF tags including 'Copyright: DO NOT USE FOR AI TRAINING'.
+            The highlighted tags are written into the downloaded file by the server, with the template variables resolved for this image.
+            Tags left empty in the settings keep the image's own values.
             The downloaded image has a watermark indicating the EXIF protection.
           </AlertDescription>
         </Alert>
@@ -87,6 +154,57 @@ export default function ExifDisplay({ imageFile, exifProtectionEnabled }: ExifDi
   );
 }
 
+interface EntryListProps {
+  entries: MetadataEntry[];
+  removed?: boolean; // Struck through, the preset removes them
+}
+
+// Metadata entries with their group, identifying ones flagged
+function EntryList({ entries, removed = false }: EntryListProps) {
+  if (entries.length === 0) return null;
+  return (
+    <div className="text-sm mt-4 space-y-2">
+      {entries.map((entry, index) => {
+        const kind = sensitiveKind(entry);
+        return (
+          <div key={index} className={`flex ${removed ? 'line-through text-gray-400' : ''}`}>
+            <div className={`flex-1 font-medium flex items-center ${kind && !removed ? 'text-amber-600' : removed ? '' : 'text-gray-700'}`}>
+              {kind && <AlertTriangle className="h-3 w-3 mr-1 flex-shrink-0" aria-label={SENSITIVE_LABELS[kind]} />}
+              <span className="text-xs text-gray-400 mr-1">{entry.group}</span>
+              {entry.name}:
+            </div>
+            <div className={`flex-1 break-all ${removed ? '' : 'text-gray-600'}`}>
+              {entry.value}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+// Notices against AI training the upload already carries, machine-readable ones marked
+function NoticeList({ notices }: { notices: AiNotice[] }) {
+  if (notices.length === 0) return null;
+  return (
+    <div className="mt-4 pt-4 border-t border-gray-200 text-sm">
+      <p className="font-medium text-gray-700 mb-2">AI-training notices found ({notices.length})</p>
+      <div className="space-y-2">
+        {notices.map((notice, index) => (
+          <div key={index} className="flex">
+            <div className="flex-1 font-medium flex items-center text-gray-700">
+              {notice.machineReadable && <ShieldCheck className="h-3 w-3 mr-1 flex-shrink-0 text-green-600" aria-label="Machine-readable" />}
+              <span className="text-xs text-gray-400 mr-1">{notice.source}</span>
+              {notice.field}:
+            </div>
+            <div className="flex-1 break-all text-gray-600">{notice.value}</div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
 interface MetadataDisplayProps {
   data: Record<string, string>;
   highlightKeys?: string[];
@@ -106,7 +224,7 @@ function MetadataDisplay({ data, highlightKeys = [] }: MetadataDisplayProps) {
                 {key}:
               </div>
               <div 
-                className={`flex-1 ${isHighlighted ? 'text-accent font-medium' : 'text-gray-600'}`}
+                className={`flex-1 break-all ${isHighlighted ? 'text-accent font-medium' : 'text-gray-600'}`}
               >
                 {value}
               </div>
@@ -1,4 +1,5 @@
 import React from 'react';
+import { Link } from 'wouter';
 import { ShieldCheck } from 'lucide-react';
 
 export default function Header() {
@@ -6,11 +7,17 @@ export default function Header() {
     <header className="bg-white shadow-sm">
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-4">
         <div className="flex justify-between items-center">
-          <h1 className="text-2xl font-bold text-primary flex items-center">
-            <ShieldCheck className="h-8 w-8 mr-2 text-accent" />
-            AI Defense Watermarker
-          </h1>
-          <a href="#" className="text-accent hover:text-accent/80 font-medium">Help</a>
+          <Link href="/">
+            <h1 className="text-2xl font-bold text-primary flex items-center cursor-pointer">
+              <ShieldCheck className="h-8 w-8 mr-2 text-accent" />
+              AI Defense Watermarker
+            </h1>
+          </Link>
+          <nav className="flex items-center space-x-6">
+            <Link href="/verify" className="text-accent hover:text-accent/80 font-medium">Check an Image</Link>
+            <Link href="/tamper" className="text-accent hover:text-accent/80 font-medium">Tamper Check</Link>
+            <a href="#" className="text-accent hover:text-accent/80 font-medium">Help</a>
+          </nav>
         </div>
       </div>
     </header>
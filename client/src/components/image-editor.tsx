@@ -1,16 +1,39 @@
 import React from 'react';
-import { ImageInfo, WatermarkSettings, AdversarialSettings } from '@/pages/home';
+import { ImageInfo, WatermarkSettings, WatermarkRegion, AdversarialSettings, InvisibleWatermarkSettings } from '@/pages/home';
 import ImagePreview from '@/components/image-preview';
 import WatermarkForm from '@/components/watermark-form';
+import { resolveTemplate, type TemplateVariables } from '@shared/watermark-template';
+import { formatFromContentType, withFormatExtension } from '@shared/image-formats';
+import type { OutputSettings, RaisedQuality } from '@shared/output-settings';
+import type { XmpRightsSettings } from '@shared/xmp-rights';
+import type { IptcNoticeSettings } from '@shared/iptc-notice';
+import type { ExifNoticeSettings } from '@shared/exif-notice';
+import { useEstimatedSize } from '@/hooks/use-estimated-size';
+import { useImageMetadata } from '@/hooks/use-image-metadata';
 
 interface ImageEditorProps {
   image: ImageInfo;
   watermarkSettings: WatermarkSettings;
   exifProtection: boolean;
   adversarialSettings: AdversarialSettings;
+  invisibleSettings: InvisibleWatermarkSettings;
+  tamperProtection: boolean;
+  c2paManifest: boolean;
+  outputSettings: OutputSettings;
+  xmpRights: XmpRightsSettings;
+  iptcNotice: IptcNoticeSettings;
+  exifNotice: ExifNoticeSettings;
+  templateVariables: TemplateVariables | null;
   onUpdateSettings: (settings: Partial<WatermarkSettings>) => void;
   onExifToggle: (enabled: boolean) => void;
+  onTamperToggle: (enabled: boolean) => void;
+  onC2paToggle: (enabled: boolean) => void;
+  onOutputUpdate: (settings: Partial<OutputSettings>) => void;
+  onXmpUpdate: (settings: Partial<XmpRightsSettings>) => void;
+  onIptcUpdate: (settings: Partial<IptcNoticeSettings>) => void;
+  onExifNoticeUpdate: (settings: Partial<ExifNoticeSettings>) => void;
   onAdversarialUpdate: (settings: Partial<AdversarialSettings>) => void;
+  onInvisibleUpdate: (settings: Partial<InvisibleWatermarkSettings>) => void;
 }
 
 export default function ImageEditor({ 
@@ -18,10 +41,40 @@ export default function ImageEditor({
   watermarkSettings, 
   exifProtection,
   adversarialSettings,
+  invisibleSettings,
+  tamperProtection,
+  c2paManifest,
+  outputSettings,
+  xmpRights,
+  iptcNotice,
+  exifNotice,
+  templateVariables,
   onUpdateSettings,
   onExifToggle,
-  onAdversarialUpdate
+  onTamperToggle,
+  onC2paToggle,
+  onOutputUpdate,
+  onXmpUpdate,
+  onIptcUpdate,
+  onExifNoticeUpdate,
+  onAdversarialUpdate,
+  onInvisibleUpdate
 }: ImageEditorProps) {
+  // The preview shows the text with template variables filled in
+  const previewSettings = React.useMemo(() => (
+    templateVariables
+      ? { ...watermarkSettings, text: resolveTemplate(watermarkSettings.text, templateVariables) }
+      : watermarkSettings
+  ), [watermarkSettings, templateVariables]);
+  
+  // Where the server's content-aware placement put the watermark last time
+  const [autoRegion, setAutoRegion] = React.useState<WatermarkRegion | null>(null);
+  React.useEffect(() => setAutoRegion(null), [image.file]);
+  
+  const estimatedSize = useEstimatedSize(image.file, outputSettings, tamperProtection);
+  const metadata = useImageMetadata(image.file);
+
+
   const handleProcessImage = async () => {
     try {
       // Process the image on the client side using our utility
@@ -32,11 +85,21 @@ export default function ImageEditor({
           alert(processingMessage);
           
           // Process the image client-side
+          let raisedQuality: RaisedQuality | null = null;
           const processedBlob = await module.createDownloadableImage(
             image.file,
             watermarkSettings,
             exifProtection,
-            adversarialSettings
+            adversarialSettings,
+            invisibleSettings,
+            tamperProtection,
+            outputSettings,
+            xmpRights,
+            iptcNotice,
+            exifNotice,
+            c2paManifest,
+            setAutoRegion,
+            (raised) => { raisedQuality = raised; }
           );
           
           // Create a URL from the blob
@@ -45,7 +108,10 @@ export default function ImageEditor({
           // Create an anchor element to trigger download
           const a = document.createElement('a');
           a.href = url;
-          a.download = `watermarked-${image.file.name}`;
+          // Name the file after the format actually returned, tamper protection may have changed it
+          const format = formatFromContentType(processedBlob.type);
+          const fileName = format ? withFormatExtension(image.file.name, format) : image.file.name;
+          a.download = `watermarked-${fileName}`;
           document.body.appendChild(a);
           a.click();
           a.remove();
@@ -54,7 +120,7 @@ export default function ImageEditor({
           URL.revokeObjectURL(url);
           
           // Provide feedback
-          alert('Image processed successfully! Download should begin automatically.');
+          alert(`Image processed successfully! Download should begin automatically.${raisedQuality ? `\n\n${describeRaisedQuality(raisedQuality)}` : ''}`);
         } catch (innerError) {
           console.error('Error in client-side processing:', innerError);
           if (innerError instanceof Error) {
@@ -81,19 +147,46 @@ export default function ImageEditor({
     <div className="grid grid-cols-1 lg:grid-cols-3 min-h-[600px]">
       <ImagePreview 
         image={image} 
-        watermarkSettings={watermarkSettings}
-        onPositionChange={(position) => onUpdateSettings({ position })}
+        watermarkSettings={previewSettings}
+        autoRegion={autoRegion}
+        onUpdateSettings={onUpdateSettings}
       />
       
       <WatermarkForm 
         watermarkSettings={watermarkSettings}
         exifProtection={exifProtection}
         adversarialSettings={adversarialSettings}
+        invisibleSettings={invisibleSettings}
+        tamperProtection={tamperProtection}
+        c2paManifest={c2paManifest}
+        sourceFormat={image.format}
+        sourceFrames={image.frames}
+        outputSettings={outputSettings}
+        xmpRights={xmpRights}
+        iptcNotice={iptcNotice}
+        exifNotice={exifNotice}
+        estimatedSize={estimatedSize}
+        metadataEntries={metadata.entries}
+        templateVariables={templateVariables}
         onUpdateSettings={onUpdateSettings}
         onExifToggle={onExifToggle}
+        onTamperToggle={onTamperToggle}
+        onC2paToggle={onC2paToggle}
+        onOutputUpdate={onOutputUpdate}
+        onXmpUpdate={onXmpUpdate}
+        onIptcUpdate={onIptcUpdate}
+        onExifNoticeUpdate={onExifNoticeUpdate}
         onAdversarialUpdate={onAdversarialUpdate}
+        onInvisibleUpdate={onInvisibleUpdate}
         onProcessImage={handleProcessImage}
       />
     </div>
   );
 }
+
+// Why the download is larger than the chosen quality would make it
+function describeRaisedQuality(raised: RaisedQuality): string {
+  const lost = raised.stages.map((stage) => stage === 'noise' ? 'the adversarial noise' : 'the invisible watermark').join(' and ');
+  const written = raised.quality === null ? 'losslessly' : `at quality ${raised.quality}`;
+  return `At quality ${raised.requested} the encoder removed ${lost}, so the image was saved ${written} and is larger than the size estimate.`;
+}
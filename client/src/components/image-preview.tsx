@@ -1,115 +1,484 @@
-import React, { useMemo } from 'react';
-import { ImageInfo, WatermarkSettings } from '@/pages/home';
+import React, { useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react';
+import { ImageInfo, WatermarkPlacement, WatermarkRegion, WatermarkSettings } from '@/pages/home';
 import PositionSelector from '@/components/position-selector';
+import { cssFontFamily, hexToRgba, PLATE_PADDING, sampleContrastColors, withContrastColors } from '@/lib/image-processor';
+import { autoOutlineWidth, type ContrastColors } from '@shared/contrast';
 
 interface ImagePreviewProps {
   image: ImageInfo;
   watermarkSettings: WatermarkSettings;
-  onPositionChange: (position: string) => void;
+  autoRegion: WatermarkRegion | null; // Last region chosen by content-aware placement
+  onUpdateSettings: (settings: Partial<WatermarkSettings>) => void;
 }
 
+type Gesture = 'move' | 'rotate' | 'resize';
+
+const EDGE_MARGIN = 30; // Inset of preset positions in image pixels (same as the renderers)
+const SNAP_DISTANCE = 12; // Screen pixels within which a dragged mark snaps to a preset
+const MIN_FONT_SIZE = 12;
+const MAX_FONT_SIZE = 144;
+
 export default function ImagePreview({ 
   image, 
   watermarkSettings,
-  onPositionChange
+  autoRegion,
+  onUpdateSettings
 }: ImagePreviewProps) {
-  // Calculate watermark position styles based on the selected position
-  const watermarkStyle = useMemo(() => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const imageRef = useRef<HTMLImageElement>(null);
+  const boxRef = useRef<HTMLDivElement>(null);
+  const textRef = useRef<HTMLSpanElement>(null);
+  const logoRef = useRef<HTMLElement>(null);
+  const [activeGesture, setActiveGesture] = useState<Gesture | null>(null);
+
+  // Sizes are in image pixels, so scale them down to the displayed image
+  const [scale, setScale] = useState(1);
+  const [naturalSize, setNaturalSize] = useState({ width: 0, height: 0 });
+  useEffect(() => {
+    const img = imageRef.current;
+    if (!img) return;
+
+    const update = () => {
+      if (!img.naturalWidth) return;
+      setScale(img.clientWidth / img.naturalWidth);
+      setNaturalSize({ width: img.naturalWidth, height: img.naturalHeight });
+    };
+    update();
+    img.addEventListener('load', update);
+    const observer = new ResizeObserver(update);
+    observer.observe(img);
+    return () => {
+      img.removeEventListener('load', update);
+      observer.disconnect();
+    };
+  }, [image.url]);
+
+  // Auto contrast colors, sampled from the image under the rendered text and logo
+  const [contrast, setContrast] = useState<{ text: ContrastColors | null; logo: ContrastColors | null }>({ text: null, logo: null });
+  useLayoutEffect(() => {
+    const img = imageRef.current;
+    const none = { text: null, logo: null };
+    if (!watermarkSettings.autoContrast || !img || !img.naturalWidth || !scale) {
+      setContrast((current) => (current.text || current.logo ? none : current));
+      return;
+    }
+
+    // Screen rectangles relative to the displayed image, in image pixels
+    const imageRect = img.getBoundingClientRect();
+    const toImagePixels = (rect: DOMRect) => ({
+      left: (rect.left - imageRect.left) / scale,
+      top: (rect.top - imageRect.top) / scale,
+      width: rect.width / scale,
+      height: rect.height / scale,
+    });
+    const textRegion = watermarkSettings.mode === 'tiled'
+      ? { left: 0, top: 0, width: img.naturalWidth, height: img.naturalHeight }
+      : textRef.current ? toImagePixels(textRef.current.getBoundingClientRect()) : null;
+    const next = {
+      text: textRegion ? sampleContrastColors(img, textRegion, watermarkSettings.contrastRatio) : null,
+      logo: logoRef.current ? sampleContrastColors(img, toImagePixels(logoRef.current.getBoundingClientRect()), watermarkSettings.contrastRatio) : null,
+    };
+    setContrast((current) => (JSON.stringify(current) === JSON.stringify(next) ? current : next));
+  }, [watermarkSettings, scale, naturalSize, autoRegion]);
+
+  // Text styling shared by the single and tiled overlays (mirrors the canvas renderer)
+  const textStyle = useMemo(() => {
+    const styled = contrast.text ? withContrastColors(watermarkSettings, contrast.text) : watermarkSettings;
+    const { fontSize, fillColor, strokeColor, strokeWidth, fontFamily, fontWeight, letterSpacing, shadow, background, backgroundColor, backgroundOpacity } = styled;
     const style: React.CSSProperties = {
-      opacity: watermarkSettings.opacity / 100,
-      fontSize: `${watermarkSettings.fontSize}px`,
-      color: 'white',
-      fontWeight: 'bold',
+      display: 'inline-block',
+      fontSize: `${fontSize * scale}px`,
+      lineHeight: 1.2,
+      color: fillColor,
+      fontFamily: cssFontFamily(fontFamily),
+      fontWeight,
+      letterSpacing: `${letterSpacing * scale}px`,
+    };
+    
+    // Draw the outline behind the fill so only its outer half shows
+    if (strokeWidth > 0) {
+      style.WebkitTextStroke = `${strokeWidth * 2 * scale}px ${strokeColor}`;
+      style.paintOrder = 'stroke fill';
+    }
+    if (!shadow) {
+      style.textShadow = 'none';
+    }
+    if (background) {
+      style.backgroundColor = hexToRgba(backgroundColor, backgroundOpacity / 100);
+      style.padding = `${fontSize * PLATE_PADDING * scale}px`;
+    }
+    
+    return style;
+  }, [watermarkSettings, scale, contrast.text]);
+
+  // Auto placement is decided by the server, so show its last choice or the centre until then
+  const isAuto = watermarkSettings.position === 'auto' && !watermarkSettings.placement;
+  const autoRegionStyle = useMemo(() => {
+    if (!isAuto || !autoRegion || !naturalSize.width) return null;
+    return {
+      left: `${(autoRegion.left / naturalSize.width) * 100}%`,
+      top: `${(autoRegion.top / naturalSize.height) * 100}%`,
+      width: `${(autoRegion.width / naturalSize.width) * 100}%`,
+      height: `${(autoRegion.height / naturalSize.height) * 100}%`,
     };
+  }, [isAuto, autoRegion, naturalSize]);
+
+  // Place the text box at its free position or at the selected preset
+  const boxStyle = useMemo(() => {
+    const style: React.CSSProperties = {};
+    const inset = `${EDGE_MARGIN * scale}px`;
+    let placement: WatermarkPlacement | null = watermarkSettings.placement;
+    if (isAuto) {
+      placement = autoRegion && naturalSize.width
+        ? {
+            x: (autoRegion.left + autoRegion.width / 2) / naturalSize.width,
+            y: (autoRegion.top + autoRegion.height / 2) / naturalSize.height,
+          }
+        : { x: 0.5, y: 0.5 };
+    }
+    
+    if (placement) {
+      style.left = `${placement.x * 100}%`;
+      style.top = `${placement.y * 100}%`;
+      style.transform = 'translate(-50%, -50%)';
+    } else {
+      style.transform = 'none';
     
-    // Reset all positions
-    style.top = 'auto';
-    style.right = 'auto';
-    style.bottom = 'auto';
-    style.left = 'auto';
-    style.transform = 'none';
+      // Set position based on selection
+      switch (watermarkSettings.position) {
+        case 'top-left':
+          style.top = inset;
+          style.left = inset;
+          break;
+        case 'top-center':
+          style.top = inset;
+          style.left = '50%';
+          style.transform = 'translateX(-50%)';
+          break;
+        case 'top-right':
+          style.top = inset;
+          style.right = inset;
+          break;
+        case 'middle-left':
+          style.top = '50%';
+          style.left = inset;
+          style.transform = 'translateY(-50%)';
+          break;
+        case 'middle-center':
+          style.top = '50%';
+          style.left = '50%';
+          style.transform = 'translate(-50%, -50%)';
+          break;
+        case 'middle-right':
+          style.top = '50%';
+          style.right = inset;
+          style.transform = 'translateY(-50%)';
+          break;
+        case 'bottom-left':
+          style.bottom = inset;
+          style.left = inset;
+          break;
+        case 'bottom-center':
+          style.bottom = inset;
+          style.left = '50%';
+          style.transform = 'translateX(-50%)';
+          break;
+        case 'bottom-right':
+        default:
+          style.bottom = inset;
+          style.right = inset;
+          break;
+      }
+    }
     
-    // Set position based on selection
-    switch (watermarkSettings.position) {
-      case 'top-left':
-        style.top = '30px';
-        style.left = '30px';
-        break;
-      case 'top-center':
-        style.top = '30px';
-        style.left = '50%';
-        style.transform = 'translateX(-50%)';
-        break;
-      case 'top-right':
-        style.top = '30px';
-        style.right = '30px';
-        break;
-      case 'middle-left':
-        style.top = '50%';
-        style.left = '30px';
-        style.transform = 'translateY(-50%)';
-        break;
-      case 'middle-center':
-        style.top = '50%';
-        style.left = '50%';
-        style.transform = 'translate(-50%, -50%)';
-        break;
-      case 'middle-right':
-        style.top = '50%';
-        style.right = '30px';
-        style.transform = 'translateY(-50%)';
-        break;
-      case 'bottom-left':
-        style.bottom = '30px';
-        style.left = '30px';
-        break;
-      case 'bottom-center':
-        style.bottom = '30px';
-        style.left = '50%';
-        style.transform = 'translateX(-50%)';
-        break;
-      case 'bottom-right':
-      default:
-        style.bottom = '30px';
-        style.right = '30px';
-        break;
+    // Rotate around the centre of the text box
+    if (watermarkSettings.rotation) {
+      const rotate = `rotate(${-watermarkSettings.rotation}deg)`;
+      style.transform = style.transform === 'none' ? rotate : `${style.transform} ${rotate}`;
     }
     
     return style;
-  }, [watermarkSettings]);
+  }, [watermarkSettings.placement, watermarkSettings.position, watermarkSettings.rotation, scale, isAuto, autoRegion, naturalSize]);
+
+  // Place the logo at its preset, inset by its margin and sized relative to the image width
+  const logoStyle = useMemo(() => {
+    const logo = watermarkSettings.logo;
+    if (!logo) return null;
+    
+    const [vertical, horizontal] = logo.position.split('-');
+    const margin = `${logo.margin * scale}px`;
+    const style: React.CSSProperties = {
+      width: `${logo.scale}%`,
+      opacity: logo.opacity / 100,
+    };
+    const translate = [
+      horizontal === 'center' ? '-50%' : '0',
+      vertical === 'middle' ? '-50%' : '0',
+    ];
+    
+    if (horizontal === 'left') style.left = margin;
+    else if (horizontal === 'center') style.left = '50%';
+    else style.right = margin;
+    
+    if (vertical === 'top') style.top = margin;
+    else if (vertical === 'middle') style.top = '50%';
+    else style.bottom = margin;
+    
+    style.transform = `translate(${translate.join(', ')})`;
+    return style;
+  }, [watermarkSettings.logo, scale]);
+
+  // Rows of repeated text for the tiled mode, rotated as one oversized layer
+  const tiledRows = useMemo(() => {
+    if (watermarkSettings.mode !== 'tiled') return [];
+    const stagger = Math.min(100, Math.max(0, watermarkSettings.tileStagger)) / 100;
+    const padding = watermarkSettings.background ? watermarkSettings.fontSize * PLATE_PADDING : 0;
+    const tileWidth = (watermarkSettings.fontSize * watermarkSettings.text.length * 0.5 + padding * 2 + watermarkSettings.tileSpacing) * scale;
+    return Array.from({ length: 40 }, (_, row) => ({
+      key: row,
+      offset: row % 2 === 1 ? tileWidth * stagger : 0,
+    }));
+  }, [watermarkSettings, scale]);
+
+  // Drag the box, or rotate/resize it with its handles, around the box centre
+  const startGesture = (event: React.PointerEvent, gesture: Gesture) => {
+    const container = containerRef.current?.getBoundingClientRect();
+    const box = boxRef.current?.getBoundingClientRect();
+    const text = textRef.current;
+    if (!container || !box || !text) return;
+
+    event.preventDefault();
+    event.stopPropagation();
+    setActiveGesture(gesture);
+
+    const center = { x: box.left + box.width / 2, y: box.top + box.height / 2 };
+    const start = { x: event.clientX, y: event.clientY };
+    const startFontSize = watermarkSettings.fontSize;
+    const startDistance = Math.max(1, Math.hypot(start.x - center.x, start.y - center.y));
+    // Layout size of the text box, unaffected by rotation
+    const boxWidth = text.offsetWidth;
+    const boxHeight = text.offsetHeight;
+
+    const onMove = (moveEvent: PointerEvent) => {
+      if (gesture === 'move') {
+        const x = center.x + moveEvent.clientX - start.x - container.left;
+        const y = center.y + moveEvent.clientY - start.y - container.top;
+        const snapped = findSnapPosition(x, y, container.width, container.height, boxWidth, boxHeight, EDGE_MARGIN * scale);
+        if (snapped) {
+          onUpdateSettings({ position: snapped, placement: null });
+        } else {
+          onUpdateSettings({
+            placement: {
+              x: Math.min(1, Math.max(0, x / container.width)),
+              y: Math.min(1, Math.max(0, y / container.height)),
+            },
+          });
+        }
+      } else if (gesture === 'rotate') {
+        // The handle sits above the centre, so pointing straight up means no rotation
+        const angle = (Math.atan2(moveEvent.clientY - center.y, moveEvent.clientX - center.x) * 180) / Math.PI;
+        let rotation = Math.round(-(angle + 90));
+        rotation = ((rotation + 180) % 360 + 360) % 360 - 180;
+        if (moveEvent.shiftKey) rotation = Math.round(rotation / 15) * 15;
+        onUpdateSettings({ rotation });
+      } else {
+        const distance = Math.hypot(moveEvent.clientX - center.x, moveEvent.clientY - center.y);
+        const fontSize = Math.round((startFontSize * distance) / startDistance);
+        onUpdateSettings({ fontSize: Math.min(MAX_FONT_SIZE, Math.max(MIN_FONT_SIZE, fontSize)) });
+      }
+    };
+
+    const onUp = () => {
+      window.removeEventListener('pointermove', onMove);
+      window.removeEventListener('pointerup', onUp);
+      setActiveGesture(null);
+    };
+
+    window.addEventListener('pointermove', onMove);
+    window.addEventListener('pointerup', onUp);
+  };
   
   return (
     <div className="lg:col-span-2 bg-gray-50 flex items-center justify-center relative p-4 border-b lg:border-b-0 lg:border-r border-gray-200">
       <div className="relative w-full h-full flex items-center justify-center">
-        <div className="relative max-w-full max-h-[500px] overflow-hidden">
+        <div ref={containerRef} className="relative max-w-full max-h-[500px] overflow-hidden">
           {/* Main image */}
           <img 
+            ref={imageRef}
             src={image.url} 
             alt="Preview of uploaded image" 
             className="max-w-full max-h-[500px] object-contain"
           />
           
           {/* Watermark overlay */}
-          <div 
-            className="absolute watermark-preview"
-            style={watermarkStyle}
-          >
-            {watermarkSettings.text}
-          </div>
+          {watermarkSettings.mode === 'tiled' ? (
+            <div className="absolute inset-0 overflow-hidden pointer-events-none">
+              <div
+                className="absolute watermark-preview"
+                style={{
+                  top: '-100%',
+                  left: '-100%',
+                  width: '300%',
+                  height: '300%',
+                  transform: `rotate(${-watermarkSettings.tileAngle}deg)`,
+                  opacity: watermarkSettings.opacity / 100,
+                }}
+              >
+                {tiledRows.map(({ key, offset }) => (
+                  <div
+                    key={key}
+                    className="whitespace-nowrap"
+                    style={{
+                      marginLeft: `${offset}px`,
+                      marginBottom: `${watermarkSettings.tileSpacing * scale}px`,
+                    }}
+                  >
+                    {Array.from({ length: 40 }, (_, col) => (
+                      <span key={col} style={{ ...textStyle, marginRight: `${watermarkSettings.tileSpacing * scale}px` }}>
+                        {watermarkSettings.text}
+                      </span>
+                    ))}
+                  </div>
+                ))}
+              </div>
+            </div>
+          ) : (
+            <div 
+              ref={boxRef}
+              className="absolute group cursor-move select-none touch-none"
+              style={boxStyle}
+              onPointerDown={(e) => startGesture(e, 'move')}
+            >
+              <span
+                ref={textRef}
+                className="watermark-preview"
+                style={{ ...textStyle, opacity: watermarkSettings.opacity / 100 }}
+              >
+                {watermarkSettings.text}
+              </span>
+
+              {/* Selection frame with rotate and resize handles */}
+              <div className={`absolute -inset-1 ${activeGesture ? 'opacity-100' : 'opacity-0 group-hover:opacity-100'} transition-opacity`}>
+                <div className="absolute inset-0 border border-dashed border-accent pointer-events-none" />
+                <div className="absolute left-1/2 -top-5 h-4 border-l border-accent pointer-events-none" />
+                <div
+                  className="absolute left-1/2 -top-7 w-3 h-3 -ml-1.5 rounded-full bg-white border border-accent shadow cursor-grab"
+                  title="Rotate (hold Shift to snap to 15°)"
+                  onPointerDown={(e) => startGesture(e, 'rotate')}
+                />
+                <div
+                  className="absolute -right-1.5 -bottom-1.5 w-3 h-3 bg-white border border-accent shadow cursor-nwse-resize"
+                  title="Resize"
+                  onPointerDown={(e) => startGesture(e, 'resize')}
+                />
+              </div>
+            </div>
+          )}
+          
+          {/* Region chosen by content-aware placement */}
+          {watermarkSettings.mode !== 'tiled' && isAuto && (
+            autoRegionStyle ? (
+              <div className="absolute border-2 border-dashed border-accent pointer-events-none" style={autoRegionStyle}>
+                <span className="absolute -top-5 left-0 bg-accent text-white text-[10px] px-1 rounded whitespace-nowrap">
+                  Auto ({autoRegion!.strategy})
+                </span>
+              </div>
+            ) : (
+              <div className="absolute bottom-2 left-1/2 -translate-x-1/2 bg-white/90 text-gray-700 text-xs px-2 py-1 rounded shadow pointer-events-none">
+                Auto placement is chosen when the image is processed
+              </div>
+            )
+          )}
+          
+          {/* Logo overlay, drawn as a silhouette in the auto contrast colors when they are known */}
+          {watermarkSettings.logo && logoStyle && (
+            contrast.logo ? (
+              <div
+                ref={logoRef as React.RefObject<HTMLDivElement>}
+                className="absolute pointer-events-none"
+                style={{ ...logoStyle, filter: logoOutline(contrast.logo, logoRef.current?.offsetWidth ?? 0, scale) }}
+              >
+                <img src={watermarkSettings.logo.url} alt="Logo watermark preview" className="block w-full opacity-0" />
+                <div
+                  className="absolute inset-0"
+                  style={{
+                    backgroundColor: contrast.logo.fill,
+                    WebkitMaskImage: `url(${watermarkSettings.logo.url})`,
+                    WebkitMaskSize: '100% 100%',
+                    maskImage: `url(${watermarkSettings.logo.url})`,
+                    maskSize: '100% 100%',
+                  }}
+                />
+              </div>
+            ) : (
+              <img
+                ref={logoRef as React.RefObject<HTMLImageElement>}
+                src={watermarkSettings.logo.url}
+                alt="Logo watermark preview"
+                className="absolute pointer-events-none"
+                style={logoStyle}
+              />
+            )
+          )}
         </div>
         
-        {/* Position selector */}
-        <PositionSelector 
-          selectedPosition={watermarkSettings.position} 
-          onPositionChange={onPositionChange} 
-        />
+        {/* Position presets double as snap points */}
+        {watermarkSettings.mode !== 'tiled' && (
+          <PositionSelector 
+            selectedPosition={watermarkSettings.placement ? '' : watermarkSettings.position}
+            onPositionChange={(position) => onUpdateSettings({ position, placement: null })}
+          />
+        )}
       </div>
       
       {/* Image info overlay */}
       <div className="absolute top-4 left-4 bg-white/90 rounded-md shadow px-3 py-2 text-sm text-gray-700">
         <div className="font-medium">{image.name}</div>
-        <div className="text-gray-500">{image.dimensions} · {image.size}</div>
+        <div className="text-gray-500">
+          {image.dimensions} · {image.size}
+          {image.frames > 1 && ` · Animated, ${image.frames} frames`}
+        </div>
       </div>
     </div>
   );
 }
+
+// Outline around the tinted logo as stacked drop shadows, sized like the renderers' outline
+function logoOutline(colors: ContrastColors, displayWidth: number, scale: number): string | undefined {
+  if (!colors.needsOutline || !scale) return undefined;
+  const radius = autoOutlineWidth(displayWidth / scale / 4) * scale;
+  return [[1, 0], [-1, 0], [0, 1], [0, -1]]
+    .map(([x, y]) => `drop-shadow(${x * radius}px ${y * radius}px 0 ${colors.stroke})`)
+    .join(' ');
+}
+
+// Return the preset whose box centre is within snapping distance of (x, y), if any
+function findSnapPosition(
+  x: number,
+  y: number,
+  width: number,
+  height: number,
+  boxWidth: number,
+  boxHeight: number,
+  inset: number
+): string | null {
+  const columns: [string, number][] = [
+    ['left', inset + boxWidth / 2],
+    ['center', width / 2],
+    ['right', width - inset - boxWidth / 2],
+  ];
+  const rows: [string, number][] = [
+    ['top', inset + boxHeight / 2],
+    ['middle', height / 2],
+    ['bottom', height - inset - boxHeight / 2],
+  ];
+
+  for (const [vertical, presetY] of rows) {
+    for (const [horizontal, presetX] of columns) {
+      if (Math.hypot(x - presetX, y - presetY) <= SNAP_DISTANCE) {
+        return `${vertical}-${horizontal}`;
+      }
+    }
+  }
+  return null;
+}
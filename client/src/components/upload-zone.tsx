@@ -11,6 +11,16 @@ import {
 import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { useToast } from '@/hooks/use-toast';
+import { detectFileFormat, loadDisplayImage } from '@/lib/image-processor';
+import { countFrames, IMAGE_FORMATS } from '@shared/image-formats';
+
+// Dropzone accept map of every supported format, extensions included for browsers that report no type
+const ACCEPTED_TYPES = Object.values(IMAGE_FORMATS).reduce<Record<string, string[]>>((accept, format) => {
+  accept[format.contentType] = format.extensions;
+  return accept;
+}, {});
+
+const UNSUPPORTED_FORMAT_MESSAGE = "Please upload a JPG, PNG, WebP, AVIF, TIFF or GIF image.";
 
 interface UploadZoneProps {
   onFileUpload: (imageInfo: ImageInfo) => void;
@@ -19,34 +29,51 @@ interface UploadZoneProps {
 export default function UploadZone({ onFileUpload }: UploadZoneProps) {
   const { toast } = useToast();
 
-  const onDrop = useCallback((acceptedFiles: File[]) => {
+  const onDrop = useCallback(async (acceptedFiles: File[]) => {
     if (acceptedFiles.length === 0) return;
     
     const file = acceptedFiles[0];
-    const reader = new FileReader();
     
-    reader.onload = () => {
-      const img = new Image();
-      img.onload = () => {
-        // Format file size
-        const sizeInMB = (file.size / (1024 * 1024)).toFixed(1);
-        
-        const imageInfo: ImageInfo = {
-          file,
-          url: URL.createObjectURL(file),
-          name: file.name,
-          dimensions: `${img.width}x${img.height}`,
-          size: `${sizeInMB}MB`
-        };
-        
-        onFileUpload(imageInfo);
+    // The file name and reported type can lie, the contents decide
+    const format = await detectFileFormat(file);
+    if (!format) {
+      toast({
+        title: "Unsupported file format",
+        description: UNSUPPORTED_FORMAT_MESSAGE,
+        variant: "destructive"
+      });
+      return;
+    }
+    
+    try {
+      const { url, width, height } = await loadDisplayImage(file);
+      const frames = format === 'gif' || format === 'webp'
+        ? countFrames(new Uint8Array(await file.arrayBuffer()), format)
+        : 1;
+      
+      // Format file size
+      const sizeInMB = (file.size / (1024 * 1024)).toFixed(1);
+      
+      const imageInfo: ImageInfo = {
+        file,
+        url,
+        name: file.name,
+        format,
+        frames,
+        dimensions: `${width}x${height}`,
+        size: `${sizeInMB}MB`
       };
       
-      img.src = reader.result as string;
-    };
-    
-    reader.readAsDataURL(file);
-  }, [onFileUpload]);
+      onFileUpload(imageInfo);
+    } catch (error) {
+      console.error('Error loading image:', error);
+      toast({
+        title: "Could not read image",
+        description: "The image could not be decoded. Please try another file.",
+        variant: "destructive"
+      });
+    }
+  }, [onFileUpload, toast]);
   
   const onDropRejected = useCallback((fileRejections: any[]) => {
     // Check if it's a file size issue
@@ -63,7 +90,7 @@ export default function UploadZone({ onFileUpload }: UploadZoneProps) {
     } else {
       toast({
         title: "Unsupported file format",
-        description: "Please upload a JPG or PNG image.",
+        description: UNSUPPORTED_FORMAT_MESSAGE,
         variant: "destructive"
       });
     }
@@ -72,10 +99,7 @@ export default function UploadZone({ onFileUpload }: UploadZoneProps) {
   const { getRootProps, getInputProps, isDragActive } = useDropzone({
     onDrop,
     onDropRejected,
-    accept: {
-      'image/jpeg': [],
-      'image/png': []
-    },
+    accept: ACCEPTED_TYPES,
     maxFiles: 1,
     maxSize: 30 * 1024 * 1024, // 30MB size limit (same as server)
   });
@@ -104,7 +128,7 @@ export default function UploadZone({ onFileUpload }: UploadZoneProps) {
         </Button>
         
         <div className="mt-4 text-sm text-gray-500">
-          Supported formats: JPG, PNG (max 5MB)
+          Supported formats: JPG, PNG, WebP, AVIF, TIFF, GIF (max 5MB)
         </div>
         <div className="mt-2 text-xs text-gray-400">
           Files are automatically deleted after 12 hours
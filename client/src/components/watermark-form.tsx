@@ -1,20 +1,53 @@
 import React from 'react';
-import { WatermarkSettings, AdversarialSettings } from '@/pages/home';
+import { WatermarkSettings, AdversarialSettings, InvisibleWatermarkSettings } from '@/pages/home';
+import { generateOwnerId, cssFontFamily } from '@/lib/image-processor';
+import { uploadFont } from '@/lib/fonts';
+import { queryClient } from '@/lib/queryClient';
+import { useCustomFonts } from '@/hooks/use-custom-fonts';
+import { useToast } from '@/hooks/use-toast';
+import { hasTemplateSyntax, resolveTemplate, TEMPLATE_VARIABLES, type TemplateVariables } from '@shared/watermark-template';
+import { MAX_CONTRAST_RATIO, MIN_CONTRAST_RATIO } from '@shared/contrast';
+import { ANIMATED_FORMATS, IMAGE_FORMATS, LOSSLESS_FORMATS, METADATA_FORMATS, OUTPUT_FORMATS, type ImageFormat, type MetadataKind, type OutputFormat } from '@shared/image-formats';
+import type { ChromaSubsampling, ColorMode, OutputSettings, RenderingIntent } from '@shared/output-settings';
+import { EXIF_NOTICE_FIELDS, EXIF_NOTICE_TAGS, type ExifNoticeSettings } from '@shared/exif-notice';
+import { IPTC_FIELDS, iptcByteLength, type IptcNoticeSettings, type IptcTextField } from '@shared/iptc-notice';
+import { DATA_MINING_VALUES, isWebUrl, type DataMining, type XmpRightsSettings } from '@shared/xmp-rights';
+import { keepsExifTag, SENSITIVE_LABELS, sensitiveKind, type MetadataEntry, type MetadataPreset, type SensitiveKind } from '@shared/metadata-privacy';
+import type { SizeEstimate } from '@/lib/image-processor';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Slider } from '@/components/ui/slider';
 import { Switch } from '@/components/ui/switch';
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { Download, Shield, AlertTriangle } from 'lucide-react';
+import { Select, SelectContent, SelectGroup, SelectItem, SelectLabel, SelectSeparator, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Download, Shield, AlertTriangle, X, Fingerprint, RefreshCw, Upload } from 'lucide-react';
 
 interface WatermarkFormProps {
   watermarkSettings: WatermarkSettings;
   exifProtection: boolean;
   adversarialSettings: AdversarialSettings;
+  invisibleSettings: InvisibleWatermarkSettings;
+  tamperProtection: boolean;
+  c2paManifest: boolean;
+  sourceFormat: ImageFormat;
+  sourceFrames: number;
+  outputSettings: OutputSettings;
+  xmpRights: XmpRightsSettings;
+  iptcNotice: IptcNoticeSettings;
+  exifNotice: ExifNoticeSettings;
+  estimatedSize: { estimate: SizeEstimate | null; loading: boolean };
+  metadataEntries: MetadataEntry[];
+  templateVariables: TemplateVariables | null;
   onUpdateSettings: (settings: Partial<WatermarkSettings>) => void;
   onExifToggle: (enabled: boolean) => void;
+  onTamperToggle: (enabled: boolean) => void;
+  onC2paToggle: (enabled: boolean) => void;
+  onOutputUpdate: (settings: Partial<OutputSettings>) => void;
+  onXmpUpdate: (settings: Partial<XmpRightsSettings>) => void;
+  onIptcUpdate: (settings: Partial<IptcNoticeSettings>) => void;
+  onExifNoticeUpdate: (settings: Partial<ExifNoticeSettings>) => void;
   onAdversarialUpdate: (settings: Partial<AdversarialSettings>) => void;
+  onInvisibleUpdate: (settings: Partial<InvisibleWatermarkSettings>) => void;
   onProcessImage: () => void;
 }
 
@@ -22,11 +55,73 @@ export default function WatermarkForm({
   watermarkSettings, 
   exifProtection,
   adversarialSettings,
+  invisibleSettings,
+  tamperProtection,
+  c2paManifest,
+  sourceFormat,
+  sourceFrames,
+  outputSettings,
+  xmpRights,
+  iptcNotice,
+  exifNotice,
+  estimatedSize,
+  metadataEntries,
+  templateVariables,
   onUpdateSettings,
   onExifToggle,
+  onTamperToggle,
+  onC2paToggle,
+  onOutputUpdate,
+  onXmpUpdate,
+  onIptcUpdate,
+  onExifNoticeUpdate,
   onAdversarialUpdate,
+  onInvisibleUpdate,
   onProcessImage
 }: WatermarkFormProps) {
+  const ownerIdValid = /^(0x)?[0-9a-f]{1,16}$/i.test(invisibleSettings.ownerId.trim());
+  const webStatementValid = !xmpRights.webStatement.trim() || isWebUrl(xmpRights.webStatement.trim());
+  const tdmPolicyValid = !xmpRights.tdmPolicy.trim() || isWebUrl(xmpRights.tdmPolicy.trim());
+  const xmpValid = !xmpRights.enabled || (webStatementValid && tdmPolicyValid);
+  const iptcTooLong = (field: IptcTextField) => iptcByteLength(iptcNotice[field].trim()) > IPTC_FIELDS[field].maxBytes;
+  const iptcValid = !iptcNotice.enabled || !IPTC_TEXT_FIELDS.some(iptcTooLong);
+  const animated = sourceFrames > 1;
+  const resolvedFormat = outputSettings.format === 'original' ? sourceFormat : outputSettings.format;
+  const tamperFallback = tamperProtection && LOSSLESS_FORMATS.indexOf(resolvedFormat) === -1;
+  const savedFormat: ImageFormat = tamperFallback ? (animated ? 'webp' : 'png') : resolvedFormat;
+  const flattensAnimation = animated && ANIMATED_FORMATS.indexOf(savedFormat) === -1;
+  // The server rejects notices the saved format cannot hold
+  const cannotHold = (kind: MetadataKind) => METADATA_FORMATS[kind].indexOf(savedFormat) === -1;
+  const unwritable = (exifProtection && cannotHold('exif')) || (xmpRights.enabled && cannotHold('xmp')) ||
+    (iptcNotice.enabled && cannotHold('iptc')) || (c2paManifest && cannotHold('c2pa'));
+  const paletteDropsNoise = adversarialSettings.enabled && adversarialSettings.method !== 'perlin' && savedFormat === 'gif';
+  // Kinds of identifying metadata the download would still carry with the chosen preset
+  const keptSensitive = metadataEntries
+    .filter((entry) => keepsExifTag(outputSettings.metadataPreset, entry.group, entry.name))
+    .map(sensitiveKind)
+    .filter((kind, i, kinds): kind is SensitiveKind => kind !== null && kinds.indexOf(kind) === i);
+  const { toast } = useToast();
+  const customFonts = useCustomFonts();
+  const [uploadingFont, setUploadingFont] = React.useState(false);
+  const fontInputRef = React.useRef<HTMLInputElement>(null);
+
+  const handleFontUpload = async (file: File) => {
+    try {
+      setUploadingFont(true);
+      const font = await uploadFont(file);
+      await queryClient.invalidateQueries({ queryKey: ['/api/fonts'] });
+      onUpdateSettings({ fontFamily: font.family });
+    } catch (error) {
+      toast({
+        title: "Font upload failed",
+        description: error instanceof Error ? error.message : "The font could not be uploaded.",
+        variant: "destructive"
+      });
+    } finally {
+      setUploadingFont(false);
+    }
+  };
+
   const positions = [
     { id: 'bottom-right', label: 'Bottom Right' },
     { id: 'bottom-left', label: 'Bottom Left' },
@@ -38,6 +133,27 @@ export default function WatermarkForm({
     { id: 'middle-right', label: 'Middle Right' },
     { id: 'middle-center', label: 'Center' },
   ];
+
+  // A free placement from dragging in the preview replaces the preset
+  const isPresetSelected = (id: string) => !watermarkSettings.placement && watermarkSettings.position === id;
+
+  const fontFamilies = ['Arial', 'Helvetica', 'Verdana', 'Georgia', 'Times New Roman', 'Courier New', 'Impact', 'sans-serif', 'serif', 'monospace'];
+
+  // One entry per uploaded family, several files may share a family with different weights
+  const customFamilies = Array.from(new Set(customFonts.map((font) => font.family)))
+    .filter((family) => !fontFamilies.includes(family));
+
+  const fontWeights = [
+    { value: 300, label: 'Light' },
+    { value: 400, label: 'Regular' },
+    { value: 700, label: 'Bold' },
+    { value: 900, label: 'Black' },
+  ];
+
+  const modes: { id: WatermarkSettings['mode']; label: string }[] = [
+    { id: 'single', label: 'Single' },
+    { id: 'tiled', label: 'Tiled' },
+  ];
   
   return (
     <div className="p-6">
@@ -54,6 +170,48 @@ export default function WatermarkForm({
             onChange={(e) => onUpdateSettings({ text: e.target.value })}
             className="w-full"
           />
+          <div className="flex flex-wrap gap-1 mt-2">
+            {TEMPLATE_VARIABLES.map((variable) => (
+              <button
+                key={variable.name}
+                type="button"
+                title={variable.description}
+                className="px-1.5 py-0.5 rounded border border-gray-200 bg-gray-50 text-xs font-mono text-gray-600 hover:bg-gray-100"
+                onClick={() => onUpdateSettings({ text: `${watermarkSettings.text} {${variable.name}}`.trimStart() })}
+              >
+                {`{${variable.name}}`}
+              </button>
+            ))}
+          </div>
+          {hasTemplateSyntax(watermarkSettings.text) && (
+            <p className="text-xs text-gray-500 mt-2">
+              {templateVariables
+                ? <>Resolves to: <span className="font-medium text-gray-700">{resolveTemplate(watermarkSettings.text, templateVariables) || '(empty)'}</span></>
+                : 'Reading image details...'}
+            </p>
+          )}
+          <p className="text-xs text-gray-400 mt-1">
+            Use {'{name|fallback}'} for a default when a value is missing, and {'{{'} or {'}}'} for literal braces.
+          </p>
+        </div>
+        
+        {/* Watermark Mode */}
+        <div>
+          <Label className="mb-2">Layout</Label>
+          <div className="grid grid-cols-2 gap-2">
+            {modes.map((mode) => (
+              <Button
+                key={mode.id}
+                type="button"
+                size="sm"
+                variant={watermarkSettings.mode === mode.id ? "default" : "outline"}
+                className={`text-xs ${watermarkSettings.mode === mode.id ? 'bg-accent text-white' : 'bg-gray-100 text-gray-800 hover:bg-gray-200'}`}
+                onClick={() => onUpdateSettings({ mode: mode.id })}
+              >
+                {mode.label}
+              </Button>
+            ))}
+          </div>
         </div>
         
         {/* Font Size */}
@@ -65,7 +223,7 @@ export default function WatermarkForm({
           <Slider 
             id="font-size"
             min={12} 
-            max={72} 
+            max={144} 
             step={1}
             value={[watermarkSettings.fontSize]}
             onValueChange={(value) => onUpdateSettings({ fontSize: value[0] })}
@@ -88,23 +246,456 @@ export default function WatermarkForm({
           />
         </div>
         
-        {/* Position */}
+        {/* Text Style */}
         <div>
-          <Label className="mb-2">Position</Label>
-          <div className="grid grid-cols-3 gap-2 bg-gray-50 p-3 rounded-md border border-gray-200">
-            {positions.slice(0, 9).map((position) => (
+          <Label className="mb-2 block">Text Style</Label>
+          <div className="space-y-4 bg-gray-50 p-3 rounded-md border border-gray-200">
+            {/* Font */}
+            <div className="grid grid-cols-2 gap-2">
+              <Select 
+                value={watermarkSettings.fontFamily} 
+                onValueChange={(fontFamily) => onUpdateSettings({ fontFamily })}
+              >
+                <SelectTrigger id="font-family" className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {fontFamilies.map((family) => (
+                    <SelectItem key={family} value={family}>
+                      {family}
+                    </SelectItem>
+                  ))}
+                  {customFamilies.length > 0 && (
+                    <>
+                      <SelectSeparator />
+                      <SelectGroup>
+                        <SelectLabel>Uploaded</SelectLabel>
+                        {customFamilies.map((family) => (
+                          <SelectItem key={family} value={family} style={{ fontFamily: cssFontFamily(family) }}>
+                            {family}
+                          </SelectItem>
+                        ))}
+                      </SelectGroup>
+                    </>
+                  )}
+                </SelectContent>
+              </Select>
+              <Select 
+                value={watermarkSettings.fontWeight.toString()} 
+                onValueChange={(value) => onUpdateSettings({ fontWeight: parseInt(value, 10) })}
+              >
+                <SelectTrigger id="font-weight" className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {fontWeights.map((weight) => (
+                    <SelectItem key={weight.value} value={weight.value.toString()}>
+                      {weight.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            
+            {/* Font Upload */}
+            <div>
+              <input
+                ref={fontInputRef}
+                type="file"
+                accept=".ttf,.otf,.woff2"
+                className="hidden"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  e.target.value = '';
+                  if (file) handleFontUpload(file);
+                }}
+              />
               <Button
-                key={position.id}
                 type="button"
                 size="sm"
-                variant={watermarkSettings.position === position.id ? "default" : "outline"}
-                className={`text-xs ${watermarkSettings.position === position.id ? 'bg-accent text-white' : 'bg-gray-100 text-gray-800 hover:bg-gray-200'}`}
-                onClick={() => onUpdateSettings({ position: position.id })}
+                variant="outline"
+                className="w-full text-xs"
+                disabled={uploadingFont}
+                onClick={() => fontInputRef.current?.click()}
               >
-                {position.label}
+                <Upload className="h-3 w-3 mr-1" />
+                {uploadingFont ? 'Uploading...' : 'Upload Font (TTF, OTF, WOFF2)'}
               </Button>
-            ))}
+            </div>
+            
+            {/* Auto Contrast */}
+            <div>
+              <div className="flex items-center justify-between">
+                <Label htmlFor="auto-contrast-toggle">Auto Contrast</Label>
+                <Switch 
+                  id="auto-contrast-toggle" 
+                  checked={watermarkSettings.autoContrast}
+                  onCheckedChange={(autoContrast) => onUpdateSettings({ autoContrast })}
+                />
+              </div>
+              <p className="text-xs text-gray-500 mt-1">
+                Picks text, outline and logo colors from the image under the watermark.
+              </p>
+              {watermarkSettings.autoContrast && (
+                <div className="mt-2">
+                  <div className="flex justify-between items-center mb-1">
+                    <Label htmlFor="contrast-ratio" className="text-xs text-gray-500">Target Contrast</Label>
+                    <span className="text-sm text-gray-500">{watermarkSettings.contrastRatio.toFixed(1)}:1</span>
+                  </div>
+                  <Slider 
+                    id="contrast-ratio"
+                    min={MIN_CONTRAST_RATIO} 
+                    max={MAX_CONTRAST_RATIO} 
+                    step={0.5}
+                    value={[watermarkSettings.contrastRatio]}
+                    onValueChange={(value) => onUpdateSettings({ contrastRatio: value[0] })}
+                  />
+                </div>
+              )}
+            </div>
+            
+            {/* Colors */}
+            <div className="grid grid-cols-2 gap-2">
+              <div>
+                <Label htmlFor="fill-color" className="text-xs text-gray-500">Text Color</Label>
+                <Input 
+                  type="color" 
+                  id="fill-color"
+                  disabled={watermarkSettings.autoContrast}
+                  value={watermarkSettings.fillColor}
+                  onChange={(e) => onUpdateSettings({ fillColor: e.target.value })}
+                  className="h-9 p-1"
+                />
+              </div>
+              <div>
+                <Label htmlFor="stroke-color" className="text-xs text-gray-500">Outline Color</Label>
+                <Input 
+                  type="color" 
+                  id="stroke-color"
+                  disabled={watermarkSettings.autoContrast}
+                  value={watermarkSettings.strokeColor}
+                  onChange={(e) => onUpdateSettings({ strokeColor: e.target.value })}
+                  className="h-9 p-1"
+                />
+              </div>
+            </div>
+            
+            {/* Outline Width */}
+            <div>
+              <div className="flex justify-between items-center mb-1">
+                <Label htmlFor="stroke-width">Outline</Label>
+                <span className="text-sm text-gray-500">{watermarkSettings.strokeWidth}px</span>
+              </div>
+              <Slider 
+                id="stroke-width"
+                min={0} 
+                max={10} 
+                step={0.5}
+                value={[watermarkSettings.strokeWidth]}
+                onValueChange={(value) => onUpdateSettings({ strokeWidth: value[0] })}
+              />
+            </div>
+            
+            {/* Letter Spacing */}
+            <div>
+              <div className="flex justify-between items-center mb-1">
+                <Label htmlFor="letter-spacing">Letter Spacing</Label>
+                <span className="text-sm text-gray-500">{watermarkSettings.letterSpacing}px</span>
+              </div>
+              <Slider 
+                id="letter-spacing"
+                min={-5} 
+                max={30} 
+                step={1}
+                value={[watermarkSettings.letterSpacing]}
+                onValueChange={(value) => onUpdateSettings({ letterSpacing: value[0] })}
+              />
+            </div>
+            
+            {/* Rotation (the tiled layout has its own angle) */}
+            {watermarkSettings.mode !== 'tiled' && (
+              <div>
+                <div className="flex justify-between items-center mb-1">
+                  <Label htmlFor="rotation">Rotation</Label>
+                  <span className="text-sm text-gray-500">{watermarkSettings.rotation}°</span>
+                </div>
+                <Slider 
+                  id="rotation"
+                  min={-180} 
+                  max={180} 
+                  step={1}
+                  value={[watermarkSettings.rotation]}
+                  onValueChange={(value) => onUpdateSettings({ rotation: value[0] })}
+                />
+              </div>
+            )}
+            
+            {/* Shadow */}
+            <div className="flex items-center justify-between">
+              <Label htmlFor="shadow-toggle">Drop Shadow</Label>
+              <Switch 
+                id="shadow-toggle" 
+                checked={watermarkSettings.shadow}
+                onCheckedChange={(shadow) => onUpdateSettings({ shadow })}
+              />
+            </div>
+            
+            {/* Background Plate */}
+            <div className="flex items-center justify-between">
+              <Label htmlFor="background-toggle">Background Plate</Label>
+              <Switch 
+                id="background-toggle" 
+                checked={watermarkSettings.background}
+                onCheckedChange={(background) => onUpdateSettings({ background })}
+              />
+            </div>
+            {watermarkSettings.background && (
+              <div className="grid grid-cols-[auto_1fr] gap-3 items-center">
+                <Input 
+                  type="color" 
+                  id="background-color"
+                  aria-label="Plate color"
+                  value={watermarkSettings.backgroundColor}
+                  onChange={(e) => onUpdateSettings({ backgroundColor: e.target.value })}
+                  className="h-9 w-12 p-1"
+                />
+                <div>
+                  <div className="flex justify-between items-center mb-1">
+                    <Label htmlFor="background-opacity" className="text-xs text-gray-500">Plate Opacity</Label>
+                    <span className="text-sm text-gray-500">{watermarkSettings.backgroundOpacity}%</span>
+                  </div>
+                  <Slider 
+                    id="background-opacity"
+                    min={0} 
+                    max={100} 
+                    step={1}
+                    value={[watermarkSettings.backgroundOpacity]}
+                    onValueChange={(value) => onUpdateSettings({ backgroundOpacity: value[0] })}
+                  />
+                </div>
+              </div>
+            )}
+          </div>
+        </div>
+        
+        {/* Tiling or Position */}
+        {watermarkSettings.mode === 'tiled' ? (
+          <div className="space-y-4 bg-gray-50 p-3 rounded-md border border-gray-200">
+            {/* Tile Angle */}
+            <div>
+              <div className="flex justify-between items-center mb-1">
+                <Label htmlFor="tile-angle">Angle</Label>
+                <span className="text-sm text-gray-500">{watermarkSettings.tileAngle}°</span>
+              </div>
+              <Slider 
+                id="tile-angle"
+                min={-90} 
+                max={90} 
+                step={1}
+                value={[watermarkSettings.tileAngle]}
+                onValueChange={(value) => onUpdateSettings({ tileAngle: value[0] })}
+              />
+            </div>
+            
+            {/* Tile Spacing */}
+            <div>
+              <div className="flex justify-between items-center mb-1">
+                <Label htmlFor="tile-spacing">Spacing</Label>
+                <span className="text-sm text-gray-500">{watermarkSettings.tileSpacing}px</span>
+              </div>
+              <Slider 
+                id="tile-spacing"
+                min={20} 
+                max={400} 
+                step={5}
+                value={[watermarkSettings.tileSpacing]}
+                onValueChange={(value) => onUpdateSettings({ tileSpacing: value[0] })}
+              />
+            </div>
+            
+            {/* Tile Stagger */}
+            <div>
+              <div className="flex justify-between items-center mb-1">
+                <Label htmlFor="tile-stagger">Row Stagger</Label>
+                <span className="text-sm text-gray-500">{watermarkSettings.tileStagger}%</span>
+              </div>
+              <Slider 
+                id="tile-stagger"
+                min={0} 
+                max={100} 
+                step={5}
+                value={[watermarkSettings.tileStagger]}
+                onValueChange={(value) => onUpdateSettings({ tileStagger: value[0] })}
+              />
+            </div>
           </div>
+        ) : (
+          <div>
+            <Label className="mb-2">Position</Label>
+            <div className="grid grid-cols-3 gap-2 bg-gray-50 p-3 rounded-md border border-gray-200">
+              {positions.slice(0, 9).map((position) => (
+                <Button
+                  key={position.id}
+                  type="button"
+                  size="sm"
+                  variant={isPresetSelected(position.id) ? "default" : "outline"}
+                  className={`text-xs ${isPresetSelected(position.id) ? 'bg-accent text-white' : 'bg-gray-100 text-gray-800 hover:bg-gray-200'}`}
+                  onClick={() => onUpdateSettings({ position: position.id, placement: null })}
+                >
+                  {position.label}
+                </Button>
+              ))}
+              <Button
+                type="button"
+                size="sm"
+                variant={isPresetSelected('auto') ? "default" : "outline"}
+                className={`col-span-3 text-xs ${isPresetSelected('auto') ? 'bg-accent text-white' : 'bg-gray-100 text-gray-800 hover:bg-gray-200'}`}
+                onClick={() => onUpdateSettings({ position: 'auto', placement: null })}
+              >
+                Auto (content-aware)
+              </Button>
+            </div>
+            {isPresetSelected('auto') && (
+              <div className="mt-2">
+                <Select 
+                  value={watermarkSettings.autoStrategy} 
+                  onValueChange={(autoStrategy) => onUpdateSettings({ autoStrategy: autoStrategy as WatermarkSettings['autoStrategy'] })}
+                >
+                  <SelectTrigger id="auto-strategy" className="w-full">
+                    <SelectValue placeholder="Select strategy" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="unobtrusive">Unobtrusive (calmest region)</SelectItem>
+                    <SelectItem value="aggressive">Aggressive (hardest to crop out)</SelectItem>
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-gray-500 mt-1">
+                  The server analyzes the image and picks the spot when processing.
+                </p>
+              </div>
+            )}
+            <p className="text-xs text-gray-500 mt-1">
+              {watermarkSettings.placement
+                ? `Custom position (${Math.round(watermarkSettings.placement.x * 100)}%, ${Math.round(watermarkSettings.placement.y * 100)}%). Pick a preset to snap back.`
+                : 'Drag the watermark in the preview to place it anywhere, use its handles to rotate and resize.'}
+            </p>
+          </div>
+        )}
+        
+        {/* Logo */}
+        <div>
+          <div className="flex justify-between items-center mb-1">
+            <Label htmlFor="logo-file">Logo</Label>
+            {watermarkSettings.logo && (
+              <Button
+                type="button"
+                size="sm"
+                variant="ghost"
+                className="h-6 px-2 text-xs"
+                onClick={() => {
+                  URL.revokeObjectURL(watermarkSettings.logo!.url);
+                  onUpdateSettings({ logo: null });
+                }}
+              >
+                <X className="h-3 w-3 mr-1" />
+                Remove
+              </Button>
+            )}
+          </div>
+          <Input
+            type="file"
+            id="logo-file"
+            accept="image/png,image/svg+xml"
+            className="w-full"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (!file) return;
+              if (watermarkSettings.logo) URL.revokeObjectURL(watermarkSettings.logo.url);
+              onUpdateSettings({
+                logo: {
+                  scale: 20,
+                  opacity: 70,
+                  position: 'bottom-left',
+                  margin: 30,
+                  ...watermarkSettings.logo,
+                  file,
+                  url: URL.createObjectURL(file),
+                },
+              });
+            }}
+          />
+          
+          {watermarkSettings.logo && (
+            <div className="space-y-4 mt-3 bg-gray-50 p-3 rounded-md border border-gray-200">
+              {/* Logo Scale */}
+              <div>
+                <div className="flex justify-between items-center mb-1">
+                  <Label htmlFor="logo-scale">Size</Label>
+                  <span className="text-sm text-gray-500">{watermarkSettings.logo.scale}% of width</span>
+                </div>
+                <Slider 
+                  id="logo-scale"
+                  min={5} 
+                  max={60} 
+                  step={1}
+                  value={[watermarkSettings.logo.scale]}
+                  onValueChange={(value) => onUpdateSettings({ logo: { ...watermarkSettings.logo!, scale: value[0] } })}
+                />
+              </div>
+              
+              {/* Logo Opacity */}
+              <div>
+                <div className="flex justify-between items-center mb-1">
+                  <Label htmlFor="logo-opacity">Opacity</Label>
+                  <span className="text-sm text-gray-500">{watermarkSettings.logo.opacity}%</span>
+                </div>
+                <Slider 
+                  id="logo-opacity"
+                  min={10} 
+                  max={100} 
+                  step={1}
+                  value={[watermarkSettings.logo.opacity]}
+                  onValueChange={(value) => onUpdateSettings({ logo: { ...watermarkSettings.logo!, opacity: value[0] } })}
+                />
+              </div>
+              
+              {/* Logo Margin */}
+              <div>
+                <div className="flex justify-between items-center mb-1">
+                  <Label htmlFor="logo-margin">Margin</Label>
+                  <span className="text-sm text-gray-500">{watermarkSettings.logo.margin}px</span>
+                </div>
+                <Slider 
+                  id="logo-margin"
+                  min={0} 
+                  max={200} 
+                  step={1}
+                  value={[watermarkSettings.logo.margin]}
+                  onValueChange={(value) => onUpdateSettings({ logo: { ...watermarkSettings.logo!, margin: value[0] } })}
+                />
+              </div>
+              
+              {/* Logo Position */}
+              <div>
+                <Label htmlFor="logo-position" className="mb-2 block">Position</Label>
+                <Select 
+                  value={watermarkSettings.logo.position} 
+                  onValueChange={(position) => onUpdateSettings({ logo: { ...watermarkSettings.logo!, position } })}
+                >
+                  <SelectTrigger id="logo-position" className="w-full">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {positions.map((position) => (
+                      <SelectItem key={position.id} value={position.id}>
+                        {position.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          )}
         </div>
         
         {/* EXIF Metadata */}
@@ -120,6 +711,192 @@ export default function WatermarkForm({
           <p className="text-sm text-gray-500">
             Add metadata tags that request AI systems not to use this image for training purposes.
           </p>
+          {exifProtection && cannotHold('exif') && (
+            <p className="text-xs text-amber-600 mt-1">{IMAGE_FORMATS[savedFormat].label} output cannot carry EXIF, save as JPEG, PNG, WebP or AVIF or turn this off.</p>
+          )}
+          
+          {exifProtection && (
+            <div className="space-y-3 mt-3">
+              {EXIF_NOTICE_FIELDS.map((field) => (
+                <div key={field}>
+                  <Label htmlFor={`exif-${field}`} className="text-xs text-gray-500">{EXIF_NOTICE_TAGS[field].tag}</Label>
+                  <Input 
+                    id={`exif-${field}`}
+                    value={exifNotice[field]}
+                    onChange={(e) => onExifNoticeUpdate({ [field]: e.target.value })}
+                  />
+                </div>
+              ))}
+              <p className="text-xs text-gray-500">
+                Fields take the same variables as the watermark text, e.g. {'{year}'} or {'{artist}'}. Empty fields leave the image's own tag as it is; Artist is empty by default so the creator's name is kept. Accents and symbols outside ASCII are simplified, except in the XP tags.
+              </p>
+            </div>
+          )}
+        </div>
+
+        {/* XMP Rights Notices */}
+        <div>
+          <div className="flex items-center justify-between mb-2">
+            <Label>XMP Rights Notices</Label>
+            <Switch 
+              id="xmp-toggle" 
+              checked={xmpRights.enabled}
+              onCheckedChange={(enabled) => onXmpUpdate({ enabled })}
+            />
+          </div>
+          <p className="text-sm text-gray-500">
+            Machine-readable notices that dataset tools and crawlers check: the PLUS data mining value, rights statements and a TDMRep reservation. Written to JPEG, PNG, WebP and TIFF.
+          </p>
+          {xmpRights.enabled && cannotHold('xmp') && (
+            <p className="text-xs text-amber-600 mt-1">{IMAGE_FORMATS[savedFormat].label} output cannot carry XMP, save as JPEG, PNG, WebP or TIFF or turn this off.</p>
+          )}
+          
+          {xmpRights.enabled && (
+            <div className="space-y-3 mt-3">
+              <div>
+                <Label htmlFor="xmp-data-mining" className="text-xs text-gray-500">Data Mining (plus:DataMining)</Label>
+                <Select 
+                  value={xmpRights.dataMining}
+                  onValueChange={(value) => onXmpUpdate({ dataMining: value as DataMining })}
+                >
+                  <SelectTrigger id="xmp-data-mining" className="w-full">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {DATA_MINING_VALUES.map((value) => (
+                      <SelectItem key={value} value={value}>
+                        {DATA_MINING_LABELS[value]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              
+              <div>
+                <Label htmlFor="xmp-rights" className="text-xs text-gray-500">Rights (dc:rights)</Label>
+                <Input 
+                  id="xmp-rights"
+                  value={xmpRights.rights}
+                  onChange={(e) => onXmpUpdate({ rights: e.target.value })}
+                />
+              </div>
+              
+              <div>
+                <Label htmlFor="xmp-usage-terms" className="text-xs text-gray-500">Usage Terms (xmpRights:UsageTerms)</Label>
+                <Input 
+                  id="xmp-usage-terms"
+                  value={xmpRights.usageTerms}
+                  onChange={(e) => onXmpUpdate({ usageTerms: e.target.value })}
+                />
+              </div>
+              
+              <div>
+                <Label htmlFor="xmp-web-statement" className="text-xs text-gray-500">Licence URL (xmpRights:WebStatement)</Label>
+                <Input 
+                  id="xmp-web-statement"
+                  placeholder="https://example.com/licence"
+                  value={xmpRights.webStatement}
+                  onChange={(e) => onXmpUpdate({ webStatement: e.target.value })}
+                />
+                {!webStatementValid && (
+                  <p className="text-xs text-red-600 mt-1">Use an http:// or https:// URL.</p>
+                )}
+              </div>
+              
+              <div className="flex items-center justify-between">
+                <Label htmlFor="xmp-tdm" className="text-xs text-gray-500">Reserve text and data mining rights (tdm:reservation)</Label>
+                <Switch 
+                  id="xmp-tdm"
+                  checked={xmpRights.tdmReservation}
+                  onCheckedChange={(tdmReservation) => onXmpUpdate({ tdmReservation })}
+                />
+              </div>
+              
+              {xmpRights.tdmReservation && (
+                <div>
+                  <Label htmlFor="xmp-tdm-policy" className="text-xs text-gray-500">TDM Policy URL (tdm:policy)</Label>
+                  <Input 
+                    id="xmp-tdm-policy"
+                    placeholder="https://example.com/tdm-policy.json"
+                    value={xmpRights.tdmPolicy}
+                    onChange={(e) => onXmpUpdate({ tdmPolicy: e.target.value })}
+                  />
+                  {!tdmPolicyValid && (
+                    <p className="text-xs text-red-600 mt-1">Use an http:// or https:// URL.</p>
+                  )}
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+
+        {/* IPTC Notice */}
+        <div>
+          <div className="flex items-center justify-between mb-2">
+            <Label>IPTC Copyright Notice</Label>
+            <Switch 
+              id="iptc-toggle" 
+              checked={iptcNotice.enabled}
+              onCheckedChange={(enabled) => onIptcUpdate({ enabled })}
+            />
+          </div>
+          <p className="text-sm text-gray-500">
+            Legacy IPTC-IIM fields that many asset management systems and news workflows read instead of EXIF. Written to JPEG and PNG, merged with any IPTC the image already has.
+          </p>
+          {iptcNotice.enabled && cannotHold('iptc') && (
+            <p className="text-xs text-amber-600 mt-1">{IMAGE_FORMATS[savedFormat].label} output cannot carry IPTC, save as JPEG or PNG or turn this off.</p>
+          )}
+          
+          {iptcNotice.enabled && (
+            <div className="space-y-3 mt-3">
+              {IPTC_TEXT_FIELDS.map((field) => (
+                <div key={field}>
+                  <Label htmlFor={`iptc-${field}`} className="text-xs text-gray-500">{IPTC_LABELS[field]}</Label>
+                  <Input 
+                    id={`iptc-${field}`}
+                    value={iptcNotice[field]}
+                    onChange={(e) => onIptcUpdate({ [field]: e.target.value })}
+                  />
+                  {iptcTooLong(field) && (
+                    <p className="text-xs text-red-600 mt-1">IPTC allows at most {IPTC_FIELDS[field].maxBytes} bytes here.</p>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* Tamper Detection */}
+        <div>
+          <div className="flex items-center justify-between mb-2">
+            <Label>Tamper Detection</Label>
+            <Switch 
+              id="tamper-toggle" 
+              checked={tamperProtection}
+              onCheckedChange={onTamperToggle}
+            />
+          </div>
+          <p className="text-sm text-gray-500">
+            Seal every 16px block so edits can be located later on the Tamper Check page. The seal needs a lossless format, so JPEG, AVIF and GIF output is saved as PNG instead, or as lossless WebP for animations.
+          </p>
+        </div>
+
+        {/* C2PA Manifest */}
+        <div>
+          <div className="flex items-center justify-between mb-2">
+            <Label>C2PA Provenance Manifest</Label>
+            <Switch 
+              id="c2pa-toggle" 
+              checked={c2paManifest}
+              onCheckedChange={onC2paToggle}
+            />
+          </div>
+          <p className="text-sm text-gray-500">
+            Sign a manifest that forbids AI training and data mining and records the steps applied, so any later change to the file can be detected. Needs a signing key configured on the server.
+          </p>
+          {c2paManifest && cannotHold('c2pa') && (
+            <p className="text-xs text-amber-600 mt-1">{IMAGE_FORMATS[savedFormat].label} output cannot carry a manifest, save as JPEG or PNG or turn this off.</p>
+          )}
         </div>
 
         {/* Adversarial Noise Protection */}
@@ -201,6 +978,28 @@ export default function WatermarkForm({
                     </SelectItem>
                   </SelectContent>
                 </Select>
+                {paletteDropsNoise && (
+                  <p className="text-xs text-amber-600 mt-1">The GIF palette removes Gaussian and uniform noise, use Perlin noise or save in another format.</p>
+                )}
+              </div>
+
+              {/* Seed */}
+              <div>
+                <Label htmlFor="adversarial-seed" className="text-sm text-blue-900 mb-2 block">
+                  Seed
+                </Label>
+                <Input 
+                  type="text" 
+                  id="adversarial-seed"
+                  value={adversarialSettings.seed}
+                  onChange={(e) => onAdversarialUpdate({ seed: e.target.value })}
+                  placeholder="Random"
+                  className="w-full font-mono"
+                  maxLength={64}
+                />
+                <p className="text-xs text-blue-700 mt-1">
+                  The same seed gives the same noise. It is recorded in the XMP, so the Check page can find Gaussian and uniform noise in a copy of the image.
+                </p>
               </div>
 
               {/* Warning for high intensity */}
@@ -217,10 +1016,321 @@ export default function WatermarkForm({
           )}
         </div>
         
+        {/* Invisible Watermark */}
+        <div className="bg-indigo-50 p-4 rounded-lg border border-indigo-200">
+          <div className="flex items-center justify-between mb-2">
+            <div className="flex items-center gap-2">
+              <Fingerprint className="h-4 w-4 text-indigo-600" />
+              <Label className="text-indigo-900 font-medium">Invisible Owner ID</Label>
+            </div>
+            <Switch 
+              id="invisible-toggle" 
+              checked={invisibleSettings.enabled}
+              onCheckedChange={(enabled) => onInvisibleUpdate({ enabled })}
+            />
+          </div>
+          <p className="text-sm text-indigo-700 mb-4">
+            Hide a 64-bit ID in the image that survives re-compression, resizing and cropping, so you can prove ownership later.
+          </p>
+          
+          {invisibleSettings.enabled && (
+            <div className="space-y-4">
+              {/* Owner ID */}
+              <div>
+                <Label htmlFor="invisible-owner-id" className="text-sm text-indigo-900 mb-2 block">
+                  Owner / Asset ID (hex)
+                </Label>
+                <div className="flex gap-2">
+                  <Input 
+                    type="text" 
+                    id="invisible-owner-id"
+                    value={invisibleSettings.ownerId}
+                    onChange={(e) => onInvisibleUpdate({ ownerId: e.target.value })}
+                    className="w-full font-mono"
+                    maxLength={18}
+                  />
+                  <Button
+                    type="button"
+                    size="icon"
+                    variant="outline"
+                    title="Generate a new ID"
+                    onClick={() => onInvisibleUpdate({ ownerId: generateOwnerId() })}
+                  >
+                    <RefreshCw className="h-4 w-4" />
+                  </Button>
+                </div>
+                {!ownerIdValid && (
+                  <p className="text-xs text-red-600 mt-1">Use 1-16 hexadecimal digits.</p>
+                )}
+              </div>
+              
+              {/* Embedding Strength */}
+              <div>
+                <div className="flex justify-between items-center mb-2">
+                  <Label htmlFor="invisible-strength" className="text-sm text-indigo-900">
+                    Embedding Strength
+                  </Label>
+                  <span className="text-sm text-indigo-600 font-medium">
+                    {invisibleSettings.strength}/10
+                  </span>
+                </div>
+                <Slider 
+                  id="invisible-strength"
+                  min={1} 
+                  max={10} 
+                  step={1}
+                  value={[invisibleSettings.strength]}
+                  onValueChange={(value) => onInvisibleUpdate({ strength: value[0] })}
+                  className="w-full"
+                />
+                <div className="flex justify-between text-xs text-indigo-600 mt-1">
+                  <span>Invisible</span>
+                  <span>Robust</span>
+                </div>
+              </div>
+            </div>
+          )}
+        </div>
+        
+        {/* Export */}
+        <div>
+          <Label className="mb-2 block">Export</Label>
+          <div className="space-y-4 bg-gray-50 p-3 rounded-md border border-gray-200">
+            <div>
+              <Label htmlFor="output-format" className="text-xs text-gray-500">Format</Label>
+              <Select 
+                value={outputSettings.format}
+                onValueChange={(value) => onOutputUpdate({ format: value as OutputFormat })}
+              >
+                <SelectTrigger id="output-format" className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {OUTPUT_FORMATS.map((format) => (
+                    <SelectItem key={format} value={format}>
+                      {format === 'original' ? `Same as original (${IMAGE_FORMATS[sourceFormat].label})` : IMAGE_FORMATS[format].label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {tamperFallback && (
+                <p className="text-xs text-amber-600 mt-1">
+                  Tamper detection is on, the image will be saved as {IMAGE_FORMATS[savedFormat].label}.
+                </p>
+              )}
+              {flattensAnimation && (
+                <p className="text-xs text-amber-600 mt-1">
+                  {IMAGE_FORMATS[savedFormat].label} cannot hold animations, only the first of {sourceFrames} frames is kept.
+                </p>
+              )}
+              {animated && !flattensAnimation && (
+                <p className="text-xs text-gray-500 mt-1">
+                  All {sourceFrames} frames are protected, with their timing and loop count kept.
+                </p>
+              )}
+            </div>
+            
+            {/* Quality applies to JPEG and lossy WebP */}
+            {(savedFormat === 'jpeg' || (savedFormat === 'webp' && !tamperProtection)) && (
+              <div>
+                <div className="flex justify-between items-center mb-1">
+                  <Label htmlFor="output-quality" className="text-xs text-gray-500">Quality</Label>
+                  <span className="text-sm text-gray-500">{outputSettings.jpegQuality}</span>
+                </div>
+                <Slider 
+                  id="output-quality"
+                  min={1} 
+                  max={100} 
+                  step={1}
+                  value={[outputSettings.jpegQuality]}
+                  onValueChange={(value) => onOutputUpdate({ jpegQuality: value[0] })}
+                />
+              </div>
+            )}
+            
+            {savedFormat === 'jpeg' && (
+              <>
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="output-mozjpeg" className="text-xs text-gray-500">MozJPEG (smaller files, slower)</Label>
+                  <Switch 
+                    id="output-mozjpeg"
+                    checked={outputSettings.mozjpeg}
+                    onCheckedChange={(mozjpeg) => onOutputUpdate({ mozjpeg })}
+                  />
+                </div>
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="output-progressive" className="text-xs text-gray-500">Progressive</Label>
+                  <Switch 
+                    id="output-progressive"
+                    checked={outputSettings.progressive || outputSettings.mozjpeg}
+                    disabled={outputSettings.mozjpeg}
+                    onCheckedChange={(progressive) => onOutputUpdate({ progressive })}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="output-chroma" className="text-xs text-gray-500">Chroma Subsampling</Label>
+                  <Select 
+                    value={outputSettings.chromaSubsampling}
+                    onValueChange={(value) => onOutputUpdate({ chromaSubsampling: value as ChromaSubsampling })}
+                  >
+                    <SelectTrigger id="output-chroma" className="w-full">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="4:2:0">4:2:0 (smaller)</SelectItem>
+                      <SelectItem value="4:4:4">4:4:4 (sharper colour edges)</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              </>
+            )}
+            
+            {savedFormat === 'png' && (
+              <>
+                <div>
+                  <div className="flex justify-between items-center mb-1">
+                    <Label htmlFor="output-compression" className="text-xs text-gray-500">Compression Level</Label>
+                    <span className="text-sm text-gray-500">{outputSettings.pngCompressionLevel}</span>
+                  </div>
+                  <Slider 
+                    id="output-compression"
+                    min={0} 
+                    max={9} 
+                    step={1}
+                    value={[outputSettings.pngCompressionLevel]}
+                    onValueChange={(value) => onOutputUpdate({ pngCompressionLevel: value[0] })}
+                  />
+                </div>
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="output-palette" className="text-xs text-gray-500">Palette (256 colours, lossy)</Label>
+                  <Switch 
+                    id="output-palette"
+                    checked={outputSettings.pngPalette && !tamperProtection}
+                    disabled={tamperProtection}
+                    onCheckedChange={(pngPalette) => onOutputUpdate({ pngPalette })}
+                  />
+                </div>
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="output-interlace" className="text-xs text-gray-500">Interlaced</Label>
+                  <Switch 
+                    id="output-interlace"
+                    checked={outputSettings.progressive}
+                    onCheckedChange={(progressive) => onOutputUpdate({ progressive })}
+                  />
+                </div>
+              </>
+            )}
+            
+            {(savedFormat === 'webp' || savedFormat === 'avif') && (
+              <div>
+                <div className="flex justify-between items-center mb-1">
+                  <Label htmlFor="output-effort" className="text-xs text-gray-500">Compression Effort</Label>
+                  <span className="text-sm text-gray-500">
+                    {savedFormat === 'webp' ? `${outputSettings.webpEffort}/6` : `${outputSettings.avifEffort}/9`}
+                  </span>
+                </div>
+                <Slider 
+                  id="output-effort"
+                  min={0} 
+                  max={savedFormat === 'webp' ? 6 : 9} 
+                  step={1}
+                  value={[savedFormat === 'webp' ? outputSettings.webpEffort : outputSettings.avifEffort]}
+                  onValueChange={(value) => onOutputUpdate(savedFormat === 'webp' ? { webpEffort: value[0] } : { avifEffort: value[0] })}
+                />
+              </div>
+            )}
+            
+            <div>
+              <Label htmlFor="output-color" className="text-xs text-gray-500">Colour</Label>
+              <Select 
+                value={outputSettings.colorMode}
+                onValueChange={(value) => onOutputUpdate({ colorMode: value as ColorMode })}
+              >
+                <SelectTrigger id="output-color" className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="preserve">Keep original (profile, CMYK, 16-bit)</SelectItem>
+                  <SelectItem value="srgb">Convert to sRGB</SelectItem>
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-gray-500 mt-1">
+                {outputSettings.colorMode === 'preserve'
+                  ? 'CMYK is kept in JPEG and TIFF, 16-bit in PNG and TIFF. Noise, the invisible ID and tamper detection work in RGB, tamper detection in 8-bit.'
+                  : 'Colours are converted from the embedded profile to 8-bit sRGB, the safest choice for the web.'}
+              </p>
+            </div>
+            
+            <div>
+              <Label htmlFor="output-intent" className="text-xs text-gray-500">Rendering Intent</Label>
+              <Select 
+                value={outputSettings.renderingIntent}
+                onValueChange={(value) => onOutputUpdate({ renderingIntent: value as RenderingIntent })}
+              >
+                <SelectTrigger id="output-intent" className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="perceptual">Perceptual</SelectItem>
+                  <SelectItem value="relative">Relative colorimetric</SelectItem>
+                  <SelectItem value="saturation">Saturation</SelectItem>
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-gray-500 mt-1">
+                How out-of-gamut colours are mapped between profiles. Most RGB profiles map the same way under every intent, print profiles differ.
+              </p>
+            </div>
+            
+            <div>
+              <Label htmlFor="output-metadata" className="text-xs text-gray-500">Metadata</Label>
+              <Select 
+                value={outputSettings.metadataPreset}
+                onValueChange={(value) => onOutputUpdate({ metadataPreset: value as MetadataPreset })}
+              >
+                <SelectTrigger id="output-metadata" className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="keep">Keep all metadata</SelectItem>
+                  <SelectItem value="copyright">Keep copyright only</SelectItem>
+                  <SelectItem value="camera">Keep camera info</SelectItem>
+                  <SelectItem value="notices">Remove everything but the notices</SelectItem>
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-gray-500 mt-1">
+                {outputSettings.metadataPreset === 'keep'
+                  ? 'EXIF, XMP and IPTC of the original are published with the image.'
+                  : 'Everything else is removed, including XMP, IPTC, comments and the EXIF thumbnail. The metadata panel lists each entry.'}
+              </p>
+            </div>
+            
+            <div>
+              <div className="flex justify-between items-center text-sm">
+                <span className="text-gray-500">Estimated size</span>
+                <span className={`font-medium ${estimatedSize.loading ? 'text-gray-400' : 'text-gray-700'}`}>
+                  {estimatedSize.estimate
+                    ? `${formatBytes(estimatedSize.estimate.bytes)} ${IMAGE_FORMATS[estimatedSize.estimate.format].label}`
+                    : estimatedSize.loading ? 'Estimating...' : 'Unavailable'}
+                </span>
+              </div>
+              <p className="text-xs text-gray-500 mt-1">
+                Before protection; adversarial noise makes lossy formats compress less.
+              </p>
+            </div>
+          </div>
+        </div>
+        
         <div className="pt-4 border-t border-gray-200">
+          {keptSensitive.length > 0 && (
+            <p className="flex items-start text-xs text-amber-600 mb-3">
+              <AlertTriangle className="h-4 w-4 mr-1 flex-shrink-0" />
+              The download will contain: {keptSensitive.map((kind) => SENSITIVE_LABELS[kind]).join(', ')}. Pick a metadata preset under Export to remove it.
+            </p>
+          )}
           <Button 
             type="button" 
             onClick={onProcessImage}
+            disabled={(invisibleSettings.enabled && !ownerIdValid) || !xmpValid || !iptcValid || unwritable || paletteDropsNoise}
             className="w-full h-12"
           >
             <Download className="h-5 w-5 mr-2" />
@@ -231,3 +1341,28 @@ export default function WatermarkForm({
     </div>
   );
 }
+
+const DATA_MINING_LABELS: Record<DataMining, string> = {
+  'DMI-UNSPECIFIED': 'Unspecified',
+  'DMI-ALLOWED': 'Allowed',
+  'DMI-PROHIBITED-AIMLTRAINING': 'Prohibited for AI/ML training',
+  'DMI-PROHIBITED-GENAIMLTRAINING': 'Prohibited for generative AI/ML training',
+  'DMI-PROHIBITED-EXCEPTSEARCHENGINEINDEXING': 'Prohibited except search engine indexing',
+  'DMI-PROHIBITED': 'Prohibited',
+};
+
+const IPTC_TEXT_FIELDS: IptcTextField[] = ['copyrightNotice', 'byline', 'credit', 'specialInstructions'];
+
+const IPTC_LABELS: Record<IptcTextField, string> = {
+  copyrightNotice: 'Copyright Notice',
+  byline: 'By-line (creator)',
+  credit: 'Credit',
+  specialInstructions: 'Special Instructions',
+};
+
+// Human-readable file size
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
@@ -0,0 +1,18 @@
+import * as React from "react";
+import { useQuery } from "@tanstack/react-query";
+import { loadCustomFont, type CustomFont } from "@/lib/fonts";
+
+// List the uploaded fonts and make them available to the preview and canvas
+export function useCustomFonts() {
+  const { data: fonts = [] } = useQuery<CustomFont[]>({ queryKey: ["/api/fonts"] });
+
+  React.useEffect(() => {
+    fonts.forEach((font) => {
+      loadCustomFont(font).catch((error) => {
+        console.error(`Failed to load font ${font.family}:`, error);
+      });
+    });
+  }, [fonts]);
+
+  return fonts;
+}
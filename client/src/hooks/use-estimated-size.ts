@@ -0,0 +1,26 @@
+import * as React from "react";
+import { keepPreviousData, useQuery } from "@tanstack/react-query";
+import { estimateOutputSize, type SizeEstimate } from "@/lib/image-processor";
+import type { OutputSettings } from "@shared/output-settings";
+
+// Wait for sliders to settle before asking the server again
+const DEBOUNCE_MS = 400;
+
+// Estimated download size for the export settings, the last estimate stays visible while a new one loads
+export function useEstimatedSize(file: File, output: OutputSettings, tamperProtection: boolean) {
+  const [settled, setSettled] = React.useState({ output, tamperProtection });
+
+  React.useEffect(() => {
+    const timer = setTimeout(() => setSettled({ output, tamperProtection }), DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [output, tamperProtection]);
+
+  const { data, isFetching } = useQuery<SizeEstimate>({
+    // Files hash to {} in query keys, so the key names the file by its properties
+    queryKey: ["/api/estimate-size", file.name, file.size, file.lastModified, settled.output, settled.tamperProtection],
+    queryFn: () => estimateOutputSize(file, settled.output, settled.tamperProtection),
+    placeholderData: keepPreviousData,
+  });
+
+  return { estimate: data ?? null, loading: isFetching };
+}
@@ -0,0 +1,13 @@
+import { useQuery } from "@tanstack/react-query";
+import { readImageMetadata } from "@/lib/image-processor";
+
+// Metadata entries and AI-training notices of the uploaded file, read once and shared by the export settings and the metadata panel
+export function useImageMetadata(file: File) {
+  const { data, isLoading } = useQuery({
+    // Files hash to {} in query keys, so the key names the file by its properties
+    queryKey: ["/api/extract-exif", file.name, file.size, file.lastModified],
+    queryFn: () => readImageMetadata(file),
+  });
+
+  return { entries: data?.entries ?? [], aiNotices: data?.aiNotices ?? [], loading: isLoading };
+}
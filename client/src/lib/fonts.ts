@@ -0,0 +1,42 @@
+// Fonts uploaded to the server through /api/fonts
+export interface CustomFont {
+  id: string;
+  family: string; // Family name from the font file, also used on the server
+  weight: number; // 100-900
+  format: 'ttf' | 'otf' | 'woff2';
+  fileName: string;
+  uploadedAt: string;
+}
+
+// FontFaces already added to the document, by font ID
+const loadedFonts = new Map<string, Promise<void>>();
+
+// Register an uploaded font with the document so CSS and canvas can use its family
+export function loadCustomFont(font: CustomFont): Promise<void> {
+  let loading = loadedFonts.get(font.id);
+  if (!loading) {
+    const face = new FontFace(font.family, `url(/api/fonts/${font.id})`, { weight: String(font.weight) });
+    document.fonts.add(face);
+    loading = face.load().then(() => undefined);
+    loadedFonts.set(font.id, loading);
+  }
+  return loading;
+}
+
+// Upload a TTF/OTF/WOFF2 file, the server replies with the stored font
+export async function uploadFont(file: File): Promise<CustomFont> {
+  const formData = new FormData();
+  formData.append('font', file);
+
+  const response = await fetch('/api/fonts', {
+    method: 'POST',
+    body: formData
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => null);
+    throw new Error(error?.message || `Server responded with ${response.status}`);
+  }
+
+  return response.json();
+}
@@ -1,173 +1,550 @@
+import type { WatermarkSettings, WatermarkPlacement, WatermarkRegion, LogoSettings, InvisibleWatermarkSettings } from '@/pages/home';
+import { buildTemplateVariables, hasTemplateSyntax, resolveTemplate, type TemplateVariables } from '@shared/watermark-template';
+import { autoOutlineWidth, computeRegionStats, pickContrastColors, type ContrastColors } from '@shared/contrast';
+import { detectImageFormat, hasColorData, IMAGE_FORMATS, MAGIC_BYTES_LENGTH, type ImageFormat } from '@shared/image-formats';
+import { DEFAULT_OUTPUT_SETTINGS, type OutputSettings, type RaisedQuality } from '@shared/output-settings';
+import type { MetadataEntry } from '@shared/metadata-privacy';
+import type { AiNotice } from '@shared/decoded-metadata';
+import type { StageFailure } from '@shared/verification';
+import { DEFAULT_XMP_RIGHTS, type XmpRightsSettings } from '@shared/xmp-rights';
+import { DEFAULT_IPTC_NOTICE, type IptcNoticeSettings } from '@shared/iptc-notice';
+import { DEFAULT_EXIF_NOTICE, exifNoticeTags, type ExifNoticeSettings } from '@shared/exif-notice';
+
+// Formats the canvas can encode, anything else is converted on the server
+const CANVAS_FORMATS: ImageFormat[] = ['jpeg', 'png'];
+
 // Client-side image processor for previewing and downloading
 export async function addWatermarkToCanvas(
   imageUrl: string,
-  watermarkSettings: {
-    text: string;
-    position: string;
-    opacity: number;
-    fontSize: number;
-  },
-  exifProtection: boolean = false
+  watermarkSettings: WatermarkSettings,
+  exifProtection: boolean = false,
+  format: ImageFormat = 'jpeg',
+  quality: number = DEFAULT_OUTPUT_SETTINGS.jpegQuality
 ): Promise<Blob> {
-  // Create image element
-  const img = new Image();
+  // Load the logo up front so it can be drawn synchronously with the text
+  const logoImage = watermarkSettings.logo ? await loadImage(watermarkSettings.logo.url) : null;
+  
+  // Make sure an uploaded font has finished loading, canvas text does not wait for it
+  await document.fonts
+    .load(`${watermarkSettings.fontWeight} ${watermarkSettings.fontSize}px ${cssFontFamily(watermarkSettings.fontFamily)}`, watermarkSettings.text)
+    .catch(() => undefined);
+  
+  // Decode with the EXIF orientation applied, the canvas output has no orientation tag to fix it later
+  const img = await loadOrientedImage(imageUrl);
   
   // Return a promise that resolves with the processed image blob
   return new Promise((resolve, reject) => {
-    img.onload = () => {
-      // Create canvas
-      const canvas = document.createElement('canvas');
-      canvas.width = img.width;
-      canvas.height = img.height;
-      
-      // Get drawing context with alpha support for transparency
-      const ctx = canvas.getContext('2d', { alpha: true });
-      if (!ctx) {
-        reject(new Error('Could not get canvas context'));
-        return;
-      }
-      
-      // Clear canvas with transparent background
-      ctx.clearRect(0, 0, canvas.width, canvas.height);
-      
-      // Draw original image
-      ctx.drawImage(img, 0, 0);
-      
-      // Set watermark properties
-      ctx.font = `bold ${watermarkSettings.fontSize}px Inter, sans-serif`;
-      ctx.fillStyle = `rgba(255, 255, 255, ${watermarkSettings.opacity / 100})`;
-      ctx.shadowColor = 'rgba(0, 0, 0, 0.8)';
-      ctx.shadowBlur = 3;
-      ctx.shadowOffsetX = 1;
-      ctx.shadowOffsetY = 1;
-      
-      // Measure text width
-      const textWidth = ctx.measureText(watermarkSettings.text).width;
-      
-      // Calculate position
-      let x = 0;
-      let y = 0;
-      
-      switch (watermarkSettings.position) {
-        case 'top-left':
-          x = 30;
-          y = 30 + watermarkSettings.fontSize;
-          break;
-        case 'top-center':
-          x = (canvas.width - textWidth) / 2;
-          y = 30 + watermarkSettings.fontSize;
-          break;
-        case 'top-right':
-          x = canvas.width - textWidth - 30;
-          y = 30 + watermarkSettings.fontSize;
-          break;
-        case 'middle-left':
-          x = 30;
-          y = canvas.height / 2;
-          break;
-        case 'middle-center':
-          x = (canvas.width - textWidth) / 2;
-          y = canvas.height / 2;
-          break;
-        case 'middle-right':
-          x = canvas.width - textWidth - 30;
-          y = canvas.height / 2;
-          break;
-        case 'bottom-left':
-          x = 30;
-          y = canvas.height - 30;
-          break;
-        case 'bottom-center':
-          x = (canvas.width - textWidth) / 2;
-          y = canvas.height - 30;
-          break;
-        case 'bottom-right':
-        default:
-          x = canvas.width - textWidth - 30;
-          y = canvas.height - 30;
-      }
-      
-      // Draw watermark text
-      ctx.fillText(watermarkSettings.text, x, y);
-      
-      // Add subtle indicator for EXIF protection
-      if (exifProtection) {
-        // Add a small text note in the corner about EXIF protection
-        const exifNote = "Protected with EXIF metadata";
-        const noteSize = 10;
-        ctx.font = `${noteSize}px Arial, sans-serif`;
-        ctx.fillStyle = "rgba(255, 255, 255, 0.7)";
-        ctx.textAlign = "right";
-        ctx.fillText(exifNote, canvas.width - 10, canvas.height - 10);
-      }
-      
-      // Check original file type to preserve format
-      let outputFormat = 'image/jpeg';
-      
-      // Try to get the file type in various ways
-      if (imageUrl.toLowerCase().endsWith('.png')) {
-        outputFormat = 'image/png';
-      } else if (imageUrl.toLowerCase().endsWith('.gif')) {
-        outputFormat = 'image/gif';
-      } else if (imageUrl.toLowerCase().endsWith('.webp')) {
-        outputFormat = 'image/webp';
-      }
-      
-      // Convert canvas to blob and resolve promise
-      canvas.toBlob((blob) => {
-        if (blob) {
-          resolve(blob);
-        } else {
-          reject(new Error('Failed to create image blob'));
-        }
-      }, outputFormat, 0.95);
-    };
+    // Create canvas
+    const canvas = document.createElement('canvas');
+    canvas.width = img.width;
+    canvas.height = img.height;
     
-    img.onerror = () => {
-      reject(new Error('Failed to load image'));
-    };
+    // Get drawing context with alpha support for transparency
+    const ctx = canvas.getContext('2d', { alpha: true });
+    if (!ctx) {
+      reject(new Error('Could not get canvas context'));
+      return;
+    }
+    
+    // Clear canvas with transparent background
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    
+    // Draw original image
+    ctx.drawImage(img, 0, 0);
+    
+    // Set watermark properties
+    ctx.save();
+    applyTextStyle(ctx, watermarkSettings);
+    const textWidth = ctx.measureText(watermarkSettings.text).width;
+    
+    // Auto contrast picks the colors from the original pixels under the text
+    let textSettings = watermarkSettings;
+    if (watermarkSettings.autoContrast) {
+      const region = getTextRegion(canvas.width, canvas.height, watermarkSettings, textWidth);
+      textSettings = withContrastColors(watermarkSettings, sampleContrastColors(img, region, watermarkSettings.contrastRatio));
+    }
     
-    // Set crossOrigin to ensure CORS compatibility if needed
-    img.crossOrigin = 'anonymous';
-    img.src = imageUrl;
+    if (watermarkSettings.mode === 'tiled') {
+      drawTiledWatermark(ctx, canvas.width, canvas.height, textSettings, textWidth);
+    } else {
+      drawSingleWatermark(ctx, canvas.width, canvas.height, textSettings, textWidth);
+    }
+    ctx.restore();
+    
+    // Draw logo layer
+    if (logoImage && watermarkSettings.logo) {
+      const rect = getLogoRect(logoImage, canvas.width, canvas.height, watermarkSettings.logo);
+      const colors = watermarkSettings.autoContrast
+        ? sampleContrastColors(img, rect, watermarkSettings.contrastRatio)
+        : null;
+      drawLogo(ctx, logoImage, rect, watermarkSettings.logo, colors);
+    }
+    
+    // Add subtle indicator for EXIF protection
+    if (exifProtection) {
+      // Add a small text note in the corner about EXIF protection
+      const exifNote = "Protected with EXIF metadata";
+      const noteSize = 10;
+      ctx.font = `${noteSize}px Arial, sans-serif`;
+      ctx.fillStyle = "rgba(255, 255, 255, 0.7)";
+      ctx.textAlign = "right";
+      ctx.fillText(exifNote, canvas.width - 10, canvas.height - 10);
+    }
+    img.close();
+    
+    // Convert canvas to blob and resolve promise
+    canvas.toBlob((blob) => {
+      if (blob) {
+        resolve(blob);
+      } else {
+        reject(new Error('Failed to create image blob'));
+      }
+    }, IMAGE_FORMATS[format].contentType, quality / 100);
   });
 }
 
+// Decode an image from a (blob) URL, rotated and flipped as its EXIF orientation says
+async function loadOrientedImage(url: string): Promise<ImageBitmap> {
+  try {
+    const blob = await (await fetch(url)).blob();
+    return await createImageBitmap(blob, { imageOrientation: 'from-image' });
+  } catch (error) {
+    throw new Error('Failed to load image');
+  }
+}
+
+// Load an image element from a (blob) URL
+function loadImage(url: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error('Failed to load image'));
+    img.src = url;
+  });
+}
+
+// Logo rectangle at its preset position, sized relative to the image width (mirrors the server overlay)
+function getLogoRect(
+  logoImage: HTMLImageElement,
+  width: number,
+  height: number,
+  logo: LogoSettings
+): Rect {
+  const fit = Math.min((width * logo.scale) / 100 / logoImage.width, height / logoImage.height);
+  const logoWidth = logoImage.width * fit;
+  const logoHeight = logoImage.height * fit;
+  const [vertical, horizontal] = logo.position.split('-');
+
+  let x = width - logoWidth - logo.margin;
+  if (horizontal === 'left') x = logo.margin;
+  else if (horizontal === 'center') x = (width - logoWidth) / 2;
+
+  let y = height - logoHeight - logo.margin;
+  if (vertical === 'top') y = logo.margin;
+  else if (vertical === 'middle') y = (height - logoHeight) / 2;
+
+  return { left: x, top: y, width: logoWidth, height: logoHeight };
+}
+
+// Draw the logo, as a silhouette in the auto contrast colors when given
+function drawLogo(
+  ctx: CanvasRenderingContext2D,
+  logoImage: HTMLImageElement,
+  rect: Rect,
+  logo: LogoSettings,
+  colors: ContrastColors | null
+) {
+  ctx.save();
+  ctx.globalAlpha = logo.opacity / 100;
+  ctx.shadowColor = 'transparent';
+  if (colors) {
+    const fill = tintImage(logoImage, rect.width, rect.height, colors.fill);
+    if (colors.needsOutline) {
+      // Approximate a dilated outline by stamping the stroke-colored silhouette around the logo
+      const outline = tintImage(logoImage, rect.width, rect.height, colors.stroke);
+      const radius = autoOutlineWidth(rect.width / 4);
+      for (let i = 0; i < 8; i++) {
+        const angle = (i * Math.PI) / 4;
+        ctx.drawImage(outline, rect.left + Math.cos(angle) * radius, rect.top + Math.sin(angle) * radius);
+      }
+    }
+    ctx.drawImage(fill, rect.left, rect.top);
+  } else {
+    ctx.drawImage(logoImage, rect.left, rect.top, rect.width, rect.height);
+  }
+  ctx.restore();
+}
+
+// The image's shape filled with a single color
+function tintImage(image: HTMLImageElement, width: number, height: number, color: string): HTMLCanvasElement {
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(width));
+  canvas.height = Math.max(1, Math.round(height));
+  const ctx = canvas.getContext('2d')!;
+  ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+  ctx.globalCompositeOperation = 'source-in';
+  ctx.fillStyle = color;
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  return canvas;
+}
+
+// Rectangle in image pixels
+interface Rect {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+// Text box geometry, shared with the server SVG renderer and the preview overlay
+const EDGE_MARGIN = 30; // px inset from the image edges
+const LINE_HEIGHT = 1.2; // box height in em
+const BASELINE_OFFSET = 0.35; // box centre to baseline in em
+export const PLATE_PADDING = 0.3; // plate padding in em
+const CONTRAST_SAMPLE_SIZE = 64; // longest edge a region is downscaled to before sampling colors
+
+// Font, colors and shadow for the watermark text
+function applyTextStyle(ctx: CanvasRenderingContext2D, watermarkSettings: WatermarkSettings) {
+  const { fontSize, fontFamily, fontWeight, letterSpacing, opacity, shadow } = watermarkSettings;
+  ctx.font = `${fontWeight} ${fontSize}px ${cssFontFamily(fontFamily)}`;
+  ctx.letterSpacing = `${letterSpacing}px`;
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'alphabetic';
+  ctx.lineJoin = 'round';
+  ctx.globalAlpha = opacity / 100;
+  if (shadow) {
+    ctx.shadowColor = 'rgba(0, 0, 0, 0.8)';
+    ctx.shadowBlur = 3;
+    ctx.shadowOffsetX = 0;
+    ctx.shadowOffsetY = 1;
+  }
+}
+
+// Draw the optional plate, the outline and the text centred on (cx, cy)
+function drawTextBox(
+  ctx: CanvasRenderingContext2D,
+  watermarkSettings: WatermarkSettings,
+  textWidth: number,
+  cx: number,
+  cy: number
+) {
+  const { text, fontSize, fillColor, strokeColor, strokeWidth, background, backgroundColor, backgroundOpacity } = watermarkSettings;
+
+  if (background) {
+    const padding = fontSize * PLATE_PADDING;
+    const boxWidth = textWidth + padding * 2;
+    const boxHeight = fontSize * LINE_HEIGHT + padding * 2;
+    ctx.fillStyle = hexToRgba(backgroundColor, backgroundOpacity / 100);
+    ctx.fillRect(cx - boxWidth / 2, cy - boxHeight / 2, boxWidth, boxHeight);
+  }
+
+  const baseline = cy + fontSize * BASELINE_OFFSET;
+  // The stroke is drawn first at double width so only its outer half shows, like SVG paint-order
+  if (strokeWidth > 0) {
+    ctx.strokeStyle = strokeColor;
+    ctx.lineWidth = strokeWidth * 2;
+    ctx.strokeText(text, cx, baseline);
+  }
+  ctx.fillStyle = fillColor;
+  ctx.fillText(text, cx, baseline);
+}
+
+// Draw a single watermark at its preset or free position, rotated around its own centre
+function drawSingleWatermark(
+  ctx: CanvasRenderingContext2D,
+  width: number,
+  height: number,
+  watermarkSettings: WatermarkSettings,
+  textWidth: number
+) {
+  const { position, placement, fontSize, background, rotation } = watermarkSettings;
+  const padding = background ? fontSize * PLATE_PADDING : 0;
+  const boxWidth = textWidth + padding * 2;
+  const boxHeight = fontSize * LINE_HEIGHT + padding * 2;
+
+  const [cx, cy] = getBoxCenter(position, placement, width, height, boxWidth, boxHeight);
+  ctx.translate(cx, cy);
+  ctx.rotate((-rotation * Math.PI) / 180);
+  drawTextBox(ctx, watermarkSettings, textWidth, 0, 0);
+}
+
+// Area covered by the text: the rotated single box, or the whole image when tiled
+function getTextRegion(width: number, height: number, watermarkSettings: WatermarkSettings, textWidth: number): Rect {
+  if (watermarkSettings.mode === 'tiled') {
+    return { left: 0, top: 0, width, height };
+  }
+
+  const { position, placement, fontSize, background, rotation } = watermarkSettings;
+  const padding = background ? fontSize * PLATE_PADDING : 0;
+  const boxWidth = textWidth + padding * 2;
+  const boxHeight = fontSize * LINE_HEIGHT + padding * 2;
+  const [cx, cy] = getBoxCenter(position, placement, width, height, boxWidth, boxHeight);
+
+  const radians = (rotation * Math.PI) / 180;
+  const cos = Math.abs(Math.cos(radians));
+  const sin = Math.abs(Math.sin(radians));
+  const regionWidth = boxWidth * cos + boxHeight * sin;
+  const regionHeight = boxWidth * sin + boxHeight * cos;
+  return { left: cx - regionWidth / 2, top: cy - regionHeight / 2, width: regionWidth, height: regionHeight };
+}
+
+// Centre of the text box, exact for free placements and clamped inside the image for presets
+function getBoxCenter(
+  position: string,
+  placement: WatermarkPlacement | null,
+  width: number,
+  height: number,
+  boxWidth: number,
+  boxHeight: number
+): [number, number] {
+  if (placement) {
+    return [
+      Math.min(1, Math.max(0, placement.x)) * width,
+      Math.min(1, Math.max(0, placement.y)) * height,
+    ];
+  }
+
+  const [vertical, horizontal] = position.split('-');
+
+  let x = width - boxWidth - EDGE_MARGIN;
+  if (horizontal === 'left') x = EDGE_MARGIN;
+  else if (horizontal === 'center') x = (width - boxWidth) / 2;
+
+  let y = height - boxHeight - EDGE_MARGIN;
+  if (vertical === 'top') y = EDGE_MARGIN;
+  else if (vertical === 'middle') y = (height - boxHeight) / 2;
+
+  // Keep the box inside the image, like the server overlay
+  x = Math.min(Math.max(0, x), Math.max(0, width - boxWidth));
+  y = Math.min(Math.max(0, y), Math.max(0, height - boxHeight));
+
+  return [x + boxWidth / 2, y + boxHeight / 2];
+}
+
+// Repeat the watermark text across the canvas in a rotated grid (mirrors the server SVG)
+function drawTiledWatermark(
+  ctx: CanvasRenderingContext2D,
+  width: number,
+  height: number,
+  watermarkSettings: WatermarkSettings,
+  textWidth: number
+) {
+  const { fontSize, background, tileAngle, tileSpacing, tileStagger } = watermarkSettings;
+  const spacing = Math.max(0, tileSpacing);
+  const stagger = Math.min(100, Math.max(0, tileStagger)) / 100;
+  const padding = background ? fontSize * PLATE_PADDING : 0;
+
+  const stepX = textWidth + padding * 2 + spacing;
+  const stepY = fontSize * LINE_HEIGHT + padding * 2 + spacing;
+
+  // Cover the image diagonal so no corner is left bare after rotation
+  const diagonal = Math.ceil(Math.sqrt(width * width + height * height));
+  const cols = Math.ceil(diagonal / stepX) + 1;
+  const rows = Math.ceil(diagonal / stepY) + 1;
+
+  ctx.translate(width / 2, height / 2);
+  ctx.rotate((-tileAngle * Math.PI) / 180);
+
+  const startX = -(cols * stepX) / 2;
+  const startY = -(rows * stepY) / 2;
+  for (let row = 0; row <= rows; row++) {
+    const offsetX = row % 2 === 1 ? stepX * stagger : 0;
+    for (let col = -1; col <= cols; col++) {
+      drawTextBox(ctx, watermarkSettings, textWidth, startX + col * stepX + offsetX + stepX / 2, startY + row * stepY + stepY / 2);
+    }
+  }
+}
+
+// Pick auto contrast colors from a region of the image, in image pixels
+export function sampleContrastColors(source: HTMLImageElement | ImageBitmap, region: Rect, ratio: number): ContrastColors {
+  const width = source instanceof HTMLImageElement ? source.naturalWidth : source.width;
+  const height = source instanceof HTMLImageElement ? source.naturalHeight : source.height;
+  const left = Math.min(width - 1, Math.max(0, Math.floor(region.left)));
+  const top = Math.min(height - 1, Math.max(0, Math.floor(region.top)));
+  const right = Math.max(left + 1, Math.min(width, Math.ceil(region.left + region.width)));
+  const bottom = Math.max(top + 1, Math.min(height, Math.ceil(region.top + region.height)));
+
+  // Downscale the region like the server does before sampling
+  const fit = Math.min(1, CONTRAST_SAMPLE_SIZE / Math.max(right - left, bottom - top));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round((right - left) * fit));
+  canvas.height = Math.max(1, Math.round((bottom - top) * fit));
+  const ctx = canvas.getContext('2d', { willReadFrequently: true })!;
+  ctx.drawImage(source, left, top, right - left, bottom - top, 0, 0, canvas.width, canvas.height);
+
+  const { data } = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  return pickContrastColors(computeRegionStats(data, 4), ratio);
+}
+
+// Replace the text colors with auto contrast colors, adding an outline where the fill is not enough
+export function withContrastColors(watermarkSettings: WatermarkSettings, colors: ContrastColors): WatermarkSettings {
+  return {
+    ...watermarkSettings,
+    fillColor: colors.fill,
+    strokeColor: colors.stroke,
+    strokeWidth: colors.needsOutline
+      ? Math.max(watermarkSettings.strokeWidth, autoOutlineWidth(watermarkSettings.fontSize))
+      : watermarkSettings.strokeWidth,
+  };
+}
+
+// Quote a font family name and add the fallback chain used by the server renderer
+export function cssFontFamily(family: string): string {
+  const generic = ['serif', 'sans-serif', 'monospace', 'cursive', 'fantasy'];
+  if (generic.includes(family)) return family;
+  return family === 'Arial' ? `Arial, sans-serif` : `'${family}', Arial, sans-serif`;
+}
+
+// Convert #rgb / #rrggbb to an rgba() color
+export function hexToRgba(hex: string, alpha: number): string {
+  let value = hex.replace('#', '');
+  if (value.length === 3) {
+    value = value.split('').map((c) => c + c).join('');
+  }
+  const r = parseInt(value.slice(0, 2), 16) || 0;
+  const g = parseInt(value.slice(2, 4), 16) || 0;
+  const b = parseInt(value.slice(4, 6), 16) || 0;
+  return `rgba(${r}, ${g}, ${b}, ${alpha})`;
+}
+
 // Function to create downloadable image with watermark
 export async function createDownloadableImage(
   image: File,
-  watermarkSettings: {
-    text: string;
-    position: string;
-    opacity: number;
-    fontSize: number;
-  },
+  watermarkSettings: WatermarkSettings,
   exifProtection: boolean = true,  // Default to true for safety
   adversarialSettings?: {
     enabled: boolean;
     intensity: number;
     method: 'gaussian' | 'uniform' | 'perlin';
-  }
+    seed: string;
+  },
+  invisibleSettings?: InvisibleWatermarkSettings,
+  tamperProtection: boolean = false,
+  output: OutputSettings = DEFAULT_OUTPUT_SETTINGS,
+  xmpRights: XmpRightsSettings = DEFAULT_XMP_RIGHTS,
+  iptcNotice: IptcNoticeSettings = DEFAULT_IPTC_NOTICE,
+  exifNotice: ExifNoticeSettings = DEFAULT_EXIF_NOTICE,
+  c2paManifest: boolean = false,
+  onWatermarkRegion?: (region: WatermarkRegion) => void,
+  onRaisedQuality?: (raised: RaisedQuality) => void
 ): Promise<Blob> {
-  // If adversarial protection is enabled, use server-side processing for everything
-  // This ensures proper adversarial noise application with Sharp
-  if (adversarialSettings?.enabled) {
+  // Content-aware placement needs the server's image analysis
+  const autoPlacement = watermarkSettings.position === 'auto' && watermarkSettings.mode !== 'tiled' && !watermarkSettings.placement;
+  
+  // The canvas can only read and write JPEG and PNG reliably, and has no encoder options besides quality
+  const sourceFormat = await detectFileFormat(image);
+  const format = output.format === 'original' ? sourceFormat : output.format;
+  const canvasEncodes = sourceFormat !== null && format !== null &&
+    CANVAS_FORMATS.indexOf(sourceFormat) !== -1 && CANVAS_FORMATS.indexOf(format) !== -1 &&
+    !needsSharpEncoder(output) &&
+    // The canvas drops all metadata, the tags a privacy preset keeps have to come from the server
+    output.metadataPreset === 'keep' &&
+    // The canvas is 8-bit sRGB, colour profiles, CMYK and 16-bit samples are handled by the server
+    !hasColorData(new Uint8Array(await image.arrayBuffer()), sourceFormat);
+  
+  // The EXIF notice as previewed, from the original's variables; the server refuses to write a different one
+  const variables = exifProtection ? await getTemplateVariables(image) : null;
+  const exifPreview = variables ? JSON.stringify(getExifProtectionData(exifNotice, variables)) : null;
+  
+  // Without any stage that changes pixels the server only rewrites the metadata, the canvas would re-encode
+  const metadataOnly = !watermarkSettings.text && !watermarkSettings.logo && format === sourceFormat &&
+    !adversarialSettings?.enabled && !invisibleSettings?.enabled && !tamperProtection;
+  if (metadataOnly) {
+    if (!exifProtection && !xmpRights.enabled && !iptcNotice.enabled && !c2paManifest && output.metadataPreset === 'keep') return image;
+    
+    const formData = new FormData();
+    formData.append('image', image);
+    formData.append('exifProtection', exifProtection.toString());
+    formData.append('output', JSON.stringify(output));
+    formData.append('xmp', JSON.stringify(xmpRights));
+    formData.append('iptc', JSON.stringify(iptcNotice));
+    formData.append('exifNotice', JSON.stringify(exifNotice));
+    if (variables && exifPreview) {
+      formData.append('exifPreview', exifPreview);
+      formData.append('templateDate', variables.date);
+    }
+    formData.append('c2pa', c2paManifest.toString());
+    const response = await fetch('/api/add-exif', {
+      method: 'POST',
+      body: formData
+    });
+    if (!response.ok) {
+      throw await responseError(response, 'Writing metadata failed');
+    }
+    reportRaisedQuality(response, onRaisedQuality);
+    return await response.blob();
+  }
+  
+  // If adversarial protection, the invisible watermark, tamper protection, auto placement or other encoding is needed, use server-side processing for everything
+  // This ensures proper adversarial noise and watermark embedding with Sharp
+  if (adversarialSettings?.enabled || invisibleSettings?.enabled || tamperProtection || autoPlacement || !canvasEncodes) {
     try {
-      console.log('Using server-side processing for adversarial protection...');
+      console.log('Using server-side processing for protection stages...');
       
       // Create FormData for server processing
       const formData = new FormData();
       formData.append('image', image);
       formData.append('text', watermarkSettings.text);
       formData.append('position', watermarkSettings.position);
+      formData.append('autoStrategy', watermarkSettings.autoStrategy);
+      if (watermarkSettings.placement) {
+        formData.append('placementX', watermarkSettings.placement.x.toString());
+        formData.append('placementY', watermarkSettings.placement.y.toString());
+      }
       formData.append('opacity', watermarkSettings.opacity.toString());
       formData.append('fontSize', watermarkSettings.fontSize.toString());
+      formData.append('mode', watermarkSettings.mode);
+      formData.append('tileAngle', watermarkSettings.tileAngle.toString());
+      formData.append('tileSpacing', watermarkSettings.tileSpacing.toString());
+      formData.append('tileStagger', watermarkSettings.tileStagger.toString());
+      formData.append('fillColor', watermarkSettings.fillColor);
+      formData.append('strokeColor', watermarkSettings.strokeColor);
+      formData.append('strokeWidth', watermarkSettings.strokeWidth.toString());
+      formData.append('rotation', watermarkSettings.rotation.toString());
+      formData.append('fontFamily', watermarkSettings.fontFamily);
+      formData.append('fontWeight', watermarkSettings.fontWeight.toString());
+      formData.append('letterSpacing', watermarkSettings.letterSpacing.toString());
+      formData.append('shadow', watermarkSettings.shadow.toString());
+      formData.append('background', watermarkSettings.background.toString());
+      formData.append('backgroundColor', watermarkSettings.backgroundColor);
+      formData.append('backgroundOpacity', watermarkSettings.backgroundOpacity.toString());
+      formData.append('autoContrast', watermarkSettings.autoContrast.toString());
+      formData.append('contrastRatio', watermarkSettings.contrastRatio.toString());
+      
+      // Add logo layer
+      if (watermarkSettings.logo) {
+        formData.append('logo', watermarkSettings.logo.file);
+        formData.append('logoScale', watermarkSettings.logo.scale.toString());
+        formData.append('logoOpacity', watermarkSettings.logo.opacity.toString());
+        formData.append('logoPosition', watermarkSettings.logo.position);
+        formData.append('logoMargin', watermarkSettings.logo.margin.toString());
+      }
       formData.append('exifProtection', exifProtection.toString());
+      formData.append('tamperProtection', tamperProtection.toString());
+      formData.append('output', JSON.stringify(output));
+      formData.append('xmp', JSON.stringify(xmpRights));
+      formData.append('iptc', JSON.stringify(iptcNotice));
+      formData.append('exifNotice', JSON.stringify(exifNotice));
+      if (variables && exifPreview) {
+        formData.append('exifPreview', exifPreview);
+        formData.append('templateDate', variables.date);
+      }
+      formData.append('c2pa', c2paManifest.toString());
       
       // Add adversarial settings
-      formData.append('adversarialEnabled', 'true');
-      formData.append('adversarialIntensity', adversarialSettings.intensity.toString());
-      formData.append('adversarialMethod', adversarialSettings.method);
+      if (adversarialSettings?.enabled) {
+        formData.append('adversarialEnabled', 'true');
+        formData.append('adversarialIntensity', adversarialSettings.intensity.toString());
+        formData.append('adversarialMethod', adversarialSettings.method);
+        formData.append('adversarialSeed', adversarialSettings.seed);
+      }
+      
+      // Add invisible watermark settings
+      if (invisibleSettings?.enabled) {
+        formData.append('invisibleEnabled', 'true');
+        formData.append('invisibleOwnerId', invisibleSettings.ownerId);
+        formData.append('invisibleStrength', invisibleSettings.strength.toString());
+      }
       
       // Send to server for complete processing
       const response = await fetch('/api/process-image', {
@@ -176,13 +553,19 @@ export async function createDownloadableImage(
       });
       
       if (response.ok) {
+        // The server reports where content-aware placement put the watermark
+        const region = response.headers.get('X-Watermark-Region');
+        if (region && onWatermarkRegion) {
+          onWatermarkRegion(JSON.parse(region));
+        }
+        reportRaisedQuality(response, onRaisedQuality);
         return await response.blob();
       } else {
-        throw new Error(`Server processing failed: ${response.status} ${response.statusText}`);
+        throw await responseError(response, 'Server processing failed');
       }
     } catch (serverError) {
       console.error('Server-side processing failed:', serverError);
-      throw new Error(`Failed to apply adversarial protection: ${serverError instanceof Error ? serverError.message : 'Unknown error'}`);
+      throw new Error(`Failed to apply server-side protection: ${serverError instanceof Error ? serverError.message : 'Unknown error'}`);
     }
   }
   
@@ -190,26 +573,44 @@ export async function createDownloadableImage(
   const imageUrl = URL.createObjectURL(image);
   
   try {
+    // Resolve template variables the same way the server does
+    const text = hasTemplateSyntax(watermarkSettings.text)
+      ? resolveTemplate(watermarkSettings.text, variables ?? await getTemplateVariables(image))
+      : watermarkSettings.text;
+    
     // Process the image client-side
-    let blob = await addWatermarkToCanvas(imageUrl, watermarkSettings, exifProtection);
+    let blob = await addWatermarkToCanvas(imageUrl, { ...watermarkSettings, text }, exifProtection, format as ImageFormat, output.jpegQuality);
+    let missingProtection: Error | null = null;
     
-    // If EXIF protection is enabled, attempt to add EXIF data using server
+    // If EXIF protection, the XMP or IPTC notices or the C2PA manifest are enabled, attempt to add them using server
     // This is a fallback approach since browser security prevents direct EXIF modification
-    if (exifProtection && blob) {
+    if ((exifProtection || xmpRights.enabled || iptcNotice.enabled || c2paManifest) && blob) {
       try {
         // Create a new file from the blob with the original name
-        const processedFile = new File([blob], image.name, { type: image.type });
+        const processedFile = new File([blob], image.name, { type: blob.type });
         
         // Create a FormData object to send to the server
         const formData = new FormData();
         formData.append('image', processedFile);
-        formData.append('exifProtection', 'true');
+        formData.append('exifProtection', exifProtection.toString());
+        formData.append('output', JSON.stringify(output));
+        formData.append('xmp', JSON.stringify(xmpRights));
+        formData.append('iptc', JSON.stringify(iptcNotice));
+        formData.append('exifNotice', JSON.stringify(exifNotice));
+        formData.append('c2pa', c2paManifest.toString());
+        
+        // The canvas copy has neither the original's EXIF nor its hash, so the templates are filled in from the original
+        if (variables && exifPreview) {
+          formData.append('templateVariables', JSON.stringify(variables));
+          formData.append('exifPreview', exifPreview);
+        }
         
         // Add adversarial settings to EXIF endpoint as well
         if (adversarialSettings) {
           formData.append('adversarialEnabled', adversarialSettings.enabled.toString());
           formData.append('adversarialIntensity', adversarialSettings.intensity.toString());
           formData.append('adversarialMethod', adversarialSettings.method);
+          formData.append('adversarialSeed', adversarialSettings.seed);
         }
         
         // Try to add EXIF data via server
@@ -223,13 +624,20 @@ export async function createDownloadableImage(
           const serverBlob = await response.blob();
           if (serverBlob && serverBlob.size > 0) {
             blob = serverBlob;
+            reportRaisedQuality(response, onRaisedQuality);
           }
+        } else if (response.status === 422 || c2paManifest) {
+          // The server could not apply a requested protection, which the canvas image lacks as well; only the server can sign a manifest
+          missingProtection = await responseError(response, 'Adding protection failed');
         }
       } catch (exifError) {
         console.warn('Failed to add EXIF data via server, using client-side image only:', exifError);
         // Continue with the client-side processed image if server processing fails
       }
     }
+    if (missingProtection) {
+      throw missingProtection;
+    }
     
     return blob;
   } finally {
@@ -238,11 +646,149 @@ export async function createDownloadableImage(
   }
 }
 
-// This function simulates what EXIF data would be added (since we can't modify EXIF client-side)
-export function getExifProtectionData(): Record<string, string> {
-  return {
-    "Copyright": "DO NOT USE FOR AI TRAINING",
-    "ImageDescription": "This image is not authorized for use in AI training datasets",
-    "UserComment": "This image is protected and not authorized for AI training purposes",
-  };
+// The server writes lossy formats at a higher quality when the chosen one lost the noise or the invisible watermark
+function reportRaisedQuality(response: Response, onRaisedQuality?: (raised: RaisedQuality) => void): void {
+  const raised = response.headers.get('X-Output-Quality');
+  if (raised && onRaisedQuality) {
+    onRaisedQuality(JSON.parse(raised));
+  }
+}
+
+// A 422 names each requested protection the server could not find in its output, other errors may carry a message
+async function responseError(response: Response, action: string): Promise<Error> {
+  const body: { message?: string; failures?: StageFailure[] } = await response.json().catch(() => ({}));
+  if (body.failures && body.failures.length > 0) {
+    return new Error(`${action}: ${body.failures.map((failure) => failure.message).join('; ')}`);
+  }
+  return new Error(`${action}: ${body.message ?? `${response.status} ${response.statusText}`}`);
+}
+
+export interface SizeEstimate {
+  format: ImageFormat; // Format the download will have
+  bytes: number;
+}
+
+// Ask the server how large the image is when encoded with the export settings
+export async function estimateOutputSize(file: File, output: OutputSettings, tamperProtection: boolean): Promise<SizeEstimate> {
+  const formData = new FormData();
+  formData.append('image', file);
+  formData.append('output', JSON.stringify(output));
+  formData.append('tamperProtection', tamperProtection.toString());
+  
+  const response = await fetch('/api/estimate-size', {
+    method: 'POST',
+    body: formData
+  });
+  if (!response.ok) {
+    throw new Error(`Size estimate failed: ${response.status} ${response.statusText}`);
+  }
+  return response.json();
+}
+
+// Encoder options only sharp can apply, the canvas honours the quality alone
+function needsSharpEncoder(output: OutputSettings): boolean {
+  const defaults = DEFAULT_OUTPUT_SETTINGS;
+  return output.mozjpeg !== defaults.mozjpeg ||
+    output.progressive !== defaults.progressive ||
+    output.chromaSubsampling !== defaults.chromaSubsampling ||
+    output.pngCompressionLevel !== defaults.pngCompressionLevel ||
+    output.pngPalette !== defaults.pngPalette;
+}
+
+// Detect the format of a file from its magic bytes, null when it is not a supported image
+export async function detectFileFormat(file: Blob): Promise<ImageFormat | null> {
+  const bytes = new Uint8Array(await file.slice(0, MAGIC_BYTES_LENGTH).arrayBuffer());
+  return detectImageFormat(bytes);
+}
+
+/**
+ * Load a file for display, with its pixel size after the EXIF orientation
+ * Formats the browser cannot decode (TIFF outside Safari, AVIF in older
+ * browsers) are converted to PNG by the server
+ */
+export async function loadDisplayImage(file: File): Promise<{ url: string; width: number; height: number }> {
+  const nativeUrl = URL.createObjectURL(file);
+  try {
+    // Report the size after the EXIF orientation, as the image is displayed and processed
+    const bitmap = await loadOrientedImage(nativeUrl);
+    const size = { width: bitmap.width, height: bitmap.height };
+    bitmap.close();
+    return { url: nativeUrl, ...size };
+  } catch (error) {
+    // Not decodable by this browser
+    URL.revokeObjectURL(nativeUrl);
+  }
+  
+  const formData = new FormData();
+  formData.append('image', file);
+  const response = await fetch('/api/preview', {
+    method: 'POST',
+    body: formData
+  });
+  if (!response.ok) {
+    throw new Error(`Preview conversion failed: ${response.status} ${response.statusText}`);
+  }
+  
+  const previewUrl = URL.createObjectURL(await response.blob());
+  const img = await loadImage(previewUrl);
+  return { url: previewUrl, width: img.naturalWidth, height: img.naturalHeight };
+}
+
+// Every metadata entry of the file as the server reads it, for the privacy preview, and the AI-training notices it already carries
+export async function readImageMetadata(file: File): Promise<{ entries: MetadataEntry[]; aiNotices: AiNotice[] }> {
+  const formData = new FormData();
+  formData.append('image', file);
+  const response = await fetch('/api/extract-exif', {
+    method: 'POST',
+    body: formData
+  });
+  if (!response.ok) {
+    throw new Error(`Reading metadata failed: ${response.status} ${response.statusText}`);
+  }
+  const { originalExif } = await response.json();
+  return { entries: originalExif?.entries ?? [], aiNotices: originalExif?.aiNotices ?? [] };
+}
+
+// Gather the per-image template variables: the content hash is computed locally, EXIF tags come from the server
+export async function getTemplateVariables(file: File): Promise<TemplateVariables> {
+  const digest = await crypto.subtle.digest('SHA-256', await file.arrayBuffer());
+  const hash = Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+  
+  let tags: Record<string, string> = {};
+  try {
+    const formData = new FormData();
+    formData.append('image', file);
+    const response = await fetch('/api/extract-exif', {
+      method: 'POST',
+      body: formData
+    });
+    if (response.ok) {
+      tags = (await response.json()).originalExif?.tags ?? {};
+    }
+  } catch (error) {
+    console.warn('Failed to read EXIF tags for template variables:', error);
+  }
+  
+  return buildTemplateVariables({
+    fileName: file.name,
+    hash,
+    artist: tags.Artist,
+    make: tags.Make,
+    model: tags.Model,
+    dateTimeOriginal: tags.DateTimeOriginal,
+  });
+}
+
+// The EXIF tags the server writes for the notice, resolved with the image's template variables once they are known
+export function getExifProtectionData(
+  notice: ExifNoticeSettings = DEFAULT_EXIF_NOTICE,
+  variables: TemplateVariables | null = null
+): Record<string, string> {
+  return exifNoticeTags(notice, variables ?? buildTemplateVariables({ fileName: '', hash: '' }));
+}
+
+// Generate a random 64-bit owner/asset ID for the invisible watermark
+export function generateOwnerId(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(8));
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
 }
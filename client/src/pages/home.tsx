@@ -4,26 +4,86 @@ import Footer from '@/components/footer';
 import UploadZone from '@/components/upload-zone';
 import ImageEditor from '@/components/image-editor';
 import ExifDisplay from '@/components/exif-display-new';
+import { generateOwnerId, getTemplateVariables } from '@/lib/image-processor';
+import type { TemplateVariables } from '@shared/watermark-template';
+import type { ImageFormat } from '@shared/image-formats';
+import { DEFAULT_OUTPUT_SETTINGS, type OutputSettings } from '@shared/output-settings';
+import { DEFAULT_XMP_RIGHTS, type XmpRightsSettings } from '@shared/xmp-rights';
+import { DEFAULT_IPTC_NOTICE, type IptcNoticeSettings } from '@shared/iptc-notice';
+import { DEFAULT_EXIF_NOTICE, type ExifNoticeSettings } from '@shared/exif-notice';
 
 export interface ImageInfo {
   file: File;
   url: string;
   name: string;
+  format: ImageFormat; // Detected from the file contents
+  frames: number; // More than 1 for animated GIF and WebP
   dimensions: string;
   size: string;
 }
 
 export interface WatermarkSettings {
   text: string;
-  position: string;
+  position: string; // preset or 'auto'
+  autoStrategy: 'aggressive' | 'unobtrusive'; // content-aware placement when position is 'auto'
+  placement: WatermarkPlacement | null; // free position, overrides the preset when set
   opacity: number;
   fontSize: number;
+  mode: 'single' | 'tiled';
+  tileAngle: number; // degrees, counter-clockwise
+  tileSpacing: number; // px between tiles
+  tileStagger: number; // 0-100% offset of alternate rows
+  logo: LogoSettings | null;
+  fillColor: string; // #rrggbb
+  strokeColor: string; // #rrggbb
+  strokeWidth: number; // px, 0 = no outline
+  rotation: number; // degrees, counter-clockwise (single mode)
+  fontFamily: string;
+  fontWeight: number; // 100-900
+  letterSpacing: number; // px between characters
+  shadow: boolean;
+  background: boolean; // plate behind the text
+  backgroundColor: string; // #rrggbb
+  backgroundOpacity: number; // 0-100
+  autoContrast: boolean; // pick fill and outline from the region under the text and logo
+  contrastRatio: number; // target WCAG contrast ratio for auto contrast
+}
+
+// Centre of the watermark as a fraction (0-1) of the image width and height
+export interface WatermarkPlacement {
+  x: number;
+  y: number;
+}
+
+// Rectangle chosen by content-aware placement, in image pixels
+export interface WatermarkRegion {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+  strategy: 'aggressive' | 'unobtrusive';
+}
+
+export interface LogoSettings {
+  file: File;
+  url: string;
+  scale: number; // % of image width
+  opacity: number;
+  position: string;
+  margin: number; // px inset from the edges
 }
 
 export interface AdversarialSettings {
   enabled: boolean;
   intensity: number; // 1-10 scale
   method: 'gaussian' | 'uniform' | 'perlin';
+  seed: string; // Empty for a random seed
+}
+
+export interface InvisibleWatermarkSettings {
+  enabled: boolean;
+  ownerId: string; // 64-bit owner/asset ID as 16 hex digits
+  strength: number; // 1-10 scale
 }
 
 export default function Home() {
@@ -31,15 +91,65 @@ export default function Home() {
   const [watermarkSettings, setWatermarkSettings] = React.useState<WatermarkSettings>({
     text: "Not for AI training",
     position: "bottom-right",
+    autoStrategy: "unobtrusive",
+    placement: null,
     opacity: 70,
-    fontSize: 24
+    fontSize: 24,
+    mode: "single",
+    tileAngle: 30,
+    tileSpacing: 100,
+    tileStagger: 50,
+    logo: null,
+    fillColor: "#ffffff",
+    strokeColor: "#000000",
+    strokeWidth: 0,
+    rotation: 0,
+    fontFamily: "Arial",
+    fontWeight: 700,
+    letterSpacing: 0,
+    shadow: true,
+    background: false,
+    backgroundColor: "#000000",
+    backgroundOpacity: 40,
+    autoContrast: false,
+    contrastRatio: 4.5
   });
   const [exifProtection, setExifProtection] = React.useState(true);
   const [adversarialSettings, setAdversarialSettings] = React.useState<AdversarialSettings>({
     enabled: true, // Enable by default for better protection
     intensity: 5, // Medium intensity
-    method: 'gaussian' // Most effective against CNNs
+    method: 'gaussian', // Most effective against CNNs
+    seed: ''
   });
+  const [tamperProtection, setTamperProtection] = React.useState(false);
+  const [c2paManifest, setC2paManifest] = React.useState(false);
+  const [outputSettings, setOutputSettings] = React.useState<OutputSettings>(DEFAULT_OUTPUT_SETTINGS);
+  const [xmpRights, setXmpRights] = React.useState<XmpRightsSettings>(DEFAULT_XMP_RIGHTS);
+  const [iptcNotice, setIptcNotice] = React.useState<IptcNoticeSettings>(DEFAULT_IPTC_NOTICE);
+  const [exifNotice, setExifNotice] = React.useState<ExifNoticeSettings>(DEFAULT_EXIF_NOTICE);
+  const [invisibleSettings, setInvisibleSettings] = React.useState<InvisibleWatermarkSettings>({
+    enabled: false,
+    ownerId: generateOwnerId(),
+    strength: 2
+  });
+
+  const [templateVariables, setTemplateVariables] = React.useState<TemplateVariables | null>(null);
+
+  // Gather the template variables ({artist}, {hash8}, ...) for the live preview
+  React.useEffect(() => {
+    setTemplateVariables(null);
+    if (!image) return;
+    
+    let cancelled = false;
+    getTemplateVariables(image.file)
+      .then((variables) => {
+        if (!cancelled) setTemplateVariables(variables);
+      })
+      .catch((error) => console.error('Failed to gather template variables:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [image]);
 
   const handleFileUpload = (imageInfo: ImageInfo) => {
     setImage(imageInfo);
@@ -53,10 +163,38 @@ export default function Home() {
     setExifProtection(enabled);
   };
 
+  const handleTamperToggle = (enabled: boolean) => {
+    setTamperProtection(enabled);
+  };
+
+  const handleC2paToggle = (enabled: boolean) => {
+    setC2paManifest(enabled);
+  };
+
+  const handleOutputUpdate = (newSettings: Partial<OutputSettings>) => {
+    setOutputSettings(prev => ({ ...prev, ...newSettings }));
+  };
+
+  const handleXmpUpdate = (newSettings: Partial<XmpRightsSettings>) => {
+    setXmpRights(prev => ({ ...prev, ...newSettings }));
+  };
+
+  const handleIptcUpdate = (newSettings: Partial<IptcNoticeSettings>) => {
+    setIptcNotice(prev => ({ ...prev, ...newSettings }));
+  };
+
+  const handleExifNoticeUpdate = (newSettings: Partial<ExifNoticeSettings>) => {
+    setExifNotice(prev => ({ ...prev, ...newSettings }));
+  };
+
   const handleAdversarialUpdate = (newSettings: Partial<AdversarialSettings>) => {
     setAdversarialSettings(prev => ({ ...prev, ...newSettings }));
   };
 
+  const handleInvisibleUpdate = (newSettings: Partial<InvisibleWatermarkSettings>) => {
+    setInvisibleSettings(prev => ({ ...prev, ...newSettings }));
+  };
+
   return (
     <div className="min-h-screen bg-background flex flex-col">
       <Header />
@@ -72,14 +210,34 @@ export default function Home() {
                 watermarkSettings={watermarkSettings}
                 exifProtection={exifProtection}
                 adversarialSettings={adversarialSettings}
+                invisibleSettings={invisibleSettings}
+                tamperProtection={tamperProtection}
+                c2paManifest={c2paManifest}
+                outputSettings={outputSettings}
+                xmpRights={xmpRights}
+                iptcNotice={iptcNotice}
+                exifNotice={exifNotice}
+                templateVariables={templateVariables}
                 onUpdateSettings={handleUpdateSettings}
                 onExifToggle={handleExifToggle}
+                onTamperToggle={handleTamperToggle}
+                onC2paToggle={handleC2paToggle}
+                onOutputUpdate={handleOutputUpdate}
+                onXmpUpdate={handleXmpUpdate}
+                onIptcUpdate={handleIptcUpdate}
+                onExifNoticeUpdate={handleExifNoticeUpdate}
                 onAdversarialUpdate={handleAdversarialUpdate}
+                onInvisibleUpdate={handleInvisibleUpdate}
               />
               <div className="p-6">
                 <ExifDisplay 
                   imageFile={image.file}
                   exifProtectionEnabled={exifProtection}
+                  metadataPreset={outputSettings.metadataPreset}
+                  xmpRights={xmpRights}
+                  iptcNotice={iptcNotice}
+                  exifNotice={exifNotice}
+                  templateVariables={templateVariables}
                 />
               </div>
             </>
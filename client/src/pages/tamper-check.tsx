@@ -0,0 +1,182 @@
+import React, { useCallback } from 'react';
+import { useDropzone } from 'react-dropzone';
+import { FileSearch, ShieldCheck, ShieldAlert, ShieldQuestion, Upload } from 'lucide-react';
+import Header from '@/components/header';
+import Footer from '@/components/footer';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { useToast } from '@/hooks/use-toast';
+import { loadDisplayImage } from '@/lib/image-processor';
+import { IMAGE_FORMATS, LOSSLESS_FORMATS } from '@shared/image-formats';
+
+// Only the lossless formats can carry the fragile watermark
+const ACCEPTED_TYPES = LOSSLESS_FORMATS.reduce<Record<string, string[]>>((accept, format) => {
+  accept[IMAGE_FORMATS[format].contentType] = IMAGE_FORMATS[format].extensions;
+  return accept;
+}, {});
+
+export interface TamperReport {
+  status: 'intact' | 'tampered' | 'unmarked';
+  blockSize: number;
+  columns: number;
+  rows: number;
+  blocks: number[][];
+  tamperedBlocks: number;
+  totalBlocks: number;
+  overlay: string;
+}
+
+export default function TamperCheck() {
+  const { toast } = useToast();
+  const [imageUrl, setImageUrl] = React.useState<string | null>(null);
+  const [report, setReport] = React.useState<TamperReport | null>(null);
+  const [loading, setLoading] = React.useState(false);
+
+  const onDrop = useCallback(async (acceptedFiles: File[]) => {
+    if (acceptedFiles.length === 0) return;
+
+    const file = acceptedFiles[0];
+    setReport(null);
+
+    try {
+      setLoading(true);
+
+      // TIFF needs converting before most browsers can show it
+      const { url } = await loadDisplayImage(file);
+      setImageUrl((prev) => {
+        if (prev) URL.revokeObjectURL(prev);
+        return url;
+      });
+
+      const formData = new FormData();
+      formData.append('image', file);
+
+      const response = await fetch('/api/check-tamper', {
+        method: 'POST',
+        body: formData,
+      });
+
+      if (!response.ok) {
+        throw new Error(`Server responded with ${response.status}`);
+      }
+
+      setReport(await response.json());
+    } catch (error) {
+      console.error('Error checking image for tampering:', error);
+      toast({
+        title: "Check failed",
+        description: "The image could not be checked. Please try again.",
+        variant: "destructive"
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  const { getRootProps, getInputProps, isDragActive } = useDropzone({
+    onDrop,
+    accept: ACCEPTED_TYPES,
+    maxFiles: 1,
+    maxSize: 30 * 1024 * 1024, // 30MB size limit (same as server)
+  });
+
+  return (
+    <div className="min-h-screen bg-background flex flex-col">
+      <Header />
+
+      <main className="max-w-7xl w-full mx-auto px-4 sm:px-6 lg:px-8 py-8 flex-grow">
+        <div className="bg-white rounded-lg shadow-md overflow-hidden p-6 space-y-6">
+          <div>
+            <h2 className="text-xl font-bold text-primary mb-2">Tamper Check</h2>
+            <p className="text-gray-600">
+              Upload a PNG, WebP or TIFF image that was protected with Tamper Detection to see which regions have been edited since.
+            </p>
+          </div>
+
+          <div
+            {...getRootProps()}
+            className={`w-full p-8 border-2 border-dashed border-gray-300 rounded-lg
+              flex flex-col items-center justify-center cursor-pointer
+              hover:border-accent hover:bg-accent/5 transition-colors
+              ${isDragActive ? 'drag-active' : ''}`}
+          >
+            <FileSearch className="h-12 w-12 text-gray-400 mb-3" />
+            <p className="text-gray-500 text-center mb-4">Drag and drop an image here, or click to browse</p>
+            <input {...getInputProps()} />
+            <Button type="button" className="inline-flex items-center" disabled={loading}>
+              <Upload className="h-5 w-5 mr-2" />
+              {loading ? 'Checking...' : 'Select Image'}
+            </Button>
+          </div>
+
+          {report && <TamperSummary report={report} />}
+
+          {imageUrl && (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-base">Uploaded Image</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <img src={imageUrl} alt="Uploaded image" className="w-full object-contain max-h-[500px]" />
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-base">Modified Regions</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  {report ? (
+                    <img src={report.overlay} alt="Tamper map overlay" className="w-full object-contain max-h-[500px]" />
+                  ) : (
+                    <div className="text-center py-4 text-gray-500">{loading ? 'Checking...' : 'No result yet'}</div>
+                  )}
+                </CardContent>
+              </Card>
+            </div>
+          )}
+        </div>
+      </main>
+
+      <Footer />
+    </div>
+  );
+}
+
+function TamperSummary({ report }: { report: TamperReport }) {
+  if (report.status === 'intact') {
+    return (
+      <Alert>
+        <ShieldCheck className="h-4 w-4" />
+        <AlertTitle>No modifications found</AlertTitle>
+        <AlertDescription>
+          All {report.totalBlocks} blocks match their embedded seal.
+        </AlertDescription>
+      </Alert>
+    );
+  }
+
+  if (report.status === 'unmarked') {
+    return (
+      <Alert>
+        <ShieldQuestion className="h-4 w-4" />
+        <AlertTitle>No tamper seal found</AlertTitle>
+        <AlertDescription>
+          This image was not protected with Tamper Detection, or it has been re-encoded (for example saved as JPEG or resized), which removes the seal.
+        </AlertDescription>
+      </Alert>
+    );
+  }
+
+  return (
+    <Alert variant="destructive">
+      <ShieldAlert className="h-4 w-4" />
+      <AlertTitle>Modifications detected</AlertTitle>
+      <AlertDescription>
+        {report.tamperedBlocks} of {report.totalBlocks} blocks ({report.blockSize}px each) have been changed. They are highlighted in red.
+      </AlertDescription>
+    </Alert>
+  );
+}
@@ -0,0 +1,167 @@
+import React, { useCallback } from 'react';
+import { useDropzone } from 'react-dropzone';
+import { CheckCircle2, FileSearch, Upload, XCircle } from 'lucide-react';
+import Header from '@/components/header';
+import Footer from '@/components/footer';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { useToast } from '@/hooks/use-toast';
+import { loadDisplayImage } from '@/lib/image-processor';
+import { IMAGE_FORMATS } from '@shared/image-formats';
+import { PROTECTION_CHECK_LABELS, type ProtectionCheck, type VerificationReport } from '@shared/verification';
+
+// Any supported format can carry some of the protections
+const ACCEPTED_TYPES = Object.values(IMAGE_FORMATS).reduce<Record<string, string[]>>((accept, format) => {
+  accept[format.contentType] = format.extensions;
+  return accept;
+}, {});
+
+export default function Verify() {
+  const { toast } = useToast();
+  const [imageUrl, setImageUrl] = React.useState<string | null>(null);
+  const [report, setReport] = React.useState<VerificationReport | null>(null);
+  const [loading, setLoading] = React.useState(false);
+
+  const onDrop = useCallback(async (acceptedFiles: File[]) => {
+    if (acceptedFiles.length === 0) return;
+
+    const file = acceptedFiles[0];
+    setReport(null);
+
+    try {
+      setLoading(true);
+
+      // TIFF needs converting before most browsers can show it
+      const { url } = await loadDisplayImage(file);
+      setImageUrl((prev) => {
+        if (prev) URL.revokeObjectURL(prev);
+        return url;
+      });
+
+      const formData = new FormData();
+      formData.append('image', file);
+
+      const response = await fetch('/api/verify', {
+        method: 'POST',
+        body: formData,
+      });
+
+      if (!response.ok) {
+        throw new Error(`Server responded with ${response.status}`);
+      }
+
+      setReport(await response.json());
+    } catch (error) {
+      console.error('Error verifying image protections:', error);
+      toast({
+        title: "Check failed",
+        description: "The image could not be checked. Please try again.",
+        variant: "destructive"
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  const { getRootProps, getInputProps, isDragActive } = useDropzone({
+    onDrop,
+    accept: ACCEPTED_TYPES,
+    maxFiles: 1,
+    maxSize: 30 * 1024 * 1024, // 30MB size limit (same as server)
+  });
+
+  return (
+    <div className="min-h-screen bg-background flex flex-col">
+      <Header />
+
+      <main className="max-w-7xl w-full mx-auto px-4 sm:px-6 lg:px-8 py-8 flex-grow">
+        <div className="bg-white rounded-lg shadow-md overflow-hidden p-6 space-y-6">
+          <div>
+            <h2 className="text-xl font-bold text-primary mb-2">Check an Image</h2>
+            <p className="text-gray-600">
+              Upload a downloaded or published copy of an image to see which protections are still in the file.
+              Upload sites and editors often strip metadata or re-encode the pixels.
+            </p>
+          </div>
+
+          <div
+            {...getRootProps()}
+            className={`w-full p-8 border-2 border-dashed border-gray-300 rounded-lg
+              flex flex-col items-center justify-center cursor-pointer
+              hover:border-accent hover:bg-accent/5 transition-colors
+              ${isDragActive ? 'drag-active' : ''}`}
+          >
+            <FileSearch className="h-12 w-12 text-gray-400 mb-3" />
+            <p className="text-gray-500 text-center mb-4">Drag and drop an image here, or click to browse</p>
+            <input {...getInputProps()} />
+            <Button type="button" className="inline-flex items-center" disabled={loading}>
+              <Upload className="h-5 w-5 mr-2" />
+              {loading ? 'Checking...' : 'Select Image'}
+            </Button>
+          </div>
+
+          {imageUrl && (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-base">Uploaded Image</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <img src={imageUrl} alt="Uploaded image" className="w-full object-contain max-h-[500px]" />
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-base">Protections</CardTitle>
+                  {report && (
+                    <CardDescription>
+                      {report.passed} of {report.checks.length} found
+                      {report.format ? ` in this ${IMAGE_FORMATS[report.format as keyof typeof IMAGE_FORMATS]?.label ?? report.format} image` : ''}
+                    </CardDescription>
+                  )}
+                </CardHeader>
+                <CardContent>
+                  {report ? (
+                    <div className="space-y-4">
+                      {report.checks.map((check) => <CheckResult key={check.id} check={check} />)}
+                    </div>
+                  ) : (
+                    <div className="text-center py-4 text-gray-500">{loading ? 'Checking...' : 'No result yet'}</div>
+                  )}
+                </CardContent>
+              </Card>
+            </div>
+          )}
+        </div>
+      </main>
+
+      <Footer />
+    </div>
+  );
+}
+
+function CheckResult({ check }: { check: ProtectionCheck }) {
+  const fields = Object.keys(check.fields);
+  return (
+    <div className="flex">
+      {check.passed
+        ? <CheckCircle2 className="h-5 w-5 mr-3 flex-shrink-0 text-green-600" aria-label="Found" />
+        : <XCircle className="h-5 w-5 mr-3 flex-shrink-0 text-gray-400" aria-label="Not found" />}
+      <div className="flex-1 text-sm">
+        <p className="font-medium text-gray-800">{PROTECTION_CHECK_LABELS[check.id]}</p>
+        <p className="text-gray-600">{check.details}</p>
+        {fields.length > 0 && (
+          <div className="mt-1 space-y-1">
+            {fields.map((name) => (
+              <div key={name} className="flex">
+                <div className="flex-1 text-gray-500">{name}:</div>
+                <div className="flex-1 break-all text-gray-600">{check.fields[name]}</div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,215 @@
+import crypto from 'crypto';
+import sharp from 'sharp';
+import { createPrng, hashSeed } from './prng';
+import type { XmpProperty } from '@shared/xmp-rights';
+
+/**
+ * Seeded adversarial noise patterns and their detection
+ *
+ * Every pattern is drawn from a PRNG keyed with a seed, so the same image,
+ * settings and seed always give the same output, and the pattern can be
+ * regenerated later to test whether a suspect image carries it. The seed is
+ * recorded in the image's XMP; without one a random seed is picked.
+ *
+ * Detection correlates the fine detail of the image's brightness with the
+ * regenerated pattern. It only works on the image at its processed size:
+ * unlike the invisible watermark, a crop or a resize moves the pattern away
+ * from where it is regenerated. Perlin noise is too smooth to be told apart
+ * from the image content, so only Gaussian and uniform noise are detected.
+ */
+
+export type NoiseMethod = 'gaussian' | 'uniform' | 'perlin';
+
+export const NOISE_METHODS: NoiseMethod[] = ['gaussian', 'uniform', 'perlin'];
+// Methods detectNoisePattern can find; they are also the ones the GIF palette removes
+export const DETECTABLE_NOISE_METHODS: NoiseMethod[] = NOISE_METHODS.filter((method) => method !== 'perlin');
+export const MAX_NOISE_SEED_LENGTH = 64;
+
+const PERLIN_OCTAVES = 4;
+const LUMA_WEIGHTS = [0.299, 0.587, 0.114];
+const RESIDUAL_CLIP = 16; // Grey levels; limits the weight of strong edges
+const MIN_Z_SCORE = 5; // Standard deviations above chance, about one false match in three million
+
+export interface NoiseDetection {
+  detected: boolean;
+  correlation: number; // Of the image's fine detail with the pattern, -1 to 1
+  zScore: number; // How many standard deviations the correlation lies above a chance match
+}
+
+// Seed for a request that did not give one, recorded so the noise can still be reproduced
+export function randomNoiseSeed(): string {
+  return crypto.randomBytes(8).toString('hex');
+}
+
+// XMP properties recording how the noise was drawn
+export function noiseProperties(method: NoiseMethod, seed: string): XmpProperty[] {
+  return [
+    { name: 'imageshield:NoiseMethod', value: method, type: 'text' },
+    { name: 'imageshield:NoiseSeed', value: seed, type: 'text' },
+  ];
+}
+
+/**
+ * Noise for every sample of a width x height image with `channels` colour
+ * channels, interleaved, in grey levels at the given amplitude (a fraction
+ * of the full range). The first rows never depend on the height, so the
+ * pattern of an animation's first frame is that of a single frame.
+ */
+export function generateNoise(
+  method: NoiseMethod,
+  width: number,
+  height: number,
+  channels: number,
+  amplitude: number,
+  seed: string
+): Float32Array {
+  const random = createPrng(hashSeed(seed));
+  switch (method) {
+    case 'uniform':
+      return generateUniformNoise(width, height, channels, amplitude, random);
+    case 'perlin':
+      return generatePerlinNoise(width, height, channels, amplitude, random);
+    default:
+      return generateGaussianNoise(width, height, channels, amplitude, random);
+  }
+}
+
+/**
+ * Generate Gaussian (normal distribution) noise
+ * Most effective against CNN-based models
+ */
+function generateGaussianNoise(width: number, height: number, channels: number, amplitude: number, random: () => number): Float32Array {
+  const sampleCount = width * height * channels;
+  const noise = new Float32Array(sampleCount);
+
+  for (let i = 0; i < sampleCount; i++) {
+    // Box-Muller transform for Gaussian distribution
+    const u1 = random() || Number.MIN_VALUE;
+    const u2 = random();
+    const gaussian = Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
+
+    // Scale to grey levels
+    noise[i] = gaussian * amplitude * 255;
+  }
+
+  return noise;
+}
+
+/**
+ * Generate uniform random noise
+ * Good general-purpose adversarial protection
+ */
+function generateUniformNoise(width: number, height: number, channels: number, amplitude: number, random: () => number): Float32Array {
+  const sampleCount = width * height * channels;
+  const noise = new Float32Array(sampleCount);
+
+  for (let i = 0; i < sampleCount; i++) {
+    // Uniform distribution between -amplitude and +amplitude
+    noise[i] = (random() - 0.5) * 2 * amplitude * 255;
+  }
+
+  return noise;
+}
+
+/**
+ * Generate Perlin-like structured noise
+ * Creates patterns that are harder for AI to filter out; the seed shifts the phase of each octave
+ */
+function generatePerlinNoise(width: number, height: number, channels: number, amplitude: number, random: () => number): Float32Array {
+  const noise = new Float32Array(width * height * channels);
+  const phases: { x: number; y: number }[] = [];
+  for (let octave = 1; octave <= PERLIN_OCTAVES; octave++) {
+    phases.push({ x: random() * 2 * Math.PI, y: random() * 2 * Math.PI });
+  }
+
+  // Simple pseudo-Perlin noise using multiple octaves
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let noiseValue = 0;
+
+      // Multiple octaves for more complex patterns
+      for (let octave = 1; octave <= PERLIN_OCTAVES; octave++) {
+        const freq = octave * 0.01;
+        const amp = 1 / octave;
+        const phase = phases[octave - 1];
+        noiseValue += Math.sin(x * freq + phase.x) * Math.cos(y * freq + phase.y) * amp;
+      }
+
+      // Apply to all channels
+      for (let c = 0; c < channels; c++) {
+        noise[(y * width + x) * channels + c] = noiseValue * amplitude * 255;
+      }
+    }
+  }
+
+  return noise;
+}
+
+/**
+ * Test whether an image carries the noise drawn from a seed
+ * The pattern is independent of the image, so without the noise the
+ * correlation of the image's detail with it is normally distributed around 0;
+ * the z-score says how far above that the image lies. The first frame is
+ * tested for animations.
+ */
+export async function detectNoisePattern(input: string | Buffer, method: NoiseMethod, seed: string): Promise<NoiseDetection> {
+  if (DETECTABLE_NOISE_METHODS.indexOf(method) === -1) {
+    throw new Error(`${method} noise cannot be detected`);
+  }
+  const { data, info } = await sharp(input).raw().toBuffer({ resolveWithObject: true });
+  const { width, height, channels } = info;
+  const colours = channels === 2 || channels === 4 ? channels - 1 : channels;
+  const weights = colours === 3 ? LUMA_WEIGHTS : new Array<number>(colours).fill(1 / colours);
+  const pattern = generateNoise(method, width, height, colours, 1, seed);
+
+  // Brightness of the image and of the pattern
+  const pixelCount = width * height;
+  const luma = new Float32Array(pixelCount);
+  const expected = new Float32Array(pixelCount);
+  for (let pixel = 0; pixel < pixelCount; pixel++) {
+    for (let c = 0; c < colours; c++) {
+      luma[pixel] += weights[c] * data[pixel * channels + c];
+      expected[pixel] += weights[c] * pattern[pixel * colours + c];
+    }
+  }
+
+  // Fine detail: each pixel less the mean of its 3x3 neighbourhood, where the per-pixel noise stands out from the content
+  let product = 0;
+  let residualEnergy = 0;
+  let patternSum = 0;
+  let patternEnergy = 0;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let sum = 0;
+      let count = 0;
+      for (let dy = -1; dy <= 1; dy++) {
+        const row = y + dy;
+        if (row < 0 || row >= height) continue;
+        for (let dx = -1; dx <= 1; dx++) {
+          const column = x + dx;
+          if (column < 0 || column >= width) continue;
+          sum += luma[row * width + column];
+          count++;
+        }
+      }
+      const pixel = y * width + x;
+      const residual = Math.max(-RESIDUAL_CLIP, Math.min(RESIDUAL_CLIP, luma[pixel] - sum / count));
+      product += residual * expected[pixel];
+      residualEnergy += residual * residual;
+      patternSum += expected[pixel];
+      patternEnergy += expected[pixel] * expected[pixel];
+    }
+  }
+
+  const patternVariance = patternEnergy / pixelCount - (patternSum / pixelCount) ** 2;
+  if (residualEnergy === 0 || patternVariance <= 0) {
+    return { detected: false, correlation: 0, zScore: 0 };
+  }
+  const correlation = product / Math.sqrt(residualEnergy * patternEnergy);
+  const zScore = product / Math.sqrt(residualEnergy * patternVariance);
+  return {
+    detected: zScore >= MIN_Z_SCORE,
+    correlation: Number(correlation.toFixed(4)),
+    zScore: Number(zScore.toFixed(2)),
+  };
+}
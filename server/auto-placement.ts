@@ -0,0 +1,227 @@
+import sharp from 'sharp';
+
+/**
+ * Content-aware watermark placement
+ *
+ * The image is analyzed at a small size with three classic measures, no ML:
+ * edge density (Sobel gradient magnitude), saliency (colour and luminance
+ * contrast of each pixel against its wide surroundings) and the luminance
+ * variance inside the box. Every candidate box position is scored from
+ * integral images of these maps.
+ *
+ * - unobtrusive: the calmest region, where the mark hides the least detail
+ * - aggressive: the spot that is hardest to crop away, i.e. where every crop
+ *   that removes the mark also cuts off a lot of salient content, while not
+ *   covering the most salient part of the subject itself
+ */
+
+export type PlacementStrategy = 'aggressive' | 'unobtrusive';
+
+// Axis-aligned rectangle in image pixels
+export interface WatermarkRegion {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+  strategy: PlacementStrategy;
+}
+
+const ANALYSIS_SIZE = 256; // Longest edge of the analyzed image
+const EDGE_MARGIN = 30; // Minimum inset of the box from the image edges, as for the presets
+const SURROUND_RATIO = 1 / 8; // Radius of the saliency surround relative to the longest edge
+
+// Weights of the measures in the unobtrusive "busyness" score
+const EDGE_WEIGHT = 0.4;
+const SALIENCY_WEIGHT = 0.35;
+const VARIANCE_WEIGHT = 0.25;
+
+// How strongly the aggressive strategy avoids covering salient content itself
+const SUBJECT_PENALTY = 0.5;
+
+/**
+ * Find the region for a watermark box of the given size
+ * `rotation` is the counter-clockwise rotation of the box in degrees; the
+ * analysis uses its axis-aligned bounds, which are also what is returned
+ */
+export async function findAutoPlacement(
+  input: string | Buffer,
+  width: number,
+  height: number,
+  boxWidth: number,
+  boxHeight: number,
+  rotation: number,
+  strategy: PlacementStrategy
+): Promise<WatermarkRegion> {
+  // Bounding box of the rotated text box
+  const radians = (rotation * Math.PI) / 180;
+  const cos = Math.abs(Math.cos(radians));
+  const sin = Math.abs(Math.sin(radians));
+  const regionWidth = Math.min(width, Math.ceil(boxWidth * cos + boxHeight * sin));
+  const regionHeight = Math.min(height, Math.ceil(boxWidth * sin + boxHeight * cos));
+
+  const scale = Math.min(1, ANALYSIS_SIZE / Math.max(width, height));
+  const { data, info } = await sharp(input)
+    .resize(Math.max(1, Math.round(width * scale)), Math.max(1, Math.round(height * scale)), { fit: 'fill' })
+    .removeAlpha()
+    .toColourspace('srgb')
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+
+  const maps = analyze(data, info.width, info.height, info.channels);
+  const w = info.width;
+  const h = info.height;
+  const bw = Math.max(1, Math.min(w, Math.round(regionWidth * scale)));
+  const bh = Math.max(1, Math.min(h, Math.round(regionHeight * scale)));
+
+  // Candidate positions keep the preset inset where the box leaves room for it
+  const margin = Math.round(EDGE_MARGIN * scale);
+  const minX = Math.min(margin, Math.floor((w - bw) / 2));
+  const minY = Math.min(margin, Math.floor((h - bh) / 2));
+  const maxX = w - bw - minX;
+  const maxY = h - bh - minY;
+  const step = Math.max(1, Math.round(Math.min(bw, bh) / 4));
+
+  const candidates: { x: number; y: number; edges: number; saliency: number; variance: number; cropCost: number }[] = [];
+  for (let y = minY; y <= maxY; y += step) {
+    for (let x = minX; x <= maxX; x += step) {
+      const area = bw * bh;
+      const mean = maps.luminance.sum(x, y, x + bw, y + bh) / area;
+      const variance = Math.max(0, maps.luminanceSquared.sum(x, y, x + bw, y + bh) / area - mean * mean);
+
+      // Removing the mark by cropping means cutting away everything between it and one edge
+      const cropCost = Math.min(
+        maps.saliency.sum(0, 0, x + bw, h),
+        maps.saliency.sum(x, 0, w, h),
+        maps.saliency.sum(0, 0, w, y + bh),
+        maps.saliency.sum(0, y, w, h)
+      );
+
+      candidates.push({
+        x,
+        y,
+        edges: maps.edges.sum(x, y, x + bw, y + bh) / area,
+        saliency: maps.saliency.sum(x, y, x + bw, y + bh) / area,
+        variance,
+        cropCost,
+      });
+    }
+  }
+
+  // Normalize each measure across the candidates so the weights are comparable
+  const maxOf = (key: 'edges' | 'saliency' | 'variance' | 'cropCost') =>
+    candidates.reduce((max, candidate) => Math.max(max, candidate[key]), 1e-9);
+  const maxEdges = maxOf('edges');
+  const maxSaliency = maxOf('saliency');
+  const maxVariance = maxOf('variance');
+  const maxCropCost = maxOf('cropCost');
+
+  let best = candidates[0];
+  let bestScore = -Infinity;
+  for (const candidate of candidates) {
+    const saliency = candidate.saliency / maxSaliency;
+    const score = strategy === 'aggressive'
+      ? candidate.cropCost / maxCropCost - SUBJECT_PENALTY * saliency
+      : -(EDGE_WEIGHT * candidate.edges / maxEdges + SALIENCY_WEIGHT * saliency + VARIANCE_WEIGHT * candidate.variance / maxVariance);
+    if (score > bestScore) {
+      bestScore = score;
+      best = candidate;
+    }
+  }
+
+  // Map the box centre back to the full image
+  const centerX = (best.x + bw / 2) / scale;
+  const centerY = (best.y + bh / 2) / scale;
+  return {
+    left: Math.round(Math.min(Math.max(0, centerX - regionWidth / 2), width - regionWidth)),
+    top: Math.round(Math.min(Math.max(0, centerY - regionHeight / 2), height - regionHeight)),
+    width: regionWidth,
+    height: regionHeight,
+    strategy,
+  };
+}
+
+// Summed-area table for constant-time box sums
+class IntegralImage {
+  private readonly table: Float64Array;
+  private readonly stride: number;
+
+  constructor(values: Float64Array, width: number, height: number) {
+    this.stride = width + 1;
+    this.table = new Float64Array((width + 1) * (height + 1));
+    for (let y = 0; y < height; y++) {
+      let rowSum = 0;
+      for (let x = 0; x < width; x++) {
+        rowSum += values[y * width + x];
+        this.table[(y + 1) * this.stride + x + 1] = this.table[y * this.stride + x + 1] + rowSum;
+      }
+    }
+  }
+
+  // Sum over [x0, x1) × [y0, y1)
+  sum(x0: number, y0: number, x1: number, y1: number): number {
+    const t = this.table;
+    const s = this.stride;
+    return t[y1 * s + x1] - t[y0 * s + x1] - t[y1 * s + x0] + t[y0 * s + x0];
+  }
+}
+
+// Build the integral images of the luminance, edge and saliency maps
+function analyze(data: Buffer, width: number, height: number, channels: number) {
+  const size = width * height;
+  const luminance = new Float64Array(size);
+  const luminanceSquared = new Float64Array(size);
+  const red = new Float64Array(size);
+  const green = new Float64Array(size);
+  const blue = new Float64Array(size);
+
+  for (let i = 0; i < size; i++) {
+    const r = data[i * channels];
+    const g = data[i * channels + 1];
+    const b = data[i * channels + 2];
+    red[i] = r;
+    green[i] = g;
+    blue[i] = b;
+    luminance[i] = 0.299 * r + 0.587 * g + 0.114 * b;
+    luminanceSquared[i] = luminance[i] * luminance[i];
+  }
+
+  // Sobel gradient magnitude
+  const edges = new Float64Array(size);
+  const at = (x: number, y: number) =>
+    luminance[Math.min(height - 1, Math.max(0, y)) * width + Math.min(width - 1, Math.max(0, x))];
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const gx = at(x + 1, y - 1) + 2 * at(x + 1, y) + at(x + 1, y + 1) - at(x - 1, y - 1) - 2 * at(x - 1, y) - at(x - 1, y + 1);
+      const gy = at(x - 1, y + 1) + 2 * at(x, y + 1) + at(x + 1, y + 1) - at(x - 1, y - 1) - 2 * at(x, y - 1) - at(x + 1, y - 1);
+      edges[y * width + x] = Math.sqrt(gx * gx + gy * gy);
+    }
+  }
+
+  // Centre-surround saliency: distance of each pixel's colour from the mean of its surroundings
+  const redSums = new IntegralImage(red, width, height);
+  const greenSums = new IntegralImage(green, width, height);
+  const blueSums = new IntegralImage(blue, width, height);
+  const radius = Math.max(2, Math.round(Math.max(width, height) * SURROUND_RATIO));
+  const saliency = new Float64Array(size);
+  for (let y = 0; y < height; y++) {
+    const y0 = Math.max(0, y - radius);
+    const y1 = Math.min(height, y + radius + 1);
+    for (let x = 0; x < width; x++) {
+      const x0 = Math.max(0, x - radius);
+      const x1 = Math.min(width, x + radius + 1);
+      const area = (x1 - x0) * (y1 - y0);
+      const i = y * width + x;
+      const dr = red[i] - redSums.sum(x0, y0, x1, y1) / area;
+      const dg = green[i] - greenSums.sum(x0, y0, x1, y1) / area;
+      const db = blue[i] - blueSums.sum(x0, y0, x1, y1) / area;
+      saliency[i] = Math.sqrt(dr * dr + dg * dg + db * db);
+    }
+  }
+
+  return {
+    luminance: new IntegralImage(luminance, width, height),
+    luminanceSquared: new IntegralImage(luminanceSquared, width, height),
+    edges: new IntegralImage(edges, width, height),
+    saliency: new IntegralImage(saliency, width, height),
+  };
+}
@@ -0,0 +1,490 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import { v4 as uuidv4 } from 'uuid';
+import { CborTag, decodeCbor, encodeCbor, type CborMap, type CborValue } from './cbor';
+import { locateC2paManifestStore, readC2paManifestStore, spliceMetadata, type ByteRange } from './metadata-splice';
+import { IMAGE_FORMATS, type ImageFormat } from '@shared/image-formats';
+
+/**
+ * Signed C2PA provenance manifests
+ *
+ * The manifest store is a JUMBF superbox holding one manifest: an assertion
+ * store, the claim listing the hashes of the assertions, and a COSE_Sign1
+ * signature over the claim made with the key and X.509 certificate given in
+ * C2PA_SIGNING_KEY and C2PA_SIGNING_CERT (PEM files, the certificate file
+ * may hold the chain with the signer first). The assertions are:
+ *
+ * - c2pa.ingredient: the upload, the parent the image was made from
+ * - c2pa.actions: c2pa.opened on the ingredient, then what processing did
+ * - c2pa.training-mining: every AI training, inference and data mining use
+ *   set to notAllowed
+ * - c2pa.hash.data: the hash of the whole file except the manifest store,
+ *   which binds the manifest to these exact bytes
+ *
+ * Any change to the file after signing, including a metadata edit, breaks
+ * the hash binding, so the manifest is always the last thing written. A
+ * manifest the upload carried is replaced rather than kept in the ingredient.
+ */
+
+const SIGNING_KEY_PATH = process.env.C2PA_SIGNING_KEY;
+const SIGNING_CERT_PATH = process.env.C2PA_SIGNING_CERT;
+const CLAIM_GENERATOR = 'ImageShield/1.0';
+
+const BOX_HEADER = 8; // Box length and type
+const JUMBF_UUID_SUFFIX = Buffer.from('00110010800000AA00389B71', 'hex'); // Follows the four-character content type
+const LABEL_TOGGLES = 0x03; // Requestable, with a label
+
+const STORE_LABEL = 'c2pa';
+const ASSERTION_STORE_LABEL = 'c2pa.assertions';
+const CLAIM_LABEL = 'c2pa.claim';
+const SIGNATURE_LABEL = 'c2pa.signature';
+const INGREDIENT_LABEL = 'c2pa.ingredient';
+const ACTIONS_LABEL = 'c2pa.actions';
+const TRAINING_MINING_LABEL = 'c2pa.training-mining';
+const HASH_DATA_LABEL = 'c2pa.hash.data';
+
+// Actions a manifest's action list has to start with
+const FIRST_ACTIONS = ['c2pa.created', 'c2pa.opened'];
+
+// Uses the training and mining assertion covers
+const TRAINING_MINING_ENTRIES = ['c2pa.ai_generative_training', 'c2pa.ai_inference', 'c2pa.ai_training', 'c2pa.data_mining'];
+
+const COSE_SIGN1_TAG = 18;
+const HEADER_ALG = 1;
+const HEADER_X5CHAIN = 33;
+
+// Embedding converges once the exclusion length no longer changes the size of the store
+const MAX_EMBED_PASSES = 4;
+
+interface CoseAlgorithm {
+  id: number;
+  hash: string | null; // Null for EdDSA, which hashes internally
+  pss: boolean;
+}
+
+const ALGORITHMS: Record<string, CoseAlgorithm> = {
+  ES256: { id: -7, hash: 'sha256', pss: false },
+  ES384: { id: -35, hash: 'sha384', pss: false },
+  ES512: { id: -36, hash: 'sha512', pss: false },
+  PS256: { id: -37, hash: 'sha256', pss: true },
+  EdDSA: { id: -8, hash: null, pss: false },
+};
+
+// Hash algorithms a claim may name for its hashed URIs and the data hash
+const HASH_ALGORITHMS = ['sha256', 'sha384', 'sha512'];
+
+interface Signer {
+  key: crypto.KeyObject;
+  certificates: Buffer[]; // DER, the signer first
+  algorithm: CoseAlgorithm;
+}
+
+export interface ManifestAction {
+  action: string; // C2PA action name, such as c2pa.watermarked
+  description: string;
+}
+
+// The file the image was made from, recorded as the parent ingredient
+export interface ManifestIngredient {
+  title: string; // File name
+  format: ImageFormat;
+}
+
+export type C2paStatus = 'valid' | 'altered' | 'invalid' | 'absent';
+
+export interface C2paValidation {
+  status: C2paStatus; // 'altered' when the signature holds but the image changed after signing
+  details: string;
+  signer: string | null; // Subject of the signing certificate
+  trusted: boolean; // Signed with the certificate this server is configured with
+  claimGenerator: string | null;
+  actions: string[];
+  trainingMining: Record<string, string>; // Use per entry of the training and mining assertion
+}
+
+interface JumbfBox {
+  type: string;
+  label: string | null; // Superboxes only
+  contentType: string | null; // First four bytes of a superbox's UUID
+  bytes: Buffer; // The whole box
+  payload: Buffer; // Content of a plain box
+  children: JumbfBox[]; // Of a superbox, after its description box
+}
+
+let signer: Signer | null | undefined;
+
+// Whether a key and certificate are configured and belong together
+export function c2paSigningAvailable(): boolean {
+  try {
+    return loadSigner() !== null;
+  } catch (error) {
+    console.error('C2PA signing key or certificate cannot be used:', error);
+    signer = null;
+    return false;
+  }
+}
+
+function loadSigner(): Signer | null {
+  if (signer !== undefined) return signer;
+  if (!SIGNING_KEY_PATH || !SIGNING_CERT_PATH) {
+    signer = null;
+    return signer;
+  }
+
+  const key = crypto.createPrivateKey(fs.readFileSync(SIGNING_KEY_PATH));
+  const pem = fs.readFileSync(SIGNING_CERT_PATH, 'utf8');
+  const certificates = (pem.match(/-----BEGIN CERTIFICATE-----[\s\S]+?-----END CERTIFICATE-----/g) ?? [])
+    .map((block) => new crypto.X509Certificate(block).raw);
+  if (certificates.length === 0) {
+    throw new Error(`No certificate in ${SIGNING_CERT_PATH}`);
+  }
+  const publicKey = crypto.createPublicKey(key).export({ type: 'spki', format: 'der' });
+  if (!new crypto.X509Certificate(certificates[0]).publicKey.export({ type: 'spki', format: 'der' }).equals(publicKey)) {
+    throw new Error('The C2PA certificate does not belong to the signing key');
+  }
+  signer = { key, certificates, algorithm: signingAlgorithm(key) };
+  return signer;
+}
+
+function signingAlgorithm(key: crypto.KeyObject): CoseAlgorithm {
+  const type = key.asymmetricKeyType;
+  if (type === 'ed25519') return ALGORITHMS.EdDSA;
+  if (type === 'rsa' || type === 'rsa-pss') return ALGORITHMS.PS256;
+  if (type === 'ec') {
+    const curve = key.asymmetricKeyDetails?.namedCurve;
+    if (curve === 'prime256v1') return ALGORITHMS.ES256;
+    if (curve === 'secp384r1') return ALGORITHMS.ES384;
+    if (curve === 'secp521r1') return ALGORITHMS.ES512;
+  }
+  throw new Error(`Unsupported C2PA signing key type ${type}`);
+}
+
+/**
+ * Sign a manifest for the encoded image and embed it, JPEG and PNG only
+ * The store is built twice at least: the hash binding has to name the byte
+ * range the store itself ends up in.
+ */
+export function embedC2paManifest(image: Buffer, format: ImageFormat, actions: ManifestAction[], parent: ManifestIngredient): Buffer {
+  const current = loadSigner();
+  if (!current) {
+    throw new Error('C2PA signing is not configured');
+  }
+
+  const base = spliceMetadata(image, format, { c2pa: null });
+  const manifestLabel = `urn:uuid:${uuidv4()}`;
+  const instanceId = `xmp:iid:${uuidv4()}`;
+  const ingredient = {
+    'dc:title': parent.title,
+    'dc:format': IMAGE_FORMATS[parent.format].contentType,
+    instanceID: `xmp:iid:${uuidv4()}`,
+    relationship: 'parentOf',
+  };
+  let exclusion: ByteRange = { start: 0, length: 0 };
+  let hash = Buffer.alloc(32);
+  for (let pass = 0; pass < MAX_EMBED_PASSES; pass++) {
+    const store = buildManifestStore(current, format, manifestLabel, instanceId, ingredient, actions, exclusion, hash);
+    const signed = spliceMetadata(base, format, { c2pa: store });
+    const range = locateC2paManifestStore(signed, format);
+    if (!range) {
+      throw new Error('The C2PA manifest store was not written');
+    }
+    if (range.start === exclusion.start && range.length === exclusion.length) return signed;
+    exclusion = range;
+    hash = hashExcluding(signed, [range], 'sha256');
+  }
+  throw new Error('The C2PA manifest store size did not settle');
+}
+
+function buildManifestStore(
+  current: Signer,
+  format: ImageFormat,
+  manifestLabel: string,
+  instanceId: string,
+  ingredient: CborMap,
+  actions: ManifestAction[],
+  exclusion: ByteRange,
+  hash: Buffer
+): Buffer {
+  const when = new Date().toISOString();
+  const useNotAllowed: CborMap = {};
+  TRAINING_MINING_ENTRIES.forEach((entry) => {
+    useNotAllowed[entry] = { use: 'notAllowed' };
+  });
+  // The first action opens the ingredient, referenced by the hash of its assertion
+  const ingredientReference = {
+    url: `self#jumbf=${ASSERTION_STORE_LABEL}/${INGREDIENT_LABEL}`,
+    hash: hashBox(assertionBox(INGREDIENT_LABEL, ingredient), 'sha256'),
+  };
+  const assertions: Array<[string, CborValue]> = [
+    [INGREDIENT_LABEL, ingredient],
+    [ACTIONS_LABEL, {
+      actions: [
+        { action: 'c2pa.opened', when, softwareAgent: CLAIM_GENERATOR, parameters: { ingredient: ingredientReference } },
+        ...actions.map((action) => ({ action: action.action, when, softwareAgent: CLAIM_GENERATOR, description: action.description })),
+      ],
+    }],
+    [TRAINING_MINING_LABEL, { entries: useNotAllowed }],
+    [HASH_DATA_LABEL, {
+      exclusions: [{ start: exclusion.start, length: exclusion.length }],
+      name: 'jumbf manifest',
+      alg: 'sha256',
+      hash,
+      pad: Buffer.alloc(0),
+    }],
+  ];
+  const assertionBoxes = assertions.map(([label, content]) => assertionBox(label, content));
+
+  const claim = encodeCbor({
+    'dc:format': IMAGE_FORMATS[format].contentType,
+    instanceID: instanceId,
+    claim_generator: CLAIM_GENERATOR,
+    signature: `self#jumbf=${SIGNATURE_LABEL}`,
+    assertions: assertionBoxes.map((assertion, i) => ({
+      url: `self#jumbf=${ASSERTION_STORE_LABEL}/${assertions[i][0]}`,
+      hash: hashBox(assertion, 'sha256'),
+    })),
+    alg: 'sha256',
+  });
+
+  return superbox('c2pa', STORE_LABEL, [
+    superbox('c2ma', manifestLabel, [
+      superbox('c2as', ASSERTION_STORE_LABEL, assertionBoxes),
+      superbox('c2cl', CLAIM_LABEL, [box('cbor', claim)]),
+      superbox('c2cs', SIGNATURE_LABEL, [box('cbor', signClaim(claim, current))]),
+    ]),
+  ]);
+}
+
+function assertionBox(label: string, content: CborValue): Buffer {
+  return superbox('cbor', label, [box('cbor', encodeCbor(content))]);
+}
+
+// COSE_Sign1 with a detached payload, the certificate chain in the protected header
+function signClaim(claim: Buffer, current: Signer): Buffer {
+  const chain = current.certificates.length === 1 ? current.certificates[0] : current.certificates;
+  const protectedHeader = encodeCbor(new Map<number, CborValue>([[HEADER_ALG, current.algorithm.id], [HEADER_X5CHAIN, chain]]));
+  const toBeSigned = encodeCbor(['Signature1', protectedHeader, Buffer.alloc(0), claim]);
+  const { algorithm } = current;
+  const signature = crypto.sign(algorithm.hash, toBeSigned, {
+    key: current.key,
+    dsaEncoding: 'ieee-p1363',
+    ...(algorithm.pss ? { padding: crypto.constants.RSA_PKCS1_PSS_PADDING, saltLength: 32 } : {}),
+  });
+  return encodeCbor(new CborTag(COSE_SIGN1_TAG, [protectedHeader, new Map(), null, signature]));
+}
+
+/**
+ * Validate the manifest store of an image
+ * The claim signature is checked against the certificate in it, every
+ * assertion against its hash in the claim, and the file against the hash
+ * binding. The certificate is trusted only when it is this server's own.
+ */
+export function verifyC2paManifest(image: Buffer, format: ImageFormat): C2paValidation {
+  const result: C2paValidation = {
+    status: 'absent',
+    details: 'No C2PA manifest store found',
+    signer: null,
+    trusted: false,
+    claimGenerator: null,
+    actions: [],
+    trainingMining: {},
+  };
+  const store = readC2paManifestStore(image, format);
+  if (!store) return result;
+
+  const invalid = (details: string): C2paValidation => ({ ...result, status: 'invalid', details });
+  try {
+    const manifests = parseBox(store).children.filter((child) => child.contentType === 'c2ma');
+    const manifest = manifests[manifests.length - 1];
+    if (!manifest) return invalid('The manifest store holds no manifest');
+
+    const assertionStore = findChild(manifest, ASSERTION_STORE_LABEL);
+    const claimBytes = findContent(findChild(manifest, CLAIM_LABEL));
+    const signatureBytes = findContent(findChild(manifest, SIGNATURE_LABEL));
+    if (!assertionStore || !claimBytes || !signatureBytes) return invalid('The manifest is missing its assertions, claim or signature');
+
+    const claim = asMap(decodeCbor(claimBytes));
+    result.claimGenerator = typeof claim.claim_generator === 'string' ? claim.claim_generator : null;
+
+    const signature = checkSignature(signatureBytes, claimBytes);
+    result.signer = signature.subject;
+    result.trusted = signature.trusted;
+    if (!signature.valid) return invalid(signature.details);
+
+    // Every assertion has to match its hash in the signed claim
+    const claimAlg = typeof claim.alg === 'string' ? claim.alg : 'sha256';
+    const references = Array.isArray(claim.assertions) ? claim.assertions : [];
+    for (const reference of references) {
+      const { url, hash, alg } = asMap(reference);
+      const label = typeof url === 'string' ? url.slice(url.lastIndexOf('/') + 1) : '';
+      const assertion = findChild(assertionStore, label);
+      const hashAlg = typeof alg === 'string' ? alg : claimAlg;
+      if (!assertion || !Buffer.isBuffer(hash) || HASH_ALGORITHMS.indexOf(hashAlg) === -1 || !hashBox(assertion.bytes, hashAlg).equals(hash)) {
+        return invalid(`The ${label || 'unnamed'} assertion does not match the signed claim`);
+      }
+    }
+    const signedLabels = references.map((reference) => String(asMap(reference).url ?? ''));
+    const signedContent = (label: string) => {
+      const assertion = signedLabels.some((url) => url.slice(url.lastIndexOf('/') + 1) === label) ? findChild(assertionStore, label) : null;
+      const content = assertion ? findContent(assertion) : null;
+      return content ? asMap(decodeCbor(content)) : null;
+    };
+
+    const actions = signedContent(ACTIONS_LABEL);
+    if (actions && Array.isArray(actions.actions)) {
+      result.actions = actions.actions.map((action) => String(asMap(action).action));
+      if (FIRST_ACTIONS.indexOf(result.actions[0]) === -1) {
+        return invalid(`The actions start with ${result.actions[0] ?? 'nothing'} instead of ${FIRST_ACTIONS.join(' or ')}`);
+      }
+    }
+    const trainingMining = signedContent(TRAINING_MINING_LABEL);
+    if (trainingMining) {
+      const entries = asMap(trainingMining.entries ?? {});
+      Object.keys(entries).forEach((entry) => {
+        result.trainingMining[entry] = String(asMap(entries[entry]).use);
+      });
+    }
+
+    const dataHash = signedContent(HASH_DATA_LABEL);
+    if (!dataHash) return invalid('The manifest has no hash binding to the image data');
+    const hashAlg = typeof dataHash.alg === 'string' ? dataHash.alg : claimAlg;
+    const exclusions = (Array.isArray(dataHash.exclusions) ? dataHash.exclusions : []).map((exclusion) => {
+      const { start, length } = asMap(exclusion);
+      return { start: Number(start), length: Number(length) };
+    });
+    // Only the manifest store may be left out of the hash, anything else would go unprotected
+    const range = locateC2paManifestStore(image, format);
+    const outside = exclusions.some((exclusion) => !range || exclusion.start < range.start ||
+      exclusion.start + exclusion.length > range.start + range.length);
+    if (outside || !Buffer.isBuffer(dataHash.hash) || HASH_ALGORITHMS.indexOf(hashAlg) === -1) {
+      return invalid('The hash binding leaves out more than the manifest store');
+    }
+    if (!hashExcluding(image, exclusions, hashAlg).equals(dataHash.hash)) {
+      return { ...result, status: 'altered', details: 'The signature is valid, but the image changed after it was signed' };
+    }
+    return {
+      ...result,
+      status: 'valid',
+      details: `Signed by ${result.signer ?? 'an unnamed signer'}${result.trusted ? ', this server' : ''}; the image is unchanged since signing`,
+    };
+  } catch (error) {
+    return invalid(`The manifest cannot be read: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+function checkSignature(signatureBytes: Buffer, claim: Buffer): { valid: boolean; details: string; subject: string | null; trusted: boolean } {
+  const sign1 = decodeCbor(signatureBytes);
+  const parts = sign1 instanceof CborTag && sign1.tag === COSE_SIGN1_TAG ? sign1.value : sign1;
+  if (!Array.isArray(parts) || parts.length !== 4 || !Buffer.isBuffer(parts[0]) || !Buffer.isBuffer(parts[3])) {
+    return { valid: false, details: 'The signature is not a COSE_Sign1 structure', subject: null, trusted: false };
+  }
+  const [protectedHeader, unprotected, , signature] = parts as [Buffer, CborValue, CborValue, Buffer];
+  const headers = asMap(decodeCbor(protectedHeader));
+  const unprotectedHeaders = asMap(unprotected ?? {});
+  const chain = headers[HEADER_X5CHAIN] ?? unprotectedHeaders[HEADER_X5CHAIN];
+  const leaf = Array.isArray(chain) ? chain[0] : chain;
+  if (!Buffer.isBuffer(leaf)) {
+    return { valid: false, details: 'The signature carries no certificate', subject: null, trusted: false };
+  }
+
+  const certificate = new crypto.X509Certificate(leaf);
+  const subject = certificate.subject.split('\n').join(', ');
+  const configured = c2paSigningAvailable() ? loadSigner() : null;
+  const trusted = configured !== null && configured.certificates[0].equals(leaf);
+  const algorithm = Object.keys(ALGORITHMS).map((name) => ALGORITHMS[name]).filter((candidate) => candidate.id === headers[HEADER_ALG])[0];
+  if (!algorithm) {
+    return { valid: false, details: `Unsupported signature algorithm ${String(headers[HEADER_ALG])}`, subject, trusted };
+  }
+
+  const toBeSigned = encodeCbor(['Signature1', protectedHeader, Buffer.alloc(0), claim]);
+  const valid = crypto.verify(algorithm.hash, toBeSigned, {
+    key: certificate.publicKey,
+    dsaEncoding: 'ieee-p1363',
+    ...(algorithm.pss ? { padding: crypto.constants.RSA_PKCS1_PSS_PADDING, saltLength: 32 } : {}),
+  }, signature);
+  return { valid, details: valid ? 'The claim signature is valid' : 'The claim signature does not match the claim', subject, trusted };
+}
+
+// Hash of the file with the excluded ranges cut out
+function hashExcluding(image: Buffer, exclusions: ByteRange[], algorithm: string): Buffer {
+  const hash = crypto.createHash(algorithm);
+  let offset = 0;
+  exclusions.slice().sort((a, b) => a.start - b.start).forEach((exclusion) => {
+    if (exclusion.start > offset) hash.update(image.subarray(offset, exclusion.start));
+    offset = Math.max(offset, exclusion.start + exclusion.length);
+  });
+  hash.update(image.subarray(offset));
+  return hash.digest();
+}
+
+// An assertion is hashed as its superbox without the superbox's own header
+function hashBox(superboxBytes: Buffer, algorithm: string): Buffer {
+  return crypto.createHash(algorithm).update(superboxBytes.subarray(BOX_HEADER)).digest();
+}
+
+function box(type: string, payload: Buffer): Buffer {
+  const header = Buffer.alloc(BOX_HEADER);
+  header.writeUInt32BE(BOX_HEADER + payload.length, 0);
+  header.write(type, 4, 'latin1');
+  return Buffer.concat([header, payload]);
+}
+
+// A superbox opens with a description box: the content type UUID, the toggles and the label
+function superbox(contentType: string, label: string, children: Buffer[]): Buffer {
+  const description = box('jumd', Buffer.concat([
+    Buffer.from(contentType, 'latin1'),
+    JUMBF_UUID_SUFFIX,
+    Buffer.from([LABEL_TOGGLES]),
+    Buffer.from(`${label}\0`, 'utf8'),
+  ]));
+  return box('jumb', Buffer.concat([description].concat(children)));
+}
+
+function parseBox(bytes: Buffer): JumbfBox {
+  if (bytes.length < BOX_HEADER) {
+    throw new Error('Truncated JUMBF box');
+  }
+  const length = bytes.readUInt32BE(0);
+  if (length < BOX_HEADER || length > bytes.length) {
+    throw new Error('Truncated JUMBF box');
+  }
+  const own = bytes.subarray(0, length);
+  const type = own.toString('latin1', 4, 8);
+  const payload = own.subarray(BOX_HEADER);
+  const parsed: JumbfBox = { type, label: null, contentType: null, bytes: own, payload, children: [] };
+  if (type !== 'jumb') return parsed;
+
+  let offset = 0;
+  while (offset < payload.length) {
+    const child = parseBox(payload.subarray(offset));
+    offset += child.bytes.length;
+    if (child.type === 'jumd' && parsed.contentType === null) {
+      parsed.contentType = child.payload.toString('latin1', 0, 4);
+      const toggles = child.payload[16];
+      if (toggles & 0x02) {
+        const end = child.payload.indexOf(0, 17);
+        parsed.label = child.payload.toString('utf8', 17, end === -1 ? child.payload.length : end);
+      }
+    } else {
+      parsed.children.push(child);
+    }
+  }
+  return parsed;
+}
+
+function findChild(parent: JumbfBox | null, label: string): JumbfBox | null {
+  return parent ? parent.children.filter((child) => child.label === label)[0] ?? null : null;
+}
+
+// Payload of the CBOR content box of a superbox
+function findContent(parent: JumbfBox | null): Buffer | null {
+  const content = parent ? parent.children.filter((child) => child.type === 'cbor')[0] : undefined;
+  return content ? content.payload : null;
+}
+
+function asMap(value: CborValue): CborMap {
+  if (value === null || typeof value !== 'object' || Array.isArray(value) || Buffer.isBuffer(value) || value instanceof CborTag || value instanceof Map) {
+    throw new Error('Expected a CBOR map');
+  }
+  return value;
+}
@@ -0,0 +1,200 @@
+/**
+ * CBOR (RFC 8949) encoding and decoding
+ *
+ * The subset C2PA manifests use: integers, byte and text strings, arrays,
+ * maps, tags, booleans and null. Maps are written in the order their keys
+ * are given, which keeps an encoding stable for hashing and signing; maps
+ * with integer keys, such as COSE headers, are passed as `Map`. Decoded maps
+ * become plain objects with their keys as strings. Floats are decoded but
+ * never written.
+ */
+
+export type CborValue = number | string | boolean | null | Buffer | CborValue[] | CborMap | Map<number | string, CborValue> | CborTag;
+
+export interface CborMap {
+  [key: string]: CborValue;
+}
+
+export class CborTag {
+  tag: number;
+  value: CborValue;
+
+  constructor(tag: number, value: CborValue) {
+    this.tag = tag;
+    this.value = value;
+  }
+}
+
+const UNSIGNED = 0;
+const NEGATIVE = 1;
+const BYTES = 2;
+const TEXT = 3;
+const ARRAY = 4;
+const MAP = 5;
+const TAG = 6;
+const SIMPLE = 7;
+
+const FALSE = 20;
+const TRUE = 21;
+const NULL = 22;
+const UNDEFINED = 23;
+
+const MAX_DEPTH = 64; // Nesting allowed when decoding, manifests come from untrusted files
+
+export function encodeCbor(value: CborValue): Buffer {
+  const parts: Buffer[] = [];
+  write(value, parts);
+  return Buffer.concat(parts);
+}
+
+function write(value: CborValue, parts: Buffer[]): void {
+  if (value === null) {
+    parts.push(Buffer.from([(SIMPLE << 5) | NULL]));
+  } else if (typeof value === 'boolean') {
+    parts.push(Buffer.from([(SIMPLE << 5) | (value ? TRUE : FALSE)]));
+  } else if (typeof value === 'number') {
+    if (!Number.isSafeInteger(value)) {
+      throw new Error(`CBOR encoding supports integers only, got ${value}`);
+    }
+    parts.push(value >= 0 ? head(UNSIGNED, value) : head(NEGATIVE, -1 - value));
+  } else if (typeof value === 'string') {
+    const text = Buffer.from(value, 'utf8');
+    parts.push(head(TEXT, text.length), text);
+  } else if (Buffer.isBuffer(value)) {
+    parts.push(head(BYTES, value.length), value);
+  } else if (Array.isArray(value)) {
+    parts.push(head(ARRAY, value.length));
+    value.forEach((item) => write(item, parts));
+  } else if (value instanceof CborTag) {
+    parts.push(head(TAG, value.tag));
+    write(value.value, parts);
+  } else if (value instanceof Map) {
+    parts.push(head(MAP, value.size));
+    value.forEach((item, key) => {
+      write(key, parts);
+      write(item, parts);
+    });
+  } else {
+    const keys = Object.keys(value);
+    parts.push(head(MAP, keys.length));
+    keys.forEach((key) => {
+      write(key, parts);
+      write(value[key], parts);
+    });
+  }
+}
+
+// Major type and argument, in the shortest form
+function head(major: number, argument: number): Buffer {
+  if (argument < 24) return Buffer.from([(major << 5) | argument]);
+  if (argument < 0x100) return Buffer.from([(major << 5) | 24, argument]);
+  if (argument < 0x10000) {
+    const bytes = Buffer.from([(major << 5) | 25, 0, 0]);
+    bytes.writeUInt16BE(argument, 1);
+    return bytes;
+  }
+  if (argument < 0x100000000) {
+    const bytes = Buffer.from([(major << 5) | 26, 0, 0, 0, 0]);
+    bytes.writeUInt32BE(argument, 1);
+    return bytes;
+  }
+  const bytes = Buffer.from([(major << 5) | 27, 0, 0, 0, 0, 0, 0, 0, 0]);
+  bytes.writeBigUInt64BE(BigInt(argument), 1);
+  return bytes;
+}
+
+// Decode a single item that fills the whole buffer
+export function decodeCbor(data: Buffer): CborValue {
+  const reader = { data, offset: 0 };
+  const value = read(reader, 0);
+  if (reader.offset !== data.length) {
+    throw new Error('Trailing bytes after CBOR item');
+  }
+  return value;
+}
+
+function read(reader: { data: Buffer; offset: number }, depth: number): CborValue {
+  if (depth > MAX_DEPTH) {
+    throw new Error('CBOR item nested too deeply');
+  }
+  const { data } = reader;
+  if (reader.offset >= data.length) {
+    throw new Error('Truncated CBOR item');
+  }
+  const initial = data[reader.offset++];
+  const major = initial >> 5;
+  const info = initial & 0x1f;
+
+  if (major === SIMPLE) {
+    if (info === FALSE) return false;
+    if (info === TRUE) return true;
+    if (info === NULL || info === UNDEFINED) return null;
+    if (info === 25) return halfFloat(take(reader, 2).readUInt16BE(0));
+    if (info === 26) return take(reader, 4).readFloatBE(0);
+    if (info === 27) return take(reader, 8).readDoubleBE(0);
+    throw new Error(`Unsupported CBOR simple value ${info}`);
+  }
+
+  const argument = readArgument(reader, info);
+  switch (major) {
+    case UNSIGNED:
+      return argument;
+    case NEGATIVE:
+      return -1 - argument;
+    case BYTES:
+      return Buffer.from(take(reader, argument));
+    case TEXT:
+      return take(reader, argument).toString('utf8');
+    case ARRAY: {
+      const items: CborValue[] = [];
+      for (let i = 0; i < argument; i++) items.push(read(reader, depth + 1));
+      return items;
+    }
+    case MAP: {
+      const map: CborMap = {};
+      for (let i = 0; i < argument; i++) {
+        const key = read(reader, depth + 1);
+        if (typeof key !== 'string' && typeof key !== 'number') {
+          throw new Error('CBOR map keys must be text or integers');
+        }
+        map[String(key)] = read(reader, depth + 1);
+      }
+      return map;
+    }
+    default:
+      return new CborTag(argument, read(reader, depth + 1));
+  }
+}
+
+function readArgument(reader: { data: Buffer; offset: number }, info: number): number {
+  if (info < 24) return info;
+  if (info === 24) return take(reader, 1)[0];
+  if (info === 25) return take(reader, 2).readUInt16BE(0);
+  if (info === 26) return take(reader, 4).readUInt32BE(0);
+  if (info === 27) {
+    const value = take(reader, 8).readBigUInt64BE(0);
+    if (value > BigInt(Number.MAX_SAFE_INTEGER)) {
+      throw new Error('CBOR integer too large');
+    }
+    return Number(value);
+  }
+  throw new Error('Indefinite-length CBOR items are not supported');
+}
+
+function take(reader: { data: Buffer; offset: number }, length: number): Buffer {
+  if (reader.offset + length > reader.data.length) {
+    throw new Error('Truncated CBOR item');
+  }
+  const bytes = reader.data.subarray(reader.offset, reader.offset + length);
+  reader.offset += length;
+  return bytes;
+}
+
+function halfFloat(bits: number): number {
+  const exponent = (bits >> 10) & 0x1f;
+  const fraction = bits & 0x3ff;
+  const sign = bits & 0x8000 ? -1 : 1;
+  if (exponent === 0) return sign * Math.pow(2, -14) * (fraction / 1024);
+  if (exponent === 0x1f) return fraction ? NaN : sign * Infinity;
+  return sign * Math.pow(2, exponent - 15) * (1 + fraction / 1024);
+}
@@ -0,0 +1,140 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import sharp from 'sharp';
+import type { ImageFormat } from '@shared/image-formats';
+import type { OutputSettings, RenderingIntent } from '@shared/output-settings';
+
+/**
+ * Colour management
+ *
+ * Unless told otherwise, sharp converts every image to 8-bit sRGB and drops
+ * its ICC profile. In the 'preserve' colour mode the pixels stay in the
+ * colour space of the upload instead: the embedded profile is kept and the
+ * values are never converted, CMYK stays CMYK in JPEG and TIFF and 16-bit
+ * images stay 16-bit in PNG and TIFF. Watermarks and logos are drawn in
+ * sRGB, so they are converted into the profile before being composited.
+ *
+ * libvips always converts with the perceptual intent. Another intent is
+ * selected by rewriting the tag table of the profile, so that its
+ * perceptual tables point at the tables of that intent. This applies both
+ * to converting the upload to sRGB and to converting overlays into a kept
+ * profile. Matrix-based profiles, which most RGB profiles are, have no such
+ * tables and convert the same way under every intent.
+ */
+
+export type WorkingSpace = 'srgb' | 'rgb16' | 'cmyk';
+
+export interface ColorPlan {
+  space: WorkingSpace; // Colour space every stage works in and the output is written in
+  icc: Buffer | null; // Profile the pixels stay in, null when they end up in sRGB
+  converts: boolean; // The source is converted to sRGB, so its pixels change even without other stages
+}
+
+export interface ColorLimits {
+  rgb?: boolean; // A stage works on RGB values, so CMYK has to be converted
+  eightBit?: boolean; // A stage works on 8-bit samples
+}
+
+// Output formats that can store CMYK pixels, and 16-bit samples
+const CMYK_FORMATS: ImageFormat[] = ['jpeg', 'tiff'];
+const DEEP_FORMATS: ImageFormat[] = ['png', 'tiff'];
+
+// ICC header values and table suffixes of the intents
+const INTENT_NUMBERS: Record<RenderingIntent, number> = { perceptual: 0, relative: 1, saturation: 2 };
+const ICC_HEADER_SIZE = 128;
+const ICC_INTENT_OFFSET = 64;
+const ICC_PROFILE_ID_OFFSET = 84;
+
+/**
+ * Decide how the colours of the source are carried to the output format
+ * Falls back to sRGB for whatever the format or a stage cannot keep
+ */
+export function planColor(
+  metadata: sharp.Metadata,
+  format: ImageFormat,
+  settings: OutputSettings,
+  limits: ColorLimits = {}
+): ColorPlan {
+  const cmyk = metadata.space === 'cmyk';
+  const deep = metadata.depth === 'ushort';
+  const icc = metadata.icc ?? null;
+  const srgb: ColorPlan = { space: 'srgb', icc: null, converts: icc !== null || cmyk || deep };
+
+  // GIF has no colour profiles
+  if (settings.colorMode === 'srgb' || format === 'gif') return srgb;
+
+  if (cmyk) {
+    return CMYK_FORMATS.indexOf(format) !== -1 && !limits.rgb ? { space: 'cmyk', icc, converts: false } : srgb;
+  }
+  const space = deep && !limits.eightBit && DEEP_FORMATS.indexOf(format) !== -1 ? 'rgb16' : 'srgb';
+  if (icc === null) return { space, icc, converts: deep && space === 'srgb' };
+  return { space, icc, converts: false };
+}
+
+// Set up the pipeline for the plan, keeping the profile or converting to sRGB
+export function applyColorPlan(image: sharp.Sharp, plan: ColorPlan): sharp.Sharp {
+  if (plan.space !== 'srgb') {
+    image = image.pipelineColourspace(plan.space).toColourspace(plan.space);
+  }
+  if (plan.icc || plan.space !== 'srgb') return image.keepIccProfile();
+  return plan.converts ? image.withIccProfile('srgb') : image;
+}
+
+/**
+ * Convert an overlay drawn in sRGB into the profile the pixels stay in
+ * Raw overlays are signals rather than colours and are left alone
+ */
+export async function overlayToWorkingSpace(
+  overlay: sharp.OverlayOptions,
+  plan: ColorPlan,
+  intent: RenderingIntent
+): Promise<sharp.OverlayOptions> {
+  if (!plan.icc || !Buffer.isBuffer(overlay.input) || overlay.raw) return overlay;
+
+  // sharp only reads output profiles from files
+  const profilePath = path.join(os.tmpdir(), `profile-${uuidv4()}.icc`);
+  fs.writeFileSync(profilePath, selectIntentTables(plan.icc, intent) ?? plan.icc);
+  try {
+    const converted = sharp(overlay.input).withIccProfile(profilePath, { attach: false });
+    const input = plan.space === 'cmyk'
+      ? await converted.toColourspace('cmyk').tiff().toBuffer()
+      : await converted.png().toBuffer();
+    return { ...overlay, input };
+  } finally {
+    fs.unlinkSync(profilePath);
+  }
+}
+
+/**
+ * Point the perceptual A2B0 and B2A0 tables of a profile at the tables of
+ * another intent, so libvips converts with that intent. Null when the
+ * profile has no tables for it.
+ */
+export function selectIntentTables(icc: Buffer, intent: RenderingIntent): Buffer | null {
+  if (intent === 'perceptual' || icc.length < ICC_HEADER_SIZE + 4) return null;
+
+  const profile = Buffer.from(icc);
+  const entries: Record<string, number> = {};
+  const count = profile.readUInt32BE(ICC_HEADER_SIZE);
+  for (let i = 0; i < count; i++) {
+    const entry = ICC_HEADER_SIZE + 4 + i * 12;
+    if (entry + 12 > profile.length) return null;
+    entries[profile.toString('latin1', entry, entry + 4)] = entry;
+  }
+
+  let changed = false;
+  for (const direction of ['A2B', 'B2A']) {
+    const from = entries[direction + INTENT_NUMBERS[intent]];
+    const to = entries[direction + '0'];
+    if (from === undefined || to === undefined) continue;
+    profile.copy(profile, to + 4, from + 4, from + 12); // Offset and size of the table
+    changed = true;
+  }
+  if (!changed) return null;
+
+  profile.writeUInt32BE(INTENT_NUMBERS[intent], ICC_INTENT_OFFSET);
+  profile.fill(0, ICC_PROFILE_ID_OFFSET, ICC_PROFILE_ID_OFFSET + 16); // The checksum no longer matches, zero means none
+  return profile;
+}
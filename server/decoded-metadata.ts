@@ -0,0 +1,44 @@
+import type sharp from 'sharp';
+import { decodeExif } from './exif';
+import { decodeIptc } from './iptc';
+import { readXmpProperties } from './xmp';
+import type { DecodedMetadata } from '@shared/decoded-metadata';
+
+/**
+ * Metadata decoding for the routes that read an image back
+ *
+ * Kept apart from storage.ts, which starts the temp file cleanup when it is
+ * imported, so the verifier can decode metadata without pulling that in.
+ */
+
+export type MetadataSource = 'exif' | 'iptc' | 'xmp';
+
+/**
+ * Metadata sharp read as typed values by namespace, with the Photoshop resources read from the file
+ * With `onError`, a source that cannot be decoded is left empty and reported instead of throwing
+ */
+export function decodeMetadata(
+  metadata: sharp.Metadata,
+  resources: Buffer | null,
+  onError?: (source: MetadataSource, error: unknown) => void
+): DecodedMetadata {
+  const decode = <T>(source: MetadataSource, empty: T, read: () => T): T => {
+    if (!onError) return read();
+    try {
+      return read();
+    } catch (error) {
+      onError(source, error);
+      return empty;
+    }
+  };
+  const decoded: DecodedMetadata = {
+    exif: decode('exif', { IFD0: {}, Exif: {}, GPS: {}, IFD1: {} }, () => decodeExif(metadata.exif)),
+    iptc: decode('iptc', {}, () => decodeIptc(resources)),
+    xmp: decode('xmp', {}, () => metadata.xmp ? readXmpProperties(metadata.xmp.toString('utf8')) : {}),
+    comments: {},
+  };
+  for (const comment of metadata.comments ?? []) {
+    decoded.comments[comment.keyword] = comment.text;
+  }
+  return decoded;
+}
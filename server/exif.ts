@@ -0,0 +1,676 @@
+import type { MetadataEntry, MetadataGroup } from '@shared/metadata-privacy';
+import type { ExifIfdName, MetadataFields, MetadataValue } from '@shared/decoded-metadata';
+
+/**
+ * Minimal EXIF reader and writer
+ *
+ * Decodes the ASCII tags of IFD0 and the Exif sub-IFD from the raw EXIF block
+ * sharp returns in `metadata.exif`. Enough for the descriptive fields used by
+ * watermark templates without pulling in a full EXIF library; every tag can
+ * also be listed for display or decoded into typed values. The writer sets
+ * the notice tags in IFD0 and the Exif sub-IFD for files whose metadata is
+ * spliced in directly, and rebuilds blocks with only the tags a privacy
+ * preset keeps.
+ */
+
+// Tags of IFD0, IFD1 and the Exif sub-IFD, which share one numbering
+const TAG_NAMES: Record<number, string> = {
+  0x0100: 'ImageWidth',
+  0x0101: 'ImageLength',
+  0x0102: 'BitsPerSample',
+  0x0103: 'Compression',
+  0x0106: 'PhotometricInterpretation',
+  0x010e: 'ImageDescription',
+  0x010f: 'Make',
+  0x0110: 'Model',
+  0x0112: 'Orientation',
+  0x011a: 'XResolution',
+  0x011b: 'YResolution',
+  0x0128: 'ResolutionUnit',
+  0x0115: 'SamplesPerPixel',
+  0x0131: 'Software',
+  0x0132: 'DateTime',
+  0x013b: 'Artist',
+  0x0201: 'JPEGInterchangeFormat',
+  0x0202: 'JPEGInterchangeFormatLength',
+  0x0213: 'YCbCrPositioning',
+  0x8298: 'Copyright',
+  0x829a: 'ExposureTime',
+  0x829d: 'FNumber',
+  0x8822: 'ExposureProgram',
+  0x8827: 'ISOSpeedRatings',
+  0x9000: 'ExifVersion',
+  0x9003: 'DateTimeOriginal',
+  0x9004: 'DateTimeDigitized',
+  0x9010: 'OffsetTime',
+  0x9011: 'OffsetTimeOriginal',
+  0x9012: 'OffsetTimeDigitized',
+  0x9101: 'ComponentsConfiguration',
+  0x9201: 'ShutterSpeedValue',
+  0x9202: 'ApertureValue',
+  0x9204: 'ExposureBiasValue',
+  0x9205: 'MaxApertureValue',
+  0x9207: 'MeteringMode',
+  0x9208: 'LightSource',
+  0x9209: 'Flash',
+  0x920a: 'FocalLength',
+  0x927c: 'MakerNote',
+  0x9286: 'UserComment',
+  0x9290: 'SubSecTime',
+  0x9291: 'SubSecTimeOriginal',
+  0x9292: 'SubSecTimeDigitized',
+  0x9c9b: 'XPTitle',
+  0x9c9c: 'XPComment',
+  0x9c9d: 'XPAuthor',
+  0x9c9e: 'XPKeywords',
+  0x9c9f: 'XPSubject',
+  0xa000: 'FlashpixVersion',
+  0xa001: 'ColorSpace',
+  0xa002: 'PixelXDimension',
+  0xa003: 'PixelYDimension',
+  0xa217: 'SensingMethod',
+  0xa300: 'FileSource',
+  0xa301: 'SceneType',
+  0xa401: 'CustomRendered',
+  0xa402: 'ExposureMode',
+  0xa403: 'WhiteBalance',
+  0xa404: 'DigitalZoomRatio',
+  0xa405: 'FocalLengthIn35mmFilm',
+  0xa406: 'SceneCaptureType',
+  0xa420: 'ImageUniqueID',
+  0xa430: 'CameraOwnerName',
+  0xa431: 'BodySerialNumber',
+  0xa432: 'LensSpecification',
+  0xa433: 'LensMake',
+  0xa434: 'LensModel',
+  0xa435: 'LensSerialNumber',
+};
+
+const GPS_TAG_NAMES: Record<number, string> = {
+  0x00: 'GPSVersionID',
+  0x01: 'GPSLatitudeRef',
+  0x02: 'GPSLatitude',
+  0x03: 'GPSLongitudeRef',
+  0x04: 'GPSLongitude',
+  0x05: 'GPSAltitudeRef',
+  0x06: 'GPSAltitude',
+  0x07: 'GPSTimeStamp',
+  0x0c: 'GPSSpeedRef',
+  0x0d: 'GPSSpeed',
+  0x10: 'GPSImgDirectionRef',
+  0x11: 'GPSImgDirection',
+  0x12: 'GPSMapDatum',
+  0x1b: 'GPSProcessingMethod',
+  0x1d: 'GPSDateStamp',
+  0x1f: 'GPSHPositioningError',
+};
+
+const EXIF_IFD_POINTER = 0x8769;
+const GPS_IFD_POINTER = 0x8825;
+const INTEROP_IFD_POINTER = 0xa005;
+const POINTER_TAGS = [EXIF_IFD_POINTER, GPS_IFD_POINTER, INTEROP_IFD_POINTER];
+const THUMBNAIL_LENGTH = 0x0202;
+const USER_COMMENT = 0x9286;
+const USER_COMMENT_ASCII = Buffer.from('ASCII\0\0\0', 'latin1'); // Character code of the comment
+
+// Date tags and the tags holding their UTC offsets
+const DATE_TAGS: Record<number, number> = { 0x0132: 0x9010, 0x9003: 0x9011, 0x9004: 0x9012 };
+const GPS_LATITUDE_REF = 0x01;
+const GPS_LATITUDE = 0x02;
+const GPS_LONGITUDE_REF = 0x03;
+const GPS_LONGITUDE = 0x04;
+const GPS_ALTITUDE_REF = 0x05;
+const GPS_ALTITUDE = 0x06;
+const GPS_TIME_STAMP = 0x07;
+const GPS_DATE_STAMP = 0x1d;
+
+const BYTE = 1;
+const ASCII = 2;
+const SHORT = 3;
+const LONG = 4;
+const RATIONAL = 5;
+const UNDEFINED = 7;
+const SSHORT = 8;
+const SLONG = 9;
+const SRATIONAL = 10;
+const FLOAT = 11;
+const DOUBLE = 12;
+
+// Size in bytes of one value of each field type
+const TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 6: 1, 7: 1, 8: 2, 9: 4, 10: 8, 11: 4, 12: 8 };
+
+// Windows XP tags are UTF-16 text stored as bytes
+const XP_TAGS = [0x9c9b, 0x9c9c, 0x9c9d, 0x9c9e, 0x9c9f];
+
+// Values listed per entry, longer arrays are cut off
+const MAX_LISTED_VALUES = 8;
+// Values decoded per tag, longer arrays are given as their length
+const MAX_DECODED_VALUES = 64;
+
+export type ExifTags = Record<string, string>;
+
+export function readExifTags(exif: Buffer | undefined): ExifTags {
+  const tags: ExifTags = {};
+  if (!exif) return tags;
+
+  // sharp includes the APP1 "Exif\0\0" identifier before the TIFF header
+  const start = exif.toString('latin1', 0, 4) === 'Exif' ? 6 : 0;
+  const tiff = exif.subarray(start);
+  if (tiff.length < 8) return tags;
+
+  const byteOrder = tiff.toString('latin1', 0, 2);
+  if (byteOrder !== 'II' && byteOrder !== 'MM') return tags;
+  const little = byteOrder === 'II';
+  const u16 = (offset: number) => (little ? tiff.readUInt16LE(offset) : tiff.readUInt16BE(offset));
+  const u32 = (offset: number) => (little ? tiff.readUInt32LE(offset) : tiff.readUInt32BE(offset));
+
+  const readIfd = (offset: number, visited: Set<number>) => {
+    if (visited.has(offset) || offset + 2 > tiff.length) return;
+    visited.add(offset);
+
+    const count = u16(offset);
+    for (let i = 0; i < count; i++) {
+      const entry = offset + 2 + i * 12;
+      if (entry + 12 > tiff.length) return;
+      const tag = u16(entry);
+      const type = u16(entry + 2);
+      const length = u32(entry + 4);
+
+      if (tag === EXIF_IFD_POINTER && type === LONG) {
+        readIfd(u32(entry + 8), visited);
+      } else if (TAG_NAMES[tag] && type === ASCII) {
+        // Values of up to four bytes are stored inline
+        const valueOffset = length <= 4 ? entry + 8 : u32(entry + 8);
+        if (valueOffset + length > tiff.length) continue;
+        const value = tiff.toString('utf8', valueOffset, valueOffset + length).replace(/\0[\s\S]*$/, '').trim();
+        if (value) tags[TAG_NAMES[tag]] = value;
+      }
+    }
+  };
+
+  readIfd(u32(4), new Set());
+  return tags;
+}
+
+// Tags mergeExifTags can write: text in IFD0, the Windows tags as UTF-16 and the user comment in the Exif sub-IFD
+const WRITABLE_TAGS: Record<string, { tag: number; ifd: 'IFD0' | 'Exif' }> = {
+  ImageDescription: { tag: 0x010e, ifd: 'IFD0' },
+  Make: { tag: 0x010f, ifd: 'IFD0' },
+  Model: { tag: 0x0110, ifd: 'IFD0' },
+  Software: { tag: 0x0131, ifd: 'IFD0' },
+  DateTime: { tag: 0x0132, ifd: 'IFD0' },
+  Artist: { tag: 0x013b, ifd: 'IFD0' },
+  Copyright: { tag: 0x8298, ifd: 'IFD0' },
+  XPComment: { tag: 0x9c9c, ifd: 'IFD0' },
+  XPKeywords: { tag: 0x9c9e, ifd: 'IFD0' },
+  UserComment: { tag: USER_COMMENT, ifd: 'Exif' },
+};
+
+/**
+ * Set tags in IFD0 and the Exif sub-IFD of an EXIF block, keeping every other tag
+ *
+ * New copies of the IFDs with the existing entries and the given tags are
+ * appended to the TIFF data, and the header and the Exif pointer are pointed
+ * at them. Offsets in the existing entries stay valid because nothing before
+ * them moves; the old IFDs are left behind unreferenced. Without an existing
+ * block a little-endian one is created. Returns the block with the
+ * "Exif\0\0" identifier, as sharp returns it.
+ */
+export function mergeExifTags(exif: Buffer | undefined, tags: ExifTags): Buffer {
+  const start = exif && exif.toString('latin1', 0, 4) === 'Exif' ? 6 : 0;
+  let tiff = exif ? exif.subarray(start) : Buffer.alloc(0);
+  const byteOrder = tiff.toString('latin1', 0, 2);
+  if (tiff.length < 8 || (byteOrder !== 'II' && byteOrder !== 'MM')) {
+    // Empty TIFF header with no entries in IFD0
+    tiff = Buffer.from([0x49, 0x49, 0x2a, 0x00, 0x08, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00]);
+  }
+  const little = tiff.toString('latin1', 0, 2) === 'II';
+  const u16 = (offset: number) => (little ? tiff.readUInt16LE(offset) : tiff.readUInt16BE(offset));
+  const u32 = (offset: number) => (little ? tiff.readUInt32LE(offset) : tiff.readUInt32BE(offset));
+
+  // Existing entries of an IFD by tag, as raw 12-byte records, and the offset of the next IFD
+  const readRawIfd = (offset: number): { entries: Record<number, Buffer>; next: number } => {
+    const entries: Record<number, Buffer> = {};
+    if (offset < 8 || offset + 2 > tiff.length) return { entries, next: 0 };
+    const count = u16(offset);
+    if (offset + 2 + count * 12 + 4 > tiff.length) {
+      throw new Error('Malformed EXIF data');
+    }
+    for (let i = 0; i < count; i++) {
+      const entry = tiff.subarray(offset + 2 + i * 12, offset + 14 + i * 12);
+      entries[little ? entry.readUInt16LE(0) : entry.readUInt16BE(0)] = entry;
+    }
+    return { entries, next: u32(offset + 2 + count * 12) };
+  };
+
+  const ifd0Tags: IfdEntry[] = [];
+  const exifTags: IfdEntry[] = [];
+  for (const name of Object.keys(tags)) {
+    const target = WRITABLE_TAGS[name];
+    if (target === undefined) {
+      throw new Error(`Cannot write EXIF tag ${name}`);
+    }
+    (target.ifd === 'Exif' ? exifTags : ifd0Tags).push(encodeTag(target.tag, tags[name]));
+  }
+
+  // The new IFDs start on a word boundary after the existing data, the Exif sub-IFD first
+  const ifd0 = readRawIfd(u32(4));
+  const appended: Buffer[] = [];
+  let offset = tiff.length + (tiff.length & 1);
+  if (exifTags.length > 0) {
+    const pointer = ifd0.entries[EXIF_IFD_POINTER];
+    const exifIfd = pointer ? readRawIfd(little ? pointer.readUInt32LE(8) : pointer.readUInt32BE(8)) : { entries: {}, next: 0 };
+    const block = writeMergedIfd(exifIfd.entries, exifTags, offset, exifIfd.next, little);
+    const location = Buffer.alloc(4);
+    if (little) location.writeUInt32LE(offset, 0);
+    else location.writeUInt32BE(offset, 0);
+    ifd0Tags.push({ tag: EXIF_IFD_POINTER, type: LONG, count: 1, value: location });
+    appended.push(block);
+    offset += block.length;
+  }
+  appended.push(writeMergedIfd(ifd0.entries, ifd0Tags, offset, ifd0.next, little));
+
+  const header = Buffer.from(tiff.subarray(0, 8));
+  if (little) header.writeUInt32LE(offset, 4);
+  else header.writeUInt32BE(offset, 4);
+
+  return Buffer.concat([
+    Buffer.from('Exif\0\0', 'latin1'),
+    header,
+    tiff.subarray(8),
+    Buffer.alloc(tiff.length & 1),
+  ].concat(appended));
+}
+
+// The tags by IFD as sharp's withExif and withExifMerge take them, libvips calls the Exif sub-IFD IFD2
+export function sharpExifTags(tags: ExifTags): Record<string, ExifTags> {
+  const ifds: Record<string, ExifTags> = { IFD0: {}, IFD2: {} };
+  for (const name of Object.keys(tags)) {
+    const target = WRITABLE_TAGS[name];
+    if (target === undefined) {
+      throw new Error(`Cannot write EXIF tag ${name}`);
+    }
+    ifds[target.ifd === 'Exif' ? 'IFD2' : 'IFD0'][name] = tags[name];
+  }
+  return ifds;
+}
+
+// Value of a writable tag: UTF-16 bytes for the Windows tags, a character code and ASCII for the user comment
+function encodeTag(tag: number, text: string): IfdEntry {
+  let type = ASCII;
+  let value: Buffer;
+  if (XP_TAGS.indexOf(tag) !== -1) {
+    type = BYTE;
+    value = Buffer.from(text + '\0', 'utf16le');
+  } else if (tag === USER_COMMENT) {
+    type = UNDEFINED;
+    value = Buffer.concat([USER_COMMENT_ASCII, Buffer.from(text, 'latin1')]);
+  } else {
+    value = Buffer.from(text + '\0', 'utf8');
+  }
+  return { tag, type, count: value.length, value };
+}
+
+/**
+ * Write an IFD of existing raw records and new entries at the offset, new
+ * values right after it; new entries replace records with the same tag and
+ * the values of the others stay where they are
+ */
+function writeMergedIfd(existing: Record<number, Buffer>, added: IfdEntry[], offset: number, next: number, little: boolean): Buffer {
+  const addedTags = added.map((entry) => entry.tag);
+  const records = Object.keys(existing).map(Number).filter((tag) => addedTags.indexOf(tag) === -1);
+  // Written as if the kept records came first, so the new values land right after the merged table
+  const table = writeIfd(added, offset + records.length * 12, little);
+  const count = added.length + records.length;
+
+  const ifd = Buffer.alloc(2 + count * 12 + 4);
+  const w16 = (value: number, at: number) => (little ? ifd.writeUInt16LE(value, at) : ifd.writeUInt16BE(value, at));
+  const w32 = (value: number, at: number) => (little ? ifd.writeUInt32LE(value, at) : ifd.writeUInt32BE(value, at));
+  const sortedAdded = added.slice().sort((a, b) => a.tag - b.tag);
+  const rows = records.map((tag) => ({ tag, record: existing[tag] }))
+    .concat(sortedAdded.map((entry, i) => ({ tag: entry.tag, record: table.subarray(2 + i * 12, 14 + i * 12) })))
+    .sort((a, b) => a.tag - b.tag);
+  w16(count, 0);
+  rows.forEach((row, i) => row.record.copy(ifd, 2 + i * 12));
+  w32(next, ifd.length - 4);
+  return Buffer.concat([ifd, table.subarray(2 + added.length * 12 + 4)]);
+}
+
+interface IfdEntry {
+  tag: number;
+  type: number;
+  count: number;
+  value: Buffer; // Value bytes, in the byte order of the block
+}
+
+// IFD0 with the Exif and GPS sub-IFDs it points to, IFD1 and the size of the thumbnail it describes
+interface ExifIfds {
+  little: boolean;
+  ifd0: IfdEntry[];
+  exif: IfdEntry[];
+  gps: IfdEntry[];
+  ifd1: IfdEntry[];
+  thumbnail: number | null;
+}
+
+/**
+ * List every tag of IFD0 and the Exif and GPS sub-IFDs, with a display value
+ * Pointers to sub-IFDs are structure rather than metadata and are left out;
+ * a thumbnail in IFD1 is listed as a single entry.
+ */
+export function listExifEntries(exif: Buffer | undefined): MetadataEntry[] {
+  const ifds = readExifIfds(exif);
+  if (!ifds) return [];
+
+  const entries: MetadataEntry[] = [];
+  const list = (group: MetadataGroup, ifd: IfdEntry[], names: Record<number, string>) => {
+    for (const entry of ifd) {
+      if (POINTER_TAGS.indexOf(entry.tag) !== -1) continue;
+      entries.push({ group, name: tagName(entry.tag, names), value: formatValue(entry, ifds.little) });
+    }
+  };
+  list('IFD0', ifds.ifd0, TAG_NAMES);
+  list('Exif', ifds.exif, TAG_NAMES);
+  list('GPS', ifds.gps, GPS_TAG_NAMES);
+  if (ifds.thumbnail !== null) {
+    entries.push({ group: 'Thumbnail', name: 'Thumbnail', value: `${ifds.thumbnail} bytes` });
+  }
+  return entries;
+}
+
+/**
+ * Decode every tag of IFD0, the Exif and GPS sub-IFDs and IFD1 into typed values
+ *
+ * Numbers and fractions become numbers, or arrays of them for multi-valued
+ * tags; dates become ISO 8601 strings, with the offset when the block records
+ * one. GPS coordinates are given in signed decimal degrees and the altitude
+ * in signed metres, and the date and time stamps are combined into a UTC
+ * GPSDateTime. Binary data is given as its size.
+ */
+export function decodeExif(exif: Buffer | undefined): Record<ExifIfdName, MetadataFields> {
+  const decoded: Record<ExifIfdName, MetadataFields> = { IFD0: {}, Exif: {}, GPS: {}, IFD1: {} };
+  const ifds = readExifIfds(exif);
+  if (!ifds) return decoded;
+
+  const decode = (ifd: IfdEntry[], names: Record<number, string>): MetadataFields => {
+    const fields: MetadataFields = {};
+    for (const entry of ifd) {
+      if (POINTER_TAGS.indexOf(entry.tag) !== -1) continue;
+      fields[tagName(entry.tag, names)] = decodeValue(entry, ifds.little);
+    }
+    return fields;
+  };
+  const withDates = (ifd: IfdEntry[], fields: MetadataFields): MetadataFields => {
+    for (const entry of ifd) {
+      if (DATE_TAGS[entry.tag] === undefined || entry.type !== ASCII) continue;
+      const offset = ifds.exif.concat(ifd).filter((candidate) => candidate.tag === DATE_TAGS[entry.tag] && candidate.type === ASCII)[0];
+      const date = isoDate(formatValue(entry, ifds.little), offset ? formatValue(offset, ifds.little) : '');
+      if (date) fields[TAG_NAMES[entry.tag]] = date;
+    }
+    return fields;
+  };
+
+  decoded.IFD0 = withDates(ifds.ifd0, decode(ifds.ifd0, TAG_NAMES));
+  decoded.Exif = withDates(ifds.exif, decode(ifds.exif, TAG_NAMES));
+  decoded.IFD1 = decode(ifds.ifd1, TAG_NAMES);
+  decoded.GPS = decodeGps(ifds.gps, decode(ifds.gps, GPS_TAG_NAMES), ifds.little);
+  return decoded;
+}
+
+/**
+ * Rebuild an EXIF block with only the tags `keep` accepts
+ *
+ * Kept values are copied byte for byte into a new TIFF structure in the same
+ * byte order. The thumbnail and the interoperability IFD are dropped. Null
+ * when no tag is kept or the block cannot be read, so the caller can remove
+ * the block altogether.
+ */
+export function filterExifTags(
+  exif: Buffer | undefined,
+  keep: (group: MetadataGroup, name: string) => boolean
+): Buffer | null {
+  const ifds = readExifIfds(exif);
+  if (!ifds) return null;
+
+  const kept = (group: MetadataGroup, ifd: IfdEntry[], names: Record<number, string>) =>
+    ifd.filter((entry) => POINTER_TAGS.indexOf(entry.tag) === -1 && keep(group, tagName(entry.tag, names)));
+  const ifd0 = kept('IFD0', ifds.ifd0, TAG_NAMES);
+  const exifIfd = kept('Exif', ifds.exif, TAG_NAMES);
+  const gps = kept('GPS', ifds.gps, GPS_TAG_NAMES);
+  if (ifd0.length === 0 && exifIfd.length === 0 && gps.length === 0) return null;
+
+  // Sub-IFDs follow IFD0 and its values, the pointers are filled in once their offsets are known
+  const little = ifds.little;
+  const pointer = (tag: number): IfdEntry => ({ tag, type: LONG, count: 1, value: Buffer.alloc(4) });
+  const main = ifd0.concat(exifIfd.length > 0 ? [pointer(EXIF_IFD_POINTER)] : [], gps.length > 0 ? [pointer(GPS_IFD_POINTER)] : []);
+  const exifOffset = 8 + ifdSize(main);
+  const gpsOffset = exifOffset + (exifIfd.length > 0 ? ifdSize(exifIfd) : 0);
+  for (const entry of main) {
+    const offset = entry.tag === EXIF_IFD_POINTER ? exifOffset : entry.tag === GPS_IFD_POINTER ? gpsOffset : -1;
+    if (offset === -1) continue;
+    if (little) entry.value.writeUInt32LE(offset, 0);
+    else entry.value.writeUInt32BE(offset, 0);
+  }
+
+  const header = Buffer.from(little ? [0x49, 0x49, 0x2a, 0x00, 0x08, 0x00, 0x00, 0x00] : [0x4d, 0x4d, 0x00, 0x2a, 0x00, 0x00, 0x00, 0x08]);
+  return Buffer.concat([
+    Buffer.from('Exif\0\0', 'latin1'),
+    header,
+    writeIfd(main, 8, little),
+    exifIfd.length > 0 ? writeIfd(exifIfd, exifOffset, little) : Buffer.alloc(0),
+    gps.length > 0 ? writeIfd(gps, gpsOffset, little) : Buffer.alloc(0),
+  ]);
+}
+
+function readExifIfds(exif: Buffer | undefined): ExifIfds | null {
+  if (!exif) return null;
+  const start = exif.toString('latin1', 0, 4) === 'Exif' ? 6 : 0;
+  const tiff = exif.subarray(start);
+  const byteOrder = tiff.toString('latin1', 0, 2);
+  if (tiff.length < 8 || (byteOrder !== 'II' && byteOrder !== 'MM')) return null;
+  const little = byteOrder === 'II';
+  const u16 = (buffer: Buffer, offset: number) => (little ? buffer.readUInt16LE(offset) : buffer.readUInt16BE(offset));
+  const u32 = (buffer: Buffer, offset: number) => (little ? buffer.readUInt32LE(offset) : buffer.readUInt32BE(offset));
+
+  // Entries whose values lie outside the block are skipped, as are unknown field types
+  const readIfd = (offset: number): { entries: IfdEntry[]; next: number } => {
+    const entries: IfdEntry[] = [];
+    if (offset < 8 || offset + 2 > tiff.length) return { entries, next: 0 };
+    const count = u16(tiff, offset);
+    for (let i = 0; i < count; i++) {
+      const entry = offset + 2 + i * 12;
+      if (entry + 12 > tiff.length) return { entries, next: 0 };
+      const type = u16(tiff, entry + 2);
+      const valueCount = u32(tiff, entry + 4);
+      if (!TYPE_SIZES[type]) continue;
+      const size = TYPE_SIZES[type] * valueCount;
+      const valueOffset = size <= 4 ? entry + 8 : u32(tiff, entry + 8);
+      if (valueOffset + size > tiff.length) continue;
+      entries.push({ tag: u16(tiff, entry), type, count: valueCount, value: tiff.subarray(valueOffset, valueOffset + size) });
+    }
+    const next = offset + 2 + count * 12;
+    return { entries, next: next + 4 <= tiff.length ? u32(tiff, next) : 0 };
+  };
+  const subIfd = (entries: IfdEntry[], tag: number) => {
+    const entry = entries.filter((candidate) => candidate.tag === tag && candidate.type === LONG)[0];
+    return entry ? readIfd(u32(entry.value, 0)).entries : [];
+  };
+
+  const ifd0 = readIfd(u32(tiff, 4));
+  const ifd1 = ifd0.next ? readIfd(ifd0.next).entries : [];
+  const thumbnailLength = ifd1.filter((entry) => entry.tag === THUMBNAIL_LENGTH && entry.type === LONG)[0];
+  return {
+    little,
+    ifd0: ifd0.entries,
+    exif: subIfd(ifd0.entries, EXIF_IFD_POINTER),
+    gps: subIfd(ifd0.entries, GPS_IFD_POINTER),
+    ifd1,
+    thumbnail: thumbnailLength ? u32(thumbnailLength.value, 0) : null,
+  };
+}
+
+// Table, next-IFD pointer and the values that do not fit in their entries
+function ifdSize(entries: IfdEntry[]): number {
+  return entries.reduce((size, entry) => size + (entry.value.length > 4 ? entry.value.length + (entry.value.length & 1) : 0), 2 + entries.length * 12 + 4);
+}
+
+// Write an IFD at the offset with its values right after it, without a next IFD
+function writeIfd(entries: IfdEntry[], offset: number, little: boolean): Buffer {
+  const sorted = entries.slice().sort((a, b) => a.tag - b.tag);
+  const table = Buffer.alloc(2 + sorted.length * 12 + 4);
+  const w16 = (value: number, at: number) => (little ? table.writeUInt16LE(value, at) : table.writeUInt16BE(value, at));
+  const w32 = (value: number, at: number) => (little ? table.writeUInt32LE(value, at) : table.writeUInt32BE(value, at));
+
+  const values: Buffer[] = [];
+  let valueOffset = offset + table.length;
+  w16(sorted.length, 0);
+  sorted.forEach((entry, i) => {
+    const at = 2 + i * 12;
+    w16(entry.tag, at);
+    w16(entry.type, at + 2);
+    w32(entry.count, at + 4);
+    if (entry.value.length <= 4) {
+      entry.value.copy(table, at + 8);
+    } else {
+      w32(valueOffset, at + 8);
+      const padded = entry.value.length & 1 ? Buffer.concat([entry.value, Buffer.from([0])]) : entry.value;
+      values.push(padded);
+      valueOffset += padded.length;
+    }
+  });
+  return Buffer.concat([table].concat(values));
+}
+
+function tagName(tag: number, names: Record<number, string>): string {
+  return names[tag] ?? `0x${tag.toString(16).padStart(4, '0')}`;
+}
+
+// Text as text, numbers and fractions as a list, other binary data as its size
+function formatValue(entry: IfdEntry, little: boolean): string {
+  const { tag, type, count, value } = entry;
+  if (type === ASCII) return value.toString('utf8').replace(/\0[\s\S]*$/, '').trim();
+  if (XP_TAGS.indexOf(tag) !== -1) return value.toString('utf16le').replace(/\0[\s\S]*$/, '').trim();
+  if (tag === USER_COMMENT && count > USER_COMMENT_ASCII.length) {
+    const comment = readUserComment(value, little);
+    if (comment !== null) return comment;
+  }
+  if (type === BYTE || type === UNDEFINED) {
+    // Version tags and similar short codes are printable ASCII
+    const text = value.toString('latin1');
+    return count <= 32 && /^[\x20-\x7e]+$/.test(text) ? text : `${count} bytes`;
+  }
+
+  const read = (at: number): string => {
+    switch (type) {
+      case SHORT: return String(little ? value.readUInt16LE(at) : value.readUInt16BE(at));
+      case LONG: return String(little ? value.readUInt32LE(at) : value.readUInt32BE(at));
+      case SSHORT: return String(little ? value.readInt16LE(at) : value.readInt16BE(at));
+      case SLONG: return String(little ? value.readInt32LE(at) : value.readInt32BE(at));
+      case RATIONAL: return `${little ? value.readUInt32LE(at) : value.readUInt32BE(at)}/${little ? value.readUInt32LE(at + 4) : value.readUInt32BE(at + 4)}`;
+      case SRATIONAL: return `${little ? value.readInt32LE(at) : value.readInt32BE(at)}/${little ? value.readInt32LE(at + 4) : value.readInt32BE(at + 4)}`;
+      case FLOAT: return String(little ? value.readFloatLE(at) : value.readFloatBE(at));
+      case DOUBLE: return String(little ? value.readDoubleLE(at) : value.readDoubleBE(at));
+      default: return String(value[at]);
+    }
+  };
+  const values: string[] = [];
+  for (let i = 0; i < Math.min(count, MAX_LISTED_VALUES); i++) values.push(read(i * TYPE_SIZES[type]));
+  return values.join(', ') + (count > MAX_LISTED_VALUES ? ', ...' : '');
+}
+
+// Typed value of a tag: text, a number, or an array of numbers for several values
+function decodeValue(entry: IfdEntry, little: boolean): MetadataValue {
+  const { type, count, value } = entry;
+  if (type === ASCII || type === UNDEFINED || XP_TAGS.indexOf(entry.tag) !== -1 || entry.tag === USER_COMMENT) {
+    return formatValue(entry, little);
+  }
+  if (count > MAX_DECODED_VALUES) return `${count} values`;
+
+  const read = (at: number): number | string => {
+    switch (type) {
+      case SHORT: return little ? value.readUInt16LE(at) : value.readUInt16BE(at);
+      case LONG: return little ? value.readUInt32LE(at) : value.readUInt32BE(at);
+      case SSHORT: return little ? value.readInt16LE(at) : value.readInt16BE(at);
+      case SLONG: return little ? value.readInt32LE(at) : value.readInt32BE(at);
+      case RATIONAL: return fraction(little ? value.readUInt32LE(at) : value.readUInt32BE(at), little ? value.readUInt32LE(at + 4) : value.readUInt32BE(at + 4));
+      case SRATIONAL: return fraction(little ? value.readInt32LE(at) : value.readInt32BE(at), little ? value.readInt32LE(at + 4) : value.readInt32BE(at + 4));
+      case FLOAT: return little ? value.readFloatLE(at) : value.readFloatBE(at);
+      case DOUBLE: return little ? value.readDoubleLE(at) : value.readDoubleBE(at);
+      default: return value[at];
+    }
+  };
+  const values: Array<number | string> = [];
+  for (let i = 0; i < count; i++) values.push(read(i * TYPE_SIZES[type]));
+  return values.length === 1 ? values[0] : values;
+}
+
+// A zero denominator marks an unknown value, kept as the fraction
+function fraction(numerator: number, denominator: number): number | string {
+  return denominator === 0 ? `${numerator}/${denominator}` : numerator / denominator;
+}
+
+// "YYYY:MM:DD HH:MM:SS" and an offset such as "+02:00" as ISO 8601, null for blank or malformed dates
+function isoDate(value: string, offset: string): string | null {
+  const match = /^(\d{4}):(\d{2}):(\d{2}) (\d{2}):(\d{2}):(\d{2})$/.exec(value);
+  if (!match || match[1] === '0000') return null;
+  const zone = /^[+-]\d{2}:\d{2}$/.test(offset) ? offset : '';
+  return `${match[1]}-${match[2]}-${match[3]}T${match[4]}:${match[5]}:${match[6]}${zone}`;
+}
+
+// Replace the degrees, minutes and seconds of the coordinates and the unsigned altitude with signed decimal values
+function decodeGps(gps: IfdEntry[], fields: MetadataFields, little: boolean): MetadataFields {
+  const entry = (tag: number) => gps.filter((candidate) => candidate.tag === tag)[0];
+  const text = (tag: number) => (entry(tag) ? formatValue(entry(tag), little) : '');
+  const numbers = (tag: number): number[] | null => {
+    const found = entry(tag);
+    if (!found || found.type !== RATIONAL) return null;
+    const value = decodeValue(found, little);
+    const list = Array.isArray(value) ? value : [value];
+    return list.every((item) => typeof item === 'number') ? list as number[] : null;
+  };
+  const degrees = (tag: number, negative: boolean): number | null => {
+    const dms = numbers(tag);
+    if (!dms || dms.length !== 3) return null;
+    const decimal = dms[0] + dms[1] / 60 + dms[2] / 3600;
+    return Math.round((negative ? -decimal : decimal) * 1e7) / 1e7;
+  };
+
+  const latitude = degrees(GPS_LATITUDE, text(GPS_LATITUDE_REF) === 'S');
+  if (latitude !== null) fields.GPSLatitude = latitude;
+  const longitude = degrees(GPS_LONGITUDE, text(GPS_LONGITUDE_REF) === 'W');
+  if (longitude !== null) fields.GPSLongitude = longitude;
+  const altitude = numbers(GPS_ALTITUDE);
+  if (altitude && altitude.length === 1) {
+    const ref = entry(GPS_ALTITUDE_REF);
+    fields.GPSAltitude = ref && ref.value[0] === 1 ? -altitude[0] : altitude[0];
+  }
+
+  // The time stamp is three fractions in UTC, the date stamp "YYYY:MM:DD"
+  const time = numbers(GPS_TIME_STAMP);
+  const clock = time && time.length === 3
+    ? time.map((part) => (part < 10 ? '0' : '') + String(Math.round(part * 1000) / 1000)).join(':')
+    : null;
+  if (clock) fields.GPSTimeStamp = clock;
+  const date = /^(\d{4}):(\d{2}):(\d{2})$/.exec(text(GPS_DATE_STAMP));
+  if (date) {
+    fields.GPSDateStamp = `${date[1]}-${date[2]}-${date[3]}`;
+    if (clock) fields.GPSDateTime = `${fields.GPSDateStamp}T${clock}Z`;
+  }
+  return fields;
+}
+
+// The comment after its character code: ASCII, UTF-16 in the byte order of the block, or undefined and usually ASCII
+function readUserComment(value: Buffer, little: boolean): string | null {
+  const code = value.toString('latin1', 0, USER_COMMENT_ASCII.length).replace(/\0+$/, '');
+  const body = value.subarray(USER_COMMENT_ASCII.length);
+  let text: string;
+  if (code === 'UNICODE') {
+    const even = body.subarray(0, body.length & ~1);
+    text = (little ? even : Buffer.from(even).swap16()).toString('utf16le');
+  } else if (code === 'ASCII' || code === '') {
+    text = body.toString('latin1');
+  } else {
+    return null;
+  }
+  return text.replace(/\0[\s\S]*$/, '').trim();
+}
@@ -0,0 +1,214 @@
+import fs from 'fs';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import sharp from 'sharp';
+import { decompress } from 'wawoff2';
+
+/**
+ * Uploaded watermark fonts
+ *
+ * Fonts are kept in FONTS_DIR together with a small JSON index. Every font is
+ * stored as a plain TrueType/OpenType file for the server renderer (WOFF2
+ * uploads are decompressed first, as FreeType cannot read them) and in its
+ * original format for the browser. Fonts are registered with Pango under the
+ * family name found in the font itself, which is also the name the client
+ * uses for its FontFace, so `fontFamily` means the same font on both sides.
+ */
+
+export type FontFormat = 'ttf' | 'otf' | 'woff2';
+
+export interface FontRecord {
+  id: string;
+  family: string; // Family name from the font's name table
+  weight: number; // OS/2 weight class, 100-900
+  format: FontFormat; // Format of the uploaded file
+  fileName: string; // Original file name
+  uploadedAt: string;
+}
+
+const FONTS_DIR = process.env.FONTS_DIR || path.join(process.cwd(), 'data', 'fonts');
+const INDEX_PATH = path.join(FONTS_DIR, 'fonts.json');
+
+export const FONT_CONTENT_TYPES: Record<FontFormat, string> = {
+  ttf: 'font/ttf',
+  otf: 'font/otf',
+  woff2: 'font/woff2',
+};
+
+// Fonts already handed to Pango in this process
+const registeredFonts = new Set<string>();
+
+// Detect the font format from its magic bytes
+export function detectFontFormat(buffer: Buffer): FontFormat | null {
+  if (buffer.length < 12) return null;
+  const signature = buffer.readUInt32BE(0);
+  if (signature === 0x00010000 || signature === 0x74727565) return 'ttf'; // 1.0 or 'true'
+  if (signature === 0x4f54544f) return 'otf'; // 'OTTO'
+  if (signature === 0x774f4632) return 'woff2'; // 'wOF2'
+  return null;
+}
+
+/**
+ * Validate and store an uploaded font
+ * Returns null when the file is not a readable TTF/OTF/WOFF2 font
+ */
+export async function saveFont(filePath: string, originalName: string): Promise<FontRecord | null> {
+  const original = fs.readFileSync(filePath);
+  const format = detectFontFormat(original);
+  if (!format) return null;
+
+  let sfnt: Buffer;
+  try {
+    sfnt = format === 'woff2' ? Buffer.from(await decompress(original)) : original;
+  } catch (error) {
+    console.error('Error decompressing WOFF2 font:', error);
+    return null;
+  }
+
+  const family = readFamilyName(sfnt);
+  if (!family) return null;
+
+  const record: FontRecord = {
+    id: uuidv4(),
+    family,
+    weight: readWeightClass(sfnt),
+    format,
+    fileName: path.basename(originalName),
+    uploadedAt: new Date().toISOString(),
+  };
+
+  fs.mkdirSync(FONTS_DIR, { recursive: true });
+  fs.writeFileSync(getRenderPath(record), sfnt);
+  if (format === 'woff2') {
+    fs.writeFileSync(getFontPath(record), original);
+  }
+  await registerFont(record);
+  writeIndex([...listFonts(), record]);
+  return record;
+}
+
+export function listFonts(): FontRecord[] {
+  try {
+    return JSON.parse(fs.readFileSync(INDEX_PATH, 'utf8'));
+  } catch {
+    return [];
+  }
+}
+
+export function getFont(id: string): FontRecord | undefined {
+  return listFonts().find((font) => font.id === id);
+}
+
+// Path of the font in its uploaded format, as served to the browser
+export function getFontPath(font: FontRecord): string {
+  return path.join(FONTS_DIR, `${font.id}.${font.format}`);
+}
+
+/**
+ * Make all stored fonts available to the text renderer
+ * Called once at startup, new uploads are registered as they arrive
+ */
+export async function registerStoredFonts(): Promise<void> {
+  for (const font of listFonts()) {
+    try {
+      await registerFont(font);
+    } catch (error) {
+      console.error(`Error registering font ${font.family}:`, error);
+    }
+  }
+}
+
+// Pango only loads a font file once it has been referenced by a text render
+async function registerFont(font: FontRecord): Promise<void> {
+  if (registeredFonts.has(font.id)) return;
+  await sharp({
+    text: {
+      text: 'a',
+      font: font.family,
+      fontfile: getRenderPath(font),
+    },
+  }).png().toBuffer();
+  registeredFonts.add(font.id);
+}
+
+// Path of the TrueType/OpenType file used for rendering
+function getRenderPath(font: FontRecord): string {
+  const extension = font.format === 'woff2' ? 'sfnt' : font.format;
+  return path.join(FONTS_DIR, `${font.id}.${extension}`);
+}
+
+function writeIndex(fonts: FontRecord[]): void {
+  fs.writeFileSync(INDEX_PATH, JSON.stringify(fonts, null, 2));
+}
+
+// Find a table in the sfnt table directory
+function findTable(sfnt: Buffer, tag: string): { offset: number; length: number } | null {
+  if (sfnt.length < 12) return null;
+  const numTables = sfnt.readUInt16BE(4);
+  for (let i = 0; i < numTables; i++) {
+    const record = 12 + i * 16;
+    if (record + 16 > sfnt.length) return null;
+    if (sfnt.toString('latin1', record, record + 4) === tag) {
+      const offset = sfnt.readUInt32BE(record + 8);
+      const length = sfnt.readUInt32BE(record + 12);
+      return offset + length <= sfnt.length ? { offset, length } : null;
+    }
+  }
+  return null;
+}
+
+/**
+ * Read the family name from the name table, preferring the typographic
+ * family (ID 16) over the legacy one (ID 1) so all weights share one name
+ */
+function readFamilyName(sfnt: Buffer): string | null {
+  // Truncated or corrupt tables give no name rather than reading past their end
+  const table = findTable(sfnt, 'name');
+  if (!table || table.length < 6) return null;
+  const tableEnd = table.offset + table.length;
+
+  const count = sfnt.readUInt16BE(table.offset + 2);
+  const storage = table.offset + sfnt.readUInt16BE(table.offset + 4);
+  if (storage > tableEnd) return null;
+  const candidates: { nameId: number; score: number; value: string }[] = [];
+
+  for (let i = 0; i < count; i++) {
+    const record = table.offset + 6 + i * 12;
+    if (record + 12 > tableEnd) break;
+    const platformId = sfnt.readUInt16BE(record);
+    const languageId = sfnt.readUInt16BE(record + 4);
+    const nameId = sfnt.readUInt16BE(record + 6);
+    const length = sfnt.readUInt16BE(record + 8);
+    const start = storage + sfnt.readUInt16BE(record + 10);
+    if ((nameId !== 1 && nameId !== 16) || start + length > tableEnd) continue;
+
+    let value: string;
+    if (platformId === 0 || platformId === 3) {
+      // UTF-16BE
+      const chars: number[] = [];
+      for (let j = 0; j + 1 < length; j += 2) chars.push(sfnt.readUInt16BE(start + j));
+      value = String.fromCharCode(...chars);
+    } else if (platformId === 1) {
+      value = sfnt.toString('latin1', start, start + length);
+    } else {
+      continue;
+    }
+
+    // Prefer US English Windows names
+    const score = (platformId === 3 ? 2 : 0) + (languageId === 0x409 || languageId === 0 ? 1 : 0);
+    candidates.push({ nameId, score, value: value.replace(/[^A-Za-z0-9 _-]/g, '').trim() });
+  }
+
+  const best = candidates
+    .filter((candidate) => candidate.value)
+    .sort((a, b) => b.nameId - a.nameId || b.score - a.score)[0];
+  return best ? best.value.slice(0, 64) : null;
+}
+
+// Weight class from the OS/2 table, 400 when missing
+function readWeightClass(sfnt: Buffer): number {
+  const table = findTable(sfnt, 'OS/2');
+  if (!table || table.length < 6) return 400;
+  const weight = sfnt.readUInt16BE(table.offset + 4);
+  return weight >= 100 && weight <= 900 ? Math.round(weight / 100) * 100 : 400;
+}
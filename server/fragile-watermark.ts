@@ -0,0 +1,257 @@
+import crypto from 'crypto';
+import sharp from 'sharp';
+import { encodeImage, readAnimation } from './image-format';
+import { deriveWatermarkKey } from './watermark-keys';
+import type { ImageFormat } from '@shared/image-formats';
+import type { OutputSettings } from '@shared/output-settings';
+
+/**
+ * Fragile block-wise watermark for tamper localization
+ *
+ * Every block stores a keyed hash of its own pixels (all bits except the
+ * least significant one), its grid position, the image dimensions and a
+ * random nonce drawn for each seal in its least significant bits. The nonce
+ * comes first, in the top-left block. Any edit to a block, moving a block
+ * elsewhere or pasting in a block from another sealed image breaks its hash,
+ * so the checker can point at the exact regions that were modified. The mark only
+ * survives lossless formats, so marked images are written as PNG, lossless
+ * WebP or LZW-compressed TIFF. The hash key is derived from WATERMARK_SECRET
+ * (see watermark-keys.ts); without it images are neither sealed nor checked.
+ */
+
+const BLOCK_SIZE = 16; // Block edge in pixels
+const NONCE_BITS = 64; // Stored in the first samples of the top-left block, fewer when that block is smaller
+const UNMARKED_THRESHOLD = 0.9; // Share of failing blocks above which the image is considered unmarked
+const OVERLAY_MAX_SIZE = 1600; // Longest edge of the returned overlay
+
+export interface TamperReport {
+  status: 'intact' | 'tampered' | 'unmarked';
+  blockSize: number;
+  columns: number;
+  rows: number;
+  blocks: number[][]; // [row][column], 1 = intact, 0 = modified
+  tamperedBlocks: number;
+  totalBlocks: number;
+  overlay: string; // PNG data URL highlighting modified blocks
+}
+
+/**
+ * Embed the fragile watermark into an encoded image
+ * The least significant bits are flipped with a bitwise XOR so the original
+ * pipeline, and with it the image metadata, is kept; `format` has to be one
+ * of the lossless formats. Animations are sealed as one strip of frames.
+ * Pixels are hashed as stored, never converted through an embedded profile.
+ */
+export async function embedFragileWatermark(
+  imageBuffer: Buffer,
+  format: ImageFormat = 'png',
+  settings?: OutputSettings
+): Promise<Buffer> {
+  const key = deriveWatermarkKey('fragile');
+  const animation = await readAnimation(imageBuffer);
+  const { data, info } = await sharp(imageBuffer, { animated: true }).keepIccProfile().raw().toBuffer({ resolveWithObject: true });
+  const { width, height, channels } = info;
+  const mask = Buffer.alloc(data.length);
+  const nonceBits = nonceLength(width, height, channels);
+  const nonce = expandBits(crypto.randomBytes(NONCE_BITS / 8)).subarray(0, nonceBits);
+  const seal = sealHeader(width, height, nonce);
+
+  forEachBlock(width, height, (column, row, left, top, right, bottom) => {
+    const bits = blockHashBits(key, seal, data, width, channels, column, row, left, top, right, bottom);
+    let sample = 0;
+    let bit = 0;
+    const skip = column === 0 && row === 0 ? nonceBits : 0;
+    for (let y = top; y < bottom; y++) {
+      for (let x = left; x < right; x++) {
+        for (let c = 0; c < channels; c++) {
+          const i = (y * width + x) * channels + c;
+          mask[i] = (data[i] & 1) ^ (sample < skip ? nonce[sample] : bits[bit++ % bits.length]);
+          sample++;
+        }
+      }
+    }
+  });
+
+  const marked = sharp(imageBuffer, { animated: true })
+    .boolean(mask, 'eor', { raw: { width, height, channels } })
+    .keepMetadata();
+  return encodeImage(marked, format, { lossless: true, animation, settings }).toBuffer();
+}
+
+/**
+ * Recompute every block hash and report which blocks no longer match
+ * The stored values are read, like when embedding
+ */
+export async function checkTamper(imagePath: string): Promise<TamperReport> {
+  const key = deriveWatermarkKey('fragile');
+  const { data, info } = await sharp(imagePath, { animated: true }).keepIccProfile().raw().toBuffer({ resolveWithObject: true });
+  const { width, height, channels } = info;
+  const columns = Math.ceil(width / BLOCK_SIZE);
+  const rows = Math.ceil(height / BLOCK_SIZE);
+  const blocks = Array.from({ length: rows }, () => new Array<number>(columns).fill(1));
+  let tamperedBlocks = 0;
+  const nonceBits = nonceLength(width, height, channels);
+  const nonce = readNonce(data, width, height, channels, nonceBits);
+  const seal = sealHeader(width, height, nonce);
+
+  forEachBlock(width, height, (column, row, left, top, right, bottom) => {
+    const bits = blockHashBits(key, seal, data, width, channels, column, row, left, top, right, bottom);
+    let sample = 0;
+    let bit = 0;
+    const skip = column === 0 && row === 0 ? nonceBits : 0;
+    for (let y = top; y < bottom; y++) {
+      for (let x = left; x < right; x++) {
+        for (let c = 0; c < channels; c++) {
+          if (sample++ < skip) continue;
+          if ((data[(y * width + x) * channels + c] & 1) !== bits[bit++ % bits.length]) {
+            blocks[row][column] = 0;
+            tamperedBlocks++;
+            return;
+          }
+        }
+      }
+    }
+  });
+
+  const totalBlocks = columns * rows;
+  const status = tamperedBlocks === 0
+    ? 'intact'
+    : tamperedBlocks / totalBlocks > UNMARKED_THRESHOLD ? 'unmarked' : 'tampered';
+
+  return {
+    status,
+    blockSize: BLOCK_SIZE,
+    columns,
+    rows,
+    blocks,
+    tamperedBlocks,
+    totalBlocks,
+    overlay: await renderTamperOverlay(imagePath, blocks, width, height),
+  };
+}
+
+// Walk the block grid, clipping the last row and column to the image edges
+function forEachBlock(
+  width: number,
+  height: number,
+  visit: (column: number, row: number, left: number, top: number, right: number, bottom: number) => void
+): void {
+  for (let top = 0, row = 0; top < height; top += BLOCK_SIZE, row++) {
+    for (let left = 0, column = 0; left < width; left += BLOCK_SIZE, column++) {
+      visit(column, row, left, top, Math.min(width, left + BLOCK_SIZE), Math.min(height, top + BLOCK_SIZE));
+    }
+  }
+}
+
+// Samples of the top-left block that hold the nonce
+function nonceLength(width: number, height: number, channels: number): number {
+  return Math.min(NONCE_BITS, Math.min(width, BLOCK_SIZE) * Math.min(height, BLOCK_SIZE) * channels);
+}
+
+// The nonce bits from the least significant bits of the top-left block, in the order they were written
+function readNonce(data: Buffer, width: number, height: number, channels: number, length: number): Uint8Array {
+  const nonce = new Uint8Array(length);
+  let sample = 0;
+  for (let y = 0; y < Math.min(height, BLOCK_SIZE) && sample < length; y++) {
+    for (let x = 0; x < Math.min(width, BLOCK_SIZE) && sample < length; x++) {
+      for (let c = 0; c < channels && sample < length; c++) {
+        nonce[sample++] = data[(y * width + x) * channels + c] & 1;
+      }
+    }
+  }
+  return nonce;
+}
+
+// What every block hash covers besides the block itself: the image dimensions and the nonce, one bit per byte
+function sealHeader(width: number, height: number, nonce: Uint8Array): Buffer {
+  const header = Buffer.alloc(8 + nonce.length);
+  header.writeUInt32BE(width, 0);
+  header.writeUInt32BE(height, 4);
+  header.set(nonce, 8);
+  return header;
+}
+
+// Keyed hash of the seal header, a block's position and its upper seven bits, expanded to one bit per byte
+function blockHashBits(
+  key: Buffer,
+  seal: Buffer,
+  data: Buffer,
+  width: number,
+  channels: number,
+  column: number,
+  row: number,
+  left: number,
+  top: number,
+  right: number,
+  bottom: number
+): Uint8Array {
+  const hmac = crypto.createHmac('sha256', key);
+  hmac.update(seal);
+  const position = Buffer.alloc(8);
+  position.writeUInt32BE(column, 0);
+  position.writeUInt32BE(row, 4);
+  hmac.update(position);
+
+  const rowBytes = (right - left) * channels;
+  const content = Buffer.alloc(rowBytes);
+  for (let y = top; y < bottom; y++) {
+    const start = (y * width + left) * channels;
+    for (let i = 0; i < rowBytes; i++) {
+      content[i] = data[start + i] & 0xfe;
+    }
+    hmac.update(content);
+  }
+
+  return expandBits(hmac.digest());
+}
+
+// One bit per byte, most significant first
+function expandBits(bytes: Buffer): Uint8Array {
+  const bits = new Uint8Array(bytes.length * 8);
+  for (let i = 0; i < bits.length; i++) {
+    bits[i] = (bytes[i >> 3] >> (7 - (i & 7))) & 1;
+  }
+  return bits;
+}
+
+// Dim the image and paint modified blocks red
+async function renderTamperOverlay(
+  imagePath: string,
+  blocks: number[][],
+  width: number,
+  height: number
+): Promise<string> {
+  const rows = blocks.length;
+  const columns = blocks[0]?.length ?? 0;
+  const mask = Buffer.alloc(columns * rows * 4);
+  blocks.forEach((blockRow, row) => {
+    blockRow.forEach((intact, column) => {
+      const i = (row * columns + column) * 4;
+      mask[i] = 255;
+      mask[i + 3] = intact ? 0 : 150;
+    });
+  });
+
+  // Upscale the block grid with nearest-neighbour so block edges stay sharp
+  const highlight = await sharp(mask, { raw: { width: columns, height: rows, channels: 4 } })
+    .resize(columns * BLOCK_SIZE, rows * BLOCK_SIZE, { kernel: 'nearest' })
+    .extract({ left: 0, top: 0, width, height })
+    .png()
+    .toBuffer();
+
+  // Animations are shown as their strip of frames, the layout the blocks were sealed in
+  const composited = await sharp(imagePath, { animated: true })
+    .removeAlpha()
+    .modulate({ brightness: 0.6 })
+    .composite([{ input: highlight }])
+    .png()
+    .toBuffer();
+
+  // Keep the response small enough to send back as JSON
+  const overlay = await sharp(composited)
+    .resize({ width: OVERLAY_MAX_SIZE, height: OVERLAY_MAX_SIZE, fit: 'inside', withoutEnlargement: true })
+    .png()
+    .toBuffer();
+
+  return `data:image/png;base64,${overlay.toString('base64')}`;
+}
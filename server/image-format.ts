@@ -0,0 +1,140 @@
+import fs from 'fs';
+import sharp from 'sharp';
+import { ANIMATED_FORMATS, detectImageFormat, LOSSLESS_FORMATS, MAGIC_BYTES_LENGTH, METADATA_FORMATS, type ImageFormat, type OutputFormat } from '@shared/image-formats';
+import { DEFAULT_OUTPUT_SETTINGS, type OutputSettings } from '@shared/output-settings';
+import { applyColorPlan, planColor } from './color';
+
+/**
+ * Input detection and output encoding for the supported image formats
+ *
+ * Sharp would keep the input format by itself, but the output format is
+ * always chosen explicitly so the response type, the file extension and the
+ * encoder settings can never disagree.
+ *
+ * Animations are handled by libvips as a vertical strip of frames, each
+ * `pageHeight` pixels high. Frames are decoded as full canvases with the
+ * source's disposal already applied, so the encoder's own choice of
+ * disposal per frame renders the same animation. Frame delays and the loop
+ * count are not carried through every operation, so they are always passed
+ * to the encoder explicitly.
+ */
+
+export interface Animation {
+  pages: number;
+  pageHeight: number;
+  delay: number[]; // Per-frame delay in milliseconds
+  loop: number; // 0 loops forever
+}
+
+export interface EncodeOptions {
+  lossless?: boolean; // Exact mode for WebP and AVIF, no PNG palette
+  quality?: number; // Overrides the quality of the JPEG, WebP and AVIF encoders
+  animation?: Animation | null;
+  settings?: OutputSettings; // Encoder settings chosen by the user
+}
+
+// Detect the format of a file from its first bytes
+export function detectFileFormat(filePath: string): ImageFormat | null {
+  const fd = fs.openSync(filePath, 'r');
+  try {
+    const bytes = Buffer.alloc(MAGIC_BYTES_LENGTH);
+    const read = fs.readSync(fd, bytes, 0, bytes.length, 0);
+    return detectImageFormat(bytes.subarray(0, read));
+  } finally {
+    fs.closeSync(fd);
+  }
+}
+
+// Frame layout and timing of an animated image, null for a still image
+export async function readAnimation(input: string | Buffer): Promise<Animation | null> {
+  const metadata = await sharp(input).metadata();
+  if (!metadata.pages || metadata.pages < 2 || !metadata.height) return null;
+  return {
+    pages: metadata.pages,
+    pageHeight: metadata.height,
+    delay: metadata.delay ?? [],
+    loop: metadata.loop ?? 0,
+  };
+}
+
+// Whether the format can store every frame of an animation
+export function canAnimate(format: ImageFormat): boolean {
+  return ANIMATED_FORMATS.indexOf(format) !== -1;
+}
+
+// Whether libvips writes EXIF when encoding the format
+export function canWriteExif(format: ImageFormat): boolean {
+  return METADATA_FORMATS.exif.indexOf(format) !== -1;
+}
+
+/**
+ * Resolve the requested output format against the source format
+ * `lossless` forces a format that keeps exact pixel values: PNG, or WebP for
+ * animations, unless the resolved format is lossless already
+ */
+export function resolveOutputFormat(
+  requested: OutputFormat,
+  source: ImageFormat,
+  lossless: boolean = false,
+  animated: boolean = false
+): ImageFormat {
+  const format = requested === 'original' ? source : requested;
+  if (!lossless || LOSSLESS_FORMATS.indexOf(format) !== -1) return format;
+  return animated ? 'webp' : 'png';
+}
+
+/**
+ * Encode the image with the export settings alone and report the size
+ * The protection stages are left out, they change the size only a little
+ * except for adversarial noise, which costs lossy formats some compression
+ */
+export async function estimateEncodedSize(
+  imagePath: string,
+  settings: OutputSettings,
+  lossless: boolean = false
+): Promise<{ format: ImageFormat; bytes: number }> {
+  const source = detectFileFormat(imagePath);
+  if (!source) {
+    throw new Error('Unsupported image format');
+  }
+  const sourceAnimation = await readAnimation(imagePath);
+  const format = resolveOutputFormat(settings.format, source, lossless, sourceAnimation !== null);
+  const animation = sourceAnimation && canAnimate(format) ? sourceAnimation : null;
+  const color = planColor(await sharp(imagePath).metadata(), format, settings, { rgb: lossless, eightBit: lossless });
+  const image = applyColorPlan(sharp(imagePath, { animated: animation !== null }), color);
+  const encoded = await encodeImage(image, format, { lossless, animation, settings }).toBuffer();
+  return { format, bytes: encoded.length };
+}
+
+// Set the encoder for the format, with the user's settings and the frame timing for animations
+export function encodeImage(image: sharp.Sharp, format: ImageFormat, options: EncodeOptions = {}): sharp.Sharp {
+  const settings = options.settings ?? DEFAULT_OUTPUT_SETTINGS;
+  const lossless = options.lossless === true;
+  const timing = options.animation && canAnimate(format)
+    ? { delay: options.animation.delay, loop: options.animation.loop }
+    : {};
+  switch (format) {
+    case 'jpeg':
+      return image.jpeg({
+        quality: options.quality ?? settings.jpegQuality,
+        mozjpeg: settings.mozjpeg,
+        progressive: settings.progressive,
+        chromaSubsampling: settings.chromaSubsampling,
+      });
+    case 'png':
+      return image.png({
+        compressionLevel: settings.pngCompressionLevel,
+        progressive: settings.progressive,
+        palette: settings.pngPalette && !lossless,
+      });
+    case 'webp':
+      return image.webp({ lossless, quality: options.quality ?? settings.jpegQuality, effort: settings.webpEffort, ...timing });
+    case 'avif':
+      return image.avif({ lossless, quality: options.quality, effort: settings.avifEffort });
+    case 'tiff':
+      // Sharp defaults to JPEG compression inside TIFF, LZW keeps it lossless
+      return image.tiff({ compression: 'lzw' });
+    case 'gif':
+      return image.gif(timing);
+  }
+}
@@ -0,0 +1,500 @@
+import sharp from 'sharp';
+import { createPrng, hashSeed } from './prng';
+import { deriveWatermarkKey } from './watermark-keys';
+
+/**
+ * Invisible spread-spectrum watermark carrying a 64-bit owner/asset ID
+ *
+ * The payload is spread over pseudo-random Fourier coefficients of a small
+ * tile that is repeated across the whole image. Because the tile repeats,
+ * a crop only shifts it cyclically (a phase change the detector removes),
+ * and because only low/mid frequencies are used the mark survives JPEG
+ * re-encoding and downscaling. The detector searches over scale factors
+ * to undo resizing.
+ */
+
+const TILE_SIZE = 128; // Pattern period in pixels of the marked image
+const BAND_MIN = 4; // Lowest frequency used, in cycles per tile
+const BAND_MAX = 16; // Highest frequency used, in cycles per tile
+const PAYLOAD_BITS = 64;
+const CHECK_BITS = 16;
+const TOTAL_BITS = PAYLOAD_BITS + CHECK_BITS;
+const SYNC_SHARE = 0.35; // Share of the coefficients used to find the pattern offset
+
+// Scale search range (size of the suspect image relative to the marked original)
+const MIN_SCALE = 0.4;
+const MAX_SCALE = 1.1;
+const COARSE_EXTENT = 256; // Folded area used while scanning scales, in tile pixels
+const FINE_EXTENT = 1024; // Folded area used for the final decode
+const MAX_FLIPPED_BITS = 4; // Least reliable bits tried when the checksum fails
+const WHITENING_BLUR = 3; // Sigma of the blur subtracted before detection
+const RESIDUAL_CLIP = 8; // Grey levels; limits the weight of strong edges
+const FALSE_ALARM_MARGIN = 1000; // Natural images have heavier tails than Gaussian noise
+
+// Key that makes the pattern unique to this deployment
+const WATERMARK_KEY = deriveWatermarkKey('invisible').toString('hex');
+
+export interface WatermarkDetection {
+  detected: boolean;
+  ownerId: string | null; // 16 hex digits when the checksum matched
+  confidence: number; // 0-1, probability the pattern is not a chance match
+  scale: number; // Estimated size relative to the marked original
+  syncScore: number; // z-score of the synchronisation peak
+}
+
+interface Carrier {
+  index: number; // Position in the TILE_SIZE x TILE_SIZE spectrum
+  mirror: number; // Conjugate-symmetric position, keeps the tile real
+  role: number; // -1 for sync, otherwise the payload bit index
+  re: number;
+  im: number;
+}
+
+interface SyncResult {
+  score: number;
+  dx: number;
+  dy: number;
+  re: Float64Array;
+  im: Float64Array;
+}
+
+let carrierCache: Carrier[] | null = null;
+
+// Parse a 64-bit owner ID given as up to 16 hex digits (optionally 0x-prefixed)
+export function parseOwnerId(value: string): bigint | null {
+  const hex = value.trim().replace(/^0x/i, '');
+  if (!/^[0-9a-f]{1,16}$/i.test(hex)) {
+    return null;
+  }
+  return BigInt(`0x${hex}`);
+}
+
+/**
+ * Build a full-size overlay carrying the owner ID
+ * Blended with 'overlay' mode: mid-grey leaves pixels unchanged and the
+ * pattern pushes them up or down, so the stage stays inside the sharp
+ * pipeline and the image keeps its metadata
+ */
+export function createInvisibleWatermarkOverlay(
+  ownerId: bigint,
+  width: number,
+  height: number,
+  strength: number
+): sharp.OverlayOptions {
+  // Strength (1-10) maps to the pattern's standard deviation in grey levels on midtones
+  const amplitude = 1 + Math.min(10, Math.max(1, strength)) * 0.6;
+  const tile = buildPatternTile(encodePayload(ownerId));
+
+  const overlay = Buffer.alloc(width * height * 3);
+  for (let y = 0; y < height; y++) {
+    const row = (y % TILE_SIZE) * TILE_SIZE;
+    for (let x = 0; x < width; x++) {
+      const value = Math.max(0, Math.min(255, Math.round(128 + amplitude * tile[row + (x % TILE_SIZE)])));
+      const offset = (y * width + x) * 3;
+      overlay[offset] = value;
+      overlay[offset + 1] = value;
+      overlay[offset + 2] = value;
+    }
+  }
+
+  return { input: overlay, raw: { width, height, channels: 3 }, blend: 'overlay' };
+}
+
+/**
+ * Look for the invisible watermark and decode its owner ID
+ */
+export async function detectInvisibleWatermark(imagePath: string | Buffer): Promise<WatermarkDetection> {
+  // Keep only the fine detail where the pattern lives, clipped so strong edges
+  // (including visible watermarks) cannot outweigh it
+  const grey = sharp(imagePath).removeAlpha().greyscale();
+  const { data, info } = await grey.clone().raw().toBuffer({ resolveWithObject: true });
+  const blurred = await grey.clone().blur(WHITENING_BLUR).raw().toBuffer();
+
+  const luma = new Float32Array(data.length);
+  for (let i = 0; i < data.length; i++) {
+    luma[i] = Math.max(-RESIDUAL_CLIP, Math.min(RESIDUAL_CLIP, data[i] - blurred[i]));
+  }
+  const { width, height } = info;
+
+  // Coarse pass: scan scales on a small central area, where scale errors matter least
+  const coarseStep = 1.5 / COARSE_EXTENT;
+  const candidates: { scale: number; score: number }[] = [];
+  for (let scale = MIN_SCALE; scale <= MAX_SCALE; scale *= 1 + coarseStep) {
+    const tile = foldLuma(luma, width, height, scale, COARSE_EXTENT);
+    if (tile) {
+      candidates.push({ scale, score: findSync(tile).score });
+    }
+  }
+  candidates.sort((a, b) => b.score - a.score);
+
+  // Fine pass: refine the best candidates on a larger area
+  let best: { scale: number; sync: SyncResult } | null = null;
+  const fineStep = 0.5 / FINE_EXTENT;
+  for (const candidate of candidates.slice(0, 3)) {
+    for (let step = -6; step <= 6; step++) {
+      const scale = candidate.scale * (1 + step * fineStep * 2);
+      const tile = foldLuma(luma, width, height, scale, FINE_EXTENT);
+      if (!tile) continue;
+      const sync = findSync(tile);
+      if (!best || sync.score > best.sync.score) {
+        best = { scale, sync };
+      }
+    }
+  }
+
+  if (!best) {
+    return { detected: false, ownerId: null, confidence: 0, scale: 1, syncScore: 0 };
+  }
+
+  // Chance that no noise peak this high shows up across every offset and scale tried
+  const trials = TILE_SIZE * TILE_SIZE * (candidates.length + 3 * 13) * FALSE_ALARM_MARGIN;
+  const confidence = Math.exp(-trials * gaussianTail(best.sync.score));
+  const ownerId = decodePayload(best.sync);
+
+  return {
+    detected: confidence >= 0.9 && ownerId !== null,
+    ownerId: ownerId === null ? null : ownerId.toString(16).padStart(16, '0'),
+    confidence: Number(confidence.toFixed(4)),
+    scale: Number(best.scale.toFixed(4)),
+    syncScore: Number(best.sync.score.toFixed(2)),
+  };
+}
+
+// Pseudo-random assignment of band coefficients to sync/payload roles, derived from the secret
+function getCarriers(): Carrier[] {
+  if (carrierCache) return carrierCache;
+
+  const random = createPrng(hashSeed(WATERMARK_KEY));
+  const half = TILE_SIZE / 2;
+  const positions: { u: number; v: number }[] = [];
+
+  // One half-plane only; the other half is the complex conjugate
+  for (let v = 0; v < half; v++) {
+    for (let u = -half + 1; u < half; u++) {
+      if (v === 0 && u <= 0) continue;
+      const radius = Math.sqrt(u * u + v * v);
+      if (radius >= BAND_MIN && radius <= BAND_MAX) {
+        positions.push({ u, v });
+      }
+    }
+  }
+
+  for (let i = positions.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [positions[i], positions[j]] = [positions[j], positions[i]];
+  }
+
+  const syncCount = Math.round(positions.length * SYNC_SHARE);
+  const spectrumIndex = (u: number, v: number) =>
+    ((v + TILE_SIZE) % TILE_SIZE) * TILE_SIZE + ((u + TILE_SIZE) % TILE_SIZE);
+
+  carrierCache = positions.map(({ u, v }, i) => {
+    const phase = random() * 2 * Math.PI;
+    return {
+      index: spectrumIndex(u, v),
+      mirror: spectrumIndex(-u, -v),
+      role: i < syncCount ? -1 : (i - syncCount) % TOTAL_BITS,
+      re: Math.cos(phase),
+      im: Math.sin(phase),
+    };
+  });
+  return carrierCache;
+}
+
+// Payload bits: the 64-bit ID followed by a CRC-16 over its bytes
+function encodePayload(ownerId: bigint): boolean[] {
+  const bytes = idToBytes(ownerId);
+  const crc = crc16(bytes);
+  const bits: boolean[] = [];
+  for (let i = PAYLOAD_BITS - 1; i >= 0; i--) {
+    bits.push(((ownerId >> BigInt(i)) & BigInt(1)) === BigInt(1));
+  }
+  for (let i = CHECK_BITS - 1; i >= 0; i--) {
+    bits.push(((crc >> i) & 1) === 1);
+  }
+  return bits;
+}
+
+// Build one period of the pattern, normalised to unit standard deviation
+function buildPatternTile(bits: boolean[]): Float64Array {
+  const re = new Float64Array(TILE_SIZE * TILE_SIZE);
+  const im = new Float64Array(TILE_SIZE * TILE_SIZE);
+
+  for (const carrier of getCarriers()) {
+    const sign = carrier.role < 0 || bits[carrier.role] ? 1 : -1;
+    re[carrier.index] = sign * carrier.re;
+    im[carrier.index] = sign * carrier.im;
+    re[carrier.mirror] = sign * carrier.re;
+    im[carrier.mirror] = -sign * carrier.im;
+  }
+
+  fft2d(re, im, true);
+
+  let energy = 0;
+  for (let i = 0; i < re.length; i++) {
+    energy += re[i] * re[i];
+  }
+  const std = Math.sqrt(energy / re.length) || 1;
+  for (let i = 0; i < re.length; i++) {
+    re[i] /= std;
+  }
+  return re;
+}
+
+/**
+ * Resample the central area of the image at the given scale and fold it
+ * into a single tile, averaging every period of the pattern together
+ */
+function foldLuma(
+  luma: Float32Array,
+  width: number,
+  height: number,
+  scale: number,
+  extent: number
+): Float64Array | null {
+  const spanX = Math.min(extent, Math.floor((width - 1) / scale));
+  const spanY = Math.min(extent, Math.floor((height - 1) / scale));
+  if (spanX < TILE_SIZE / 2 || spanY < TILE_SIZE / 2) {
+    return null;
+  }
+
+  const originX = (width - 1 - spanX * scale) / 2;
+  const originY = (height - 1 - spanY * scale) / 2;
+  const sums = new Float64Array(TILE_SIZE * TILE_SIZE);
+  const counts = new Uint32Array(TILE_SIZE * TILE_SIZE);
+
+  for (let ty = 0; ty < spanY; ty++) {
+    const sy = originY + ty * scale;
+    const y0 = Math.floor(sy);
+    const fy = sy - y0;
+    const y1 = Math.min(height - 1, y0 + 1);
+    const row = (ty % TILE_SIZE) * TILE_SIZE;
+
+    for (let tx = 0; tx < spanX; tx++) {
+      const sx = originX + tx * scale;
+      const x0 = Math.floor(sx);
+      const fx = sx - x0;
+      const x1 = Math.min(width - 1, x0 + 1);
+
+      const top = luma[y0 * width + x0] * (1 - fx) + luma[y0 * width + x1] * fx;
+      const bottom = luma[y1 * width + x0] * (1 - fx) + luma[y1 * width + x1] * fx;
+      const cell = row + (tx % TILE_SIZE);
+      sums[cell] += top * (1 - fy) + bottom * fy;
+      counts[cell]++;
+    }
+  }
+
+  let mean = 0;
+  let filled = 0;
+  for (let i = 0; i < sums.length; i++) {
+    if (counts[i] > 0) {
+      sums[i] /= counts[i];
+      mean += sums[i];
+      filled++;
+    }
+  }
+  mean /= filled;
+  for (let i = 0; i < sums.length; i++) {
+    sums[i] = counts[i] > 0 ? sums[i] - mean : 0;
+  }
+  return sums;
+}
+
+// Phase-correlate the folded tile with the sync carriers to find the pattern offset
+function findSync(tile: Float64Array): SyncResult {
+  const re = Float64Array.from(tile);
+  const im = new Float64Array(tile.length);
+  fft2d(re, im, false);
+
+  const corrRe = new Float64Array(tile.length);
+  const corrIm = new Float64Array(tile.length);
+  for (const carrier of getCarriers()) {
+    if (carrier.role >= 0) continue;
+    const magnitude = Math.hypot(re[carrier.index], im[carrier.index]) || 1;
+    // F * conj(S) / |F|
+    const cr = (re[carrier.index] * carrier.re + im[carrier.index] * carrier.im) / magnitude;
+    const ci = (im[carrier.index] * carrier.re - re[carrier.index] * carrier.im) / magnitude;
+    corrRe[carrier.index] = cr;
+    corrIm[carrier.index] = ci;
+    corrRe[carrier.mirror] = cr;
+    corrIm[carrier.mirror] = -ci;
+  }
+  fft2d(corrRe, corrIm, true);
+
+  let peak = 0;
+  let sum = 0;
+  let sumSquares = 0;
+  for (let i = 0; i < corrRe.length; i++) {
+    const value = corrRe[i];
+    sum += value;
+    sumSquares += value * value;
+    if (value > corrRe[peak]) peak = i;
+  }
+  const mean = sum / corrRe.length;
+  const std = Math.sqrt(Math.max(1e-12, sumSquares / corrRe.length - mean * mean));
+
+  return {
+    score: (corrRe[peak] - mean) / std,
+    dx: peak % TILE_SIZE,
+    dy: Math.floor(peak / TILE_SIZE),
+    re,
+    im,
+  };
+}
+
+// Read the payload bits at the sync offset, retrying the weakest bits if the checksum fails
+function decodePayload(sync: SyncResult): bigint | null {
+  const sums = new Float64Array(TOTAL_BITS);
+  const counts = new Uint32Array(TOTAL_BITS);
+
+  for (const carrier of getCarriers()) {
+    if (carrier.role < 0) continue;
+    const i = carrier.index;
+    const u = i % TILE_SIZE;
+    const v = Math.floor(i / TILE_SIZE);
+    // Undo the cyclic shift, then project onto the carrier's phase
+    const angle = (2 * Math.PI * (u * sync.dx + v * sync.dy)) / TILE_SIZE;
+    const gr = sync.re[i] * Math.cos(angle) - sync.im[i] * Math.sin(angle);
+    const gi = sync.re[i] * Math.sin(angle) + sync.im[i] * Math.cos(angle);
+    const magnitude = Math.hypot(gr, gi) || 1;
+    sums[carrier.role] += (gr * carrier.re + gi * carrier.im) / magnitude;
+    counts[carrier.role]++;
+  }
+
+  const bits = Array.from(sums, (value) => value > 0);
+  const weakest = Array.from(sums, (value, bit) => ({ bit, reliability: Math.abs(value) / Math.sqrt(counts[bit]) }))
+    .sort((a, b) => a.reliability - b.reliability)
+    .slice(0, MAX_FLIPPED_BITS)
+    .map(({ bit }) => bit);
+
+  // Try flip patterns in order of how many bits they change
+  const patterns = Array.from({ length: 1 << weakest.length }, (_, mask) => mask)
+    .sort((a, b) => bitCount(a) - bitCount(b));
+  for (const mask of patterns) {
+    const candidate = bits.slice();
+    weakest.forEach((bit, n) => {
+      if (mask & (1 << n)) candidate[bit] = !candidate[bit];
+    });
+
+    let ownerId = BigInt(0);
+    for (let i = 0; i < PAYLOAD_BITS; i++) {
+      ownerId = (ownerId << BigInt(1)) | BigInt(candidate[i] ? 1 : 0);
+    }
+    let crc = 0;
+    for (let i = PAYLOAD_BITS; i < TOTAL_BITS; i++) {
+      crc = (crc << 1) | (candidate[i] ? 1 : 0);
+    }
+    if (crc === crc16(idToBytes(ownerId))) {
+      return ownerId;
+    }
+  }
+  return null;
+}
+
+function idToBytes(ownerId: bigint): Uint8Array {
+  const bytes = new Uint8Array(8);
+  for (let i = 0; i < 8; i++) {
+    bytes[i] = Number((ownerId >> BigInt(56 - i * 8)) & BigInt(0xff));
+  }
+  return bytes;
+}
+
+// CRC-16/CCITT-FALSE
+function crc16(bytes: Uint8Array): number {
+  let crc = 0xffff;
+  for (let n = 0; n < bytes.length; n++) {
+    crc ^= bytes[n] << 8;
+    for (let i = 0; i < 8; i++) {
+      crc = crc & 0x8000 ? ((crc << 1) ^ 0x1021) & 0xffff : (crc << 1) & 0xffff;
+    }
+  }
+  return crc;
+}
+
+function bitCount(value: number): number {
+  let count = 0;
+  for (; value; value &= value - 1) count++;
+  return count;
+}
+
+// Upper tail probability of the standard normal distribution
+function gaussianTail(z: number): number {
+  // Abramowitz-Stegun 7.1.26 approximation of erfc
+  const x = z / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * Math.abs(x));
+  const erfc = t * Math.exp(-x * x) *
+    (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))));
+  return x >= 0 ? erfc / 2 : 1 - erfc / 2;
+}
+
+// In-place 2D FFT over a TILE_SIZE x TILE_SIZE complex array
+function fft2d(re: Float64Array, im: Float64Array, inverse: boolean): void {
+  const rowRe = new Float64Array(TILE_SIZE);
+  const rowIm = new Float64Array(TILE_SIZE);
+
+  for (let y = 0; y < TILE_SIZE; y++) {
+    const offset = y * TILE_SIZE;
+    rowRe.set(re.subarray(offset, offset + TILE_SIZE));
+    rowIm.set(im.subarray(offset, offset + TILE_SIZE));
+    fft1d(rowRe, rowIm, inverse);
+    re.set(rowRe, offset);
+    im.set(rowIm, offset);
+  }
+
+  for (let x = 0; x < TILE_SIZE; x++) {
+    for (let y = 0; y < TILE_SIZE; y++) {
+      rowRe[y] = re[y * TILE_SIZE + x];
+      rowIm[y] = im[y * TILE_SIZE + x];
+    }
+    fft1d(rowRe, rowIm, inverse);
+    for (let y = 0; y < TILE_SIZE; y++) {
+      re[y * TILE_SIZE + x] = rowRe[y];
+      im[y * TILE_SIZE + x] = rowIm[y];
+    }
+  }
+}
+
+// Iterative radix-2 Cooley-Tukey FFT; the inverse is scaled by 1/n
+function fft1d(re: Float64Array, im: Float64Array, inverse: boolean): void {
+  const n = re.length;
+
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+
+  for (let size = 2; size <= n; size <<= 1) {
+    const angle = ((inverse ? 2 : -2) * Math.PI) / size;
+    const stepRe = Math.cos(angle);
+    const stepIm = Math.sin(angle);
+    for (let start = 0; start < n; start += size) {
+      let wRe = 1;
+      let wIm = 0;
+      for (let k = 0; k < size / 2; k++) {
+        const a = start + k;
+        const b = a + size / 2;
+        const tRe = re[b] * wRe - im[b] * wIm;
+        const tIm = re[b] * wIm + im[b] * wRe;
+        re[b] = re[a] - tRe;
+        im[b] = im[a] - tIm;
+        re[a] += tRe;
+        im[a] += tIm;
+        const nextRe = wRe * stepRe - wIm * stepIm;
+        wIm = wRe * stepIm + wIm * stepRe;
+        wRe = nextRe;
+      }
+    }
+  }
+
+  if (inverse) {
+    for (let i = 0; i < n; i++) {
+      re[i] /= n;
+      im[i] /= n;
+    }
+  }
+}
@@ -0,0 +1,277 @@
+import crypto from 'crypto';
+import type { IptcField } from '@shared/iptc-notice';
+import type { MetadataEntry } from '@shared/metadata-privacy';
+import type { MetadataFields } from '@shared/decoded-metadata';
+
+/**
+ * IPTC-IIM reader and writer
+ *
+ * Photoshop keeps the IIM record in image resource 0x0404 of its "8BIM"
+ * resource blocks, which also hold unrelated resources such as the
+ * thumbnail or print settings. The writer carries those over untouched and,
+ * within the record, replaces only the datasets it writes. The record is
+ * switched to UTF-8, and the digest Photoshop compares to notice edits by
+ * other programs is set to match the new record.
+ */
+
+const IPTC_RESOURCE = 0x0404;
+const IPTC_DIGEST_RESOURCE = 0x0425;
+const RESOURCE_HEADER_SIZE = 12; // Signature, id, empty name and size
+
+const TAG_MARKER = 0x1c;
+const ENVELOPE_RECORD = 1;
+const APPLICATION_RECORD = 2;
+const CODED_CHARACTER_SET = 90; // 1:90
+const RECORD_VERSION = 0; // 2:00, a 16-bit number
+const IIM_VERSION = 4;
+const UTF8_DESIGNATION = Buffer.from([0x1b, 0x25, 0x47]); // ESC % G
+const EXTENDED_LENGTH_FLAG = 0x8000;
+const FIRST_BINARY_DATASET = 200; // 2:200 and up hold the object preview
+
+// Dataset names for reading records back, by record and dataset number
+const DATASET_NAMES: Record<string, string> = {
+  '2:5': 'ObjectName',
+  '2:15': 'Category',
+  '2:20': 'SupplementalCategories',
+  '2:25': 'Keywords',
+  '2:40': 'SpecialInstructions',
+  '2:55': 'DateCreated',
+  '2:60': 'TimeCreated',
+  '2:62': 'DigitalCreationDate',
+  '2:63': 'DigitalCreationTime',
+  '2:80': 'By-line',
+  '2:85': 'By-lineTitle',
+  '2:90': 'City',
+  '2:92': 'Sub-location',
+  '2:95': 'Province-State',
+  '2:100': 'Country-PrimaryLocationCode',
+  '2:101': 'Country-PrimaryLocationName',
+  '2:103': 'OriginalTransmissionReference',
+  '2:105': 'Headline',
+  '2:110': 'Credit',
+  '2:115': 'Source',
+  '2:116': 'CopyrightNotice',
+  '2:118': 'Contact',
+  '2:120': 'Caption-Abstract',
+  '2:122': 'Writer-Editor',
+};
+
+// Datasets the IIM specification allows more than once, always decoded as arrays
+const REPEATABLE_DATASETS = [20, 25, 80, 85, 118, 122];
+const DATE_DATASETS = [55, 62];
+const TIME_DATASETS = [60, 63];
+
+interface Resource {
+  signature: string; // Almost always "8BIM"
+  id: number;
+  name: Buffer; // Pascal string with its padding
+  data: Buffer;
+}
+
+interface Dataset {
+  record: number;
+  dataset: number;
+  value: Buffer;
+}
+
+/**
+ * Write the fields into the IIM record of a set of resource blocks
+ * Without existing blocks, ones holding only the record are created. Throws
+ * when the existing blocks or their record cannot be parsed.
+ */
+export function buildIptcResources(fields: IptcField[], existing?: Buffer | null): Buffer {
+  const resources = existing ? parseResources(existing) : [];
+  const current = resources.filter((resource) => resource.id === IPTC_RESOURCE)[0];
+  const datasets = current ? parseDatasets(current.data) : [];
+
+  // Text in a record without a character set is read as Latin-1 and converted, so the whole record can be UTF-8
+  const convert = !isUtf8Record(datasets);
+  const written = fields.map((field) => field.dataset);
+  const kept = datasets
+    .filter((entry) => !(entry.record === ENVELOPE_RECORD && entry.dataset === CODED_CHARACTER_SET))
+    .filter((entry) => !(entry.record === APPLICATION_RECORD && written.indexOf(entry.dataset) !== -1))
+    .map((entry) => convert && isText(entry) ? { ...entry, value: Buffer.from(entry.value.toString('latin1'), 'utf8') } : entry);
+
+  const record: Dataset[] = [{ record: ENVELOPE_RECORD, dataset: CODED_CHARACTER_SET, value: UTF8_DESIGNATION }].concat(kept);
+  if (!kept.some((entry) => entry.record === APPLICATION_RECORD && entry.dataset === RECORD_VERSION)) {
+    const version = Buffer.alloc(2);
+    version.writeUInt16BE(IIM_VERSION, 0);
+    record.push({ record: APPLICATION_RECORD, dataset: RECORD_VERSION, value: version });
+  }
+  for (const field of fields) {
+    record.push({ record: APPLICATION_RECORD, dataset: field.dataset, value: Buffer.from(field.value, 'utf8') });
+  }
+  // Readers expect ascending numbers; the sort is stable, so repeated datasets such as keywords keep their order
+  record.sort((a, b) => a.record - b.record || a.dataset - b.dataset);
+
+  const data = Buffer.concat(record.map(writeDataset));
+  setResource(resources, IPTC_RESOURCE, data);
+  setResource(resources, IPTC_DIGEST_RESOURCE, crypto.createHash('md5').update(data).digest());
+  return Buffer.concat(resources.map(writeResource));
+}
+
+// Datasets of the IIM record as metadata entries, empty when there is none or it cannot be parsed
+export function listIptcEntries(resources: Buffer | null | undefined): MetadataEntry[] {
+  const record = readRecord(resources);
+  if (!record) return [];
+  return record.datasets
+    .filter((entry) => entry.record === APPLICATION_RECORD && entry.dataset !== RECORD_VERSION)
+    .map((entry) => ({
+      group: 'IPTC' as const,
+      name: datasetName(entry),
+      value: isText(entry) ? entry.value.toString(record.encoding).trim() : `${entry.value.length} bytes`,
+    }));
+}
+
+/**
+ * Application record datasets by name, as typed values
+ * Repeatable datasets such as keywords are arrays, dates are given as
+ * "YYYY-MM-DD" and times as "HH:MM:SS+HH:MM"; the record version is a number.
+ */
+export function decodeIptc(resources: Buffer | null | undefined): MetadataFields {
+  const fields: MetadataFields = {};
+  const record = readRecord(resources);
+  if (!record) return fields;
+
+  for (const entry of record.datasets) {
+    if (entry.record !== APPLICATION_RECORD) continue;
+    const name = datasetName(entry);
+    if (entry.dataset === RECORD_VERSION) {
+      if (entry.value.length === 2) fields.ApplicationRecordVersion = entry.value.readUInt16BE(0);
+      continue;
+    }
+    if (!isText(entry)) {
+      fields[name] = `${entry.value.length} bytes`;
+      continue;
+    }
+
+    const text = entry.value.toString(record.encoding).trim();
+    const date = /^(\d{4})(\d{2})(\d{2})$/.exec(text);
+    const time = /^(\d{2})(\d{2})(\d{2})([+-]\d{2})(\d{2})$/.exec(text);
+    const value = DATE_DATASETS.indexOf(entry.dataset) !== -1 && date ? `${date[1]}-${date[2]}-${date[3]}`
+      : TIME_DATASETS.indexOf(entry.dataset) !== -1 && time ? `${time[1]}:${time[2]}:${time[3]}${time[4]}:${time[5]}`
+      : text;
+    const current = fields[name];
+    if (Array.isArray(current)) current.push(value);
+    else if (current !== undefined) fields[name] = [current as string, value];
+    else fields[name] = REPEATABLE_DATASETS.indexOf(entry.dataset) !== -1 ? [value] : value;
+  }
+  return fields;
+}
+
+// Datasets of the IIM record and their text encoding, null when there is none or it cannot be parsed
+function readRecord(resources: Buffer | null | undefined): { datasets: Dataset[]; encoding: BufferEncoding } | null {
+  if (!resources) return null;
+  try {
+    const record = parseResources(resources).filter((resource) => resource.id === IPTC_RESOURCE)[0];
+    if (!record) return null;
+    const datasets = parseDatasets(record.data);
+    return { datasets, encoding: isUtf8Record(datasets) ? 'utf8' : 'latin1' };
+  } catch (error) {
+    return null;
+  }
+}
+
+function datasetName(entry: Dataset): string {
+  return DATASET_NAMES[`${entry.record}:${entry.dataset}`] ?? `${entry.record}:${entry.dataset}`;
+}
+
+// Resource blocks: signature, id, padded Pascal name, size and data padded to an even length
+function parseResources(blocks: Buffer): Resource[] {
+  // Some PNG writers store the bare record without the resource around it
+  if (blocks[0] === TAG_MARKER) return [{ signature: '8BIM', id: IPTC_RESOURCE, name: Buffer.alloc(2), data: blocks }];
+
+  const resources: Resource[] = [];
+  let offset = 0;
+  while (offset + RESOURCE_HEADER_SIZE <= blocks.length) {
+    const signature = blocks.toString('latin1', offset, offset + 4);
+    if (!/^[\x20-\x7e]{4}$/.test(signature)) {
+      throw new Error('Malformed Photoshop image resources');
+    }
+    const id = blocks.readUInt16BE(offset + 4);
+    const nameLength = blocks[offset + 6];
+    const nameEnd = offset + 6 + nameLength + 1 + ((nameLength + 1) & 1);
+    if (nameEnd + 4 > blocks.length) {
+      throw new Error('Truncated Photoshop image resources');
+    }
+    const size = blocks.readUInt32BE(nameEnd);
+    const dataEnd = nameEnd + 4 + size;
+    if (dataEnd > blocks.length) {
+      throw new Error('Truncated Photoshop image resources');
+    }
+    resources.push({ signature, id, name: blocks.subarray(offset + 6, nameEnd), data: blocks.subarray(nameEnd + 4, dataEnd) });
+    offset = dataEnd + (size & 1);
+  }
+  return resources;
+}
+
+function writeResource(resource: Resource): Buffer {
+  const header = Buffer.alloc(6);
+  header.write(resource.signature, 0, 'latin1');
+  header.writeUInt16BE(resource.id, 4);
+  const size = Buffer.alloc(4);
+  size.writeUInt32BE(resource.data.length, 0);
+  return Buffer.concat([header, resource.name, size, resource.data, Buffer.alloc(resource.data.length & 1)]);
+}
+
+// Replace the data of a resource in place, or add it with an empty name
+function setResource(resources: Resource[], id: number, data: Buffer): void {
+  const resource = resources.filter((candidate) => candidate.id === id)[0];
+  if (resource) resource.data = data;
+  else resources.push({ signature: '8BIM', id, name: Buffer.alloc(2), data });
+}
+
+// Datasets: tag marker, record, dataset and a 15-bit size, or a count of size bytes when the top bit is set
+function parseDatasets(record: Buffer): Dataset[] {
+  const datasets: Dataset[] = [];
+  let offset = 0;
+  while (offset + 5 <= record.length) {
+    if (record[offset] !== TAG_MARKER) {
+      // Writers pad the record, anything after the last dataset is ignored
+      if (record.subarray(offset).every((byte) => byte === 0)) break;
+      throw new Error('Malformed IPTC record');
+    }
+    let size = record.readUInt16BE(offset + 3);
+    let start = offset + 5;
+    if (size & EXTENDED_LENGTH_FLAG) {
+      const sizeBytes = size & ~EXTENDED_LENGTH_FLAG;
+      if (sizeBytes > 4 || start + sizeBytes > record.length) {
+        throw new Error('Malformed IPTC record');
+      }
+      size = sizeBytes === 0 ? 0 : record.readUIntBE(start, sizeBytes);
+      start += sizeBytes;
+    }
+    if (start + size > record.length) {
+      throw new Error('Truncated IPTC record');
+    }
+    datasets.push({ record: record[offset + 1], dataset: record[offset + 2], value: record.subarray(start, start + size) });
+    offset = start + size;
+  }
+  return datasets;
+}
+
+function writeDataset(entry: Dataset): Buffer {
+  const extended = entry.value.length >= EXTENDED_LENGTH_FLAG;
+  const header = Buffer.alloc(extended ? 9 : 5);
+  header[0] = TAG_MARKER;
+  header[1] = entry.record;
+  header[2] = entry.dataset;
+  if (extended) {
+    header.writeUInt16BE(EXTENDED_LENGTH_FLAG | 4, 3);
+    header.writeUInt32BE(entry.value.length, 5);
+  } else {
+    header.writeUInt16BE(entry.value.length, 3);
+  }
+  return Buffer.concat([header, entry.value]);
+}
+
+function isUtf8Record(datasets: Dataset[]): boolean {
+  return datasets.some((entry) =>
+    entry.record === ENVELOPE_RECORD && entry.dataset === CODED_CHARACTER_SET && entry.value.equals(UTF8_DESIGNATION)
+  );
+}
+
+// Application record datasets below the object preview are text, except the record version
+function isText(entry: Dataset): boolean {
+  return entry.record === APPLICATION_RECORD && entry.dataset !== RECORD_VERSION && entry.dataset < FIRST_BINARY_DATASET;
+}
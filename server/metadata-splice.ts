@@ -0,0 +1,588 @@
+import zlib from 'zlib';
+import { METADATA_FORMATS, type ImageFormat } from '@shared/image-formats';
+
+/**
+ * Metadata-only writes for JPEG and PNG, and XMP for WebP and TIFF
+ *
+ * Re-encoding through sharp decodes the pixels and compresses them again,
+ * which loses quality on JPEG and costs time on both formats just to change
+ * a few tags. Here the metadata segments are replaced in the byte stream
+ * itself: the JPEG scan data and the PNG IDAT chunks are copied unchanged,
+ * so the decoded pixels stay bit-identical.
+ *
+ * Segments that are not given are left as they are in the file, null
+ * removes them. WebP and TIFF files only take XMP, which is also how XMP gets
+ * into any of these formats after sharp has encoded them. IPTC is read back
+ * the same way, as sharp only returns it for JPEG, and so is the C2PA
+ * manifest store, which sharp does not read at all. The store is written to
+ * JPEG and PNG, and its byte range located so its hash can leave it out.
+ */
+
+export interface MetadataSegments {
+  exif?: Buffer | null; // TIFF data, with or without the "Exif\0\0" identifier
+  xmp?: string | null; // XMP packet
+  iptc?: Buffer | null; // Photoshop image resource blocks (8BIM), holding the IPTC-IIM record
+  icc?: Buffer; // ICC colour profile
+  comments?: null; // JPEG comments and the other PNG text chunks, can only be removed
+  c2pa?: Buffer | null; // C2PA manifest store, a JUMBF superbox
+}
+
+export interface ByteRange {
+  start: number;
+  length: number;
+}
+
+const JPEG_EXIF_ID = Buffer.from('Exif\0\0', 'latin1');
+const JPEG_XMP_ID = Buffer.from('http://ns.adobe.com/xap/1.0/\0', 'latin1');
+const JPEG_PHOTOSHOP_ID = Buffer.from('Photoshop 3.0\0', 'latin1');
+const JPEG_ICC_ID = Buffer.from('ICC_PROFILE\0', 'latin1');
+const JPEG_MAX_SEGMENT = 0xffff - 2; // The length field counts itself
+
+const APP0 = 0xe0;
+const APP1 = 0xe1;
+const APP2 = 0xe2;
+const APP11 = 0xeb;
+const APP13 = 0xed;
+const COM = 0xfe;
+const SOS = 0xda;
+
+const JUMBF_ID = Buffer.from('JP', 'latin1'); // Common identifier of the APP11 segments carrying JUMBF boxes
+const JUMBF_SEGMENT_HEADER = 8; // Identifier, box instance and packet sequence numbers
+const JUMBF_INSTANCE = 1; // Box instance number of the manifest store segments written here
+const BOX_HEADER = 8; // Box length and type
+const C2PA_LABEL = 'c2pa'; // Label of the manifest store superbox
+const PNG_C2PA_CHUNK = 'caBX';
+const WEBP_C2PA_CHUNK = 'C2PA';
+
+const WEBP_ALPHA_FLAG = 0x10;
+const WEBP_XMP_FLAG = 0x04;
+
+const TIFF_XMP_TAG = 700;
+const TIFF_BYTE = 1;
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+const PNG_XMP_KEYWORD = 'XML:com.adobe.xmp';
+const PNG_IPTC_KEYWORD = 'Raw profile type iptc';
+const PNG_EXIF_KEYWORDS = ['Raw profile type exif', 'Raw profile type APP1'];
+const PNG_METADATA_KEYWORDS = [PNG_XMP_KEYWORD, PNG_IPTC_KEYWORD].concat(PNG_EXIF_KEYWORDS); // Text chunks that are not comments
+
+export function canSpliceMetadata(format: ImageFormat): boolean {
+  return format === 'jpeg' || format === 'png';
+}
+
+export function canWriteXmp(format: ImageFormat): boolean {
+  return METADATA_FORMATS.xmp.indexOf(format) !== -1;
+}
+
+// Whether the packet fits the format, JPEG holds it in a single APP1 segment
+export function fitsXmp(format: ImageFormat, packet: string): boolean {
+  return format !== 'jpeg' || JPEG_XMP_ID.length + Buffer.byteLength(packet, 'utf8') <= JPEG_MAX_SEGMENT;
+}
+
+// Replace the given metadata segments in a JPEG or PNG file, or the XMP packet of a WebP or TIFF file
+export function spliceMetadata(image: Buffer, format: ImageFormat, segments: MetadataSegments): Buffer {
+  if (format === 'jpeg') return spliceJpegMetadata(image, segments);
+  if (format === 'png') return splicePngMetadata(image, segments);
+  if (format === 'webp' || format === 'tiff') {
+    const other = Object.keys(segments).filter((name) => name !== 'xmp' && segments[name as keyof MetadataSegments] !== undefined);
+    if (other.length > 0) {
+      throw new Error(`Only XMP can be written to ${format} without re-encoding`);
+    }
+    return format === 'webp' ? spliceWebpXmp(image, segments.xmp) : spliceTiffXmp(image, segments.xmp);
+  }
+  throw new Error(`Metadata cannot be written to ${format} without re-encoding`);
+}
+
+/**
+ * Markers are walked up to the first scan, everything from there on is
+ * entropy-coded data and copied as is. The new segments go right after SOI
+ * and the JFIF APP0 segment, where readers expect them.
+ */
+export function spliceJpegMetadata(jpeg: Buffer, segments: MetadataSegments): Buffer {
+  if (jpeg[0] !== 0xff || jpeg[1] !== 0xd8) {
+    throw new Error('Not a JPEG file');
+  }
+
+  const inserted: Buffer[] = [];
+  if (segments.exif) inserted.push(jpegSegment(APP1, Buffer.concat([JPEG_EXIF_ID, stripExifIdentifier(segments.exif)])));
+  if (segments.xmp) inserted.push(jpegSegment(APP1, Buffer.concat([JPEG_XMP_ID, Buffer.from(segments.xmp, 'utf8')])));
+  if (segments.iptc) inserted.push(jpegSegment(APP13, Buffer.concat([JPEG_PHOTOSHOP_ID, segments.iptc])));
+  if (segments.c2pa) inserted.push(...jumbfSegments(segments.c2pa));
+  if (segments.icc) {
+    // Profiles larger than a segment are split, each part numbered with its sequence number and the count
+    const chunkSize = JPEG_MAX_SEGMENT - JPEG_ICC_ID.length - 2;
+    const count = Math.ceil(segments.icc.length / chunkSize);
+    if (count > 255) {
+      throw new Error('ICC profile too large for JPEG');
+    }
+    for (let i = 0; i < count; i++) {
+      const chunk = segments.icc.subarray(i * chunkSize, (i + 1) * chunkSize);
+      inserted.push(jpegSegment(APP2, Buffer.concat([JPEG_ICC_ID, Buffer.from([i + 1, count]), chunk])));
+    }
+  }
+
+  const leading: Buffer[] = [];
+  const kept: Buffer[] = [];
+  let offset = 2;
+  while (offset < jpeg.length) {
+    if (jpeg[offset] !== 0xff) {
+      throw new Error('Malformed JPEG marker');
+    }
+    const marker = jpeg[offset + 1];
+    if (marker === 0xff) {
+      offset++; // Fill byte
+      continue;
+    }
+    if (marker === SOS) break;
+    if (offset + 4 > jpeg.length) {
+      throw new Error('Truncated JPEG file');
+    }
+
+    const end = offset + 2 + jpeg.readUInt16BE(offset + 2);
+    if (end > jpeg.length) {
+      throw new Error('Truncated JPEG file');
+    }
+    const segment = jpeg.subarray(offset, end);
+    const payload = segment.subarray(4);
+    const replaced = (marker === APP1 && segments.exif !== undefined && startsWith(payload, JPEG_EXIF_ID)) ||
+      (marker === APP1 && segments.xmp !== undefined && startsWith(payload, JPEG_XMP_ID)) ||
+      (marker === APP13 && segments.iptc !== undefined && startsWith(payload, JPEG_PHOTOSHOP_ID)) ||
+      (marker === APP2 && segments.icc && startsWith(payload, JPEG_ICC_ID)) ||
+      (marker === APP11 && segments.c2pa !== undefined && startsWith(payload, JUMBF_ID)) ||
+      (marker === COM && segments.comments !== undefined);
+
+    if (!replaced) {
+      if (marker === APP0 && kept.length === 0) leading.push(segment);
+      else kept.push(segment);
+    }
+    offset = end;
+  }
+  if (offset >= jpeg.length) {
+    throw new Error('JPEG file has no image data');
+  }
+
+  return Buffer.concat([jpeg.subarray(0, 2)].concat(leading, inserted, kept, [jpeg.subarray(offset)]));
+}
+
+/**
+ * EXIF goes into an eXIf chunk, XMP into the iTXt chunk Adobe defined and
+ * IPTC into the "Raw profile type iptc" text chunk ImageMagick and ExifTool
+ * use, and an ICC profile into iCCP, which replaces an sRGB chunk. New
+ * chunks are placed right after IHDR, ahead of the image data.
+ */
+export function splicePngMetadata(png: Buffer, segments: MetadataSegments): Buffer {
+  if (!startsWith(png, PNG_SIGNATURE)) {
+    throw new Error('Not a PNG file');
+  }
+
+  const inserted: Buffer[] = [];
+  if (segments.c2pa) inserted.push(pngChunk(PNG_C2PA_CHUNK, segments.c2pa));
+  if (segments.icc) {
+    inserted.push(pngChunk('iCCP', Buffer.concat([Buffer.from('ICC profile\0\0', 'latin1'), zlib.deflateSync(segments.icc)])));
+  }
+  if (segments.exif) inserted.push(pngChunk('eXIf', stripExifIdentifier(segments.exif)));
+  if (segments.xmp) {
+    // Uncompressed international text: keyword, null, compression flag and method, empty language and translated keyword
+    inserted.push(pngChunk('iTXt', Buffer.concat([
+      Buffer.from(PNG_XMP_KEYWORD + '\0\0\0\0\0', 'latin1'),
+      Buffer.from(segments.xmp, 'utf8'),
+    ])));
+  }
+  if (segments.iptc) {
+    inserted.push(pngChunk('zTXt', Buffer.concat([
+      Buffer.from(PNG_IPTC_KEYWORD + '\0\0', 'latin1'),
+      zlib.deflateSync(Buffer.from(rawProfile('iptc', segments.iptc), 'latin1')),
+    ])));
+  }
+
+  const chunks: Buffer[] = [];
+  let offset = PNG_SIGNATURE.length;
+  let afterHeader = -1;
+  while (offset + 12 <= png.length) {
+    const length = png.readUInt32BE(offset);
+    const type = png.toString('latin1', offset + 4, offset + 8);
+    const end = offset + 12 + length;
+    if (end > png.length) {
+      throw new Error('Truncated PNG file');
+    }
+    const chunk = png.subarray(offset, end);
+    const keyword = type === 'tEXt' || type === 'zTXt' || type === 'iTXt'
+      ? chunk.toString('latin1', 8, Math.min(end, 8 + 80)).split('\0')[0]
+      : '';
+    const replaced = (segments.exif !== undefined && (type === 'eXIf' || PNG_EXIF_KEYWORDS.indexOf(keyword) !== -1)) ||
+      (segments.xmp !== undefined && keyword === PNG_XMP_KEYWORD) ||
+      (segments.iptc !== undefined && keyword === PNG_IPTC_KEYWORD) ||
+      (segments.icc && (type === 'iCCP' || type === 'sRGB')) ||
+      (segments.c2pa !== undefined && type === PNG_C2PA_CHUNK) ||
+      (segments.comments !== undefined && keyword !== '' && PNG_METADATA_KEYWORDS.indexOf(keyword) === -1);
+
+    if (!replaced) chunks.push(chunk);
+    if (type === 'IHDR') afterHeader = chunks.length;
+    offset = end;
+    if (type === 'IEND') break;
+  }
+  if (afterHeader === -1) {
+    throw new Error('PNG file has no header chunk');
+  }
+
+  return Buffer.concat([PNG_SIGNATURE].concat(chunks.slice(0, afterHeader), inserted, chunks.slice(afterHeader)));
+}
+
+/**
+ * Read the Photoshop image resource blocks holding the IPTC record, without
+ * the JPEG identifier. JPEG splits large blocks over several APP13 segments,
+ * PNG stores them hex-encoded in the IPTC raw profile chunk. Null when there
+ * are none or the format has no place for them.
+ */
+export function readPhotoshopResources(image: Buffer, format: ImageFormat): Buffer | null {
+  if (format === 'jpeg') {
+    const parts: Buffer[] = [];
+    let offset = 2;
+    while (offset + 4 <= image.length && image[offset] === 0xff) {
+      const marker = image[offset + 1];
+      if (marker === 0xff) {
+        offset++;
+        continue;
+      }
+      if (marker === SOS) break;
+      const end = offset + 2 + image.readUInt16BE(offset + 2);
+      const payload = image.subarray(offset + 4, Math.min(end, image.length));
+      if (marker === APP13 && startsWith(payload, JPEG_PHOTOSHOP_ID)) parts.push(payload.subarray(JPEG_PHOTOSHOP_ID.length));
+      offset = end;
+    }
+    return parts.length > 0 ? Buffer.concat(parts) : null;
+  }
+
+  if (format === 'png' && startsWith(image, PNG_SIGNATURE)) {
+    let offset = PNG_SIGNATURE.length;
+    while (offset + 12 <= image.length) {
+      const length = image.readUInt32BE(offset);
+      const type = image.toString('latin1', offset + 4, offset + 8);
+      const data = image.subarray(offset + 8, Math.min(offset + 8 + length, image.length));
+      const keywordEnd = data.indexOf(0);
+      if ((type === 'tEXt' || type === 'zTXt' || type === 'iTXt') && keywordEnd !== -1 &&
+        data.toString('latin1', 0, keywordEnd) === PNG_IPTC_KEYWORD) {
+        const profile = readRawProfile(pngText(type, data.subarray(keywordEnd + 1)));
+        if (!profile) return null;
+        return startsWith(profile, JPEG_PHOTOSHOP_ID) ? profile.subarray(JPEG_PHOTOSHOP_ID.length) : profile;
+      }
+      if (type === 'IEND') break;
+      offset += 12 + length;
+    }
+  }
+  return null;
+}
+
+/**
+ * Read the C2PA manifest store, the JUMBF superbox labelled "c2pa"
+ * JPEG splits boxes over APP11 segments that repeat the box header after the
+ * first; PNG keeps the box in a caBX chunk and WebP in a C2PA chunk. Null when
+ * the file has none.
+ */
+export function readC2paManifestStore(image: Buffer, format: ImageFormat): Buffer | null {
+  const boxes: Buffer[] = [];
+  if (format === 'jpeg') {
+    const instances: Record<number, { sequence: number; data: Buffer }[]> = {};
+    let offset = 2;
+    while (offset + 4 <= image.length && image[offset] === 0xff) {
+      const marker = image[offset + 1];
+      if (marker === 0xff) {
+        offset++;
+        continue;
+      }
+      if (marker === SOS) break;
+      const end = offset + 2 + image.readUInt16BE(offset + 2);
+      const payload = image.subarray(offset + 4, Math.min(end, image.length));
+      if (marker === APP11 && startsWith(payload, JUMBF_ID) && payload.length > JUMBF_SEGMENT_HEADER + BOX_HEADER) {
+        const instance = payload.readUInt16BE(2);
+        (instances[instance] = instances[instance] ?? []).push({ sequence: payload.readUInt32BE(4), data: payload.subarray(JUMBF_SEGMENT_HEADER) });
+      }
+      offset = end;
+    }
+    for (const instance of Object.keys(instances)) {
+      const parts = instances[Number(instance)].sort((a, b) => a.sequence - b.sequence);
+      boxes.push(Buffer.concat(parts.map((part, i) => (i === 0 ? part.data : part.data.subarray(BOX_HEADER)))));
+    }
+  } else if (format === 'png' && startsWith(image, PNG_SIGNATURE)) {
+    let offset = PNG_SIGNATURE.length;
+    while (offset + 12 <= image.length) {
+      const length = image.readUInt32BE(offset);
+      const type = image.toString('latin1', offset + 4, offset + 8);
+      if (type === PNG_C2PA_CHUNK) boxes.push(image.subarray(offset + 8, Math.min(offset + 8 + length, image.length)));
+      if (type === 'IEND') break;
+      offset += 12 + length;
+    }
+  } else if (format === 'webp' && image.toString('latin1', 8, 12) === 'WEBP') {
+    let offset = 12;
+    while (offset + 8 <= image.length) {
+      const size = image.readUInt32LE(offset + 4);
+      if (image.toString('latin1', offset, offset + 4) === WEBP_C2PA_CHUNK) boxes.push(image.subarray(offset + 8, Math.min(offset + 8 + size, image.length)));
+      offset += 8 + size + (size & 1);
+    }
+  }
+  return boxes.filter((box) => jumbfLabel(box) === C2PA_LABEL)[0] ?? null;
+}
+
+/**
+ * Byte range of the manifest store as written by spliceMetadata: the run of
+ * APP11 JUMBF segments in JPEG, the whole caBX chunk in PNG. Null when there
+ * is none.
+ */
+export function locateC2paManifestStore(image: Buffer, format: ImageFormat): ByteRange | null {
+  if (format === 'jpeg') {
+    let start = -1;
+    let offset = 2;
+    while (offset + 4 <= image.length && image[offset] === 0xff) {
+      const marker = image[offset + 1];
+      if (marker === 0xff) {
+        offset++;
+        continue;
+      }
+      if (marker === SOS) break;
+      const end = offset + 2 + image.readUInt16BE(offset + 2);
+      const isJumbf = marker === APP11 && startsWith(image.subarray(offset + 4, Math.min(end, image.length)), JUMBF_ID);
+      if (isJumbf && start === -1) start = offset;
+      if (!isJumbf && start !== -1) return { start, length: offset - start };
+      offset = end;
+    }
+    return start === -1 ? null : { start, length: offset - start };
+  }
+
+  if (format === 'png' && startsWith(image, PNG_SIGNATURE)) {
+    let offset = PNG_SIGNATURE.length;
+    while (offset + 12 <= image.length) {
+      const length = image.readUInt32BE(offset);
+      const type = image.toString('latin1', offset + 4, offset + 8);
+      if (type === PNG_C2PA_CHUNK) return { start: offset, length: 12 + length };
+      if (type === 'IEND') break;
+      offset += 12 + length;
+    }
+  }
+  return null;
+}
+
+// Split a JUMBF box over APP11 segments, every one after the first repeating the box header
+function jumbfSegments(box: Buffer): Buffer[] {
+  const header = box.subarray(0, BOX_HEADER);
+  const firstSize = JPEG_MAX_SEGMENT - JUMBF_SEGMENT_HEADER;
+  const restSize = firstSize - BOX_HEADER;
+  const segments: Buffer[] = [];
+  let offset = 0;
+  for (let sequence = 1; offset < box.length; sequence++) {
+    const data = sequence === 1
+      ? box.subarray(0, firstSize)
+      : Buffer.concat([header, box.subarray(offset, offset + restSize)]);
+    offset += sequence === 1 ? firstSize : restSize;
+    const numbers = Buffer.alloc(JUMBF_SEGMENT_HEADER - JUMBF_ID.length);
+    numbers.writeUInt16BE(JUMBF_INSTANCE, 0);
+    numbers.writeUInt32BE(sequence, 2);
+    segments.push(jpegSegment(APP11, Buffer.concat([JUMBF_ID, numbers, data])));
+  }
+  return segments;
+}
+
+// Label of a JUMBF superbox, from the description box that opens it: UUID, toggles, then the label if flagged
+function jumbfLabel(box: Buffer): string | null {
+  const description = BOX_HEADER;
+  if (box.length < description + BOX_HEADER + 17 || box.toString('latin1', 4, 8) !== 'jumb' ||
+    box.toString('latin1', description + 4, description + 8) !== 'jumd') return null;
+  const toggles = box[description + BOX_HEADER + 16];
+  if (!(toggles & 0x02)) return null;
+  const start = description + BOX_HEADER + 17;
+  const end = box.indexOf(0, start);
+  return end === -1 ? null : box.toString('utf8', start, end);
+}
+
+/**
+ * XMP lives in an "XMP " chunk at the end of an extended WebP file, flagged
+ * in the VP8X header. Simple files (a lone VP8 or VP8L chunk) get a VP8X
+ * chunk first, with the canvas size read from the bitstream header.
+ */
+export function spliceWebpXmp(webp: Buffer, xmp: string | null | undefined): Buffer {
+  if (webp.toString('latin1', 0, 4) !== 'RIFF' || webp.toString('latin1', 8, 12) !== 'WEBP') {
+    throw new Error('Not a WebP file');
+  }
+  if (xmp === undefined) return webp;
+
+  const chunks: { type: string; data: Buffer }[] = [];
+  let offset = 12;
+  while (offset + 8 <= webp.length) {
+    const type = webp.toString('latin1', offset, offset + 4);
+    const size = webp.readUInt32LE(offset + 4);
+    if (offset + 8 + size > webp.length) {
+      throw new Error('Truncated WebP file');
+    }
+    if (type !== 'XMP ') chunks.push({ type, data: webp.subarray(offset + 8, offset + 8 + size) });
+    offset += 8 + size + (size & 1);
+  }
+
+  let header = chunks.filter((chunk) => chunk.type === 'VP8X')[0];
+  if (!header) {
+    if (xmp === null) return webp;
+    header = { type: 'VP8X', data: webpExtendedHeader(chunks) };
+    chunks.unshift(header);
+  }
+  header.data = Buffer.from(header.data);
+  header.data[0] = xmp ? header.data[0] | WEBP_XMP_FLAG : header.data[0] & ~WEBP_XMP_FLAG;
+  if (xmp) chunks.push({ type: 'XMP ', data: Buffer.from(xmp, 'utf8') });
+
+  const body = chunks.map(({ type, data }) => {
+    const chunkHeader = Buffer.alloc(8);
+    chunkHeader.write(type, 0, 'latin1');
+    chunkHeader.writeUInt32LE(data.length, 4);
+    return Buffer.concat([chunkHeader, data, Buffer.alloc(data.length & 1)]);
+  });
+  const riff = Buffer.from('RIFF\0\0\0\0WEBP', 'latin1');
+  const file = Buffer.concat([riff].concat(body));
+  file.writeUInt32LE(file.length - 8, 4);
+  return file;
+}
+
+/**
+ * XMP is tag 700 of IFD0. A copy of IFD0 with the new tag is appended to the
+ * file and the header pointed at it, like EXIF tags are merged: nothing
+ * moves, so the offsets of the image data stay valid.
+ */
+export function spliceTiffXmp(tiff: Buffer, xmp: string | null | undefined): Buffer {
+  const byteOrder = tiff.toString('latin1', 0, 2);
+  if (tiff.length < 8 || (byteOrder !== 'II' && byteOrder !== 'MM')) {
+    throw new Error('Not a TIFF file');
+  }
+  const little = byteOrder === 'II';
+  const u16 = (offset: number) => (little ? tiff.readUInt16LE(offset) : tiff.readUInt16BE(offset));
+  const u32 = (offset: number) => (little ? tiff.readUInt32LE(offset) : tiff.readUInt32BE(offset));
+  if (u16(2) !== 42) {
+    throw new Error('BigTIFF files are not supported');
+  }
+  if (xmp === undefined) return tiff;
+
+  const ifd0 = u32(4);
+  if (ifd0 + 2 > tiff.length) {
+    throw new Error('Malformed TIFF file');
+  }
+  const count = u16(ifd0);
+  if (ifd0 + 2 + count * 12 + 4 > tiff.length) {
+    throw new Error('Truncated TIFF file');
+  }
+  const entries: Buffer[] = [];
+  for (let i = 0; i < count; i++) {
+    const entry = tiff.subarray(ifd0 + 2 + i * 12, ifd0 + 14 + i * 12);
+    if (u16(ifd0 + 2 + i * 12) !== TIFF_XMP_TAG) entries.push(entry);
+  }
+  const nextIfd = u32(ifd0 + 2 + count * 12);
+
+  // The new IFD starts on a word boundary, its XMP value follows it
+  const ifdOffset = tiff.length + (tiff.length & 1);
+  const value = xmp ? Buffer.from(xmp, 'utf8') : null;
+  const total = entries.length + (value ? 1 : 0);
+  const ifd = Buffer.alloc(2 + total * 12 + 4);
+  const w16 = (number: number, offset: number) => (little ? ifd.writeUInt16LE(number, offset) : ifd.writeUInt16BE(number, offset));
+  const w32 = (number: number, offset: number) => (little ? ifd.writeUInt32LE(number, offset) : ifd.writeUInt32BE(number, offset));
+
+  const tagOf = (entry: Buffer) => (little ? entry.readUInt16LE(0) : entry.readUInt16BE(0));
+  const xmpAt = entries.filter((entry) => tagOf(entry) < TIFF_XMP_TAG).length;
+  w16(total, 0);
+  entries.forEach((entry, i) => entry.copy(ifd, 2 + (i < xmpAt || !value ? i : i + 1) * 12));
+  if (value) {
+    const entry = 2 + xmpAt * 12;
+    w16(TIFF_XMP_TAG, entry);
+    w16(TIFF_BYTE, entry + 2);
+    w32(value.length, entry + 4);
+    w32(ifdOffset + ifd.length, entry + 8);
+  }
+  w32(nextIfd, ifd.length - 4);
+
+  const header = Buffer.from(tiff.subarray(0, 8));
+  if (little) header.writeUInt32LE(ifdOffset, 4);
+  else header.writeUInt32BE(ifdOffset, 4);
+  return Buffer.concat([header, tiff.subarray(8), Buffer.alloc(ifdOffset - tiff.length), ifd, value ?? Buffer.alloc(0)]);
+}
+
+// VP8X chunk for a simple file: flags, then the canvas width and height less one as 24-bit numbers
+function webpExtendedHeader(chunks: { type: string; data: Buffer }[]): Buffer {
+  const image = chunks.filter((chunk) => chunk.type === 'VP8 ' || chunk.type === 'VP8L')[0];
+  if (!image || image.data.length < 10) {
+    throw new Error('WebP file has no image data');
+  }
+  let width: number;
+  let height: number;
+  let flags = 0;
+  if (image.type === 'VP8L') {
+    // Signature byte, then 14 bits each of width and height less one and the alpha hint
+    const bits = image.data.readUInt32LE(1);
+    width = (bits & 0x3fff) + 1;
+    height = ((bits >>> 14) & 0x3fff) + 1;
+    if ((bits >>> 28) & 1) flags |= WEBP_ALPHA_FLAG;
+  } else {
+    // Frame tag and start code, then 14-bit width and height with two scaling bits each
+    width = image.data.readUInt16LE(6) & 0x3fff;
+    height = image.data.readUInt16LE(8) & 0x3fff;
+  }
+  const header = Buffer.alloc(10);
+  header[0] = flags;
+  header.writeUIntLE(width - 1, 4, 3);
+  header.writeUIntLE(height - 1, 7, 3);
+  return header;
+}
+
+function jpegSegment(marker: number, payload: Buffer): Buffer {
+  if (payload.length > JPEG_MAX_SEGMENT) {
+    throw new Error('Metadata segment too large for JPEG');
+  }
+  const header = Buffer.from([0xff, marker, 0, 0]);
+  header.writeUInt16BE(payload.length + 2, 2);
+  return Buffer.concat([header, payload]);
+}
+
+function pngChunk(type: string, data: Buffer): Buffer {
+  const header = Buffer.alloc(8);
+  header.writeUInt32BE(data.length, 0);
+  header.write(type, 4, 'latin1');
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(Buffer.concat([header.subarray(4), data])), 0);
+  return Buffer.concat([header, data, crc]);
+}
+
+// CRC-32 as used by PNG chunks, zlib.crc32 is missing from older Node 20 releases
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+function crc32(bytes: Buffer): number {
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) crc = CRC_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+// ImageMagick's text encoding of binary profiles: name, length and hex lines of 72 characters
+function rawProfile(name: string, data: Buffer): string {
+  const hex = data.toString('hex').replace(/(.{72})/g, '$1\n');
+  return `\n${name}\n${String(data.length).padStart(8)}\n${hex}\n`;
+}
+
+// Text of a text chunk after its keyword, inflated when compressed
+function pngText(type: string, data: Buffer): string {
+  if (type === 'tEXt') return data.toString('latin1');
+  if (type === 'zTXt') return zlib.inflateSync(data.subarray(1)).toString('latin1');
+  // iTXt: compression flag and method, then the language tag and the translated keyword
+  const language = data.indexOf(0, 2);
+  const text = data.indexOf(0, language + 1) + 1;
+  return (data[0] ? zlib.inflateSync(data.subarray(text)) : data.subarray(text)).toString('utf8');
+}
+
+function readRawProfile(text: string): Buffer | null {
+  const match = /^\s*\S+\s+(\d+)\s+([0-9a-f\s]*)$/i.exec(text);
+  if (!match) return null;
+  const data = Buffer.from(match[2].replace(/\s+/g, ''), 'hex');
+  return data.length === parseInt(match[1], 10) ? data : null;
+}
+
+function stripExifIdentifier(exif: Buffer): Buffer {
+  return startsWith(exif, JPEG_EXIF_ID) ? exif.subarray(JPEG_EXIF_ID.length) : exif;
+}
+
+function startsWith(buffer: Buffer, prefix: Buffer): boolean {
+  return buffer.length >= prefix.length && buffer.subarray(0, prefix.length).equals(prefix);
+}
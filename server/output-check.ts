@@ -0,0 +1,272 @@
+import fs from 'fs';
+import sharp from 'sharp';
+import { decodeExif, type ExifTags } from './exif';
+import { readPhotoshopResources } from './metadata-splice';
+import { readXmpProperties } from './xmp';
+import { decodeIptc } from './iptc';
+import { detectInvisibleWatermark } from './invisible-watermark';
+import { checkTamper } from './fragile-watermark';
+import { verifyC2paManifest } from './c2pa';
+import { IMAGE_FORMATS, type ImageFormat } from '@shared/image-formats';
+import type { XmpProperty } from '@shared/xmp-rights';
+import type { IptcField } from '@shared/iptc-notice';
+import type { MetadataValue } from '@shared/decoded-metadata';
+import type { StageFailure } from '@shared/verification';
+
+/**
+ * Output verification
+ *
+ * Re-reads the file `processImage` wrote and checks that every stage the
+ * request asked for is in it: the visible watermark changed the pixels under
+ * it, the notices are in the metadata, the noise survived the encoder, the
+ * invisible watermark decodes to the owner ID, the tamper seal is intact and
+ * the signed C2PA manifest validates against the final bytes.
+ * Encoders and metadata writers drop things without an error, so only the
+ * written file tells whether the image is protected as requested.
+ *
+ * Pixels are compared on the first frame of animations.
+ */
+
+// Grey levels the visible watermark has to change the pixels under it by, beyond the change elsewhere
+const MIN_WATERMARK_CONTRAST = 0.5;
+// Correlation of the output's change in brightness with the noise's, about 1% of its energy; JPEG at quality 80 keeps more from intensity 3
+const MIN_NOISE_CORRELATION = 0.1;
+const LUMA_WEIGHTS = [0.299, 0.587, 0.114];
+
+export interface WatermarkReference {
+  width: number;
+  height: number;
+  pixels: Buffer; // Grey levels of the first frame before the watermark was drawn
+  coverage: Buffer; // Alpha of the visible overlays per pixel, 0 where nothing is drawn
+}
+
+export interface NoiseSignal {
+  width: number;
+  height: number; // Of the first frame
+  channels: number; // Colour channels, alpha is not noised
+  before: Buffer; // Colour samples of the first frame before the noise
+  deltas: Float32Array; // Noise added to each of them, in grey levels
+}
+
+// What the output has to contain, one entry per requested stage
+export interface OutputExpectations {
+  exifTags?: ExifTags;
+  xmpProperties?: XmpProperty[];
+  iptcFields?: IptcField[];
+  watermark?: WatermarkReference | null;
+  noise?: NoiseSignal | null;
+  invisibleOwnerId?: bigint | null;
+  tamperSeal?: boolean;
+  c2paManifest?: boolean;
+}
+
+// Thrown by processImage when a requested stage is missing from its output
+export class ProtectionVerificationError extends Error {
+  failures: StageFailure[];
+
+  constructor(failures: StageFailure[]) {
+    super(`The processed image is missing requested protections: ${failures.map((failure) => failure.message).join('; ')}`);
+    this.name = 'ProtectionVerificationError';
+    this.failures = failures;
+  }
+}
+
+/**
+ * Record what the image looks like where the visible overlays will be drawn
+ * Called with the overlays as built, before they are converted to the
+ * working colour space or repeated per frame.
+ */
+export async function captureWatermarkReference(
+  imagePath: string,
+  overlays: sharp.OverlayOptions[],
+  width: number,
+  height: number
+): Promise<WatermarkReference> {
+  const pixels = await readGrey(sharp(imagePath));
+  const coverage = await sharp({ create: { width, height, channels: 4, background: { r: 0, g: 0, b: 0, alpha: 0 } } })
+    .composite(overlays.map((overlay) => ({ ...overlay, blend: 'over' as const })))
+    .extractChannel(3)
+    .raw()
+    .toBuffer();
+  return { width, height, pixels, coverage };
+}
+
+// Every requested stage that is not in the written file
+export async function verifyOutput(outputPath: string, format: ImageFormat, expected: OutputExpectations): Promise<StageFailure[]> {
+  const content = fs.readFileSync(outputPath);
+  const metadata = await sharp(content).metadata();
+  const failures: StageFailure[] = [];
+  const fail = (failure: StageFailure | null) => {
+    if (failure) failures.push(failure);
+  };
+
+  if (expected.exifTags && Object.keys(expected.exifTags).length > 0) fail(exifFailure(metadata.exif, expected.exifTags));
+  if (expected.xmpProperties && expected.xmpProperties.length > 0) fail(xmpFailure(metadata.xmp, expected.xmpProperties));
+  if (expected.iptcFields && expected.iptcFields.length > 0) fail(iptcFailure(readPhotoshopResources(content, format), expected.iptcFields));
+  if (expected.watermark) fail(await watermarkFailure(content, expected.watermark));
+  if (expected.noise) fail(await noiseFailure(content, expected.noise, format));
+  if (expected.invisibleOwnerId !== undefined && expected.invisibleOwnerId !== null) {
+    fail(await invisibleWatermarkFailure(outputPath, expected.invisibleOwnerId));
+  }
+  if (expected.tamperSeal) fail(await tamperSealFailure(outputPath));
+  if (expected.c2paManifest) fail(c2paFailure(content, format));
+  return failures;
+}
+
+// The pixel stages a lossy encoder can remove, checked on the encoded image before the metadata is written
+export async function lossyStageFailures(content: Buffer, format: ImageFormat, expected: OutputExpectations): Promise<StageFailure[]> {
+  const failures: StageFailure[] = [];
+  const noise = expected.noise ? await noiseFailure(content, expected.noise, format) : null;
+  if (noise) failures.push(noise);
+  const invisible = expected.invisibleOwnerId !== undefined && expected.invisibleOwnerId !== null
+    ? await invisibleWatermarkFailure(content, expected.invisibleOwnerId)
+    : null;
+  if (invisible) failures.push(invisible);
+  return failures;
+}
+
+function exifFailure(exif: Buffer | undefined, tags: ExifTags): StageFailure | null {
+  if (!exif) return { stage: 'exifNotice', message: 'The output has no EXIF data' };
+  const ifds = decodeExif(exif);
+  const missing = Object.keys(tags).filter((name) => !sameText(ifds.IFD0[name] ?? ifds.Exif[name], tags[name]));
+  return missing.length > 0
+    ? { stage: 'exifNotice', message: `EXIF is missing the notice in ${missing.join(', ')}` }
+    : null;
+}
+
+function xmpFailure(xmp: Buffer | undefined, properties: XmpProperty[]): StageFailure | null {
+  if (!xmp) return { stage: 'xmpRights', message: 'The output has no XMP packet' };
+  const namespaces = readXmpProperties(xmp.toString('utf8'));
+  const missing = properties
+    .filter((property) => {
+      const [prefix, name] = property.name.split(':');
+      return !sameText((namespaces[prefix] ?? {})[name], property.value);
+    })
+    .map((property) => property.name);
+  return missing.length > 0
+    ? { stage: 'xmpRights', message: `XMP is missing ${missing.join(', ')}` }
+    : null;
+}
+
+function iptcFailure(resources: Buffer | null, fields: IptcField[]): StageFailure | null {
+  if (!resources) return { stage: 'iptcNotice', message: 'The output has no IPTC-IIM record' };
+  const record = decodeIptc(resources);
+  const missing = fields.filter((field) => !sameText(record[field.name], field.value)).map((field) => field.name);
+  return missing.length > 0
+    ? { stage: 'iptcNotice', message: `The IPTC record is missing ${missing.join(', ')}` }
+    : null;
+}
+
+// Decoded values are typed, the written ones are text; repeatable fields match when one of their values does
+function sameText(actual: MetadataValue | undefined, expected: string): boolean {
+  if (actual === undefined) return false;
+  if (Array.isArray(actual)) return actual.some((value) => String(value).trim() === expected.trim());
+  if (typeof actual === 'boolean') return String(actual) === expected.toLowerCase();
+  return String(actual).trim() === expected.trim();
+}
+
+// The pixels under the overlays have to change more than the rest of the image, which the noise and the encoder also change
+async function watermarkFailure(content: Buffer, reference: WatermarkReference): Promise<StageFailure | null> {
+  const pixels = await readGrey(sharp(content));
+  if (pixels.length !== reference.pixels.length) {
+    return { stage: 'watermark', message: `The output does not have the ${reference.width}x${reference.height} pixels of the watermarked image` };
+  }
+
+  let covered = 0;
+  let inside = 0;
+  let outside = 0;
+  let outsideCount = 0;
+  for (let i = 0; i < pixels.length; i++) {
+    const change = Math.abs(pixels[i] - reference.pixels[i]);
+    const weight = reference.coverage[i] / 255;
+    if (weight > 0) {
+      covered += weight;
+      inside += change * weight;
+    } else {
+      outside += change;
+      outsideCount++;
+    }
+  }
+  if (covered < 1) {
+    return { stage: 'watermark', message: 'The watermark has no visible pixels inside the image' };
+  }
+  const contrast = inside / covered - (outsideCount > 0 ? outside / outsideCount : 0);
+  return contrast < MIN_WATERMARK_CONTRAST
+    ? { stage: 'watermark', message: `The watermark changed the pixels under it by only ${contrast.toFixed(2)} grey levels` }
+    : null;
+}
+
+async function noiseFailure(content: Buffer, signal: NoiseSignal, format: ImageFormat): Promise<StageFailure | null> {
+  const correlation = await noiseCorrelation(content, signal);
+  if (correlation === null) {
+    return { stage: 'noise', message: 'The output does not have the size or the channels of the noised image' };
+  }
+  return correlation < MIN_NOISE_CORRELATION
+    ? {
+      stage: 'noise',
+      message: `The ${IMAGE_FORMATS[format].label} encoder removed the adversarial noise (correlation ${correlation.toFixed(2)}); a higher intensity, Perlin noise or a lossless format keeps it`,
+    }
+    : null;
+}
+
+/**
+ * Normalised correlation of the change in brightness with the noise's, null
+ * when the image does not have the size of the noised one; chroma
+ * subsampling removes the colour part of it
+ */
+async function noiseCorrelation(content: Buffer, signal: NoiseSignal): Promise<number | null> {
+  const { data, info } = await sharp(content).raw().toBuffer({ resolveWithObject: true });
+  const colours = info.channels === 2 || info.channels === 4 ? info.channels - 1 : info.channels;
+  if (info.width !== signal.width || info.height !== signal.height || colours !== signal.channels) {
+    return null;
+  }
+
+  const weights = colours === 3 ? LUMA_WEIGHTS : new Array<number>(colours).fill(1 / colours);
+  let product = 0;
+  let changeEnergy = 0;
+  let noiseEnergy = 0;
+  for (let pixel = 0; pixel < info.width * info.height; pixel++) {
+    let change = 0;
+    let delta = 0;
+    for (let c = 0; c < colours; c++) {
+      const index = pixel * colours + c;
+      change += weights[c] * (data[pixel * info.channels + c] - signal.before[index]);
+      delta += weights[c] * signal.deltas[index];
+    }
+    product += change * delta;
+    changeEnergy += change * change;
+    noiseEnergy += delta * delta;
+  }
+  return changeEnergy > 0 && noiseEnergy > 0 ? product / Math.sqrt(changeEnergy * noiseEnergy) : 0;
+}
+
+async function invisibleWatermarkFailure(outputPath: string | Buffer, ownerId: bigint): Promise<StageFailure | null> {
+  const detection = await detectInvisibleWatermark(outputPath);
+  const expected = ownerId.toString(16).padStart(16, '0');
+  if (!detection.detected || detection.ownerId === null) {
+    return { stage: 'invisibleWatermark', message: 'The invisible watermark cannot be detected in the output' };
+  }
+  return detection.ownerId !== expected
+    ? { stage: 'invisibleWatermark', message: `The invisible watermark decodes to owner ID ${detection.ownerId} instead of ${expected}` }
+    : null;
+}
+
+async function tamperSealFailure(outputPath: string): Promise<StageFailure | null> {
+  const report = await checkTamper(outputPath);
+  if (report.status === 'intact') return null;
+  return report.status === 'unmarked'
+    ? { stage: 'tamperSeal', message: 'The output has no tamper seal' }
+    : { stage: 'tamperSeal', message: `The tamper seal fails in ${report.tamperedBlocks} of ${report.totalBlocks} blocks` };
+}
+
+function c2paFailure(content: Buffer, format: ImageFormat): StageFailure | null {
+  const validation = verifyC2paManifest(content, format);
+  return validation.status === 'valid'
+    ? null
+    : { stage: 'c2paManifest', message: `The C2PA manifest does not validate: ${validation.details}` };
+}
+
+// Transparent areas are read as black, so marks drawn over them count as a change
+function readGrey(image: sharp.Sharp): Promise<Buffer> {
+  return image.flatten().greyscale().raw().toBuffer();
+}
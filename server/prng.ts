@@ -0,0 +1,28 @@
+/**
+ * Small seedable pseudo-random number generators
+ * Used wherever a pattern has to be reproduced exactly from a key
+ */
+
+// Hash an arbitrary string into a 32-bit seed (xmur3)
+export function hashSeed(value: string): number {
+  let h = 1779033703 ^ value.length;
+  for (let i = 0; i < value.length; i++) {
+    h = Math.imul(h ^ value.charCodeAt(i), 3432918353);
+    h = (h << 13) | (h >>> 19);
+  }
+  h = Math.imul(h ^ (h >>> 16), 2246822507);
+  h = Math.imul(h ^ (h >>> 13), 3266489909);
+  return (h ^= h >>> 16) >>> 0;
+}
+
+// Create a mulberry32 generator returning floats in [0, 1)
+export function createPrng(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
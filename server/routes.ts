@@ -2,22 +2,105 @@ import type { Express, Request, Response } from "express";
 import { createServer, type Server } from "http";
 import path from "path";
 import fs from "fs";
-import { upload, processImage, extractExifData } from "./storage";
+import { upload, processImage, extractExifData, resolveExifNotice, resolveWatermarkText } from "./storage";
+import { detectInvisibleWatermark, parseOwnerId } from "./invisible-watermark";
+import { checkTamper } from "./fragile-watermark";
+import { DETECTABLE_NOISE_METHODS, detectNoisePattern, MAX_NOISE_SEED_LENGTH, NOISE_METHODS, type NoiseMethod } from "./adversarial-noise";
+import { verifyProtections } from "./verify";
+import { ProtectionVerificationError } from "./output-check";
+import { c2paSigningAvailable } from "./c2pa";
+import { watermarkSecretConfigured } from "./watermark-keys";
+import { FONT_CONTENT_TYPES, getFont, getFontPath, listFonts, registerStoredFonts, saveFont } from "./fonts";
+import { detectFileFormat, estimateEncodedSize } from "./image-format";
+import { detectImageFormat, IMAGE_FORMATS, withFormatExtension } from "@shared/image-formats";
+import { parseOutputSettings } from "@shared/output-settings";
+import { parseXmpRights } from "@shared/xmp-rights";
+import { parseIptcNotice } from "@shared/iptc-notice";
+import { exifNoticeDifferences, parseExifNotice, parseExifPreview } from "@shared/exif-notice";
+import { parseTemplateDate, parseTemplateVariables } from "@shared/watermark-template";
+import { DEFAULT_CONTRAST_RATIO, MAX_CONTRAST_RATIO, MIN_CONTRAST_RATIO } from "@shared/contrast";
+import type { ExifTags } from "./exif";
 import multer from "multer";
+import sharp from "sharp";
 
 export async function registerRoutes(app: Express): Promise<Server> {
+  // Make previously uploaded fonts available to the watermark renderer
+  await registerStoredFonts();
+
   // API endpoint for processing images
-  app.post('/api/process-image', upload.single('image'), async (req, res) => {
+  app.post('/api/process-image', upload.fields([
+    { name: 'image', maxCount: 1 },
+    { name: 'logo', maxCount: 1 }
+  ]), async (req, res) => {
     try {
-      if (!req.file) {
+      const files = req.files as { [fieldname: string]: Express.Multer.File[] } | undefined;
+      const imageFile = files?.image?.[0];
+      const logoFile = files?.logo?.[0];
+      
+      if (!imageFile) {
         return res.status(400).json({ message: 'No image file provided' });
       }
 
+      const output = parseOutputSettings(req.body.output);
+      if (!output) {
+        return res.status(400).json({ message: 'Invalid output settings' });
+      }
+      const xmpRights = parseXmpRights(req.body.xmp);
+      if (!xmpRights) {
+        return res.status(400).json({ message: 'Invalid XMP rights settings' });
+      }
+      const iptcNotice = parseIptcNotice(req.body.iptc);
+      if (!iptcNotice) {
+        return res.status(400).json({ message: 'Invalid IPTC notice settings' });
+      }
+      const exifNotice = parseExifNotice(req.body.exifNotice);
+      if (!exifNotice) {
+        return res.status(400).json({ message: 'Invalid EXIF notice settings' });
+      }
+      const c2paManifest = req.body.c2pa === 'true';
+      if (c2paManifest && !c2paSigningAvailable()) {
+        return res.status(400).json({ message: 'C2PA signing is not configured on this server' });
+      }
+      if (!detectFileFormat(imageFile.path)) {
+        return res.status(400).json({ message: 'Unsupported image format. Please upload a JPG, PNG, WebP, AVIF, TIFF or GIF file.' });
+      }
+
+      const numbers = parseNumberFields(req.body);
+      if (typeof numbers === 'string') {
+        return res.status(400).json({ message: `${numbers} must be a number` });
+      }
+
       const watermarkSettings = {
-        text: req.body.text || 'Not for AI training',
+        text: await resolveWatermarkText(req.body.text || 'Not for AI training', imageFile.path, imageFile.originalname),
         position: req.body.position || 'bottom-right',
-        opacity: parseInt(req.body.opacity || '70', 10),
-        fontSize: parseInt(req.body.fontSize || '24', 10),
+        placement: parsePlacement(req.body.placementX, req.body.placementY),
+        autoStrategy: (req.body.autoStrategy === 'aggressive' ? 'aggressive' : 'unobtrusive') as 'aggressive' | 'unobtrusive',
+        opacity: numbers.opacity,
+        fontSize: numbers.fontSize,
+        mode: (req.body.mode === 'tiled' ? 'tiled' : 'single') as 'single' | 'tiled',
+        tileAngle: numbers.tileAngle,
+        tileSpacing: numbers.tileSpacing,
+        tileStagger: numbers.tileStagger,
+        fillColor: req.body.fillColor || '#ffffff',
+        strokeColor: req.body.strokeColor || '#000000',
+        strokeWidth: numbers.strokeWidth,
+        rotation: numbers.rotation,
+        fontFamily: req.body.fontFamily || 'Arial',
+        fontWeight: numbers.fontWeight,
+        letterSpacing: numbers.letterSpacing,
+        shadow: req.body.shadow !== 'false',
+        background: req.body.background === 'true',
+        backgroundColor: req.body.backgroundColor || '#000000',
+        backgroundOpacity: numbers.backgroundOpacity,
+        autoContrast: req.body.autoContrast === 'true',
+        contrastRatio: numbers.contrastRatio,
+        logo: logoFile ? {
+          path: logoFile.path,
+          scale: numbers.logoScale,
+          opacity: numbers.logoOpacity,
+          position: req.body.logoPosition || 'bottom-left',
+          margin: numbers.logoMargin,
+        } : undefined,
       };
 
       const addExifProtection = req.body.exifProtection !== 'false';
@@ -25,22 +108,77 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Parse adversarial noise settings
       const adversarialSettings = {
         enabled: req.body.adversarialEnabled === 'true',
-        intensity: parseInt(req.body.adversarialIntensity || '5', 10),
-        method: (req.body.adversarialMethod || 'gaussian') as 'gaussian' | 'uniform' | 'perlin'
+        intensity: numbers.adversarialIntensity,
+        method: (req.body.adversarialMethod || 'gaussian') as NoiseMethod,
+        seed: req.body.adversarialSeed || ''
       };
+      if (adversarialSettings.seed.length > MAX_NOISE_SEED_LENGTH) {
+        return res.status(400).json({ message: `Noise seed must be at most ${MAX_NOISE_SEED_LENGTH} characters` });
+      }
+      if (NOISE_METHODS.indexOf(adversarialSettings.method) === -1) {
+        return res.status(400).json({ message: `Noise method must be one of ${NOISE_METHODS.join(', ')}` });
+      }
+
+      // Parse invisible watermark settings
+      const invisibleSettings = {
+        enabled: req.body.invisibleEnabled === 'true',
+        ownerId: req.body.invisibleOwnerId || '',
+        strength: numbers.invisibleStrength
+      };
+      
+      if (invisibleSettings.enabled && parseOwnerId(invisibleSettings.ownerId) === null) {
+        return res.status(400).json({ message: 'Owner ID must be 1-16 hexadecimal digits' });
+      }
+      
+      const tamperProtection = req.body.tamperProtection === 'true';
+      if (tamperProtection && !watermarkSecretConfigured()) {
+        return res.status(400).json({ message: 'Tamper protection needs WATERMARK_SECRET to be set on this server' });
+      }
+
+      const exifPreview = req.body.exifPreview === undefined ? null : parseExifPreview(req.body.exifPreview);
+      if (req.body.exifPreview !== undefined && !exifPreview) {
+        return res.status(400).json({ message: 'Invalid EXIF preview' });
+      }
+      // {date} and {year} are resolved with the day of the client's preview, not the server's clock
+      const templateDate = req.body.templateDate === undefined ? null : parseTemplateDate(req.body.templateDate);
+      if (req.body.templateDate !== undefined && !templateDate) {
+        return res.status(400).json({ message: 'Template date must be YYYY-MM-DD' });
+      }
+      const exifTags = await resolveExifNotice(exifNotice, imageFile.path, imageFile.originalname, null, templateDate);
+      checkExifPreview(exifPreview, exifTags);
 
       // Process the image
-      const processedImagePath = await processImage(
-        req.file.path,
+      const { path: processedImagePath, format, watermarkRegion, raisedQuality } = await processImage(
+        imageFile.path,
         watermarkSettings,
         addExifProtection,
         false, // exifOnlyMode
-        adversarialSettings
+        adversarialSettings,
+        invisibleSettings,
+        tamperProtection,
+        output,
+        xmpRights,
+        iptcNotice,
+        exifTags,
+        c2paManifest
       );
 
+      // The output format may differ from the upload, e.g. tamper protection needs a lossless one
+      const downloadName = withFormatExtension(imageFile.originalname, format);
+
       // Set headers for file download
-      res.setHeader('Content-Disposition', `attachment; filename="watermarked-${req.file.originalname}"`);
-      res.setHeader('Content-Type', 'image/jpeg');
+      res.setHeader('Content-Disposition', `attachment; filename="watermarked-${downloadName}"`);
+      res.setHeader('Content-Type', IMAGE_FORMATS[format].contentType);
+
+      // Report a quality raised so the noise or the invisible watermark survives the encoder
+      if (raisedQuality) {
+        res.setHeader('X-Output-Quality', JSON.stringify(raisedQuality));
+      }
+      
+      // Report where content-aware placement put the watermark
+      if (watermarkRegion) {
+        res.setHeader('X-Watermark-Region', JSON.stringify(watermarkRegion));
+      }
 
       // Stream the file to the client
       const fileStream = fs.createReadStream(processedImagePath);
@@ -53,12 +191,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
         
         // Clean up the original uploaded file
-        fs.unlink(req.file!.path, (err) => {
+        fs.unlink(imageFile.path, (err) => {
           if (err) console.error('Error cleaning up uploaded file:', err);
         });
+        
+        // Clean up the uploaded logo
+        if (logoFile) {
+          fs.unlink(logoFile.path, (err) => {
+            if (err) console.error('Error cleaning up uploaded logo:', err);
+          });
+        }
       });
     } catch (error) {
       console.error('Error processing image:', error);
+      if (error instanceof ProtectionVerificationError) {
+        return res.status(422).json({ message: error.message, failures: error.failures });
+      }
       res.status(500).json({ message: 'Failed to process image' });
     }
   });
@@ -85,6 +233,104 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // API endpoint for detecting the invisible owner ID watermark
+  app.post('/api/detect-watermark', upload.single('image'), async (req, res) => {
+    try {
+      if (!req.file) {
+        return res.status(400).json({ message: 'No image file provided' });
+      }
+
+      const detection = await detectInvisibleWatermark(req.file.path);
+      
+      // Clean up the uploaded file
+      fs.unlink(req.file.path, (err) => {
+        if (err) console.error('Error cleaning up uploaded file:', err);
+      });
+      
+      res.json(detection);
+    } catch (error) {
+      console.error('Error detecting watermark:', error);
+      res.status(500).json({ message: 'Failed to detect watermark' });
+    }
+  });
+
+  // API endpoint for testing an image for the adversarial noise drawn from a seed
+  app.post('/api/detect-noise', upload.single('image'), async (req, res) => {
+    try {
+      if (!req.file) {
+        return res.status(400).json({ message: 'No image file provided' });
+      }
+
+      const seed: string = req.body.seed || '';
+      const method = (req.body.method || 'gaussian') as NoiseMethod;
+      if (!seed || seed.length > MAX_NOISE_SEED_LENGTH) {
+        return res.status(400).json({ message: `Seed must be 1-${MAX_NOISE_SEED_LENGTH} characters` });
+      }
+      if (DETECTABLE_NOISE_METHODS.indexOf(method) === -1) {
+        return res.status(400).json({ message: `Noise method must be one of ${DETECTABLE_NOISE_METHODS.join(', ')}` });
+      }
+
+      const detection = await detectNoisePattern(req.file.path, method, seed);
+      res.json(detection);
+    } catch (error) {
+      console.error('Error detecting noise:', error);
+      res.status(500).json({ message: 'Failed to detect noise' });
+    } finally {
+      // Clean up the uploaded file, also when the request was rejected
+      if (req.file) {
+        fs.unlink(req.file.path, (err) => {
+          if (err) console.error('Error cleaning up uploaded file:', err);
+        });
+      }
+    }
+  });
+
+  // API endpoint for locating edits in images carrying the fragile watermark
+  app.post('/api/check-tamper', upload.single('image'), async (req, res) => {
+    try {
+      if (!req.file) {
+        return res.status(400).json({ message: 'No image file provided' });
+      }
+      if (!watermarkSecretConfigured()) {
+        return res.status(400).json({ message: 'Tamper protection needs WATERMARK_SECRET to be set on this server' });
+      }
+
+      const report = await checkTamper(req.file.path);
+      res.json(report);
+    } catch (error) {
+      console.error('Error checking for tampering:', error);
+      res.status(500).json({ message: 'Failed to check image for tampering' });
+    } finally {
+      // Clean up the uploaded file, also when the request was rejected
+      if (req.file) {
+        fs.unlink(req.file.path, (err) => {
+          if (err) console.error('Error cleaning up uploaded file:', err);
+        });
+      }
+    }
+  });
+
+  // API endpoint for checking which protections survived into an image
+  app.post('/api/verify', upload.single('image'), async (req, res) => {
+    try {
+      if (!req.file) {
+        return res.status(400).json({ message: 'No image file provided' });
+      }
+
+      const report = await verifyProtections(req.file.path);
+      
+      // Clean up the uploaded file
+      fs.unlink(req.file.path, (err) => {
+        if (err) console.error('Error cleaning up uploaded file:', err);
+      });
+      
+      res.json(report);
+    } catch (error) {
+      console.error('Error verifying protections:', error);
+      res.status(500).json({ message: 'Failed to verify image protections' });
+    }
+  });
+
   // API endpoint for adding EXIF protection data to images
   app.post('/api/add-exif', upload.single('image'), async (req, res) => {
     try {
@@ -92,9 +338,29 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: 'No image file provided' });
       }
 
-      // Get the original file format
-      const fileExtension = path.extname(req.file.originalname).toLowerCase();
-      const isPng = fileExtension === '.png';
+      const output = parseOutputSettings(req.body.output);
+      if (!output) {
+        return res.status(400).json({ message: 'Invalid output settings' });
+      }
+      const xmpRights = parseXmpRights(req.body.xmp);
+      if (!xmpRights) {
+        return res.status(400).json({ message: 'Invalid XMP rights settings' });
+      }
+      const iptcNotice = parseIptcNotice(req.body.iptc);
+      if (!iptcNotice) {
+        return res.status(400).json({ message: 'Invalid IPTC notice settings' });
+      }
+      const exifNotice = parseExifNotice(req.body.exifNotice);
+      if (!exifNotice) {
+        return res.status(400).json({ message: 'Invalid EXIF notice settings' });
+      }
+      const c2paManifest = req.body.c2pa === 'true';
+      if (c2paManifest && !c2paSigningAvailable()) {
+        return res.status(400).json({ message: 'C2PA signing is not configured on this server' });
+      }
+      if (!detectFileFormat(req.file.path)) {
+        return res.status(400).json({ message: 'Unsupported image format. Please upload a JPG, PNG, WebP, AVIF, TIFF or GIF file.' });
+      }
       
       // Skip watermark, only add EXIF data
       const watermarkSettings = {
@@ -104,25 +370,77 @@ export async function registerRoutes(app: Express): Promise<Server> {
         fontSize: 0
       };
 
+      const numbers = parseNumberFields(req.body);
+      if (typeof numbers === 'string') {
+        return res.status(400).json({ message: `${numbers} must be a number` });
+      }
+
       // Parse adversarial noise settings for EXIF-only mode
       const adversarialSettings = {
         enabled: req.body.adversarialEnabled === 'true',
-        intensity: parseInt(req.body.adversarialIntensity || '5', 10),
-        method: (req.body.adversarialMethod || 'gaussian') as 'gaussian' | 'uniform' | 'perlin'
+        intensity: numbers.adversarialIntensity,
+        method: (req.body.adversarialMethod || 'gaussian') as NoiseMethod,
+        seed: req.body.adversarialSeed || ''
+      };
+      if (adversarialSettings.seed.length > MAX_NOISE_SEED_LENGTH) {
+        return res.status(400).json({ message: `Noise seed must be at most ${MAX_NOISE_SEED_LENGTH} characters` });
+      }
+      if (NOISE_METHODS.indexOf(adversarialSettings.method) === -1) {
+        return res.status(400).json({ message: `Noise method must be one of ${NOISE_METHODS.join(', ')}` });
+      }
+
+      // Parse invisible watermark settings
+      const invisibleSettings = {
+        enabled: req.body.invisibleEnabled === 'true',
+        ownerId: req.body.invisibleOwnerId || '',
+        strength: numbers.invisibleStrength
       };
+      
+      if (invisibleSettings.enabled && parseOwnerId(invisibleSettings.ownerId) === null) {
+        return res.status(400).json({ message: 'Owner ID must be 1-16 hexadecimal digits' });
+      }
+
+      // A re-encoded canvas copy has lost the original's EXIF and hash, the client sends its template variables instead
+      const templateVariables = req.body.templateVariables === undefined ? null : parseTemplateVariables(req.body.templateVariables);
+      if (req.body.templateVariables !== undefined && !templateVariables) {
+        return res.status(400).json({ message: 'Invalid template variables' });
+      }
+      const exifPreview = req.body.exifPreview === undefined ? null : parseExifPreview(req.body.exifPreview);
+      if (req.body.exifPreview !== undefined && !exifPreview) {
+        return res.status(400).json({ message: 'Invalid EXIF preview' });
+      }
+      // {date} and {year} are resolved with the day of the client's preview, not the server's clock
+      const templateDate = req.body.templateDate === undefined ? null : parseTemplateDate(req.body.templateDate);
+      if (req.body.templateDate !== undefined && !templateDate) {
+        return res.status(400).json({ message: 'Template date must be YYYY-MM-DD' });
+      }
+      const exifTags = await resolveExifNotice(exifNotice, req.file.path, req.file.originalname, templateVariables, templateDate);
+      checkExifPreview(exifPreview, exifTags);
 
       // Process the image to add EXIF data
-      const processedImagePath = await processImage(
+      const { path: processedImagePath, format, raisedQuality } = await processImage(
         req.file.path, 
         watermarkSettings, 
-        true, // Always add EXIF protection for this endpoint
+        req.body.exifProtection !== 'false', // Off when the request only writes XMP or removes metadata with a privacy preset
         true, // ExifOnlyMode - skip visible watermark
-        adversarialSettings
+        adversarialSettings,
+        invisibleSettings,
+        false, // tamperProtection
+        output,
+        xmpRights,
+        iptcNotice,
+        exifTags,
+        c2paManifest
       );
       
       // Set headers for file download
-      res.setHeader('Content-Disposition', `attachment; filename="exif-protected-${req.file.originalname}"`);
-      res.setHeader('Content-Type', isPng ? 'image/png' : 'image/jpeg');
+      res.setHeader('Content-Disposition', `attachment; filename="exif-protected-${withFormatExtension(req.file.originalname, format)}"`);
+      res.setHeader('Content-Type', IMAGE_FORMATS[format].contentType);
+
+      // Report a quality raised so the noise or the invisible watermark survives the encoder
+      if (raisedQuality) {
+        res.setHeader('X-Output-Quality', JSON.stringify(raisedQuality));
+      }
 
       // Stream the file to the client
       const fileStream = fs.createReadStream(processedImagePath);
@@ -140,6 +458,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       });
     } catch (error) {
       console.error('Error adding EXIF data:', error);
+      if (error instanceof ProtectionVerificationError) {
+        return res.status(422).json({ message: error.message, failures: error.failures });
+      }
       res.status(500).json({ message: 'Failed to add EXIF data' });
     }
   });
@@ -147,7 +468,78 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Handle direct base64 data submissions
   app.post('/api/process-image-base64', async (req, res) => {
     try {
-      const { imageData, watermarkSettings, exifProtection, adversarialSettings } = req.body;
+      const { imageData, fileName } = req.body;
+      const watermarkSettings = req.body.watermarkSettings ?? {};
+      const adversarialSettings = req.body.adversarialSettings ?? {};
+      const invisibleSettings = req.body.invisibleSettings ?? {};
+      const invalidObject = [watermarkSettings, adversarialSettings, invisibleSettings].some((value) => typeof value !== 'object' || Array.isArray(value));
+      if (invalidObject) {
+        return res.status(400).json({ message: 'Watermark, adversarial and invisible settings must be objects' });
+      }
+      
+      // The JSON fields are checked for their types, the multipart form only has strings
+      const invalidString = firstInvalidField({ ...watermarkSettings, fileName, seed: adversarialSettings.seed, ownerId: invisibleSettings.ownerId }, STRING_FIELDS, 'string');
+      if (invalidString) {
+        return res.status(400).json({ message: `${invalidString} must be a string` });
+      }
+      const flags = {
+        ...watermarkSettings,
+        exifProtection: req.body.exifProtection,
+        tamperProtection: req.body.tamperProtection,
+        adversarialEnabled: adversarialSettings.enabled,
+        invisibleEnabled: invisibleSettings.enabled,
+      };
+      const invalidFlag = firstInvalidField(flags, FLAG_FIELDS, 'boolean');
+      if (invalidFlag) {
+        return res.status(400).json({ message: `${invalidFlag} must be true or false` });
+      }
+      
+      const numbers = parseNumberFields({
+        ...watermarkSettings,
+        adversarialIntensity: adversarialSettings.intensity,
+        invisibleStrength: invisibleSettings.strength,
+      });
+      if (typeof numbers === 'string') {
+        return res.status(400).json({ message: `${numbers} must be a number` });
+      }
+      
+      const seed: string = adversarialSettings.seed ?? '';
+      if (seed.length > MAX_NOISE_SEED_LENGTH) {
+        return res.status(400).json({ message: `Noise seed must be at most ${MAX_NOISE_SEED_LENGTH} characters` });
+      }
+      const method = (adversarialSettings.method ?? 'gaussian') as NoiseMethod;
+      if (NOISE_METHODS.indexOf(method) === -1) {
+        return res.status(400).json({ message: `Noise method must be one of ${NOISE_METHODS.join(', ')}` });
+      }
+      const ownerId: string = invisibleSettings.ownerId ?? '';
+      if (invisibleSettings.enabled === true && parseOwnerId(ownerId) === null) {
+        return res.status(400).json({ message: 'Owner ID must be 1-16 hexadecimal digits' });
+      }
+      const tamperProtection = req.body.tamperProtection === true;
+      
+      const output = parseOutputSettings(req.body.output);
+      if (!output) {
+        return res.status(400).json({ message: 'Invalid output settings' });
+      }
+      const xmpRights = parseXmpRights(req.body.xmp);
+      if (!xmpRights) {
+        return res.status(400).json({ message: 'Invalid XMP rights settings' });
+      }
+      const iptcNotice = parseIptcNotice(req.body.iptc);
+      if (!iptcNotice) {
+        return res.status(400).json({ message: 'Invalid IPTC notice settings' });
+      }
+      const exifNotice = parseExifNotice(req.body.exifNotice);
+      if (!exifNotice) {
+        return res.status(400).json({ message: 'Invalid EXIF notice settings' });
+      }
+      const c2paManifest = req.body.c2pa === true;
+      if (c2paManifest && !c2paSigningAvailable()) {
+        return res.status(400).json({ message: 'C2PA signing is not configured on this server' });
+      }
+      if (tamperProtection && !watermarkSecretConfigured()) {
+        return res.status(400).json({ message: 'Tamper protection needs WATERMARK_SECRET to be set on this server' });
+      }
       
       if (!imageData || !imageData.startsWith('data:image/')) {
         return res.status(400).json({ message: 'Invalid image data' });
@@ -161,22 +553,69 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       const buffer = Buffer.from(matches[2], 'base64');
       
+      // The declared data URL type is not trusted, the contents decide the format
+      const sourceFormat = detectImageFormat(buffer);
+      if (!sourceFormat) {
+        return res.status(400).json({ message: 'Unsupported image format' });
+      }
+      
       // Save buffer to temp file
-      const tempFilePath = path.join(process.env.TEMP || '/tmp', `temp-${Date.now()}.jpg`);
+      const tempFilePath = path.join(process.env.TEMP || '/tmp', `temp-${Date.now()}${IMAGE_FORMATS[sourceFormat].extensions[0]}`);
       fs.writeFileSync(tempFilePath, buffer);
       
-      // Process the image
-      const processedImagePath = await processImage(
+      // Process the image (logos are only accepted as multipart uploads)
+      const placement = watermarkSettings.placement;
+      const { path: processedImagePath, format, watermarkRegion, raisedQuality } = await processImage(
         tempFilePath,
-        watermarkSettings,
-        exifProtection,
+        {
+          text: watermarkSettings.text ? await resolveWatermarkText(watermarkSettings.text, tempFilePath, fileName || 'image') : '',
+          position: watermarkSettings.position || 'bottom-right',
+          placement: placement && typeof placement === 'object' ? parsePlacement(placement.x, placement.y) : undefined,
+          autoStrategy: watermarkSettings.autoStrategy === 'aggressive' ? 'aggressive' : 'unobtrusive',
+          opacity: numbers.opacity,
+          fontSize: numbers.fontSize,
+          mode: watermarkSettings.mode === 'tiled' ? 'tiled' : 'single',
+          tileAngle: numbers.tileAngle,
+          tileSpacing: numbers.tileSpacing,
+          tileStagger: numbers.tileStagger,
+          fillColor: watermarkSettings.fillColor || '#ffffff',
+          strokeColor: watermarkSettings.strokeColor || '#000000',
+          strokeWidth: numbers.strokeWidth,
+          rotation: numbers.rotation,
+          fontFamily: watermarkSettings.fontFamily || 'Arial',
+          fontWeight: numbers.fontWeight,
+          letterSpacing: numbers.letterSpacing,
+          shadow: watermarkSettings.shadow !== false,
+          background: watermarkSettings.background === true,
+          backgroundColor: watermarkSettings.backgroundColor || '#000000',
+          backgroundOpacity: numbers.backgroundOpacity,
+          autoContrast: watermarkSettings.autoContrast === true,
+          contrastRatio: numbers.contrastRatio,
+          logo: undefined,
+        },
+        req.body.exifProtection !== false,
         false, // exifOnlyMode
-        adversarialSettings
+        { enabled: adversarialSettings.enabled === true, intensity: numbers.adversarialIntensity, method, seed },
+        { enabled: invisibleSettings.enabled === true, ownerId, strength: numbers.invisibleStrength },
+        tamperProtection,
+        output,
+        xmpRights,
+        iptcNotice,
+        await resolveExifNotice(exifNotice, tempFilePath, fileName || 'image'),
+        c2paManifest
       );
       
       // Set headers for file download
-      res.setHeader('Content-Disposition', 'attachment; filename="watermarked-image.jpg"');
-      res.setHeader('Content-Type', 'image/jpeg');
+      res.setHeader('Content-Disposition', `attachment; filename="watermarked-image${IMAGE_FORMATS[format].extensions[0]}"`);
+      res.setHeader('Content-Type', IMAGE_FORMATS[format].contentType);
+
+      // Report a quality raised so the noise or the invisible watermark survives the encoder
+      if (raisedQuality) {
+        res.setHeader('X-Output-Quality', JSON.stringify(raisedQuality));
+      }
+      if (watermarkRegion) {
+        res.setHeader('X-Watermark-Region', JSON.stringify(watermarkRegion));
+      }
       
       // Stream the file to the client
       const fileStream = fs.createReadStream(processedImagePath);
@@ -194,10 +633,172 @@ export async function registerRoutes(app: Express): Promise<Server> {
       });
     } catch (error) {
       console.error('Error processing base64 image:', error);
+      if (error instanceof ProtectionVerificationError) {
+        return res.status(422).json({ message: error.message, failures: error.failures });
+      }
       res.status(500).json({ message: 'Failed to process image' });
     }
   });
 
+  // Estimate the download size for the export settings
+  app.post('/api/estimate-size', upload.single('image'), async (req, res) => {
+    try {
+      if (!req.file) {
+        return res.status(400).json({ message: 'No image file provided' });
+      }
+      
+      const output = parseOutputSettings(req.body.output);
+      const estimate = output && detectFileFormat(req.file.path)
+        ? await estimateEncodedSize(req.file.path, output, req.body.tamperProtection === 'true')
+        : null;
+      
+      fs.unlink(req.file.path, (err) => {
+        if (err) console.error('Error cleaning up uploaded file:', err);
+      });
+      
+      if (!estimate) {
+        return res.status(400).json({ message: 'Unsupported image format or invalid output settings' });
+      }
+      
+      res.json(estimate);
+    } catch (error) {
+      console.error('Error estimating output size:', error);
+      res.status(500).json({ message: 'Failed to estimate output size' });
+    }
+  });
+
+  // Convert an upload the browser cannot display (e.g. TIFF) to PNG for the editor preview
+  app.post('/api/preview', upload.single('image'), async (req, res) => {
+    try {
+      if (!req.file) {
+        return res.status(400).json({ message: 'No image file provided' });
+      }
+      
+      const format = detectFileFormat(req.file.path);
+      // Upright like the images the browser decodes itself
+      const preview = format ? await sharp(req.file.path).rotate().png().toBuffer() : null;
+      
+      fs.unlink(req.file.path, (err) => {
+        if (err) console.error('Error cleaning up uploaded file:', err);
+      });
+      
+      if (!preview) {
+        return res.status(400).json({ message: 'Unsupported image format. Please upload a JPG, PNG, WebP, AVIF, TIFF or GIF file.' });
+      }
+      
+      res.setHeader('Content-Type', 'image/png');
+      res.send(preview);
+    } catch (error) {
+      console.error('Error creating preview:', error);
+      res.status(500).json({ message: 'Failed to create preview' });
+    }
+  });
+
+  // Upload a font for use as a watermark font family
+  app.post('/api/fonts', upload.single('font'), async (req, res) => {
+    try {
+      if (!req.file) {
+        return res.status(400).json({ message: 'No font file provided' });
+      }
+      
+      const font = await saveFont(req.file.path, req.file.originalname);
+      
+      fs.unlink(req.file.path, (err) => {
+        if (err) console.error('Error cleaning up uploaded font:', err);
+      });
+      
+      if (!font) {
+        return res.status(400).json({ message: 'The file is not a valid TTF, OTF or WOFF2 font' });
+      }
+      
+      res.status(201).json(font);
+    } catch (error) {
+      console.error('Error uploading font:', error);
+      res.status(500).json({ message: 'Failed to upload font' });
+    }
+  });
+
+  // List uploaded fonts
+  app.get('/api/fonts', (_req, res) => {
+    res.json(listFonts());
+  });
+
+  // Serve an uploaded font file to the browser
+  app.get('/api/fonts/:id', (req, res) => {
+    const font = getFont(req.params.id);
+    if (!font) {
+      return res.status(404).json({ message: 'Font not found' });
+    }
+    
+    res.setHeader('Content-Type', FONT_CONTENT_TYPES[font.format]);
+    res.setHeader('Cache-Control', 'public, max-age=31536000, immutable');
+    res.sendFile(getFontPath(font));
+  });
+
   const httpServer = createServer(app);
   return httpServer;
 }
+
+// A notice that resolves differently from the preview fails like a missing protection, with 422
+function checkExifPreview(preview: Record<string, string> | null, tags: ExifTags): void {
+  const differences = preview ? exifNoticeDifferences(preview, tags) : [];
+  if (differences.length > 0) {
+    throw new ProtectionVerificationError([
+      { stage: 'exifNotice', message: `The EXIF notice to be written differs from the preview in ${differences.join(', ')}` },
+    ]);
+  }
+}
+
+// Range the UI allows for each numeric field, and the value used when the field is absent
+const NUMBER_FIELDS = {
+  opacity: { fallback: 70, min: 10, max: 100 },
+  fontSize: { fallback: 24, min: 12, max: 144 },
+  tileAngle: { fallback: 30, min: -90, max: 90 },
+  tileSpacing: { fallback: 100, min: 20, max: 400 },
+  tileStagger: { fallback: 50, min: 0, max: 100 },
+  strokeWidth: { fallback: 0, min: 0, max: 10 },
+  rotation: { fallback: 0, min: -180, max: 180 },
+  fontWeight: { fallback: 700, min: 100, max: 900 },
+  letterSpacing: { fallback: 0, min: -5, max: 30 },
+  backgroundOpacity: { fallback: 40, min: 0, max: 100 },
+  contrastRatio: { fallback: DEFAULT_CONTRAST_RATIO, min: MIN_CONTRAST_RATIO, max: MAX_CONTRAST_RATIO },
+  logoScale: { fallback: 20, min: 5, max: 60 },
+  logoOpacity: { fallback: 70, min: 10, max: 100 },
+  logoMargin: { fallback: 30, min: 0, max: 200 },
+  adversarialIntensity: { fallback: 5, min: 1, max: 10 },
+  invisibleStrength: { fallback: 2, min: 1, max: 10 },
+};
+
+type NumberField = keyof typeof NUMBER_FIELDS;
+
+// Fields of the JSON body that the multipart form receives as strings anyway
+const STRING_FIELDS = ['text', 'position', 'autoStrategy', 'mode', 'fillColor', 'strokeColor', 'fontFamily', 'backgroundColor', 'fileName', 'seed', 'ownerId'];
+const FLAG_FIELDS = ['shadow', 'background', 'autoContrast', 'exifProtection', 'tamperProtection', 'adversarialEnabled', 'invisibleEnabled'];
+
+// The first of the fields that is present with another type, or null
+function firstInvalidField(body: Record<string, unknown>, fields: string[], type: 'string' | 'boolean'): string | null {
+  return fields.find((field) => body[field] !== undefined && body[field] !== null && typeof body[field] !== type) ?? null;
+}
+
+// The numeric fields of a form or JSON body clamped to their ranges, or the name of the first one that is not a number
+function parseNumberFields(body: Record<string, unknown>): Record<NumberField, number> | string {
+  const numbers = {} as Record<NumberField, number>;
+  for (const name of Object.keys(NUMBER_FIELDS) as NumberField[]) {
+    const { fallback, min, max } = NUMBER_FIELDS[name];
+    const raw = body[name];
+    if (raw === undefined || raw === null || raw === '') {
+      numbers[name] = fallback;
+      continue;
+    }
+    const value = typeof raw === 'number' ? raw : parseFloat(String(raw));
+    if (!isFinite(value)) return name;
+    numbers[name] = Math.min(max, Math.max(min, value));
+  }
+  return numbers;
+}
+
+// Free watermark placement from the `placementX`/`placementY` form fields or the JSON `placement`, both 0-1
+function parsePlacement(x: unknown, y: unknown): { x: number; y: number } | undefined {
+  const placement = { x: parseFloat(String(x ?? '')), y: parseFloat(String(y ?? '')) };
+  return isFinite(placement.x) && isFinite(placement.y) ? placement : undefined;
+}
@@ -1,9 +1,33 @@
 import fs from 'fs';
 import path from 'path';
+import crypto from 'crypto';
 import os from 'os';
 import { v4 as uuidv4 } from 'uuid';
 import multer from 'multer';
 import sharp from 'sharp';
+import { createInvisibleWatermarkOverlay, parseOwnerId } from './invisible-watermark';
+import { embedFragileWatermark } from './fragile-watermark';
+import { buildLogoOverlay, buildTextOverlay, measureTextBox, type WatermarkSettings } from './watermark';
+import { findAutoPlacement, type WatermarkRegion } from './auto-placement';
+import { canAnimate, canWriteExif, detectFileFormat, encodeImage, readAnimation, resolveOutputFormat, type Animation, type EncodeOptions } from './image-format';
+import { filterExifTags, listExifEntries, mergeExifTags, readExifTags, sharpExifTags, type ExifTags } from './exif';
+import { canSpliceMetadata, canWriteXmp, fitsXmp, readPhotoshopResources, spliceMetadata, type MetadataSegments } from './metadata-splice';
+import { buildXmpPacket } from './xmp';
+import { buildIptcResources, listIptcEntries } from './iptc';
+import { applyColorPlan, overlayToWorkingSpace, planColor, selectIntentTables, type ColorPlan } from './color';
+import { embedC2paManifest, type ManifestAction, type ManifestIngredient } from './c2pa';
+import { DETECTABLE_NOISE_METHODS, generateNoise, noiseProperties, randomNoiseSeed, type NoiseMethod } from './adversarial-noise';
+import { decodeMetadata } from './decoded-metadata';
+import { captureWatermarkReference, lossyStageFailures, ProtectionVerificationError, verifyOutput, type NoiseSignal, type OutputExpectations } from './output-check';
+import { buildTemplateVariables, hasTemplateSyntax, resolveTemplate, type TemplateVariables } from '@shared/watermark-template';
+import { IMAGE_FORMATS, type ImageFormat } from '@shared/image-formats';
+import { DEFAULT_OUTPUT_SETTINGS, type OutputSettings, type RaisedQuality } from '@shared/output-settings';
+import { keepsExifTag, type MetadataEntry, type MetadataPreset } from '@shared/metadata-privacy';
+import { xmpProperties, type XmpRightsSettings } from '@shared/xmp-rights';
+import { iptcFields, type IptcField, type IptcNoticeSettings } from '@shared/iptc-notice';
+import { DEFAULT_EXIF_NOTICE, exifNoticeTags, type ExifNoticeSettings } from '@shared/exif-notice';
+import { findAiNotices } from '@shared/decoded-metadata';
+import type { StageFailure } from '@shared/verification';
 
 // Create temp directory for storing uploaded files
 const tempDir = path.join(os.tmpdir(), 'ai-defense-watermarker');
@@ -24,177 +48,158 @@ const storage = multer.diskStorage({
 
 // Configure upload middleware with strict size limits for public usage
 const PUBLIC_MAX_FILE_SIZE = 30 * 1024 * 1024; // 30MB max file size for public usage
+const NOISE_QUALITY_STEPS = [90, 95]; // Lossy qualities tried when the chosen one removes the noise or the invisible watermark
+const AVIF_DEFAULT_QUALITY = 50; // sharp's, AVIF has no quality setting of its own
+const LOSSY_FORMATS: ImageFormat[] = ['jpeg', 'webp', 'avif'];
 
 export const upload = multer({
   storage,
   limits: {
     fileSize: PUBLIC_MAX_FILE_SIZE, // 5MB max file size for public safety
-    files: 1 // Only allow one file at a time
+    files: 2 // The image plus an optional logo
   },
   fileFilter: (_req, file, cb) => {
-    // 1. Check file type - accept only jpg and png
+    // 1. Check file type - accept the supported image formats (logos may also be svg)
+    // Routes check the magic bytes after upload, the reported type is only a first filter
     if (
-      file.mimetype === 'image/jpeg' ||
-      file.mimetype === 'image/png'
+      isSupportedImageUpload(file) ||
+      (file.fieldname === 'logo' && file.mimetype === 'image/svg+xml')
     ) {
       cb(null, true);
+    } else if (file.fieldname === 'font') {
+      // Browsers report font mime types inconsistently, the contents are checked after upload
+      if (/\.(ttf|otf|woff2)$/i.test(file.originalname)) {
+        cb(null, true);
+      } else {
+        cb(new Error('Unsupported font format. Please upload a TTF, OTF or WOFF2 file.'));
+      }
     } else {
-      cb(new Error('Unsupported file format. Please upload a JPG or PNG file.'));
+      cb(new Error('Unsupported file format. Please upload a JPG, PNG, WebP, AVIF, TIFF or GIF file.'));
     }
   },
 });
 
+// Some browsers report TIFF and AVIF as application/octet-stream, so the extension also counts
+function isSupportedImageUpload(file: Express.Multer.File): boolean {
+  const extension = path.extname(file.originalname).toLowerCase();
+  return Object.values(IMAGE_FORMATS).some((format) =>
+    format.contentType === file.mimetype || format.extensions.indexOf(extension) !== -1
+  );
+}
+
 // Run initial cleanup when server starts
 console.log('Running initial cleanup of expired files...');
 cleanupTempFiles();
 
-interface WatermarkSettings {
-  text: string;
-  position: string;
-  opacity: number;
-  fontSize: number;
-}
-
 interface AdversarialSettings {
   enabled: boolean;
   intensity: number; // 1-10 scale
-  method: 'gaussian' | 'uniform' | 'perlin'; // Different noise types
+  method: NoiseMethod; // Different noise types
+  seed?: string; // Reproduces the same noise, a random one is used when empty
+}
+
+interface InvisibleWatermarkSettings {
+  enabled: boolean;
+  ownerId: string; // 64-bit owner/asset ID as hex
+  strength: number; // 1-10 scale
+}
+
+export interface ProcessedImage {
+  path: string;
+  format: ImageFormat; // Format the image was written in
+  watermarkRegion?: WatermarkRegion; // Where 'auto' placement put the text watermark
+  raisedQuality?: RaisedQuality; // When the chosen quality lost the noise or the invisible watermark
 }
 
 /**
  * Generate adversarial noise to protect images from AI training
  * This adds imperceptible perturbations that disrupt neural network training
+ * Animations get different noise in every frame, as the strip is filled in one go
+ * The noised pixels replace the image's in its own pipeline, so the metadata
+ * stays; 16-bit images are noised at 8-bit precision, which the noise exceeds.
+ * Returns the noised image, not yet encoded, with the noise of the first
+ * frame for the output check.
  */
 async function generateAdversarialNoise(
   imageBuffer: Buffer, 
-  settings: AdversarialSettings
-): Promise<Buffer> {
-  if (!settings.enabled) {
-    return imageBuffer;
-  }
+  settings: AdversarialSettings,
+  seed: string,
+  animation: Animation | null,
+  color: ColorPlan | null = null
+): Promise<{ image: sharp.Sharp; signal: NoiseSignal }> {
+  const image = sharp(imageBuffer, { animated: animation !== null });
+  const { data, info } = await image.clone().raw().toBuffer({ resolveWithObject: true });
+  const { width, height, channels } = info;
+  const colours = channels === 2 || channels === 4 ? channels - 1 : channels;
 
-  try {
-    const image = sharp(imageBuffer);
-    const { width, height, channels } = await image.metadata();
-    
-    if (!width || !height) {
-      console.warn('Could not get image dimensions for adversarial noise');
-      return imageBuffer;
-    }
+  // Convert intensity (1-10) to noise amplitude (0.001-0.02)
+  // Higher values are more effective but risk being visible
+  const noiseAmplitude = (settings.intensity / 10) * 0.019 + 0.001;
+  
+  console.log(`Applying adversarial noise: method=${settings.method}, intensity=${settings.intensity}, amplitude=${noiseAmplitude.toFixed(4)}, seed=${seed}`);
+
+  // Generate noise pattern based on method
+  const deltas = generateNoise(settings.method, width, height, colours, noiseAmplitude, seed);
 
-    // Convert intensity (1-10) to noise amplitude (0.001-0.02)
-    // Higher values are more effective but risk being visible
-    const noiseAmplitude = (settings.intensity / 10) * 0.019 + 0.001;
-    
-    console.log(`Applying adversarial noise: method=${settings.method}, intensity=${settings.intensity}, amplitude=${noiseAmplitude.toFixed(4)}`);
-
-    // Generate noise pattern based on method
-    let noiseBuffer: Buffer;
-    
-    switch (settings.method) {
-      case 'gaussian':
-        noiseBuffer = generateGaussianNoise(width, height, channels || 3, noiseAmplitude);
-        break;
-      case 'uniform':
-        noiseBuffer = generateUniformNoise(width, height, channels || 3, noiseAmplitude);
-        break;
-      case 'perlin':
-        noiseBuffer = generatePerlinNoise(width, height, channels || 3, noiseAmplitude);
-        break;
-      default:
-        noiseBuffer = generateGaussianNoise(width, height, channels || 3, noiseAmplitude);
+  // Add the noise to the colour channels, alpha is kept
+  const noised = Buffer.from(data);
+  for (let pixel = 0; pixel < width * height; pixel++) {
+    for (let c = 0; c < colours; c++) {
+      const index = pixel * channels + c;
+      noised[index] = Math.max(0, Math.min(255, Math.round(data[index] + deltas[pixel * colours + c])));
     }
+  }
 
-    // Apply noise to image using Sharp's composite with blend mode
-    const noisedImage = await image
-      .composite([{
-        input: noiseBuffer,
-        blend: 'add', // Add noise to original image
-        raw: {
-          width,
-          height,
-          channels: channels || 3
-        }
-      }])
-      .toBuffer();
+  const replaced = image
+    .keepMetadata()
+    .composite([{
+      input: noised,
+      blend: 'source', // Replace the pixels, the noise is already added
+      raw: { width, height, channels: channels as 1 | 2 | 3 | 4 },
+    }]);
 
-    return noisedImage;
-  } catch (error) {
-    console.error('Error applying adversarial noise:', error);
-    // Return original image if noise application fails
-    return imageBuffer;
+  // The output check compares the first frame
+  const frameHeight = animation ? animation.pageHeight : height;
+  const before = Buffer.alloc(width * frameHeight * colours);
+  for (let pixel = 0; pixel < width * frameHeight; pixel++) {
+    for (let c = 0; c < colours; c++) {
+      before[pixel * colours + c] = data[pixel * channels + c];
+    }
   }
+  return {
+    image: color ? applyColorPlan(replaced, color) : replaced,
+    signal: { width, height: frameHeight, channels: colours, before, deltas: deltas.subarray(0, width * frameHeight * colours) },
+  };
 }
 
 /**
- * Generate Gaussian (normal distribution) noise
- * Most effective against CNN-based models
+ * Encode the image at the chosen quality, or at a higher one when the lossy
+ * encoder removed the noise or the invisible watermark there: 90, then 95,
+ * then lossless (JPEG at 100). The raised quality is reported to the client.
  */
-function generateGaussianNoise(width: number, height: number, channels: number, amplitude: number): Buffer {
-  const pixelCount = width * height * channels;
-  const noiseArray = new Uint8Array(pixelCount);
-  
-  for (let i = 0; i < pixelCount; i++) {
-    // Box-Muller transform for Gaussian distribution
-    const u1 = Math.random();
-    const u2 = Math.random();
-    const gaussian = Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
-    
-    // Scale and clamp to valid pixel range
-    const noiseValue = Math.round(gaussian * amplitude * 255);
-    noiseArray[i] = Math.max(-128, Math.min(127, noiseValue)) + 128;
-  }
-  
-  return Buffer.from(noiseArray);
-}
+async function encodeKeepingMarks(
+  image: sharp.Sharp,
+  format: ImageFormat,
+  options: EncodeOptions,
+  expected: OutputExpectations
+): Promise<{ buffer: Buffer; raisedQuality?: RaisedQuality }> {
+  let buffer = await encodeImage(image.clone(), format, options).toBuffer();
+  if (options.lossless || LOSSY_FORMATS.indexOf(format) === -1) return { buffer };
 
-/**
- * Generate uniform random noise
- * Good general-purpose adversarial protection
- */
-function generateUniformNoise(width: number, height: number, channels: number, amplitude: number): Buffer {
-  const pixelCount = width * height * channels;
-  const noiseArray = new Uint8Array(pixelCount);
-  
-  for (let i = 0; i < pixelCount; i++) {
-    // Uniform distribution between -amplitude and +amplitude
-    const noiseValue = (Math.random() - 0.5) * 2 * amplitude * 255;
-    noiseArray[i] = Math.max(-128, Math.min(127, Math.round(noiseValue))) + 128;
-  }
-  
-  return Buffer.from(noiseArray);
-}
+  const requested = format === 'avif' ? AVIF_DEFAULT_QUALITY : (options.settings ?? DEFAULT_OUTPUT_SETTINGS).jpegQuality;
 
-/**
- * Generate Perlin-like structured noise
- * Creates patterns that are harder for AI to filter out
- */
-function generatePerlinNoise(width: number, height: number, channels: number, amplitude: number): Buffer {
-  const pixelCount = width * height * channels;
-  const noiseArray = new Uint8Array(pixelCount);
-  
-  // Simple pseudo-Perlin noise using multiple octaves
-  for (let y = 0; y < height; y++) {
-    for (let x = 0; x < width; x++) {
-      let noiseValue = 0;
-      
-      // Multiple octaves for more complex patterns
-      for (let octave = 1; octave <= 4; octave++) {
-        const freq = octave * 0.01;
-        const amp = 1 / octave;
-        noiseValue += Math.sin(x * freq) * Math.cos(y * freq) * amp;
-      }
-      
-      // Apply to all channels
-      for (let c = 0; c < channels; c++) {
-        const index = (y * width + x) * channels + c;
-        const scaledNoise = noiseValue * amplitude * 255;
-        noiseArray[index] = Math.max(-128, Math.min(127, Math.round(scaledNoise))) + 128;
-      }
-    }
+  const steps: EncodeOptions[] = NOISE_QUALITY_STEPS.filter((step) => step > requested).map((step) => ({ quality: step }));
+  steps.push(format === 'jpeg' ? { quality: 100 } : { lossless: true });
+  let raisedQuality: RaisedQuality | undefined;
+  for (const step of steps) {
+    const lost = await lossyStageFailures(buffer, format, expected);
+    if (lost.length === 0) break;
+    const quality = step.lossless ? null : step.quality ?? null;
+    console.warn(`${lost.map((failure) => failure.message).join('; ')}; encoding ${quality === null ? 'losslessly' : `at quality ${quality}`}`);
+    buffer = await encodeImage(image.clone(), format, { ...options, ...step }).toBuffer();
+    raisedQuality = { requested, quality, stages: raisedQuality?.stages ?? lost.map((failure) => failure.stage) };
   }
-  
-  return Buffer.from(noiseArray);
+  return { buffer, raisedQuality };
 }
 
 // Extract EXIF data from an image
@@ -203,23 +208,33 @@ export async function extractExifData(imagePath: string): Promise<any> {
     // Use sharp to extract metadata
     const metadata = await sharp(imagePath).metadata();
     
-    // Return EXIF data or a simplified metadata object
-    return metadata.exif ? {
-      // If we have proper EXIF data, parse it
-      ...metadata,
-      exifParsed: metadata.exif ? true : false,
-    } : {
-      // Return basic metadata as a fallback
+    // sharp only reads IPTC from JPEG and without decoding it
+    const format = detectFileFormat(imagePath);
+    const resources = format ? readPhotoshopResources(fs.readFileSync(imagePath), format) : null;
+    
+    // The raw EXIF, XMP and ICC buffers are decoded rather than passed on
+    const decoded = decodeMetadata(metadata, resources);
+    
+    return {
       format: metadata.format,
       width: metadata.width,
       height: metadata.height,
       space: metadata.space,
       channels: metadata.channels,
       depth: metadata.depth,
+      density: metadata.density,
       isProgressive: metadata.isProgressive,
+      hasProfile: metadata.hasProfile,
+      hasAlpha: metadata.hasAlpha,
+      orientation: metadata.orientation,
+      pages: metadata.pages,
+      tags: readExifTags(metadata.exif),
+      entries: listMetadataEntries(metadata, resources),
+      metadata: decoded,
+      aiNotices: findAiNotices(decoded),
+      exifParsed: metadata.exif ? true : false,
       // Add note that no EXIF data was found
-      exifParsed: false,
-      note: "No EXIF data found in original image"
+      ...(metadata.exif ? {} : { note: "No EXIF data found in original image" }),
     };
   } catch (error) {
     console.error('Error extracting EXIF data:', error);
@@ -231,22 +246,75 @@ export async function extractExifData(imagePath: string): Promise<any> {
   }
 }
 
+/**
+ * Resolve template variables such as {artist} or {hash8} in the watermark text
+ * Variables are taken from the original upload, so this must run before any processing
+ */
+export async function resolveWatermarkText(text: string, imagePath: string, originalName: string): Promise<string> {
+  if (!hasTemplateSyntax(text)) {
+    return text;
+  }
+  return resolveTemplate(text, await readTemplateVariables(imagePath, originalName));
+}
+
+/**
+ * Resolve the templates of the EXIF notice for the upload, as EXIF tags
+ * `variables` are the original's, sent by the client when the upload is a
+ * re-encoded copy that no longer has its EXIF or hash; `now` is the day the
+ * client previewed the notice on
+ */
+export async function resolveExifNotice(
+  notice: ExifNoticeSettings,
+  imagePath: string,
+  originalName: string,
+  variables: TemplateVariables | null = null,
+  now: Date | null = null
+): Promise<ExifTags> {
+  return exifNoticeTags(notice, variables ?? await readTemplateVariables(imagePath, originalName, now));
+}
+
+async function readTemplateVariables(imagePath: string, originalName: string, now: Date | null = null): Promise<TemplateVariables> {
+  const content = fs.readFileSync(imagePath);
+  const metadata = await sharp(content).metadata();
+  const tags = readExifTags(metadata.exif);
+
+  return buildTemplateVariables({
+    fileName: originalName,
+    hash: crypto.createHash('sha256').update(content).digest('hex'),
+    artist: tags.Artist,
+    make: tags.Make,
+    model: tags.Model,
+    dateTimeOriginal: tags.DateTimeOriginal,
+    now: now ?? undefined,
+  });
+}
+
 // Function to add watermark to image
 export async function processImage(
   imagePath: string,
   watermarkSettings: WatermarkSettings,
   addExifProtection: boolean,
   exifOnlyMode: boolean = false,
-  adversarialSettings?: AdversarialSettings
-): Promise<string> {
+  adversarialSettings?: AdversarialSettings,
+  invisibleSettings?: InvisibleWatermarkSettings,
+  tamperProtection: boolean = false,
+  output: OutputSettings = DEFAULT_OUTPUT_SETTINGS,
+  xmpRights: XmpRightsSettings | null = null,
+  iptcNotice: IptcNoticeSettings | null = null,
+  exifNotice: ExifTags | null = null, // Resolved by resolveExifNotice, the default notice when not given
+  c2paManifest: boolean = false // Routes check c2paSigningAvailable() first
+): Promise<ProcessedImage> {
+  // Copies of the upload made for the stages, removed when done
+  const workingCopies: string[] = [];
   try {
-    const { text, position, opacity, fontSize } = watermarkSettings;
-    
-    // Load the image with sharp
-    let image = sharp(imagePath);
+    // Identify the source by its contents, routes have already rejected unknown formats
+    const sourceFormat = detectFileFormat(imagePath);
+    if (!sourceFormat) {
+      throw new Error('Unsupported image format');
+    }
     
-    // Get the initial metadata
-    const initialMetadata = await image.metadata();
+    // Get the initial metadata (of the first frame for animations)
+    const initialMetadata = await sharp(imagePath).metadata();
     console.log('Initial image metadata:', {
       format: initialMetadata.format,
       width: initialMetadata.width,
@@ -256,43 +324,209 @@ export async function processImage(
       exif: initialMetadata.exif ? 'Present' : 'None'
     });
     
-    const width = initialMetadata.width || 800;
-    const height = initialMetadata.height || 600;
+    // Determine output format (the fragile watermark only survives lossless output)
+    const sourceAnimation = await readAnimation(imagePath);
+    const format = resolveOutputFormat(output.format, sourceFormat, tamperProtection, sourceAnimation !== null);
+    const extension = IMAGE_FORMATS[format].extensions[0];
+    console.log(`Output format: ${format} (source ${sourceFormat}, requested ${output.format})`);
+    
+    // Keep every frame when the output can hold them, otherwise only the first frame is processed
+    const animation = sourceAnimation && canAnimate(format) ? sourceAnimation : null;
+    if (animation) {
+      console.log(`Processing ${animation.pages} frames, delays ${animation.delay.join('/')}ms, loop ${animation.loop}`);
+    }
+    
+    // Colours stay in the colour space of the upload as far as the output format and the stages allow
+    const color = planColor(initialMetadata, format, output, {
+      rgb: !!adversarialSettings?.enabled || !!invisibleSettings?.enabled || tamperProtection,
+      eightBit: tamperProtection,
+    });
+    console.log(`Colour: ${color.space}${color.icc ? ', embedded profile kept' : ''}${color.converts ? `, converted to 8-bit sRGB (${output.renderingIntent})` : ''}`);
+    
+    // Without a stage that changes pixels, JPEG and PNG only get their metadata rewritten, the image data is copied as is
+    const drawsWatermark = !exifOnlyMode && (!!watermarkSettings.text || !!watermarkSettings.logo);
+    const changesPixels = drawsWatermark ||
+      !!adversarialSettings?.enabled || !!invisibleSettings?.enabled || tamperProtection || color.converts;
+    const scrub = output.metadataPreset !== 'keep';
+    const rightsProperties = xmpRights ? xmpProperties(xmpRights) : [];
+    // The seed goes into the XMP next to the rights notices, so the noise can be regenerated from the image
+    const noiseSeed = adversarialSettings?.enabled ? adversarialSettings.seed || randomNoiseSeed() : null;
+    const packetProperties = adversarialSettings && noiseSeed
+      ? rightsProperties.concat(noiseProperties(adversarialSettings.method, noiseSeed))
+      : rightsProperties;
+    const noticeFields = iptcNotice ? iptcFields(iptcNotice) : [];
+    const noticeTags = addExifProtection
+      ? exifNotice ?? await resolveExifNotice(DEFAULT_EXIF_NOTICE, imagePath, path.basename(imagePath))
+      : {};
+    const writesExif = Object.keys(noticeTags).length > 0;
+    // Requested stages the output format cannot hold fail before any work is done
+    const unwritable: StageFailure[] = [];
+    if (writesExif && !canWriteExif(format)) {
+      unwritable.push({ stage: 'exifNotice', message: `EXIF cannot be written to ${format}` });
+    }
+    if (rightsProperties.length > 0 && !canWriteXmp(format)) {
+      unwritable.push({ stage: 'xmpRights', message: `XMP cannot be written to ${format}` });
+    }
+    if (noticeFields.length > 0 && !canSpliceMetadata(format)) {
+      unwritable.push({ stage: 'iptcNotice', message: `IPTC cannot be written to ${format}` });
+    }
+    if (c2paManifest && !canSpliceMetadata(format)) {
+      unwritable.push({ stage: 'c2paManifest', message: `C2PA manifests cannot be written to ${format}` });
+    }
+    // GIF has no quality to raise, and its palette removes the per-pixel noise
+    if (adversarialSettings?.enabled && format === 'gif' && DETECTABLE_NOISE_METHODS.indexOf(adversarialSettings.method) !== -1) {
+      unwritable.push({ stage: 'noise', message: `The GIF palette removes ${adversarialSettings.method} noise, use Perlin noise or another format` });
+    }
+    if (unwritable.length > 0) {
+      throw new ProtectionVerificationError(unwritable);
+    }
+    const actions = provenanceActions({
+      transcoded: format !== sourceFormat,
+      color: color.converts,
+      watermark: drawsWatermark,
+      invisible: !!invisibleSettings?.enabled,
+      noise: noiseSeed,
+      tamperSeal: tamperProtection,
+      metadata: writesExif || rightsProperties.length > 0 || noticeFields.length > 0 || scrub,
+    });
+    const parent: ManifestIngredient = { title: path.basename(imagePath), format: sourceFormat };
+    // Stages the written file is checked for; only the noise seed is left out of formats without XMP
+    const expected: OutputExpectations = {
+      exifTags: noticeTags,
+      xmpProperties: canWriteXmp(format) ? packetProperties : [],
+      iptcFields: noticeFields,
+      c2paManifest,
+    };
+    if (!changesPixels && format === sourceFormat && canSpliceMetadata(format)) {
+      try {
+        const content = fs.readFileSync(imagePath);
+        const segments = scrub ? scrubSegments(initialMetadata.exif, output.metadataPreset) : {};
+        if (writesExif) {
+          segments.exif = mergeExifTags(scrub ? segments.exif ?? undefined : initialMetadata.exif, noticeTags);
+        }
+        if (rightsProperties.length > 0) {
+          segments.xmp = buildXmpPacket(rightsProperties, scrub ? undefined : initialMetadata.xmp?.toString('utf8'));
+        }
+        if (noticeFields.length > 0) {
+          segments.iptc = writeIptcNotice(noticeFields, scrub ? null : readPhotoshopResources(content, format));
+        }
+        let spliced = Object.keys(segments).length > 0 ? spliceMetadata(content, format, segments) : content;
+        if (c2paManifest) {
+          spliced = embedC2paManifest(spliced, format, actions, parent);
+        }
+        const outputPath = path.join(tempDir, `watermarked-${uuidv4()}${extension}`);
+        fs.writeFileSync(outputPath, spliced);
+        console.log('Wrote metadata without re-encoding');
+        await checkOutput(outputPath, format, expected);
+        return { path: outputPath, format };
+      } catch (spliceError) {
+        if (spliceError instanceof ProtectionVerificationError) throw spliceError;
+        console.warn('Metadata-only write failed, re-encoding instead:', spliceError);
+      }
+    }
+    
+    // The privacy preset is applied to a copy of the upload, later stages carry over whatever it left
+    let workingPath = imagePath;
+    let workingFormat = sourceFormat;
+    const scrubbed = scrub ? await writeScrubbedCopy(imagePath, sourceFormat, initialMetadata, output.metadataPreset, sourceAnimation !== null) : null;
+    if (scrubbed) {
+      console.log(`Removed metadata outside the ${output.metadataPreset} preset`);
+      workingPath = scrubbed.path;
+      workingFormat = scrubbed.format;
+      workingCopies.push(workingPath);
+    } else if (scrub) {
+      console.warn(`Metadata of animated ${sourceFormat} uploads cannot be filtered, all of it is removed`);
+    }
+    
+    // libvips converts with the perceptual intent, other intents need the embedded profile rewritten
+    const intentProfile = color.converts && initialMetadata.icc
+      ? selectIntentTables(initialMetadata.icc, output.renderingIntent)
+      : null;
+    if (intentProfile && canSpliceMetadata(workingFormat)) {
+      const intentPath = path.join(tempDir, `intent-${uuidv4()}${IMAGE_FORMATS[workingFormat].extensions[0]}`);
+      fs.writeFileSync(intentPath, spliceMetadata(fs.readFileSync(workingPath), workingFormat, { icc: intentProfile }));
+      workingPath = intentPath;
+      workingCopies.push(workingPath);
+    } else if (intentProfile) {
+      console.warn(`The ${output.renderingIntent} intent cannot be applied to ${sourceFormat} uploads, converting with the perceptual intent`);
+    }
+    
+    // Every stage works on the image as it is viewed, so the EXIF orientation is applied to the pixels first
+    if (!sourceAnimation && (initialMetadata.orientation ?? 1) > 1) {
+      console.log(`Applying EXIF orientation ${initialMetadata.orientation}`);
+      workingPath = await writeUprightCopy(workingPath, initialMetadata);
+      workingCopies.push(workingPath);
+    }
+    const workingMetadata = workingPath === imagePath ? initialMetadata : await sharp(workingPath).metadata();
+    
+    // Load the image with sharp, in the planned colour space
+    let image = applyColorPlan(sharp(workingPath, { animated: animation !== null }), color);
+    
+    // Overlays are built for a single frame
+    const width = workingMetadata.width || 800;
+    const height = workingMetadata.height || 600;
+    
+    // Overlays are collected first since sharp only honours the last composite() call
+    const overlays: sharp.OverlayOptions[] = [];
     
     // Skip watermarking if in EXIF-only mode
-    if (!exifOnlyMode && text) {
-      // Create SVG for watermark
-      const svgContent = `
-        <svg width="${width}" height="${height}">
-          <style>
-            .watermark {
-              fill: rgba(255, 255, 255, ${opacity / 100});
-              font-family: 'Arial', sans-serif;
-              font-weight: bold;
-              font-size: ${fontSize}px;
-              filter: drop-shadow(0px 1px 3px rgba(0, 0, 0, 0.8));
-            }
-            .info {
-              fill: rgba(255, 255, 255, 0.7);
-              font-family: 'Arial', sans-serif;
-              font-size: 10px;
-            }
-          </style>
-          <text
-            class="watermark"
-            x="${getXPosition(position, width, fontSize * text.length * 0.5)}"
-            y="${getYPosition(position, height, fontSize)}"
-          >${text}</text>
-          ${addExifProtection ? 
-            `<text class="info" x="${width - 10}" y="${height - 10}" text-anchor="end">Protected with EXIF metadata</text>` 
-            : ''}
-        </svg>
-      `;
+    let watermarkRegion: WatermarkRegion | undefined;
+    if (!exifOnlyMode && watermarkSettings.text) {
+      let textSettings = watermarkSettings;
       
-      // Add watermark to image
-      image = image.composite([
-        { input: Buffer.from(svgContent), gravity: 'center' }
-      ]);
+      // Content-aware placement picks a spot for the measured box, then places it there like a free position
+      if (watermarkSettings.position === 'auto' && watermarkSettings.mode !== 'tiled' && !watermarkSettings.placement) {
+        const box = await measureTextBox(watermarkSettings);
+        const strategy = watermarkSettings.autoStrategy ?? 'unobtrusive';
+        watermarkRegion = await findAutoPlacement(workingPath, width, height, box.width, box.height, watermarkSettings.rotation ?? 0, strategy);
+        console.log('Auto placement:', watermarkRegion);
+        textSettings = {
+          ...watermarkSettings,
+          placement: {
+            x: (watermarkRegion.left + watermarkRegion.width / 2) / width,
+            y: (watermarkRegion.top + watermarkRegion.height / 2) / height,
+          },
+        };
+      }
+      
+      overlays.push(await buildTextOverlay(textSettings, width, height, addExifProtection, workingPath));
+    }
+    
+    // Add the logo layer
+    if (!exifOnlyMode && watermarkSettings.logo) {
+      overlays.push(await buildLogoOverlay(
+        watermarkSettings.logo,
+        width,
+        height,
+        watermarkSettings.autoContrast ? { source: workingPath, ratio: watermarkSettings.contrastRatio } : undefined
+      ));
+    }
+    
+    // The visible marks are checked against the image as it was before them
+    if (overlays.length > 0) {
+      expected.watermark = await captureWatermarkReference(workingPath, overlays, width, height);
+    }
+    
+    // Add the invisible owner ID last so it also covers the visible marks
+    if (invisibleSettings?.enabled) {
+      const ownerId = parseOwnerId(invisibleSettings.ownerId);
+      if (ownerId === null) {
+        throw new Error('Invalid owner ID for invisible watermark');
+      }
+      expected.invisibleOwnerId = ownerId;
+      console.log(`Embedding invisible watermark: strength=${invisibleSettings.strength}`);
+      overlays.push(createInvisibleWatermarkOverlay(ownerId, width, height, invisibleSettings.strength));
+    }
+    
+    if (overlays.length > 0) {
+      // The overlays are drawn in sRGB, a kept profile needs their colours converted
+      const placed = await Promise.all(overlays.map((overlay) => overlayToWorkingSpace(overlay, color, output.renderingIntent)));
+      image = image.composite(animation ? await Promise.all(placed.map((overlay) => repeatPerFrame(overlay, width, height))) : placed);
+    }
+    
+    // A scrubbed working copy only holds what the preset keeps, so all of it is carried over
+    if (scrubbed) {
+      image = image.keepMetadata();
     }
     
     // Add metadata for EXIF protection
@@ -301,14 +535,11 @@ export async function processImage(
       
       try {
         // Use Sharp's metadata API correctly
-        image = image.withMetadata()  // First preserve existing metadata
-          .withExifMerge({  // Then merge our custom EXIF data
-            IFD0: {
-              Copyright: 'DO NOT USE FOR AI TRAINING',
-              Artist: 'Protected Content',
-              ImageDescription: 'This image is protected against AI training usage'
-            }
-          });
+        const exifIfds = sharpExifTags(noticeTags);
+        image = scrub && !scrubbed
+          ? image.withExif(exifIfds)  // Replaces the upload's EXIF, which could not be filtered
+          : image.keepMetadata()  // First preserve existing metadata, the colour plan decides about the profile
+            .withExifMerge(exifIfds);  // Then merge our custom EXIF data
         
         console.log('Added metadata protection');
       } catch (exifError) {
@@ -317,75 +548,197 @@ export async function processImage(
       }
     }
     
-    // Determine output format
-    const isPNG = (initialMetadata.format === 'png');
-    const extension = isPNG ? 'png' : 'jpeg';
+    // Intermediate steps are lossless when the fragile watermark follows, so it hashes the final pixels
+    const stepFormat = tamperProtection ? (animation ? 'webp' : 'png') : format;
+    const stepOptions: EncodeOptions = { lossless: tamperProtection, animation, settings: output };
     
     // Apply adversarial noise if enabled
-    let finalImageBuffer: Buffer;
-    if (adversarialSettings?.enabled) {
+    if (adversarialSettings?.enabled && noiseSeed) {
       console.log('Applying adversarial noise protection...');
       
-      // Get the current image as buffer
-      const currentBuffer = isPNG ? await image.png().toBuffer() : await image.jpeg().toBuffer();
+      // Get the current image as buffer, losslessly so the output format's encoder only runs once, on the noised pixels
+      const currentBuffer = await encodeImage(image, animation ? 'webp' : 'png', { ...stepOptions, lossless: true }).toBuffer();
       
       // Apply adversarial noise
-      finalImageBuffer = await generateAdversarialNoise(currentBuffer, adversarialSettings);
-    } else {
-      // No adversarial noise, get buffer normally
-      finalImageBuffer = isPNG ? await image.png().toBuffer() : await image.jpeg().toBuffer();
+      const noised = await generateAdversarialNoise(currentBuffer, adversarialSettings, noiseSeed, animation, color);
+      image = noised.image;
+      expected.noise = noised.signal;
+    }
+    const encoded = await encodeKeepingMarks(image, stepFormat, stepOptions, expected);
+    let finalImageBuffer = encoded.buffer;
+    
+    // Add the fragile tamper-localization watermark last, as any later change would break it
+    if (tamperProtection) {
+      console.log('Embedding fragile tamper-detection watermark...');
+      finalImageBuffer = await embedFragileWatermark(finalImageBuffer, format, output);
+      expected.tamperSeal = true;
+    }
+    
+    // sharp cannot write XMP, the rights notices are added to the encoded file, next to any XMP it kept
+    if (packetProperties.length > 0 && canWriteXmp(format)) {
+      const keptXmp = (await sharp(finalImageBuffer).metadata()).xmp;
+      const packet = buildXmpPacket(packetProperties, keptXmp?.toString('utf8'));
+      if (!fitsXmp(format, packet)) {
+        throw new ProtectionVerificationError([
+          { stage: 'xmpRights', message: `The XMP packet merged with the one the image kept is ${Buffer.byteLength(packet, 'utf8')} bytes, more than a JPEG segment holds; a metadata preset removes the kept packet` },
+        ]);
+      }
+      finalImageBuffer = spliceMetadata(finalImageBuffer, format, { xmp: packet });
+      console.log(noiseSeed ? 'Added XMP rights notices and the noise seed' : 'Added XMP rights notices');
+    } else if (packetProperties.length > 0) {
+      console.warn(`XMP cannot be written to ${format}, the noise seed is left out`);
+    }
+    
+    // The IPTC notice likewise, merged into the record the encoded file kept; libvips drops it from PNG, so it is read from the upload there
+    if (noticeFields.length > 0) {
+      const keptIptc = readPhotoshopResources(finalImageBuffer, format) ??
+        (addExifProtection && !scrub ? readPhotoshopResources(fs.readFileSync(imagePath), sourceFormat) : null);
+      finalImageBuffer = spliceMetadata(finalImageBuffer, format, { iptc: writeIptcNotice(noticeFields, keptIptc) });
+      console.log('Added IPTC notice');
+    }
+    
+    // The signed manifest goes last, any later change to the file would break its hash binding
+    if (c2paManifest) {
+      finalImageBuffer = embedC2paManifest(finalImageBuffer, format, actions, parent);
+      console.log('Signed the C2PA manifest');
     }
     
     // Create output path
-    const outputFilename = `watermarked-${uuidv4()}.${extension}`;
+    const outputFilename = `watermarked-${uuidv4()}${extension}`;
     const outputPath = path.join(tempDir, outputFilename);
     
     // Write the final buffer to file
     fs.writeFileSync(outputPath, finalImageBuffer);
+    await checkOutput(outputPath, format, expected);
     
-    return outputPath;
+    return { path: outputPath, format, watermarkRegion, raisedQuality: encoded.raisedQuality };
   } catch (error) {
     console.error('Error processing image:', error);
+    if (error instanceof ProtectionVerificationError) throw error;
     throw new Error('Failed to process image');
+  } finally {
+    workingCopies.forEach((copy) => fs.unlink(copy, () => undefined));
   }
 }
 
-// Helper to get X position based on watermark position
-function getXPosition(position: string, width: number, textWidth: number): string {
-  switch (position) {
-    case 'top-left':
-    case 'middle-left':
-    case 'bottom-left':
-      return '30';
-    case 'top-center':
-    case 'middle-center':
-    case 'bottom-center':
-      return `${width / 2}`;
-    case 'top-right':
-    case 'middle-right':
-    case 'bottom-right':
-    default:
-      return `${width - textWidth - 30}`;
+// What the C2PA manifest records about processing, in the order the stages run
+function provenanceActions(stages: {
+  transcoded: boolean;
+  color: boolean;
+  watermark: boolean;
+  invisible: boolean;
+  noise: string | null; // Seed of the noise
+  tamperSeal: boolean;
+  metadata: boolean;
+}): ManifestAction[] {
+  const actions: ManifestAction[] = [];
+  if (stages.transcoded) actions.push({ action: 'c2pa.transcoded', description: 'Converted to another image format' });
+  if (stages.color) actions.push({ action: 'c2pa.color_adjustments', description: 'Converted to 8-bit sRGB' });
+  if (stages.watermark) actions.push({ action: 'c2pa.watermarked', description: 'Visible watermark' });
+  if (stages.invisible) actions.push({ action: 'c2pa.watermarked', description: 'Invisible owner ID' });
+  if (stages.noise) actions.push({ action: 'c2pa.filtered', description: `Adversarial noise against AI training, seed ${stages.noise}` });
+  if (stages.tamperSeal) actions.push({ action: 'c2pa.watermarked', description: 'Fragile tamper-detection seal' });
+  if (stages.metadata) actions.push({ action: 'c2pa.edited.metadata', description: 'Notices against AI training, private metadata removed' });
+  return actions;
+}
+
+// Re-read the written file, a file missing a requested protection is removed rather than returned
+async function checkOutput(outputPath: string, format: ImageFormat, expected: OutputExpectations): Promise<void> {
+  const failures = await verifyOutput(outputPath, format, expected);
+  if (failures.length > 0) {
+    fs.unlink(outputPath, () => undefined);
+    throw new ProtectionVerificationError(failures);
   }
+  console.log('Verified every requested protection in the output');
 }
 
-// Helper to get Y position based on watermark position
-function getYPosition(position: string, height: number, fontSize: number): string {
-  switch (position) {
-    case 'top-left':
-    case 'top-center':
-    case 'top-right':
-      return `${30 + fontSize}`;
-    case 'middle-left':
-    case 'middle-center':
-    case 'middle-right':
-      return `${height / 2}`;
-    case 'bottom-left':
-    case 'bottom-center':
-    case 'bottom-right':
-    default:
-      return `${height - 30}`;
+/**
+ * Rotate and flip the image as its EXIF orientation says and reset the tag
+ * The copy is lossless and keeps the profile, the bit depth and the other
+ * metadata; CMYK needs TIFF, which loses the other EXIF tags
+ */
+async function writeUprightCopy(imagePath: string, metadata: sharp.Metadata): Promise<string> {
+  const format: ImageFormat = metadata.space === 'cmyk' ? 'tiff' : 'png';
+  const uprightPath = path.join(tempDir, `upright-${uuidv4()}${IMAGE_FORMATS[format].extensions[0]}`);
+  const color = planColor(metadata, format, { ...DEFAULT_OUTPUT_SETTINGS, colorMode: 'preserve' });
+  await encodeImage(applyColorPlan(sharp(imagePath).rotate().keepMetadata(), color), format, { lossless: true }).toFile(uprightPath);
+  return uprightPath;
+}
+
+/**
+ * Copy the upload with only the metadata the preset keeps
+ * JPEG and PNG are filtered in place, other still images go through a
+ * lossless PNG copy first (TIFF for CMYK, which keeps no EXIF at all).
+ * Null for animations in other formats, which cannot be copied that way.
+ */
+async function writeScrubbedCopy(
+  imagePath: string,
+  format: ImageFormat,
+  metadata: sharp.Metadata,
+  preset: MetadataPreset,
+  animated: boolean
+): Promise<{ path: string; format: ImageFormat } | null> {
+  if (!canSpliceMetadata(format) && animated) return null;
+  
+  let source = fs.readFileSync(imagePath);
+  let copyFormat = format;
+  if (!canSpliceMetadata(format)) {
+    const cmyk = metadata.space === 'cmyk';
+    copyFormat = cmyk ? 'tiff' : 'png';
+    const color = planColor(metadata, copyFormat, { ...DEFAULT_OUTPUT_SETTINGS, colorMode: 'preserve' });
+    const image = applyColorPlan(sharp(imagePath), color);
+    source = await encodeImage(cmyk ? image : image.keepMetadata(), copyFormat, { lossless: true }).toBuffer();
   }
+  
+  const copyPath = path.join(tempDir, `scrubbed-${uuidv4()}${IMAGE_FORMATS[copyFormat].extensions[0]}`);
+  fs.writeFileSync(copyPath, canSpliceMetadata(copyFormat) ? spliceMetadata(source, copyFormat, scrubSegments(metadata.exif, preset)) : source);
+  return { path: copyPath, format: copyFormat };
+}
+
+// Segments that remove everything outside the preset's allow-list
+function scrubSegments(exif: Buffer | undefined, preset: MetadataPreset): MetadataSegments {
+  return {
+    exif: filterExifTags(exif, (group, name) => keepsExifTag(preset, group, name)),
+    xmp: null,
+    iptc: null,
+    comments: null,
+  };
+}
+
+// IPTC resource blocks with the notice merged in, a record that cannot be parsed is replaced
+function writeIptcNotice(fields: IptcField[], existing: Buffer | null): Buffer {
+  try {
+    return buildIptcResources(fields, existing);
+  } catch (error) {
+    console.warn('Existing IPTC record could not be parsed, replacing it:', error);
+    return buildIptcResources(fields);
+  }
+}
+
+// Every metadata entry of an image as the privacy presets see it, XMP as a whole block
+function listMetadataEntries(metadata: sharp.Metadata, resources: Buffer | null): MetadataEntry[] {
+  const entries = listExifEntries(metadata.exif);
+  if (metadata.xmp) entries.push({ group: 'XMP', name: 'XMP packet', value: `${metadata.xmp.length} bytes` });
+  const iptc = listIptcEntries(resources);
+  if (iptc.length > 0) entries.push(...iptc);
+  else if (resources) entries.push({ group: 'IPTC', name: 'Photoshop resources', value: `${resources.length} bytes` });
+  for (const comment of metadata.comments ?? []) {
+    entries.push({ group: 'Comment', name: comment.keyword, value: comment.text });
+  }
+  return entries;
+}
+
+/**
+ * Repeat a single-frame overlay down the strip of an animation
+ * The overlay is first placed on a transparent frame, as tiling ignores offsets
+ */
+async function repeatPerFrame(overlay: sharp.OverlayOptions, width: number, height: number): Promise<sharp.OverlayOptions> {
+  const { blend, ...placement } = overlay;
+  const frame = await sharp({ create: { width, height, channels: 4, background: { r: 0, g: 0, b: 0, alpha: 0 } } })
+    .composite([placement])
+    .png()
+    .toBuffer();
+  return { input: frame, blend, tile: true, gravity: 'northwest' };
 }
 
 // Clean up temporary files
@@ -0,0 +1,190 @@
+import fs from 'fs';
+import sharp from 'sharp';
+import { decodeMetadata, type MetadataSource } from './decoded-metadata';
+import { detectFileFormat } from './image-format';
+import { readPhotoshopResources } from './metadata-splice';
+import { verifyC2paManifest } from './c2pa';
+import { DETECTABLE_NOISE_METHODS, detectNoisePattern, NOISE_METHODS, type NoiseMethod } from './adversarial-noise';
+import { detectInvisibleWatermark } from './invisible-watermark';
+import { findAiNotices, type AiNotice, type AiNoticeSource, type DecodedMetadata } from '@shared/decoded-metadata';
+import { PLUS_VOCABULARY } from '@shared/xmp-rights';
+import type { ImageFormat } from '@shared/image-formats';
+import type { ProtectionCheck, ProtectionCheckId, VerificationReport } from '@shared/verification';
+
+/**
+ * Protection verification
+ *
+ * Checks an image for each protection the processing routes apply, reading
+ * only the file itself: whatever a re-encode, an upload site or an editor
+ * stripped on the way shows up as a failed check, so users can see what
+ * actually survived into the copy they publish.
+ */
+
+export async function verifyProtections(imagePath: string): Promise<VerificationReport> {
+  const content = fs.readFileSync(imagePath);
+  const metadata = await sharp(content).metadata();
+  const format = detectFileFormat(imagePath);
+
+  // Malformed metadata fails only the checks that read it
+  const unreadable: Partial<Record<MetadataSource, string>> = {};
+  let resources: Buffer | null = null;
+  try {
+    resources = format ? readPhotoshopResources(content, format) : null;
+  } catch (error) {
+    unreadable.iptc = errorMessage(error);
+  }
+  const decoded = decodeMetadata(metadata, resources, (source, error) => {
+    unreadable[source] = errorMessage(error);
+  });
+  const notices = findAiNotices(decoded);
+
+  const checks: ProtectionCheck[] = [
+    unreadable.exif !== undefined
+      ? unreadableCheck('exifNotice', 'The EXIF data', unreadable.exif)
+      : noticeCheck('exifNotice', 'EXIF', notices, metadata.exif ? 'No EXIF tag carries a notice against AI training' : 'The image has no EXIF data'),
+    unreadable.xmp !== undefined
+      ? unreadableCheck('xmpRights', 'The XMP packet', unreadable.xmp)
+      : xmpRightsCheck(decoded, !!metadata.xmp),
+    unreadable.iptc !== undefined
+      ? unreadableCheck('iptcNotice', 'The IPTC record', unreadable.iptc)
+      : noticeCheck('iptcNotice', 'IPTC', notices, resources ? 'The IPTC record has no notice against AI training' : 'The image has no IPTC-IIM record'),
+    await guardedCheck('c2pa', 'The C2PA manifest store', () => c2paCheck(content, format)),
+    await guardedCheck('invisibleWatermark', 'The image data', () => invisibleWatermarkCheck(imagePath)),
+    unreadable.xmp !== undefined
+      ? unreadableCheck('noiseSignature', 'The XMP packet with the noise seed', unreadable.xmp)
+      : await guardedCheck('noiseSignature', 'The image data', () => noiseSignatureCheck(content, decoded)),
+  ];
+
+  return {
+    format: format ?? metadata.format ?? null,
+    width: metadata.width ?? null,
+    height: metadata.pageHeight ?? metadata.height ?? null,
+    checks,
+    passed: checks.filter((check) => check.passed).length,
+    aiNotices: notices,
+  };
+}
+
+// A check failed because its data could not be decoded
+function unreadableCheck(id: ProtectionCheckId, what: string, message: string): ProtectionCheck {
+  return { id, passed: false, details: `${what} cannot be read: ${message}`, fields: {} };
+}
+
+// Run a check, reporting a decoding error as its failure
+async function guardedCheck(id: ProtectionCheckId, what: string, check: () => ProtectionCheck | Promise<ProtectionCheck>): Promise<ProtectionCheck> {
+  try {
+    return await check();
+  } catch (error) {
+    return unreadableCheck(id, what, errorMessage(error));
+  }
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+// Passed when a notice of the source was found, its fields listed
+function noticeCheck(id: ProtectionCheckId, source: AiNoticeSource, notices: AiNotice[], missing: string): ProtectionCheck {
+  const found = notices.filter((notice) => notice.source === source);
+  const fields: Record<string, string> = {};
+  for (const notice of found) {
+    fields[notice.field] = fields[notice.field] ? `${fields[notice.field]}; ${notice.value}` : notice.value;
+  }
+  const names = Object.keys(fields);
+  return {
+    id,
+    passed: names.length > 0,
+    details: names.length > 0 ? `Notice found in ${names.join(', ')}` : missing,
+    fields,
+  };
+}
+
+// Passed when a crawler can read the reservation: a prohibiting PLUS data mining value or a TDMRep reservation
+function xmpRightsCheck(decoded: DecodedMetadata, hasPacket: boolean): ProtectionCheck {
+  const plus = decoded.xmp.plus ?? {};
+  const tdm = decoded.xmp.tdm ?? {};
+  const rights = decoded.xmp.xmpRights ?? {};
+  const fields: Record<string, string> = {};
+  const add = (name: string, value: unknown) => {
+    if (value !== undefined) fields[name] = Array.isArray(value) ? value.join('; ') : String(value);
+  };
+  add('plus:DataMining', plus.DataMining);
+  add('tdm:reservation', tdm.reservation);
+  add('tdm:policy', tdm.policy);
+  add('dc:rights', (decoded.xmp.dc ?? {}).rights);
+  add('xmpRights:UsageTerms', rights.UsageTerms);
+  add('xmpRights:WebStatement', rights.WebStatement);
+
+  const dataMining = typeof plus.DataMining === 'string' ? plus.DataMining.replace(PLUS_VOCABULARY, '') : null;
+  const prohibits = dataMining !== null && dataMining.indexOf('DMI-PROHIBITED') === 0;
+  const reserved = tdm.reservation === 1;
+  const found: string[] = [];
+  if (prohibits) found.push(`plus:DataMining is ${dataMining}`);
+  if (reserved) found.push('tdm:reservation reserves text and data mining rights');
+
+  let details: string;
+  if (found.length > 0) details = found.join('; ');
+  else if (!hasPacket) details = 'The image has no XMP packet';
+  else if (dataMining !== null) details = `plus:DataMining is ${dataMining}, which does not prohibit AI training, and there is no tdm:reservation`;
+  else details = 'The XMP packet has no plus:DataMining or tdm:reservation property';
+  return { id: 'xmpRights', passed: found.length > 0, details, fields };
+}
+
+// Passed when the signature and the hash binding hold and this server signed; any certificate can sign a manifest, so another signer is reported as unknown
+function c2paCheck(content: Buffer, format: ImageFormat | null): ProtectionCheck {
+  if (!format) return { id: 'c2pa', passed: false, details: 'No C2PA manifest store found', fields: {} };
+  const validation = verifyC2paManifest(content, format);
+  const fields: Record<string, string> = {};
+  if (validation.signer) fields.signer = validation.signer;
+  if (validation.claimGenerator) fields.claimGenerator = validation.claimGenerator;
+  if (validation.actions.length > 0) fields.actions = validation.actions.join('; ');
+  Object.keys(validation.trainingMining).forEach((entry) => {
+    fields[entry] = validation.trainingMining[entry];
+  });
+  if (validation.status === 'valid' && !validation.trusted) {
+    return { id: 'c2pa', passed: false, details: `${validation.details}, but the signer is unknown: only this server's certificate is trusted`, fields };
+  }
+  return { id: 'c2pa', passed: validation.status === 'valid', details: validation.details, fields };
+}
+
+async function invisibleWatermarkCheck(imagePath: string): Promise<ProtectionCheck> {
+  const detection = await detectInvisibleWatermark(imagePath);
+  if (!detection.detected || detection.ownerId === null) {
+    return { id: 'invisibleWatermark', passed: false, details: 'No invisible watermark found', fields: {} };
+  }
+  return {
+    id: 'invisibleWatermark',
+    passed: true,
+    details: `Owner ID ${detection.ownerId} found with ${(detection.confidence * 100).toFixed(1)}% confidence`,
+    fields: { ownerId: detection.ownerId, scale: String(detection.scale) },
+  };
+}
+
+// The noise is regenerated from the seed recorded in the XMP, so it is only found while the metadata survives
+async function noiseSignatureCheck(content: Buffer, decoded: DecodedMetadata): Promise<ProtectionCheck> {
+  const recorded = decoded.xmp.imageshield ?? {};
+  if (recorded.NoiseSeed === undefined || recorded.NoiseMethod === undefined) {
+    return { id: 'noiseSignature', passed: false, details: 'No noise seed is recorded in the XMP; /api/detect-noise tests a known seed', fields: {} };
+  }
+  const seed = String(recorded.NoiseSeed);
+  const method = String(recorded.NoiseMethod) as NoiseMethod;
+  const fields: Record<string, string> = { seed, method };
+  if (NOISE_METHODS.indexOf(method) === -1) {
+    return { id: 'noiseSignature', passed: false, details: `Unknown noise method ${method}`, fields };
+  }
+  if (DETECTABLE_NOISE_METHODS.indexOf(method) === -1) {
+    return { id: 'noiseSignature', passed: false, details: `${method} noise is recorded, but it is too smooth to be told apart from the image`, fields };
+  }
+
+  const detection = await detectNoisePattern(content, method, seed);
+  fields.correlation = String(detection.correlation);
+  fields.zScore = String(detection.zScore);
+  return {
+    id: 'noiseSignature',
+    passed: detection.detected,
+    details: detection.detected
+      ? `The ${method} noise of seed ${seed} is in the pixels`
+      : `The ${method} noise of seed ${seed} is recorded, but the pixels no longer carry it`,
+    fields,
+  };
+}
@@ -0,0 +1,28 @@
+import crypto from 'crypto';
+
+/**
+ * Keys of the fragile seal and the invisible watermark
+ *
+ * Both are derived from WATERMARK_SECRET with HMAC-SHA256 under a label of
+ * their own, so the two marks never share a key. Without the variable the
+ * invisible watermark falls back to a built-in key, which anyone with the
+ * source can use to read or forge an owner ID, and the fragile seal is
+ * refused altogether: a seal whose hashes anyone can recompute proves nothing.
+ */
+
+export type WatermarkKeyPurpose = 'fragile' | 'invisible';
+
+const WATERMARK_SECRET = process.env.WATERMARK_SECRET || null;
+const FALLBACK_SECRET = 'imageshield-watermark'; // Public, never used for the fragile seal
+
+export function watermarkSecretConfigured(): boolean {
+  return WATERMARK_SECRET !== null;
+}
+
+// Throws for the fragile seal when WATERMARK_SECRET is not set; routes check watermarkSecretConfigured() first
+export function deriveWatermarkKey(purpose: WatermarkKeyPurpose): Buffer {
+  if (!WATERMARK_SECRET && purpose === 'fragile') {
+    throw new Error('The tamper seal needs WATERMARK_SECRET to be set');
+  }
+  return crypto.createHmac('sha256', WATERMARK_SECRET ?? FALLBACK_SECRET).update(`imageshield:${purpose}`).digest();
+}
@@ -0,0 +1,525 @@
+import sharp from 'sharp';
+import type { PlacementStrategy } from './auto-placement';
+import { autoOutlineWidth, computeRegionStats, pickContrastColors, DEFAULT_CONTRAST_RATIO, type ContrastColors } from '@shared/contrast';
+
+/**
+ * Visible watermark rendering
+ *
+ * The text is shaped and rasterized with Pango, which sees every font
+ * registered at runtime (see fonts.ts) and falls back glyph by glyph through
+ * the font chain, then composed in an SVG overlay that adds the outline,
+ * plate and rotation; the drop shadow is added once that is rasterized.
+ * The logo is a separate raster overlay.
+ * Layout follows the same rules as the client canvas renderer and preview:
+ * the text sits in a box of measured width and 1.2em height (plus padding
+ * when a background plate is drawn), the box is placed at one of the preset
+ * positions or centred on a free placement, and rotated around its centre.
+ * With auto contrast the colours are picked from the image region under the
+ * mark (the whole image for the tiled layout), see shared/contrast.ts.
+ */
+
+const EDGE_MARGIN = 30; // Inset of the text box from the image edges in pixels
+const LINE_HEIGHT = 1.2; // Text box height in em
+const PLATE_PADDING = 0.3; // Background plate padding in em
+const FALLBACK_FONTS = ['Arial', 'sans-serif']; // Tried in order for glyphs missing from the chosen font
+const MAX_TILES = 1500; // Text boxes of the tiled layout; denser grids are spread out, each one costs librsvg time
+const SHADOW_OFFSET = 1; // Drop shadow offset downwards in pixels
+const SHADOW_BLUR = 1.5; // Drop shadow blur sigma in pixels
+const SHADOW_OPACITY = 0.8;
+const CONTRAST_SAMPLE_SIZE = 64; // Longest edge the region is downscaled to before sampling colours
+
+// Transparent full-height glyph appended to the text so Pango's ink-cropped output keeps a stable line height
+const STRUT = '<span fgalpha="1">\u2588</span>';
+
+export interface WatermarkSettings {
+  text: string;
+  position: string; // One of the nine presets, or 'auto' for content-aware placement
+  placement?: WatermarkPlacement; // Free position of a single mark, overrides `position`
+  autoStrategy?: PlacementStrategy; // Used when `position` is 'auto'
+  opacity: number;
+  fontSize: number;
+  mode?: 'single' | 'tiled'; // Single mark at `position`, or repeated across the image
+  tileAngle?: number; // Rotation of the tiled grid in degrees (counter-clockwise)
+  tileSpacing?: number; // Gap between tiles in pixels
+  tileStagger?: number; // Horizontal offset of every other row, 0-100% of a tile
+  logo?: LogoSettings; // Optional image layer composited alongside the text
+  fillColor?: string; // Text color as #rrggbb
+  strokeColor?: string; // Outline color as #rrggbb
+  strokeWidth?: number; // Outline width in pixels, 0 disables the outline
+  rotation?: number; // Rotation of a single mark in degrees (counter-clockwise)
+  fontFamily?: string; // System or uploaded font family, falls back to Arial and sans-serif
+  fontWeight?: number; // 100-900
+  letterSpacing?: number; // Extra space between characters in pixels
+  shadow?: boolean; // Soft drop shadow behind the text
+  background?: boolean; // Semi-transparent plate behind the text
+  backgroundColor?: string; // Plate color as #rrggbb
+  backgroundOpacity?: number; // Plate opacity, 0-100
+  autoContrast?: boolean; // Pick fill and outline from the region under the text and logo
+  contrastRatio?: number; // Target WCAG contrast ratio for auto contrast
+}
+
+// Centre of the text box as a fraction (0-1) of the image width and height
+export interface WatermarkPlacement {
+  x: number;
+  y: number;
+}
+
+export interface LogoSettings {
+  path: string; // Uploaded PNG/SVG file
+  scale: number; // Logo width as a percentage of the image width
+  opacity: number; // 0-100
+  position: string; // Same nine presets as the text watermark
+  margin: number; // Inset from the image edges in pixels
+}
+
+// Resolved text style shared by the single and tiled layouts
+interface TextStyle {
+  fontSize: number;
+  fontFamily: string;
+  fontWeight: number;
+  letterSpacing: number;
+  fill: string;
+  stroke: string;
+  strokeWidth: number;
+  shadow: boolean;
+  plate: string | null;
+  plateOpacity: number;
+  padding: number;
+}
+
+// Rasterized text run
+interface TextImage {
+  data: Buffer;
+  width: number; // Advance width of the text, without the outline margin
+  height: number;
+  margin: number; // Transparent border around the text that leaves room for the outline
+}
+
+/**
+ * Measure the box a single text watermark occupies before rotation,
+ * used to look for a spot to place it
+ */
+export async function measureTextBox(settings: WatermarkSettings): Promise<{ width: number; height: number }> {
+  const style = resolveTextStyle(settings);
+  const textImage = await renderText(settings.text, style);
+  return {
+    width: textImage.width + style.padding * 2,
+    height: style.fontSize * LINE_HEIGHT + style.padding * 2,
+  };
+}
+
+/**
+ * Build the SVG overlay holding the text watermark and, when requested,
+ * the small EXIF protection note in the bottom-right corner
+ */
+export async function buildTextOverlay(
+  settings: WatermarkSettings,
+  width: number,
+  height: number,
+  exifNote: boolean,
+  source?: string | Buffer // Image under the overlay, sampled for auto contrast
+): Promise<sharp.OverlayOptions> {
+  let style = resolveTextStyle(settings);
+  let textImage = await renderText(settings.text, style);
+  
+  // The colours are baked into the rendered text, so render again once they are known
+  if (settings.autoContrast && source) {
+    let region = { left: 0, top: 0, width, height };
+    if (settings.mode !== 'tiled') {
+      const box = getSingleBox(settings, style, textImage, width, height);
+      region = rotatedBounds(box.cx, box.cy, box.width, box.height, settings.rotation ?? 0);
+    }
+    const colors = await sampleContrastColors(source, region, width, height, settings.contrastRatio);
+    style = {
+      ...style,
+      fill: colors.fill,
+      stroke: colors.stroke,
+      strokeWidth: colors.needsOutline ? Math.max(style.strokeWidth, autoOutlineWidth(style.fontSize)) : style.strokeWidth,
+    };
+    textImage = await renderText(settings.text, style);
+  }
+  
+  const opacity = Math.min(100, Math.max(0, settings.opacity)) / 100;
+
+  const body = settings.mode === 'tiled'
+    ? buildTiledWatermark(settings, style, textImage, width, height)
+    : buildSingleWatermark(settings, style, textImage, width, height);
+
+  const svgContent = `
+    <svg width="${width}" height="${height}" xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink">
+      <defs>
+        <filter id="outline" x="0" y="0" width="1" height="1">
+          <feMorphology in="SourceAlpha" operator="dilate" radius="${style.strokeWidth}" result="dilated"/>
+          <feFlood flood-color="${style.stroke}"/>
+          <feComposite in2="dilated" operator="in" result="outline"/>
+          <feMerge>
+            <feMergeNode in="outline"/>
+            <feMergeNode in="SourceGraphic"/>
+          </feMerge>
+        </filter>
+        <image id="watermark-text" width="${textImage.width + textImage.margin * 2}" height="${textImage.height}"
+          xlink:href="data:image/png;base64,${textImage.data.toString('base64')}"/>
+      </defs>
+      ${body}
+    </svg>
+  `;
+
+  let layer = await sharp(Buffer.from(svgContent)).ensureAlpha().raw().toBuffer();
+  if (style.shadow) {
+    layer = await addDropShadow(layer, width, height);
+  }
+  if (opacity < 1) {
+    layer = await sharp(layer, { raw: { width, height, channels: 4 } })
+      .linear([1, 1, 1, opacity], [0, 0, 0, 0])
+      .raw()
+      .toBuffer();
+  }
+  if (exifNote) {
+    const note = `
+      <svg width="${width}" height="${height}" xmlns="http://www.w3.org/2000/svg">
+        <style>
+          .info {
+            fill: rgba(255, 255, 255, 0.7);
+            font-family: 'Arial', sans-serif;
+            font-size: 10px;
+          }
+        </style>
+        <text class="info" x="${width - 10}" y="${height - 10}" text-anchor="end">Protected with EXIF metadata</text>
+      </svg>
+    `;
+    layer = await sharp(layer, { raw: { width, height, channels: 4 } })
+      .composite([{ input: Buffer.from(note) }])
+      .raw()
+      .toBuffer();
+  }
+
+  return { input: layer, raw: { width, height, channels: 4 }, gravity: 'center' };
+}
+
+/**
+ * Put a soft drop shadow under a raw RGBA layer
+ * Done by libvips rather than as an SVG filter: librsvg filters the whole
+ * rotated tile grid at full resolution, which takes tens of seconds on large
+ * images, while a blur of the alpha channel takes a fraction of one.
+ */
+async function addDropShadow(layer: Buffer, width: number, height: number): Promise<Buffer> {
+  const raw = { width, height, channels: 4 as const };
+  const alpha = await sharp(layer, { raw }).extractChannel(3).raw().toBuffer();
+  // Move the alpha down by the offset, dropping the rows that fall off the bottom
+  const shifted = Buffer.concat([Buffer.alloc(width * SHADOW_OFFSET), alpha.subarray(0, width * (height - SHADOW_OFFSET))]);
+  const shadow = await sharp(Buffer.alloc(width * height * 3), { raw: { width, height, channels: 3 } })
+    .joinChannel(shifted, { raw: { width, height, channels: 1 } })
+    .blur(SHADOW_BLUR)
+    .linear([1, 1, 1, SHADOW_OPACITY], [0, 0, 0, 0])
+    .raw()
+    .toBuffer();
+  return sharp(shadow, { raw })
+    .composite([{ input: layer, raw }])
+    .raw()
+    .toBuffer();
+}
+
+/**
+ * Rasterize the logo at its target size and opacity and place it
+ * at one of the nine preset positions, inset by the configured margin
+ */
+export async function buildLogoOverlay(
+  logo: LogoSettings,
+  width: number,
+  height: number,
+  contrast?: { source: string | Buffer; ratio?: number } // Recolour the logo for auto contrast
+): Promise<sharp.OverlayOptions> {
+  const scale = Math.min(100, Math.max(1, logo.scale)) / 100;
+  const logoWidth = Math.max(1, Math.round(width * scale));
+  const opacity = Math.min(100, Math.max(0, logo.opacity)) / 100;
+
+  // SVG logos are rendered at a higher density so they stay crisp after resizing
+  let { data, info } = await sharp(logo.path, { density: 300 })
+    .resize({ width: logoWidth, height, fit: 'inside' })
+    .ensureAlpha()
+    .png()
+    .toBuffer({ resolveWithObject: true });
+
+  const { left, top } = getOverlayOffset(logo.position, width, height, info.width, info.height, logo.margin);
+
+  // Turn the logo into a silhouette in the picked fill, with an outline where the fill is not enough
+  if (contrast) {
+    const colors = await sampleContrastColors(contrast.source, { left, top, width: info.width, height: info.height }, width, height, contrast.ratio);
+    const outline = colors.needsOutline ? autoOutlineWidth(info.width / 4) : 0;
+    data = await sharp(Buffer.from(`
+      <svg width="${info.width}" height="${info.height}" xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink">
+        <filter id="tint" x="0" y="0" width="1" height="1">
+          <feFlood flood-color="${colors.fill}"/>
+          <feComposite in2="SourceAlpha" operator="in" result="fill"/>
+          <feMorphology in="SourceAlpha" operator="dilate" radius="${outline}" result="dilated"/>
+          <feFlood flood-color="${colors.stroke}"/>
+          <feComposite in2="dilated" operator="in" result="outline"/>
+          <feMerge>
+            ${outline > 0 ? '<feMergeNode in="outline"/>' : ''}
+            <feMergeNode in="fill"/>
+          </feMerge>
+        </filter>
+        <image width="${info.width}" height="${info.height}" filter="url(#tint)"
+          xlink:href="data:image/png;base64,${data.toString('base64')}"/>
+      </svg>
+    `)).png().toBuffer();
+  }
+
+  const input = await sharp(data)
+    .ensureAlpha()
+    .linear([1, 1, 1, opacity], [0, 0, 0, 0])
+    .png()
+    .toBuffer();
+  return { input, left, top };
+}
+
+// Accept only #rgb / #rrggbb colors, anything else falls back to the default
+export function sanitizeColor(value: unknown, fallback: string): string {
+  return typeof value === 'string' && /^#([0-9a-f]{3}|[0-9a-f]{6})$/i.test(value) ? value.toLowerCase() : fallback;
+}
+
+// Keep font family names to characters that are safe in CSS and Pango font descriptions
+export function sanitizeFontFamily(value: unknown, fallback: string): string {
+  if (typeof value !== 'string') return fallback;
+  const family = value.replace(/[^A-Za-z0-9 _-]/g, '').trim().slice(0, 64);
+  return family || fallback;
+}
+
+function resolveTextStyle(settings: WatermarkSettings): TextStyle {
+  const fontSize = Math.max(1, settings.fontSize);
+  const background = settings.background === true;
+  return {
+    fontSize,
+    fontFamily: sanitizeFontFamily(settings.fontFamily, 'Arial'),
+    fontWeight: Math.min(900, Math.max(100, Math.round((settings.fontWeight ?? 700) / 100) * 100)),
+    letterSpacing: settings.letterSpacing ?? 0,
+    fill: sanitizeColor(settings.fillColor, '#ffffff'),
+    stroke: sanitizeColor(settings.strokeColor, '#000000'),
+    strokeWidth: Math.max(0, settings.strokeWidth ?? 0),
+    shadow: settings.shadow !== false,
+    plate: background ? sanitizeColor(settings.backgroundColor, '#000000') : null,
+    plateOpacity: Math.min(100, Math.max(0, settings.backgroundOpacity ?? 40)) / 100,
+    padding: background ? fontSize * PLATE_PADDING : 0,
+  };
+}
+
+// A single text box (plate plus text) centred on (cx, cy)
+function renderTextBox(style: TextStyle, textImage: TextImage, cx: number, cy: number): string {
+  const boxWidth = textImage.width + style.padding * 2;
+  const boxHeight = style.fontSize * LINE_HEIGHT + style.padding * 2;
+  const plate = style.plate
+    ? `<rect x="${(cx - boxWidth / 2).toFixed(1)}" y="${(cy - boxHeight / 2).toFixed(1)}" width="${boxWidth.toFixed(1)}" height="${boxHeight.toFixed(1)}" fill="${style.plate}" fill-opacity="${style.plateOpacity}"/>`
+    : '';
+  const x = cx - textImage.width / 2 - textImage.margin;
+  const y = cy - textImage.height / 2;
+  const outline = style.strokeWidth > 0 ? ' filter="url(#outline)"' : '';
+  return `${plate}<use xlink:href="#watermark-text" x="${x.toFixed(1)}" y="${y.toFixed(1)}"${outline}/>`;
+}
+
+function buildSingleWatermark(
+  settings: WatermarkSettings,
+  style: TextStyle,
+  textImage: TextImage,
+  width: number,
+  height: number
+): string {
+  const { cx, cy } = getSingleBox(settings, style, textImage, width, height);
+  const rotation = settings.rotation ?? 0;
+
+  return `<g transform="rotate(${-rotation} ${cx.toFixed(1)} ${cy.toFixed(1)})">${renderTextBox(style, textImage, cx, cy)}</g>`;
+}
+
+// Size and centre of the single text box before rotation
+function getSingleBox(
+  settings: WatermarkSettings,
+  style: TextStyle,
+  textImage: TextImage,
+  width: number,
+  height: number
+): { cx: number; cy: number; width: number; height: number } {
+  const boxWidth = textImage.width + style.padding * 2;
+  const boxHeight = style.fontSize * LINE_HEIGHT + style.padding * 2;
+  if (settings.placement) {
+    // Free placements are exact, so the box may extend past the edges
+    return {
+      cx: clampUnit(settings.placement.x) * width,
+      cy: clampUnit(settings.placement.y) * height,
+      width: boxWidth,
+      height: boxHeight,
+    };
+  }
+
+  const { left, top } = getOverlayOffset(settings.position, width, height, boxWidth, boxHeight, EDGE_MARGIN);
+  return { cx: left + boxWidth / 2, cy: top + boxHeight / 2, width: boxWidth, height: boxHeight };
+}
+
+/**
+ * Build a rotated grid of watermark texts that covers the whole image,
+ * so the mark cannot be removed by cropping a single region
+ */
+function buildTiledWatermark(
+  settings: WatermarkSettings,
+  style: TextStyle,
+  textImage: TextImage,
+  width: number,
+  height: number
+): string {
+  const angle = settings.tileAngle ?? 30;
+  const spacing = Math.max(0, settings.tileSpacing ?? 100);
+  const stagger = Math.min(100, Math.max(0, settings.tileStagger ?? 50)) / 100;
+
+  let stepX = textImage.width + style.padding * 2 + spacing;
+  let stepY = style.fontSize * LINE_HEIGHT + style.padding * 2 + spacing;
+
+  // Cover the image diagonal so no corner is left bare after rotation
+  const diagonal = Math.ceil(Math.sqrt(width * width + height * height));
+  const tileCount = () => (Math.ceil(diagonal / stepY) + 2) * (Math.ceil(diagonal / stepX) + 3);
+  if (tileCount() > MAX_TILES) {
+    const spread = Math.sqrt(tileCount() / MAX_TILES);
+    stepX *= spread;
+    stepY *= spread;
+    while (tileCount() > MAX_TILES) {
+      stepX *= 1.05;
+      stepY *= 1.05;
+    }
+  }
+  const cols = Math.ceil(diagonal / stepX) + 1;
+  const rows = Math.ceil(diagonal / stepY) + 1;
+  const startX = width / 2 - (cols * stepX) / 2;
+  const startY = height / 2 - (rows * stepY) / 2;
+
+  const tiles: string[] = [];
+  for (let row = 0; row <= rows; row++) {
+    const offsetX = row % 2 === 1 ? stepX * stagger : 0;
+    for (let col = -1; col <= cols; col++) {
+      const cx = startX + col * stepX + offsetX + stepX / 2;
+      const cy = startY + row * stepY + stepY / 2;
+      tiles.push(renderTextBox(style, textImage, cx, cy));
+    }
+  }
+
+  return `<g transform="rotate(${-angle} ${width / 2} ${height / 2})">${tiles.join('')}</g>`;
+}
+
+/**
+ * Shape and rasterize the text in its fill color with Pango
+ * Pango crops its output to the ink, so a transparent strut is rendered after
+ * the text to keep the line height and advance width, and cropped off again
+ */
+async function renderText(text: string, style: TextStyle): Promise<TextImage> {
+  const font = `${fontChain(style.fontFamily).join(',')} ${style.fontSize}px`;
+  // Pango expresses letter spacing in 1/1024 of a point
+  const markup = `<span foreground="${style.fill}" font_weight="${style.fontWeight}" letter_spacing="${Math.round(style.letterSpacing * 1024)}">${escapeXml(text)}</span>${STRUT}`;
+
+  const [full, strut] = await Promise.all([
+    sharp({ text: { text: markup, font, dpi: 72, rgba: true } }).png().toBuffer({ resolveWithObject: true }),
+    sharp({ text: { text: STRUT, font, dpi: 72, rgba: true } }).png().toBuffer({ resolveWithObject: true }),
+  ]);
+
+  const textWidth = Math.max(1, full.info.width - strut.info.width);
+  const margin = Math.ceil(style.strokeWidth);
+  const data = await sharp(full.data)
+    .extract({ left: 0, top: 0, width: textWidth, height: full.info.height })
+    .extend({ top: margin, bottom: margin, left: margin, right: margin, background: { r: 0, g: 0, b: 0, alpha: 0 } })
+    .png()
+    .toBuffer();
+
+  return { data, width: textWidth, height: full.info.height + margin * 2, margin };
+}
+
+// The chosen family followed by the fallbacks, without duplicates
+function fontChain(family: string): string[] {
+  return [family, ...FALLBACK_FONTS.filter((fallback) => fallback !== family)];
+}
+
+// Helper to get the top-left corner of a box placed at one of the preset positions
+function getOverlayOffset(
+  position: string,
+  width: number,
+  height: number,
+  boxWidth: number,
+  boxHeight: number,
+  margin: number
+): { left: number; top: number } {
+  const [vertical, horizontal] = position.split('-');
+
+  let left: number;
+  switch (horizontal) {
+    case 'left':
+      left = margin;
+      break;
+    case 'center':
+      left = (width - boxWidth) / 2;
+      break;
+    case 'right':
+    default:
+      left = width - boxWidth - margin;
+  }
+
+  let top: number;
+  switch (vertical) {
+    case 'top':
+      top = margin;
+      break;
+    case 'middle':
+      top = (height - boxHeight) / 2;
+      break;
+    case 'bottom':
+    default:
+      top = height - boxHeight - margin;
+  }
+
+  // Sharp rejects overlays that start outside the image
+  return {
+    left: Math.round(Math.min(Math.max(0, left), Math.max(0, width - boxWidth))),
+    top: Math.round(Math.min(Math.max(0, top), Math.max(0, height - boxHeight))),
+  };
+}
+
+// Axis-aligned bounds of a box rotated around its centre
+function rotatedBounds(cx: number, cy: number, boxWidth: number, boxHeight: number, rotation: number) {
+  const radians = (rotation * Math.PI) / 180;
+  const cos = Math.abs(Math.cos(radians));
+  const sin = Math.abs(Math.sin(radians));
+  const width = boxWidth * cos + boxHeight * sin;
+  const height = boxWidth * sin + boxHeight * cos;
+  return { left: cx - width / 2, top: cy - height / 2, width, height };
+}
+
+// Pick auto contrast colours from the part of the region that lies inside the image
+async function sampleContrastColors(
+  source: string | Buffer,
+  region: { left: number; top: number; width: number; height: number },
+  width: number,
+  height: number,
+  ratio: number = DEFAULT_CONTRAST_RATIO
+): Promise<ContrastColors> {
+  const left = Math.min(width - 1, Math.max(0, Math.floor(region.left)));
+  const top = Math.min(height - 1, Math.max(0, Math.floor(region.top)));
+  const right = Math.max(left + 1, Math.min(width, Math.ceil(region.left + region.width)));
+  const bottom = Math.max(top + 1, Math.min(height, Math.ceil(region.top + region.height)));
+
+  const { data, info } = await sharp(source)
+    .extract({ left, top, width: right - left, height: bottom - top })
+    .resize(CONTRAST_SAMPLE_SIZE, CONTRAST_SAMPLE_SIZE, { fit: 'inside' })
+    .removeAlpha()
+    .toColourspace('srgb')
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+  return pickContrastColors(computeRegionStats(data, info.channels), ratio);
+}
+
+// Clamp a normalized coordinate to the image
+function clampUnit(value: number): number {
+  return Math.min(1, Math.max(0, value));
+}
+
+// Escape text so it can be embedded in SVG markup
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
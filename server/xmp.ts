@@ -0,0 +1,243 @@
+import { XMP_NAMESPACES, type XmpProperty } from '@shared/xmp-rights';
+import type { MetadataFields, MetadataValue } from '@shared/decoded-metadata';
+
+/**
+ * XMP packet reader and writer
+ *
+ * Serialises properties into an RDF description of the image. An existing
+ * packet is kept: the properties being written are removed from it and the
+ * new description is added next to its own, so creator, keywords and
+ * whatever else the upload carried survive. The reader handles the RDF forms
+ * packets are written in, not XML in general.
+ */
+
+const PACKET_START = '<?xpacket begin="\uFEFF" id="W5M0MpCehiHzreSzNTczkc9d"?>';
+const PACKET_END = '<?xpacket end="w"?>';
+const RDF_NAMESPACE = 'http://www.w3.org/1999/02/22-rdf-syntax-ns#';
+
+// Prefixes properties are grouped under, so a packet declaring its own prefix for a namespace reads the same
+const READ_NAMESPACES: Record<string, string> = {
+  ...XMP_NAMESPACES,
+  xmp: 'http://ns.adobe.com/xap/1.0/',
+  xmpMM: 'http://ns.adobe.com/xap/1.0/mm/',
+  photoshop: 'http://ns.adobe.com/photoshop/1.0/',
+  tiff: 'http://ns.adobe.com/tiff/1.0/',
+  exif: 'http://ns.adobe.com/exif/1.0/',
+  exifEX: 'http://cipa.jp/exif/1.0/',
+  aux: 'http://ns.adobe.com/exif/1.0/aux/',
+  Iptc4xmpCore: 'http://iptc.org/std/Iptc4xmpCore/1.0/xmlns/',
+  Iptc4xmpExt: 'http://iptc.org/std/Iptc4xmpExt/2008-02-29/',
+};
+// Namespaces of the EXIF properties, whose fractions are read as numbers
+const RATIONAL_PREFIXES = ['tiff', 'exif', 'exifEX', 'aux'];
+// Prefixes of the packet structure itself, not properties
+const SYNTAX_PREFIXES = ['rdf', 'xmlns', 'xml', 'x'];
+
+interface Element {
+  name: string; // Qualified, as written
+  attributes: string;
+  body: string | null; // Null for an empty element
+}
+
+export function buildXmpPacket(properties: XmpProperty[], existing?: string): string {
+  const description = describe(properties);
+  if (existing && existing.indexOf('</rdf:RDF>') !== -1) {
+    const packet = properties.reduce((current, property) => removeProperty(current, property.name), existing);
+    // A replacer function, so "$" in the values is not read as a pattern
+    return packet.replace('</rdf:RDF>', () => `${description}\n</rdf:RDF>`);
+  }
+  return [
+    PACKET_START,
+    '<x:xmpmeta xmlns:x="adobe:ns:meta/">',
+    `<rdf:RDF xmlns:rdf="${RDF_NAMESPACE}">`,
+    description,
+    '</rdf:RDF>',
+    '</x:xmpmeta>',
+    PACKET_END,
+  ].join('\n');
+}
+
+/**
+ * Properties of an XMP packet by namespace prefix, then local name
+ *
+ * Language alternatives give their default text, bags and sequences an
+ * array, and structures one field per member named "Parent/Member". "True"
+ * and "False" become booleans and plain integers numbers, as do fractions in
+ * the EXIF namespaces.
+ */
+export function readXmpProperties(packet: string): Record<string, MetadataFields> {
+  const uris: Record<string, string> = {};
+  const declaration = /xmlns:([\w.-]+)\s*=\s*("([^"]*)"|'([^']*)')/g;
+  for (let match = declaration.exec(packet); match; match = declaration.exec(packet)) {
+    uris[match[1]] = match[3] ?? match[4];
+  }
+  const known = Object.keys(READ_NAMESPACES);
+  const group = (prefix: string): string => {
+    const uri = uris[prefix];
+    return known.filter((candidate) => READ_NAMESPACES[candidate] === uri)[0] ?? prefix;
+  };
+
+  // Values are grouped under the namespace of the top-level property, members of structures included
+  const properties: Record<string, MetadataFields> = {};
+  const set = (owner: string, key: string, value: MetadataValue) => {
+    const namespace = group(owner.split(':')[0]);
+    properties[namespace] = properties[namespace] ?? {};
+    properties[namespace][key] = typed(namespace, value);
+  };
+  const readValue = (element: Element, owner: string, key: string) => {
+    const attributes = readAttributes(element.attributes);
+    const resource = attributes.filter(([name]) => name === 'rdf:resource')[0];
+    const children = readElements(element.body ?? '');
+    const container = children.filter((child) => /^rdf:(Alt|Bag|Seq)$/.test(child.name))[0];
+
+    if (resource) {
+      set(owner, key, resource[1]);
+    } else if (container) {
+      const items = readElements(container.body ?? '')
+        .filter((child) => child.name === 'rdf:li' && !hasElements(child.body))
+        .map((child) => ({ text: unescapeXml(child.body ?? ''), lang: /xml:lang\s*=\s*["']([^"']*)["']/.exec(child.attributes) }));
+      if (container.name === 'rdf:Alt') {
+        const preferred = items.filter((item) => item.lang && item.lang[1] === 'x-default')[0] ?? items[0];
+        if (preferred) set(owner, key, preferred.text);
+      } else {
+        set(owner, key, items.map((item) => item.text));
+      }
+    } else if (children.length > 0 || attributes.some(([name]) => !isSyntax(name))) {
+      readMembers(element.attributes, element.body, owner, `${key}/`);
+    } else {
+      set(owner, key, unescapeXml(element.body ?? ''));
+    }
+  };
+  // Members of a structure, as attributes, child elements or those of a nested description
+  const readMembers = (attributes: string, body: string | null, owner: string, path: string) => {
+    for (const [name, value] of readAttributes(attributes)) {
+      if (!isSyntax(name)) set(owner, path + localName(name), value);
+    }
+    for (const child of readElements(body ?? '')) {
+      if (child.name === 'rdf:Description') readMembers(child.attributes, child.body, owner, path);
+      else readValue(child, owner, path + localName(child.name));
+    }
+  };
+
+  // Descriptions nested in structures are members, only the ones directly in rdf:RDF hold top-level properties
+  const rdf = packet.indexOf('<rdf:RDF');
+  const root = rdf === -1 ? null : readElements(packet.slice(rdf))[0];
+  const descriptions = root ? readElements(root.body ?? '').filter((element) => element.name === 'rdf:Description') : [];
+  for (const description of descriptions) {
+    for (const [name, value] of readAttributes(description.attributes)) {
+      if (!isSyntax(name)) set(name, localName(name), value);
+    }
+    for (const element of readElements(description.body ?? '')) {
+      readValue(element, element.name, localName(element.name));
+    }
+  }
+  return properties;
+}
+
+// Prefixed elements at the top level of the XML, text and anything else between them skipped
+function readElements(xml: string): Element[] {
+  const elements: Element[] = [];
+  const start = /<([\w.-]+:[\w.-]+)((?:\s+[^\s=>\/]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>/g;
+  for (let match = start.exec(xml); match; match = start.exec(xml)) {
+    const [open, name, attributes, empty] = match;
+    if (empty) {
+      elements.push({ name, attributes, body: null });
+      continue;
+    }
+    const end = closingTag(xml, name, match.index + open.length);
+    if (end === -1) break;
+    elements.push({ name, attributes, body: xml.slice(match.index + open.length, end) });
+    start.lastIndex = end + name.length + 3;
+  }
+  return elements;
+}
+
+// Offset of the tag closing an element opened before `from`, counting nested elements of the same name
+function closingTag(xml: string, name: string, from: number): number {
+  const tags = new RegExp(`<(/?)${name.replace(/\./g, '\\.')}(?=[\\s/>])[^>]*?(/?)>`, 'g');
+  tags.lastIndex = from;
+  let depth = 1;
+  for (let match = tags.exec(xml); match; match = tags.exec(xml)) {
+    if (match[1]) depth--;
+    else if (!match[2]) depth++;
+    if (depth === 0) return match.index;
+  }
+  return -1;
+}
+
+function readAttributes(attributes: string): Array<[string, string]> {
+  const pairs: Array<[string, string]> = [];
+  const attribute = /([\w.-]+:[\w.-]+)\s*=\s*("([^"]*)"|'([^']*)')/g;
+  for (let match = attribute.exec(attributes); match; match = attribute.exec(attributes)) {
+    pairs.push([match[1], unescapeXml(match[3] ?? match[4])]);
+  }
+  return pairs;
+}
+
+function isSyntax(name: string): boolean {
+  return SYNTAX_PREFIXES.indexOf(name.split(':')[0]) !== -1;
+}
+
+function localName(name: string): string {
+  return name.slice(name.indexOf(':') + 1);
+}
+
+function hasElements(body: string | null): boolean {
+  return body !== null && /<[\w.-]+:[\w.-]+/.test(body);
+}
+
+function typed(namespace: string, value: MetadataValue): MetadataValue {
+  if (typeof value !== 'string') return value;
+  if (value === 'True' || value === 'False') return value === 'True';
+  if (/^-?(0|[1-9]\d{0,14})$/.test(value)) return Number(value);
+  const fraction = /^(-?\d+)\/(\d+)$/.exec(value);
+  if (fraction && RATIONAL_PREFIXES.indexOf(namespace) !== -1 && Number(fraction[2]) !== 0) {
+    return Number(fraction[1]) / Number(fraction[2]);
+  }
+  return value;
+}
+
+function unescapeXml(value: string): string {
+  return value
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCharCode(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, decimal) => String.fromCharCode(parseInt(decimal, 10)))
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&')
+    .trim();
+}
+
+// One rdf:Description declaring the namespaces it uses
+function describe(properties: XmpProperty[]): string {
+  const prefixes = properties
+    .map((property) => property.name.split(':')[0])
+    .filter((prefix, i, all) => all.indexOf(prefix) === i);
+  for (const prefix of prefixes) {
+    if (!XMP_NAMESPACES[prefix]) {
+      throw new Error(`Unknown XMP namespace prefix ${prefix}`);
+    }
+  }
+  const namespaces = prefixes.map((prefix) => `\n  xmlns:${prefix}="${XMP_NAMESPACES[prefix]}"`).join('');
+  const body = properties.map(({ name, value, type }) => type === 'langAlt'
+    ? `  <${name}><rdf:Alt><rdf:li xml:lang="x-default">${escapeXml(value)}</rdf:li></rdf:Alt></${name}>`
+    : `  <${name}>${escapeXml(value)}</${name}>`
+  );
+  return [`<rdf:Description rdf:about=""${namespaces}>`].concat(body, ['</rdf:Description>']).join('\n');
+}
+
+// Drop a property written as an element or as an attribute of a description
+function removeProperty(packet: string, name: string): string {
+  const element = new RegExp(`\\s*<${name}(\\s[^>]*)?(/>|>[\\s\\S]*?</${name}>)`, 'g');
+  const attribute = new RegExp(`\\s${name}=("[^"]*"|'[^']*')`, 'g');
+  return packet.replace(element, '').replace(attribute, '');
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
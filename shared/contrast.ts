@@ -0,0 +1,142 @@
+/**
+ * Automatic watermark contrast
+ *
+ * The region under a watermark is summarized by its mean colour and the
+ * spread of its luminance. The fill keeps the hue of the background but is
+ * pushed towards white or black, whichever can stand out more, until it
+ * reaches the target WCAG contrast ratio against the worst-case pixel of the
+ * region. The outline is pushed the other way until it reaches the same
+ * ratio against the fill, so busy regions stay readable through the outline.
+ * Shared by the server and the client so both pick the same colours.
+ */
+
+export interface RegionStats {
+  mean: [number, number, number]; // Mean sRGB colour, 0-255
+  low: number; // 5th percentile of the relative luminance, 0-1
+  high: number; // 95th percentile of the relative luminance, 0-1
+}
+
+export interface ContrastColors {
+  fill: string; // #rrggbb
+  stroke: string; // #rrggbb
+  needsOutline: boolean; // The fill alone does not reach the target everywhere in the region
+}
+
+export const DEFAULT_CONTRAST_RATIO = 4.5; // WCAG AA for normal text
+export const MIN_CONTRAST_RATIO = 1.5;
+export const MAX_CONTRAST_RATIO = 7;
+
+const LOW_PERCENTILE = 0.05;
+const HIGH_PERCENTILE = 0.95;
+const SEARCH_STEPS = 16;
+
+// WCAG relative luminance of an sRGB colour
+export function relativeLuminance(r: number, g: number, b: number): number {
+  const channel = (value: number) => {
+    const c = value / 255;
+    return c <= 0.03928 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+  };
+  return 0.2126 * channel(r) + 0.7152 * channel(g) + 0.0722 * channel(b);
+}
+
+export function contrastRatio(luminanceA: number, luminanceB: number): number {
+  const lighter = Math.max(luminanceA, luminanceB);
+  const darker = Math.min(luminanceA, luminanceB);
+  return (lighter + 0.05) / (darker + 0.05);
+}
+
+/**
+ * Summarize interleaved pixel data (RGB or RGBA, alpha is ignored)
+ * Callers downscale the region first, every pixel is visited
+ */
+export function computeRegionStats(data: ArrayLike<number>, channels: number): RegionStats {
+  const histogram = new Array<number>(256).fill(0);
+  const sum = [0, 0, 0];
+  const count = Math.floor(data.length / channels);
+  if (count === 0) return { mean: [128, 128, 128], low: 0.2, high: 0.2 };
+
+  for (let i = 0; i < count; i++) {
+    const r = data[i * channels];
+    const g = data[i * channels + 1];
+    const b = data[i * channels + 2];
+    sum[0] += r;
+    sum[1] += g;
+    sum[2] += b;
+    histogram[Math.min(255, Math.round(relativeLuminance(r, g, b) * 255))]++;
+  }
+
+  const percentile = (fraction: number) => {
+    let seen = 0;
+    for (let bin = 0; bin < 256; bin++) {
+      seen += histogram[bin];
+      if (seen >= count * fraction) return bin;
+    }
+    return 255;
+  };
+
+  // Use the outer edge of each bin so the picked colours never fall short of the target
+  return {
+    mean: [sum[0] / count, sum[1] / count, sum[2] / count],
+    low: Math.max(0, (percentile(LOW_PERCENTILE) - 0.5) / 255),
+    high: Math.min(1, (percentile(HIGH_PERCENTILE) + 0.5) / 255),
+  };
+}
+
+// Pick fill and outline colours that reach `target` on the sampled region
+export function pickContrastColors(stats: RegionStats, target: number = DEFAULT_CONTRAST_RATIO): ContrastColors {
+  const ratio = Math.min(MAX_CONTRAST_RATIO, Math.max(MIN_CONTRAST_RATIO, target));
+
+  // A light fill has to stand out against the brightest pixels, a dark one against the darkest
+  const light = contrastRatio(1, stats.high) >= contrastRatio(stats.low, 0);
+  const worst = light ? stats.high : stats.low;
+  const fill = mixUntil(stats.mean, light ? 255 : 0, ratio, worst);
+  const fillLuminance = relativeLuminance(fill[0], fill[1], fill[2]);
+  const stroke = mixUntil(stats.mean, light ? 0 : 255, ratio, fillLuminance);
+
+  return {
+    fill: toHex(fill),
+    stroke: toHex(stroke),
+    needsOutline: contrastRatio(fillLuminance, worst) < ratio,
+  };
+}
+
+// Outline width used when the fill alone is not enough, in pixels
+export function autoOutlineWidth(size: number): number {
+  return Math.max(1, Math.round(size / 24));
+}
+
+/**
+ * Mix the colour towards white (255) or black (0) just far enough to reach
+ * the ratio against `luminance`, or all the way when it cannot be reached
+ */
+function mixUntil(color: [number, number, number], extreme: number, ratio: number, luminance: number): [number, number, number] {
+  // Round towards the extreme so converting to hex cannot lose contrast
+  const round = extreme > 0 ? Math.ceil : Math.floor;
+  const mix = (t: number): [number, number, number] => [
+    round(color[0] + (extreme - color[0]) * t),
+    round(color[1] + (extreme - color[1]) * t),
+    round(color[2] + (extreme - color[2]) * t),
+  ];
+  const reaches = (t: number) => {
+    const c = mix(t);
+    return contrastRatio(relativeLuminance(c[0], c[1], c[2]), luminance) >= ratio;
+  };
+
+  if (reaches(0)) return mix(0);
+  if (!reaches(1)) return mix(1);
+
+  let low = 0;
+  let high = 1;
+  for (let step = 0; step < SEARCH_STEPS; step++) {
+    const t = (low + high) / 2;
+    if (reaches(t)) high = t;
+    else low = t;
+  }
+  return mix(high);
+}
+
+function toHex(color: [number, number, number]): string {
+  return '#' + color
+    .map((value) => Math.min(255, Math.max(0, Math.round(value))).toString(16).padStart(2, '0'))
+    .join('');
+}
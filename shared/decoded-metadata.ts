@@ -0,0 +1,86 @@
+import { PLUS_VOCABULARY } from './xmp-rights';
+
+/**
+ * Decoded image metadata
+ *
+ * The EXIF IFDs, the IPTC-IIM record, the XMP properties and the text
+ * comments of an image as named, typed values, grouped by namespace, and the
+ * notices against AI training found among them. Returned by
+ * `/api/extract-exif`; shared so the client reads the response with the same
+ * types.
+ */
+
+export type MetadataValue = string | number | boolean | Array<string | number>;
+
+export type MetadataFields = Record<string, MetadataValue>;
+
+export type ExifIfdName = 'IFD0' | 'Exif' | 'GPS' | 'IFD1';
+
+export interface DecodedMetadata {
+  exif: Record<ExifIfdName, MetadataFields>;
+  iptc: MetadataFields; // Application record datasets by name
+  xmp: Record<string, MetadataFields>; // Properties by namespace prefix, then local name
+  comments: MetadataFields; // PNG text chunks by keyword
+}
+
+export type AiNoticeSource = 'EXIF' | 'IPTC' | 'XMP' | 'Comment';
+
+export interface AiNotice {
+  source: AiNoticeSource;
+  field: string; // Tag, dataset, prefixed XMP property or text keyword
+  value: string;
+  machineReadable: boolean; // A vocabulary value for crawlers rather than a sentence for people
+}
+
+// Words that make a rights statement about AI training or data mining
+const AI_TEXT = /\b(ai|artificial intelligence|machine[- ]learning|data[- ]mining|tdm)\b/i;
+// Keywords the "noai" convention of art sites adds
+const AI_KEYWORD = /^no-?(image)?ai$/i;
+
+// Fields holding rights statements, where a mention of AI is a notice; names and captions are not checked
+const EXIF_TEXT_FIELDS: Array<[ExifIfdName, string]> = [
+  ['IFD0', 'Copyright'], ['IFD0', 'ImageDescription'], ['IFD0', 'XPComment'], ['IFD0', 'XPSubject'], ['Exif', 'UserComment'],
+];
+const IPTC_TEXT_FIELDS = ['CopyrightNotice', 'SpecialInstructions'];
+const XMP_TEXT_FIELDS: Array<[string, string]> = [
+  ['dc', 'rights'], ['xmpRights', 'UsageTerms'], ['photoshop', 'Instructions'],
+];
+
+/**
+ * Notices against AI training in decoded metadata
+ *
+ * Machine-readable ones are a prohibiting PLUS data mining value, a TDMRep
+ * reservation and "noai" keywords. Rights statements count when they mention
+ * AI, machine learning or data mining.
+ */
+export function findAiNotices(metadata: DecodedMetadata): AiNotice[] {
+  const notices: AiNotice[] = [];
+  const text = (source: AiNoticeSource, field: string, value: MetadataValue | undefined) => {
+    if (typeof value === 'string' && AI_TEXT.test(value)) notices.push({ source, field, value, machineReadable: false });
+  };
+  const keywords = (source: AiNoticeSource, field: string, value: MetadataValue | undefined) => {
+    const list = typeof value === 'string' ? value.split(/[;,]/) : Array.isArray(value) ? value.map(String) : [];
+    list.map((keyword) => keyword.trim())
+      .filter((keyword) => AI_KEYWORD.test(keyword))
+      .forEach((keyword) => notices.push({ source, field, value: keyword, machineReadable: true }));
+  };
+
+  const plus = metadata.xmp.plus ?? {};
+  const dataMining = plus.DataMining;
+  if (typeof dataMining === 'string' && dataMining.replace(PLUS_VOCABULARY, '').indexOf('DMI-PROHIBITED') === 0) {
+    notices.push({ source: 'XMP', field: 'plus:DataMining', value: dataMining, machineReadable: true });
+  }
+  const reservation = (metadata.xmp.tdm ?? {}).reservation;
+  if (reservation === 1 || reservation === '1') {
+    notices.push({ source: 'XMP', field: 'tdm:reservation', value: '1', machineReadable: true });
+  }
+  keywords('XMP', 'dc:subject', (metadata.xmp.dc ?? {}).subject);
+  keywords('IPTC', 'Keywords', metadata.iptc.Keywords);
+  keywords('EXIF', 'XPKeywords', metadata.exif.IFD0.XPKeywords);
+
+  XMP_TEXT_FIELDS.forEach(([prefix, name]) => text('XMP', `${prefix}:${name}`, (metadata.xmp[prefix] ?? {})[name]));
+  IPTC_TEXT_FIELDS.forEach((name) => text('IPTC', name, metadata.iptc[name]));
+  EXIF_TEXT_FIELDS.forEach(([ifd, name]) => text('EXIF', name, metadata.exif[ifd][name]));
+  Object.keys(metadata.comments).forEach((keyword) => text('Comment', keyword, metadata.comments[keyword]));
+  return notices;
+}
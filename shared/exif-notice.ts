@@ -0,0 +1,119 @@
+import { resolveTemplate, type TemplateVariables } from './watermark-template';
+
+/**
+ * EXIF protection notice
+ *
+ * The EXIF tags written when EXIF protection is on. Every field is a
+ * template with the same variables as the watermark text, resolved against
+ * the upload; a field that resolves to nothing is not written, so the tag
+ * the upload already has stays. Artist is empty by default for that reason.
+ *
+ * Sent by the client as the `exifNotice` object of the processing routes.
+ * Shared by the server, which writes the tags, and the client, which
+ * previews them, so the preview shows what ends up in the file.
+ */
+
+export type ExifNoticeField = 'artist' | 'copyright' | 'imageDescription' | 'userComment' | 'xpComment' | 'xpKeywords';
+
+export type ExifNoticeSettings = Record<ExifNoticeField, string>;
+
+export const DEFAULT_EXIF_NOTICE: ExifNoticeSettings = {
+  artist: '',
+  copyright: 'DO NOT USE FOR AI TRAINING. Copyright {year} {artist}',
+  imageDescription: 'This image is not authorized for use in AI training datasets',
+  userComment: 'This image is protected and not authorized for AI training purposes',
+  xpComment: 'Not for AI training',
+  xpKeywords: 'noai;noimageai',
+};
+
+// EXIF tag each field is written to; ASCII tags cannot hold other characters, the Windows tags are UTF-16
+export const EXIF_NOTICE_TAGS: Record<ExifNoticeField, { tag: string; ascii: boolean }> = {
+  artist: { tag: 'Artist', ascii: true },
+  copyright: { tag: 'Copyright', ascii: true },
+  imageDescription: { tag: 'ImageDescription', ascii: true },
+  userComment: { tag: 'UserComment', ascii: true },
+  xpComment: { tag: 'XPComment', ascii: false },
+  xpKeywords: { tag: 'XPKeywords', ascii: false },
+};
+
+export const EXIF_NOTICE_FIELDS: ExifNoticeField[] = ['artist', 'copyright', 'imageDescription', 'userComment', 'xpComment', 'xpKeywords'];
+
+// Longest accepted template, EXIF has to fit in one JPEG segment along with the upload's own tags
+export const MAX_EXIF_NOTICE_LENGTH = 1000;
+
+// Letters and symbols libvips spells out when it converts text for an ASCII tag, accents are dropped separately
+const ASCII_REPLACEMENTS: Record<string, string> = {
+  '©': '(C)', '®': '(R)', '™': '(TM)', '–': '-', '—': '-', '‘': "'", '’': "'", '“': '"', '”': '"',
+  'Ł': 'L', 'ł': 'l', 'Ø': 'OE', 'ø': 'oe', 'ß': 'ss', 'Æ': 'AE', 'æ': 'ae', 'Œ': 'OE', 'œ': 'oe',
+};
+const REPLACED = new RegExp(`[${Object.keys(ASCII_REPLACEMENTS).join('')}]`, 'g');
+
+// Tags the settings produce for an image, by EXIF tag name; empty values are left out
+export function exifNoticeTags(settings: ExifNoticeSettings, variables: TemplateVariables): Record<string, string> {
+  const tags: Record<string, string> = {};
+  for (const field of EXIF_NOTICE_FIELDS) {
+    const { tag, ascii } = EXIF_NOTICE_TAGS[field];
+    const resolved = resolveTemplate(settings[field], variables).trim();
+    const value = ascii ? toExifAscii(resolved) : resolved;
+    if (value) tags[tag] = value;
+  }
+  return tags;
+}
+
+// The tags the client previewed, sent as JSON by tag name; null when malformed
+export function parseExifPreview(value: unknown): Record<string, string> | null {
+  let input: unknown = value;
+  if (typeof value === 'string') {
+    try {
+      input = JSON.parse(value);
+    } catch (error) {
+      return null;
+    }
+  }
+  if (!input || typeof input !== 'object' || Array.isArray(input)) return null;
+  const record = input as Record<string, unknown>;
+  return Object.keys(record).every((tag) => typeof record[tag] === 'string') ? record as Record<string, string> : null;
+}
+
+// Tags whose value differs between the notice the client previewed and the one resolved for writing
+export function exifNoticeDifferences(preview: Record<string, string>, written: Record<string, string>): string[] {
+  return Object.keys(preview)
+    .concat(Object.keys(written))
+    .filter((tag, i, tags) => tags.indexOf(tag) === i && preview[tag] !== written[tag]);
+}
+
+// Accents are dropped and common symbols spelled out, anything else becomes "?"
+export function toExifAscii(value: string): string {
+  return value
+    .replace(REPLACED, (symbol) => ASCII_REPLACEMENTS[symbol])
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^\x20-\x7e]/g, '?');
+}
+
+/**
+ * Parse the `exifNotice` field of a request, given as an object or as JSON
+ * in a multipart form. Missing fields fall back to the defaults; null when a
+ * template is too long or the JSON is malformed.
+ */
+export function parseExifNotice(value: unknown): ExifNoticeSettings | null {
+  let input: Record<string, unknown> = {};
+  if (typeof value === 'string' && value.trim() !== '') {
+    try {
+      input = JSON.parse(value);
+    } catch (error) {
+      return null;
+    }
+  } else if (value && typeof value === 'object') {
+    input = value as Record<string, unknown>;
+  }
+  if (!input || typeof input !== 'object') return null;
+
+  const settings = { ...DEFAULT_EXIF_NOTICE };
+  for (const field of EXIF_NOTICE_FIELDS) {
+    const raw = input[field] === undefined ? DEFAULT_EXIF_NOTICE[field] : input[field];
+    if (typeof raw !== 'string' || raw.length > MAX_EXIF_NOTICE_LENGTH) return null;
+    settings[field] = raw;
+  }
+  return settings;
+}
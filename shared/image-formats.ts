@@ -0,0 +1,173 @@
+/**
+ * Supported image formats
+ *
+ * Uploads are identified by their magic bytes rather than the file name or
+ * the browser-reported MIME type. Shared by the server, which validates and
+ * encodes, and the client, which checks files before uploading and names
+ * downloads after the format the server actually returned.
+ */
+
+export type ImageFormat = 'jpeg' | 'png' | 'webp' | 'avif' | 'tiff' | 'gif';
+
+// 'original' keeps the format of the uploaded file
+export type OutputFormat = ImageFormat | 'original';
+
+export const IMAGE_FORMATS: Record<ImageFormat, { label: string; contentType: string; extensions: string[] }> = {
+  jpeg: { label: 'JPEG', contentType: 'image/jpeg', extensions: ['.jpg', '.jpeg'] },
+  png: { label: 'PNG', contentType: 'image/png', extensions: ['.png'] },
+  webp: { label: 'WebP', contentType: 'image/webp', extensions: ['.webp'] },
+  avif: { label: 'AVIF', contentType: 'image/avif', extensions: ['.avif'] },
+  tiff: { label: 'TIFF', contentType: 'image/tiff', extensions: ['.tif', '.tiff'] },
+  gif: { label: 'GIF', contentType: 'image/gif', extensions: ['.gif'] },
+};
+
+export const OUTPUT_FORMATS: OutputFormat[] = ['original', 'jpeg', 'png', 'webp', 'avif', 'tiff', 'gif'];
+
+// Formats the fragile tamper seal survives in, as they can be written losslessly
+export const LOSSLESS_FORMATS: ImageFormat[] = ['png', 'webp', 'tiff'];
+
+// Formats that can hold every frame of an animation, others keep only the first frame
+export const ANIMATED_FORMATS: ImageFormat[] = ['gif', 'webp'];
+
+// Metadata the server writes into each format, requesting any other combination is rejected
+export type MetadataKind = 'exif' | 'xmp' | 'iptc' | 'c2pa';
+export const METADATA_FORMATS: Record<MetadataKind, ImageFormat[]> = {
+  exif: ['jpeg', 'png', 'webp', 'avif'], // The libvips TIFF and GIF savers drop EXIF
+  xmp: ['jpeg', 'png', 'webp', 'tiff'],
+  iptc: ['jpeg', 'png'],
+  c2pa: ['jpeg', 'png'],
+};
+
+// Number of leading bytes detectImageFormat needs
+export const MAGIC_BYTES_LENGTH = 64;
+
+export function detectImageFormat(bytes: Uint8Array): ImageFormat | null {
+  const ascii = (start: number, end: number) => String.fromCharCode.apply(null, Array.from(bytes.subarray(start, end)));
+  const startsWith = (signature: number[]) => signature.every((byte, i) => bytes[i] === byte);
+
+  if (startsWith([0xff, 0xd8, 0xff])) return 'jpeg';
+  if (startsWith([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return 'png';
+  if (ascii(0, 6) === 'GIF87a' || ascii(0, 6) === 'GIF89a') return 'gif';
+  if (ascii(0, 4) === 'RIFF' && ascii(8, 12) === 'WEBP') return 'webp';
+  // Little- or big-endian TIFF, including BigTIFF
+  if (startsWith([0x49, 0x49, 0x2a, 0x00]) || startsWith([0x4d, 0x4d, 0x00, 0x2a]) ||
+      startsWith([0x49, 0x49, 0x2b, 0x00]) || startsWith([0x4d, 0x4d, 0x00, 0x2b])) return 'tiff';
+
+  // AVIF is an ISO-BMFF file whose ftyp box lists an AVIF brand, as major or compatible brand
+  if (bytes.length >= 16 && ascii(4, 8) === 'ftyp') {
+    const boxSize = Math.min(bytes.length, (bytes[0] << 24 | bytes[1] << 16 | bytes[2] << 8 | bytes[3]) >>> 0);
+    for (let offset = 8; offset + 4 <= boxSize; offset += 4) {
+      if (offset === 12) continue; // Minor version, not a brand
+      const brand = ascii(offset, offset + 4);
+      if (brand === 'avif' || brand === 'avis') return 'avif';
+    }
+  }
+  return null;
+}
+
+/**
+ * Count the frames of a GIF or WebP file, 1 for still images and other formats
+ * Only walks the block and chunk structure, no pixel data is decoded
+ */
+export function countFrames(bytes: Uint8Array, format: ImageFormat): number {
+  if (format === 'gif') return countGifFrames(bytes);
+  if (format === 'webp') return countWebpFrames(bytes);
+  return 1;
+}
+
+function countGifFrames(bytes: Uint8Array): number {
+  // Skip the header, screen descriptor and global colour table
+  let offset = 13;
+  if (bytes[10] & 0x80) offset += 3 * (1 << ((bytes[10] & 0x07) + 1));
+
+  const skipSubBlocks = () => {
+    while (offset < bytes.length && bytes[offset] !== 0) offset += bytes[offset] + 1;
+    offset++;
+  };
+
+  let frames = 0;
+  while (offset < bytes.length) {
+    const introducer = bytes[offset];
+    if (introducer === 0x2c) {
+      // Image descriptor, optional local colour table, LZW code size and the image data
+      const packed = bytes[offset + 9];
+      offset += 10;
+      if (packed & 0x80) offset += 3 * (1 << ((packed & 0x07) + 1));
+      offset++;
+      skipSubBlocks();
+      frames++;
+    } else if (introducer === 0x21) {
+      offset += 2;
+      skipSubBlocks();
+    } else {
+      break; // Trailer or damaged data
+    }
+  }
+  return Math.max(1, frames);
+}
+
+function countWebpFrames(bytes: Uint8Array): number {
+  let frames = 0;
+  for (let offset = 12; offset + 8 <= bytes.length;) {
+    const fourcc = String.fromCharCode(bytes[offset], bytes[offset + 1], bytes[offset + 2], bytes[offset + 3]);
+    const size = (bytes[offset + 4] | bytes[offset + 5] << 8 | bytes[offset + 6] << 16 | bytes[offset + 7] << 24) >>> 0;
+    if (fourcc === 'ANMF') frames++;
+    offset += 8 + size + (size & 1); // Chunks are padded to an even size
+  }
+  return Math.max(1, frames);
+}
+
+/**
+ * Whether a JPEG or PNG file carries colour information that is lost when
+ * it is drawn to an 8-bit sRGB canvas: an ICC profile, CMYK or 16-bit samples
+ * Only walks the segment and chunk structure up to the image data
+ */
+export function hasColorData(bytes: Uint8Array, format: ImageFormat): boolean {
+  if (format === 'jpeg') return jpegHasColorData(bytes);
+  if (format === 'png') return pngHasColorData(bytes);
+  return false;
+}
+
+function jpegHasColorData(bytes: Uint8Array): boolean {
+  for (let offset = 2; offset + 4 <= bytes.length;) {
+    if (bytes[offset] !== 0xff) return false;
+    const marker = bytes[offset + 1];
+    if (marker === 0xff) {
+      offset++;
+      continue;
+    }
+    if (marker === 0xda) return false; // Start of scan, no more headers
+    const length = bytes[offset + 2] << 8 | bytes[offset + 3];
+    const identifier = String.fromCharCode.apply(null, Array.from(bytes.subarray(offset + 4, offset + 15)));
+    if (marker === 0xe2 && identifier === 'ICC_PROFILE') return true;
+    // Frame headers, except DHT, JPG and DAC which share the range, give the number of components
+    if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc && bytes[offset + 9] === 4) return true;
+    offset += 2 + length;
+  }
+  return false;
+}
+
+function pngHasColorData(bytes: Uint8Array): boolean {
+  if (bytes[24] === 16) return true; // Bit depth in IHDR
+  for (let offset = 8; offset + 8 <= bytes.length;) {
+    const length = (bytes[offset] << 24 | bytes[offset + 1] << 16 | bytes[offset + 2] << 8 | bytes[offset + 3]) >>> 0;
+    const type = String.fromCharCode(bytes[offset + 4], bytes[offset + 5], bytes[offset + 6], bytes[offset + 7]);
+    if (type === 'iCCP') return true;
+    if (type === 'IDAT') return false;
+    offset += 12 + length;
+  }
+  return false;
+}
+
+export function formatFromContentType(contentType: string): ImageFormat | null {
+  const type = contentType.split(';')[0].trim().toLowerCase();
+  const match = (Object.keys(IMAGE_FORMATS) as ImageFormat[]).filter((format) => IMAGE_FORMATS[format].contentType === type);
+  return match.length > 0 ? match[0] : null;
+}
+
+// Give a file name the extension of the format, keeping it when it already fits
+export function withFormatExtension(fileName: string, format: ImageFormat): string {
+  const extension = /\.[^.]+$/.exec(fileName)?.[0].toLowerCase();
+  if (extension && IMAGE_FORMATS[format].extensions.indexOf(extension) !== -1) return fileName;
+  return fileName.replace(/\.[^.]+$/, '') + IMAGE_FORMATS[format].extensions[0];
+}
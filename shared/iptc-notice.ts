@@ -0,0 +1,97 @@
+/**
+ * IPTC-IIM copyright notice
+ *
+ * Many asset management systems and news workflows only read the legacy
+ * IPTC-IIM record that Photoshop stores among its image resources, not EXIF
+ * or XMP. These are the fields of that record the notice fills in.
+ *
+ * Sent by the client as the `iptc` object of the processing routes. Shared by
+ * the server, which writes the record, and the client, which previews it.
+ */
+
+export interface IptcNoticeSettings {
+  enabled: boolean;
+  copyrightNotice: string; // 2:116 Copyright Notice
+  byline: string; // 2:80 By-line, the creator
+  credit: string; // 2:110 Credit
+  specialInstructions: string; // 2:40 Special Instructions
+}
+
+export type IptcTextField = 'copyrightNotice' | 'byline' | 'credit' | 'specialInstructions';
+
+export const DEFAULT_IPTC_NOTICE: IptcNoticeSettings = {
+  enabled: true,
+  copyrightNotice: 'DO NOT USE FOR AI TRAINING',
+  byline: '',
+  credit: '',
+  specialInstructions: 'Not for use in training artificial intelligence or machine learning models.',
+};
+
+// Dataset numbers in the application record (2) and the longest value the IIM specification allows, in bytes
+export const IPTC_FIELDS: Record<IptcTextField, { dataset: number; name: string; maxBytes: number }> = {
+  copyrightNotice: { dataset: 116, name: 'CopyrightNotice', maxBytes: 128 },
+  byline: { dataset: 80, name: 'By-line', maxBytes: 32 },
+  credit: { dataset: 110, name: 'Credit', maxBytes: 32 },
+  specialInstructions: { dataset: 40, name: 'SpecialInstructions', maxBytes: 256 },
+};
+
+const FIELD_ORDER: IptcTextField[] = ['byline', 'credit', 'copyrightNotice', 'specialInstructions'];
+
+export interface IptcField {
+  dataset: number; // Application record dataset
+  name: string;
+  value: string;
+}
+
+// Fields the settings produce, empty ones are left out
+export function iptcFields(settings: IptcNoticeSettings): IptcField[] {
+  if (!settings.enabled) return [];
+  return FIELD_ORDER
+    .filter((field) => settings[field] !== '')
+    .map((field) => ({ dataset: IPTC_FIELDS[field].dataset, name: IPTC_FIELDS[field].name, value: settings[field] }));
+}
+
+// Values are written as UTF-8, the limits count bytes
+export function iptcByteLength(value: string): number {
+  return new TextEncoder().encode(value).length;
+}
+
+/**
+ * Parse the `iptc` field of a request, given as an object or as JSON in a
+ * multipart form. Missing fields fall back to the defaults; null when a value
+ * is longer than the IIM limit of its field or the JSON is malformed.
+ */
+export function parseIptcNotice(value: unknown): IptcNoticeSettings | null {
+  let input: Record<string, unknown> = {};
+  if (typeof value === 'string' && value.trim() !== '') {
+    try {
+      input = JSON.parse(value);
+    } catch (error) {
+      return null;
+    }
+  } else if (value && typeof value === 'object') {
+    input = value as Record<string, unknown>;
+  }
+  if (!input || typeof input !== 'object') return null;
+
+  const defaults = DEFAULT_IPTC_NOTICE;
+  const text = (field: IptcTextField): string | null => {
+    const raw = input[field] === undefined ? defaults[field] : input[field];
+    if (typeof raw !== 'string') return null;
+    const trimmed = raw.trim();
+    return iptcByteLength(trimmed) > IPTC_FIELDS[field].maxBytes ? null : trimmed;
+  };
+  const copyrightNotice = text('copyrightNotice');
+  const byline = text('byline');
+  const credit = text('credit');
+  const specialInstructions = text('specialInstructions');
+  if (copyrightNotice === null || byline === null || credit === null || specialInstructions === null) return null;
+
+  return {
+    enabled: typeof input.enabled === 'boolean' ? input.enabled : defaults.enabled,
+    copyrightNotice,
+    byline,
+    credit,
+    specialInstructions,
+  };
+}
@@ -0,0 +1,81 @@
+/**
+ * Metadata privacy presets
+ *
+ * Cameras and editors leave GPS coordinates, serial numbers, owner names and
+ * proprietary maker notes in the files they write. Every preset but 'keep'
+ * removes all EXIF tags that are not on its allow-list, along with the XMP
+ * and IPTC blocks, text comments and the EXIF thumbnail. The protection
+ * notices are written after the scrub, so they are never removed.
+ *
+ * Shared by the server, which scrubs, and the client, which lists what a
+ * preset removes before the download.
+ */
+
+export type MetadataPreset = 'keep' | 'copyright' | 'camera' | 'notices';
+
+export const METADATA_PRESETS: MetadataPreset[] = ['keep', 'copyright', 'camera', 'notices'];
+
+// Where an entry was found: an EXIF IFD, a whole XMP or IPTC block, a text comment or the EXIF thumbnail
+export type MetadataGroup = 'IFD0' | 'Exif' | 'GPS' | 'Thumbnail' | 'XMP' | 'IPTC' | 'Comment';
+
+export interface MetadataEntry {
+  group: MetadataGroup;
+  name: string; // EXIF tag name, or a hex tag number for tags without one
+  value: string; // Display value, binary values as their size
+}
+
+// Entries that identify a place, a device or a person
+export type SensitiveKind = 'location' | 'serial' | 'owner' | 'maker-note';
+
+export const SENSITIVE_LABELS: Record<SensitiveKind, string> = {
+  location: 'GPS location',
+  serial: 'Serial number',
+  owner: 'Owner name',
+  'maker-note': 'Maker notes',
+};
+
+// Tags describing the image rather than the photo, kept by every preset; encoders write the versions and dimensions anyway
+const LAYOUT_TAGS = [
+  'Orientation', 'XResolution', 'YResolution', 'ResolutionUnit', 'YCbCrPositioning', 'ColorSpace',
+  'ExifVersion', 'FlashpixVersion', 'PixelXDimension', 'PixelYDimension',
+];
+
+// EXIF tags each preset keeps besides the layout tags, null keeps all metadata
+const ALLOWED_TAGS: Record<MetadataPreset, string[] | null> = {
+  keep: null,
+  copyright: ['Copyright'],
+  camera: [
+    'Make', 'Model', 'LensMake', 'LensModel', 'LensSpecification',
+    'ExposureTime', 'FNumber', 'ExposureProgram', 'ISOSpeedRatings', 'ExposureBiasValue',
+    'MeteringMode', 'Flash', 'FocalLength', 'FocalLengthIn35mmFilm', 'WhiteBalance', 'ExposureMode',
+  ],
+  notices: [],
+};
+
+const SERIAL_TAGS = ['BodySerialNumber', 'LensSerialNumber', 'ImageUniqueID'];
+const OWNER_TAGS = ['CameraOwnerName'];
+
+export function parseMetadataPreset(value: unknown): MetadataPreset | null {
+  return (METADATA_PRESETS as unknown[]).indexOf(value) !== -1 ? value as MetadataPreset : null;
+}
+
+// Whether an EXIF tag of the group survives the preset
+export function keepsExifTag(preset: MetadataPreset, group: MetadataGroup, name: string): boolean {
+  const allowed = ALLOWED_TAGS[preset];
+  if (allowed === null) return true;
+  if (group !== 'IFD0' && group !== 'Exif') return false;
+  return LAYOUT_TAGS.indexOf(name) !== -1 || allowed.indexOf(name) !== -1;
+}
+
+// Entries the preset removes, in the order they were read
+export function removedEntries(entries: MetadataEntry[], preset: MetadataPreset): MetadataEntry[] {
+  return entries.filter((entry) => !keepsExifTag(preset, entry.group, entry.name));
+}
+
+export function sensitiveKind(entry: MetadataEntry): SensitiveKind | null {
+  if (entry.group === 'GPS') return 'location';
+  if (entry.name === 'MakerNote') return 'maker-note';
+  if (SERIAL_TAGS.indexOf(entry.name) !== -1) return 'serial';
+  if (OWNER_TAGS.indexOf(entry.name) !== -1) return 'owner';
+  return null;
+}
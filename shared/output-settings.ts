@@ -0,0 +1,114 @@
+import { OUTPUT_FORMATS, type OutputFormat } from './image-formats';
+import { parseMetadataPreset, type MetadataPreset } from './metadata-privacy';
+
+/**
+ * Output encoding settings
+ *
+ * Sent by the client as the `output` object of every processing route. Each
+ * format only reads its own options, so a single object can follow the user
+ * switching between formats without losing anything. Missing fields fall
+ * back to the defaults, which match sharp's own encoder defaults.
+ */
+
+export type ChromaSubsampling = '4:2:0' | '4:4:4';
+
+// 'preserve' keeps the embedded ICC profile, CMYK and 16-bit depth where the output format can hold them
+export type ColorMode = 'preserve' | 'srgb';
+
+// ICC rendering intent used when colours are converted to sRGB
+export type RenderingIntent = 'perceptual' | 'relative' | 'saturation';
+
+export const RENDERING_INTENTS: RenderingIntent[] = ['perceptual', 'relative', 'saturation'];
+
+export interface OutputSettings {
+  format: OutputFormat;
+  jpegQuality: number; // 1-100, also used for lossy WebP
+  mozjpeg: boolean; // Trellis quantisation and optimised scans, smaller files for the same quality; always progressive
+  progressive: boolean; // Progressive JPEG, interlaced PNG
+  chromaSubsampling: ChromaSubsampling; // JPEG, 4:4:4 keeps sharp colour edges
+  pngCompressionLevel: number; // 0-9, only changes size and speed
+  pngPalette: boolean; // Quantise to at most 256 colours, lossy
+  webpEffort: number; // 0-6
+  avifEffort: number; // 0-9
+  colorMode: ColorMode;
+  renderingIntent: RenderingIntent;
+  metadataPreset: MetadataPreset; // Metadata allow-list, 'keep' removes nothing
+}
+
+/**
+ * Reported by the processing routes in the X-Output-Quality header when the
+ * lossy encoder removed a protection at the chosen quality and the image was
+ * written at a higher one instead
+ */
+export interface RaisedQuality {
+  requested: number; // Quality the settings asked for
+  quality: number | null; // Quality the image was written at, null when written losslessly
+  stages: string[]; // Output check stages lost at the requested quality, 'noise' or 'invisibleWatermark'
+}
+
+export const DEFAULT_OUTPUT_SETTINGS: OutputSettings = {
+  format: 'original',
+  jpegQuality: 80,
+  mozjpeg: false,
+  progressive: false,
+  chromaSubsampling: '4:2:0',
+  pngCompressionLevel: 6,
+  pngPalette: false,
+  webpEffort: 4,
+  avifEffort: 4,
+  colorMode: 'preserve',
+  renderingIntent: 'perceptual',
+  metadataPreset: 'keep',
+};
+
+/**
+ * Parse the `output` field of a request, given as an object or as JSON in a
+ * multipart form. Numbers are clamped to their ranges; null when the format,
+ * chroma subsampling, colour mode, rendering intent or metadata preset is not
+ * supported or the JSON is malformed.
+ */
+export function parseOutputSettings(value: unknown): OutputSettings | null {
+  let input: Record<string, unknown> = {};
+  if (typeof value === 'string' && value.trim() !== '') {
+    try {
+      input = JSON.parse(value);
+    } catch (error) {
+      return null;
+    }
+  } else if (value && typeof value === 'object') {
+    input = value as Record<string, unknown>;
+  }
+  if (!input || typeof input !== 'object') return null;
+
+  const defaults = DEFAULT_OUTPUT_SETTINGS;
+  const format = input.format === undefined ? defaults.format : input.format;
+  const chromaSubsampling = input.chromaSubsampling === undefined ? defaults.chromaSubsampling : input.chromaSubsampling;
+  if ((OUTPUT_FORMATS as unknown[]).indexOf(format) === -1) return null;
+  if (chromaSubsampling !== '4:2:0' && chromaSubsampling !== '4:4:4') return null;
+  const colorMode = input.colorMode === undefined ? defaults.colorMode : input.colorMode;
+  const renderingIntent = input.renderingIntent === undefined ? defaults.renderingIntent : input.renderingIntent;
+  if (colorMode !== 'preserve' && colorMode !== 'srgb') return null;
+  if ((RENDERING_INTENTS as unknown[]).indexOf(renderingIntent) === -1) return null;
+  const metadataPreset = parseMetadataPreset(input.metadataPreset === undefined ? defaults.metadataPreset : input.metadataPreset);
+  if (!metadataPreset) return null;
+
+  return {
+    format: format as OutputFormat,
+    jpegQuality: clampInteger(input.jpegQuality, 1, 100, defaults.jpegQuality),
+    mozjpeg: typeof input.mozjpeg === 'boolean' ? input.mozjpeg : defaults.mozjpeg,
+    progressive: typeof input.progressive === 'boolean' ? input.progressive : defaults.progressive,
+    chromaSubsampling,
+    pngCompressionLevel: clampInteger(input.pngCompressionLevel, 0, 9, defaults.pngCompressionLevel),
+    pngPalette: typeof input.pngPalette === 'boolean' ? input.pngPalette : defaults.pngPalette,
+    webpEffort: clampInteger(input.webpEffort, 0, 6, defaults.webpEffort),
+    avifEffort: clampInteger(input.avifEffort, 0, 9, defaults.avifEffort),
+    colorMode,
+    renderingIntent: renderingIntent as RenderingIntent,
+    metadataPreset,
+  };
+}
+
+function clampInteger(value: unknown, min: number, max: number, fallback: number): number {
+  const number = typeof value === 'number' ? value : parseFloat(String(value));
+  return isFinite(number) ? Math.min(max, Math.max(min, Math.round(number))) : fallback;
+}
@@ -0,0 +1,46 @@
+import type { AiNotice } from './decoded-metadata';
+
+/**
+ * Protection verification report
+ *
+ * What `/api/verify` found in an image: one check per protection the
+ * processing routes can apply, each passed or failed with a sentence of
+ * details. Shared by the server, which runs the checks, and the client, which
+ * shows the report.
+ */
+
+export type ProtectionCheckId = 'exifNotice' | 'xmpRights' | 'iptcNotice' | 'c2pa' | 'invisibleWatermark' | 'noiseSignature';
+
+export const PROTECTION_CHECK_LABELS: Record<ProtectionCheckId, string> = {
+  exifNotice: 'EXIF notice',
+  xmpRights: 'XMP data mining and TDM properties',
+  iptcNotice: 'IPTC copyright notice',
+  c2pa: 'C2PA manifest',
+  invisibleWatermark: 'Invisible watermark',
+  noiseSignature: 'Adversarial noise signature',
+};
+
+export interface ProtectionCheck {
+  id: ProtectionCheckId;
+  passed: boolean;
+  details: string;
+  fields: Record<string, string>; // What was found, by tag or property name
+}
+
+export interface VerificationReport {
+  format: string | null;
+  width: number | null;
+  height: number | null;
+  checks: ProtectionCheck[];
+  passed: number; // Checks passed out of checks.length
+  aiNotices: AiNotice[];
+}
+
+// Stages processImage checks in the file it wrote before returning it
+export type ProtectionStage = 'watermark' | 'exifNotice' | 'xmpRights' | 'iptcNotice' | 'noise' | 'invisibleWatermark' | 'tamperSeal' | 'c2paManifest';
+
+// A requested stage that did not take effect, sent with a 422 response
+export interface StageFailure {
+  stage: ProtectionStage;
+  message: string;
+}
@@ -0,0 +1,137 @@
+/**
+ * Watermark text templates
+ *
+ * `{name}` is replaced by the value of a per-image variable and
+ * `{name|fallback}` uses the fallback when the value is empty. `{{` and `}}`
+ * produce literal braces. Unknown names are left in the text as written, so
+ * typos stay visible in the preview. Shared by the server and the client so
+ * the preview shows exactly what the server will render.
+ */
+
+export interface TemplateVariables {
+  filename: string; // Original file name without extension
+  artist: string; // EXIF Artist
+  camera: string; // EXIF Make and Model
+  taken: string; // EXIF DateTimeOriginal as YYYY-MM-DD
+  takenYear: string; // Year of DateTimeOriginal
+  date: string; // Current date as YYYY-MM-DD (UTC)
+  year: string; // Current year (UTC)
+  hash: string; // SHA-256 of the original file, hex
+}
+
+// Values the variables are built from
+export interface TemplateSource {
+  fileName: string;
+  hash: string;
+  artist?: string;
+  make?: string;
+  model?: string;
+  dateTimeOriginal?: string; // EXIF format, YYYY:MM:DD HH:MM:SS
+  now?: Date;
+}
+
+export const TEMPLATE_VARIABLES: { name: string; description: string }[] = [
+  { name: 'filename', description: 'Original file name' },
+  { name: 'artist', description: 'EXIF Artist' },
+  { name: 'camera', description: 'Camera make and model' },
+  { name: 'taken', description: 'Date taken (YYYY-MM-DD)' },
+  { name: 'takenYear', description: 'Year taken' },
+  { name: 'date', description: "Today's date (YYYY-MM-DD)" },
+  { name: 'year', description: 'Current year' },
+  { name: 'hash8', description: 'First 8 hex digits of the content hash, any length from 1 to 64 works' },
+];
+
+const VARIABLE_NAMES: (keyof TemplateVariables)[] = ['filename', 'artist', 'camera', 'taken', 'takenYear', 'date', 'year', 'hash'];
+const MAX_VARIABLE_LENGTH = 1000;
+
+const TOKEN = /\{\{|\}\}|\{([A-Za-z][A-Za-z0-9]*)(?:\|([^{}]*))?\}/g;
+
+export function buildTemplateVariables(source: TemplateSource): TemplateVariables {
+  const now = (source.now ?? new Date()).toISOString();
+  const taken = /^(\d{4}):(\d{2}):(\d{2})/.exec(source.dateTimeOriginal ?? '');
+  const make = (source.make ?? '').trim();
+  const model = (source.model ?? '').trim();
+
+  return {
+    filename: source.fileName.replace(/^.*[\\/]/, '').replace(/\.[^.]+$/, ''),
+    artist: (source.artist ?? '').trim(),
+    // Most models already start with the make ("Canon EOS R5"), so avoid repeating it
+    camera: model.toLowerCase().startsWith(make.toLowerCase()) ? model : `${make} ${model}`.trim(),
+    taken: taken ? `${taken[1]}-${taken[2]}-${taken[3]}` : '',
+    takenYear: taken ? taken[1] : '',
+    date: now.slice(0, 10),
+    year: now.slice(0, 4),
+    hash: source.hash.toLowerCase(),
+  };
+}
+
+// Whether the text uses any template syntax, so callers can skip gathering variables
+export function hasTemplateSyntax(template: string): boolean {
+  TOKEN.lastIndex = 0;
+  return TOKEN.test(template);
+}
+
+export function resolveTemplate(template: string, variables: TemplateVariables): string {
+  let substituted = false;
+  const resolved = template.replace(TOKEN, (token, name: string | undefined, fallback: string | undefined) => {
+    if (token === '{{') return '{';
+    if (token === '}}') return '}';
+
+    const value = lookupVariable(name!, variables);
+    if (value === null) return token;
+    substituted = true;
+    return value || (fallback ?? '');
+  });
+
+  // Empty variables leave doubled spaces behind ("© {artist} 2024")
+  return substituted ? resolved.replace(/\s{2,}/g, ' ').trim() : resolved;
+}
+
+function lookupVariable(name: string, variables: TemplateVariables): string | null {
+  const hashPrefix = /^hash(\d{1,2})$/.exec(name);
+  if (hashPrefix) {
+    const length = parseInt(hashPrefix[1], 10);
+    return length >= 1 && length <= 64 ? variables.hash.slice(0, length) : null;
+  }
+  return Object.prototype.hasOwnProperty.call(variables, name)
+    ? variables[name as keyof TemplateVariables]
+    : null;
+}
+
+/**
+ * Parse variables sent with a request, given as an object or as JSON in a
+ * multipart form. The client sends them when it uploads a re-encoded copy,
+ * whose EXIF and hash are not the original's; null when a value is missing,
+ * too long or the JSON is malformed.
+ */
+export function parseTemplateVariables(value: unknown): TemplateVariables | null {
+  let input: unknown = value;
+  if (typeof value === 'string') {
+    try {
+      input = JSON.parse(value);
+    } catch (error) {
+      return null;
+    }
+  }
+  if (!input || typeof input !== 'object') return null;
+
+  const record = input as Record<string, unknown>;
+  const variables = {} as TemplateVariables;
+  for (const name of VARIABLE_NAMES) {
+    const raw = record[name];
+    if (typeof raw !== 'string' || raw.length > MAX_VARIABLE_LENGTH) return null;
+    variables[name] = raw;
+  }
+  return /^[0-9a-f]{64}$/.test(variables.hash) ? variables : null;
+}
+
+/**
+ * Parse the day the client resolved {date} and {year} for its preview, as
+ * YYYY-MM-DD. Using it keeps a notice resolved near midnight or on a client
+ * with a wrong clock the same as the preview; null when it is not a date.
+ */
+export function parseTemplateDate(value: unknown): Date | null {
+  if (typeof value !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(value)) return null;
+  const date = new Date(`${value}T00:00:00Z`);
+  return !isNaN(date.getTime()) && date.toISOString().slice(0, 10) === value ? date : null;
+}
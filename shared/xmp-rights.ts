@@ -0,0 +1,145 @@
+/**
+ * Machine-readable "do not train" notices for XMP
+ *
+ * A free-text copyright string only tells people. Dataset tools and crawlers
+ * read these XMP properties instead:
+ *
+ * - `plus:DataMining`, the PLUS License Data Format value for data mining
+ * - `xmpRights:WebStatement` and `xmpRights:UsageTerms`, Adobe's rights schema
+ * - `dc:rights`, the Dublin Core rights statement
+ * - `tdm:reservation` and `tdm:policy`, the W3C TDM Reservation Protocol
+ *
+ * Sent by the client as the `xmp` object of the processing routes. Shared by
+ * the server, which writes the packet, and the client, which previews the
+ * properties.
+ */
+
+// PLUS data mining vocabulary, written as URIs below PLUS_VOCABULARY
+export type DataMining =
+  | 'DMI-UNSPECIFIED'
+  | 'DMI-ALLOWED'
+  | 'DMI-PROHIBITED-AIMLTRAINING'
+  | 'DMI-PROHIBITED-GENAIMLTRAINING'
+  | 'DMI-PROHIBITED-EXCEPTSEARCHENGINEINDEXING'
+  | 'DMI-PROHIBITED';
+
+export const DATA_MINING_VALUES: DataMining[] = [
+  'DMI-UNSPECIFIED',
+  'DMI-ALLOWED',
+  'DMI-PROHIBITED-AIMLTRAINING',
+  'DMI-PROHIBITED-GENAIMLTRAINING',
+  'DMI-PROHIBITED-EXCEPTSEARCHENGINEINDEXING',
+  'DMI-PROHIBITED',
+];
+
+export const PLUS_VOCABULARY = 'http://ns.useplus.org/ldf/vocab/';
+
+export const XMP_NAMESPACES: Record<string, string> = {
+  dc: 'http://purl.org/dc/elements/1.1/',
+  xmpRights: 'http://ns.adobe.com/xap/1.0/rights/',
+  plus: 'http://ns.useplus.org/ldf/xmp/1.0/',
+  tdm: 'http://www.w3.org/ns/tdmrep/',
+  imageshield: 'urn:imageshield:xmp:1.0:', // How the adversarial noise was drawn
+};
+
+export interface XmpRightsSettings {
+  enabled: boolean;
+  dataMining: DataMining;
+  rights: string; // dc:rights, also marks the image as copyrighted
+  usageTerms: string; // xmpRights:UsageTerms
+  webStatement: string; // xmpRights:WebStatement, http(s) URL of the licence page
+  tdmReservation: boolean; // tdm:reservation 1, text and data mining rights are reserved
+  tdmPolicy: string; // tdm:policy, http(s) URL of a TDMRep policy
+}
+
+export const DEFAULT_XMP_RIGHTS: XmpRightsSettings = {
+  enabled: true,
+  dataMining: 'DMI-PROHIBITED-AIMLTRAINING',
+  rights: 'All rights reserved. Not for AI training.',
+  usageTerms: 'This image may not be used to train artificial intelligence or machine learning models.',
+  webStatement: '',
+  tdmReservation: true,
+  tdmPolicy: '',
+};
+
+// Longest accepted text, the whole packet has to fit in one JPEG segment
+export const MAX_XMP_TEXT_LENGTH = 2000;
+
+// How a property is written: a simple value (text, URL, boolean or integer) or a language alternative
+export type XmpValueType = 'text' | 'langAlt';
+
+export interface XmpProperty {
+  name: string; // Prefixed with one of XMP_NAMESPACES
+  value: string;
+  type: XmpValueType;
+}
+
+// Properties the settings produce, empty fields are left out
+export function xmpProperties(settings: XmpRightsSettings): XmpProperty[] {
+  if (!settings.enabled) return [];
+
+  const properties: XmpProperty[] = [
+    { name: 'plus:DataMining', value: PLUS_VOCABULARY + settings.dataMining, type: 'text' },
+  ];
+  if (settings.rights) {
+    properties.push({ name: 'dc:rights', value: settings.rights, type: 'langAlt' });
+    properties.push({ name: 'xmpRights:Marked', value: 'True', type: 'text' });
+  }
+  if (settings.usageTerms) properties.push({ name: 'xmpRights:UsageTerms', value: settings.usageTerms, type: 'langAlt' });
+  if (settings.webStatement) properties.push({ name: 'xmpRights:WebStatement', value: settings.webStatement, type: 'text' });
+  if (settings.tdmReservation) {
+    properties.push({ name: 'tdm:reservation', value: '1', type: 'text' });
+    if (settings.tdmPolicy) properties.push({ name: 'tdm:policy', value: settings.tdmPolicy, type: 'text' });
+  }
+  return properties;
+}
+
+/**
+ * Parse the `xmp` field of a request, given as an object or as JSON in a
+ * multipart form. Missing fields fall back to the defaults; null when the
+ * data mining value is unknown, a URL is not http(s), a text is too long or
+ * the JSON is malformed.
+ */
+export function parseXmpRights(value: unknown): XmpRightsSettings | null {
+  let input: Record<string, unknown> = {};
+  if (typeof value === 'string' && value.trim() !== '') {
+    try {
+      input = JSON.parse(value);
+    } catch (error) {
+      return null;
+    }
+  } else if (value && typeof value === 'object') {
+    input = value as Record<string, unknown>;
+  }
+  if (!input || typeof input !== 'object') return null;
+
+  const defaults = DEFAULT_XMP_RIGHTS;
+  const dataMining = input.dataMining === undefined ? defaults.dataMining : input.dataMining;
+  if ((DATA_MINING_VALUES as unknown[]).indexOf(dataMining) === -1) return null;
+
+  const text = (field: 'rights' | 'usageTerms' | 'webStatement' | 'tdmPolicy'): string | null => {
+    const raw = input[field] === undefined ? defaults[field] : input[field];
+    if (typeof raw !== 'string' || raw.length > MAX_XMP_TEXT_LENGTH) return null;
+    return raw.trim();
+  };
+  const rights = text('rights');
+  const usageTerms = text('usageTerms');
+  const webStatement = text('webStatement');
+  const tdmPolicy = text('tdmPolicy');
+  if (rights === null || usageTerms === null || webStatement === null || tdmPolicy === null) return null;
+  if ((webStatement && !isWebUrl(webStatement)) || (tdmPolicy && !isWebUrl(tdmPolicy))) return null;
+
+  return {
+    enabled: typeof input.enabled === 'boolean' ? input.enabled : defaults.enabled,
+    dataMining: dataMining as DataMining,
+    rights,
+    usageTerms,
+    webStatement,
+    tdmReservation: typeof input.tdmReservation === 'boolean' ? input.tdmReservation : defaults.tdmReservation,
+    tdmPolicy,
+  };
+}
+
+export function isWebUrl(value: string): boolean {
+  return /^https?:\/\/[^\s"<>]+$/i.test(value);
+}